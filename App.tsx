@@ -1,66 +1,242 @@
 
-import React, { useState, useEffect } from 'react';
-import { Invoice, InvoiceStatus, ViewState, InventoryItem, TransactionType } from './types';
+import React, { useState, useEffect, useMemo } from 'react';
+import { Invoice, InvoiceStatus, ViewState, InventoryItem, TransactionType, Party, Product, BusinessSettings, Location, StockTransfer, Stocktake, AuthSession, Permission, User, Business, ImportResult } from './types';
 import { Dashboard } from './components/Dashboard';
 import { InvoiceForm } from './components/InvoiceForm';
 import { InventoryList } from './components/InventoryList';
 import { Reports } from './components/Reports';
+import { PaymentsPanel } from './components/PaymentsPanel';
+import { PartyList } from './components/PartyList';
+import { ProductList } from './components/ProductList';
+import { SettingsPanel } from './components/SettingsPanel';
+import { ReorderList } from './components/ReorderList';
+import { StockTransfers } from './components/StockTransfers';
+import { StockCount } from './components/StockCount';
+import { AuditLog } from './components/AuditLog';
+import { DocumentHistory } from './components/DocumentHistory';
+import { EmailPanel } from './components/EmailPanel';
+import { ImportWizard } from './components/ImportWizard';
 import { ChatAssistant } from './components/ChatAssistant';
-import { MongoService } from './services/mongo';
+import { LoginScreen } from './components/LoginScreen';
+import { MongoService, StockShortageError } from './services/mongo';
+import { getBalanceDue } from './services/payments';
+import { homeStateOf } from './services/gst';
+import { DEFAULT_NUMBER_SERIES, buildConversion, buildReturn, canConvert, canReturn, convertsTo, getReturnLimits, isNoteType, isOrderType, noteTypeFor } from './services/documents';
 import {
   LayoutDashboard,
   Receipt,
   Settings,
+  ScrollText,
   Plus,
   Menu,
   ChevronRight,
   Package,
   Truck,
-  PieChart
+  PieChart,
+  Users,
+  Boxes,
+  ShoppingCart,
+  FileText,
+  ClipboardList,
+  Undo2,
+  Redo2,
+  ArrowLeftRight,
+  ClipboardCheck,
+  LogOut,
+  Building2,
+  Loader2,
+  FileUp
 } from 'lucide-react';
 
+const LIST_VIEWS: Record<TransactionType, ViewState> = {
+  SALE: 'SALES',
+  PURCHASE: 'PURCHASES',
+  QUOTATION: 'QUOTATIONS',
+  PURCHASE_ORDER: 'PURCHASE_ORDERS',
+  CREDIT_NOTE: 'CREDIT_NOTES',
+  DEBIT_NOTE: 'DEBIT_NOTES',
+};
+
+const CREATE_VIEWS: Record<TransactionType, ViewState> = {
+  SALE: 'CREATE_SALE',
+  PURCHASE: 'CREATE_PURCHASE',
+  QUOTATION: 'CREATE_QUOTATION',
+  PURCHASE_ORDER: 'CREATE_PURCHASE_ORDER',
+  CREDIT_NOTE: 'CREATE_CREDIT_NOTE',
+  DEBIT_NOTE: 'CREATE_DEBIT_NOTE',
+};
+
+// Notes have no create button; they are raised from the bill or purchase invoice
+const LIST_CONFIG: Record<TransactionType, { title: string; createLabel?: string; numberLabel: string; partyLabel: string; empty: string; color: string }> = {
+  SALE: { title: 'Customer Bills (Sales)', createLabel: 'Create Bill', numberLabel: 'Bill No.', partyLabel: 'Customer', empty: 'bills', color: 'bg-emerald-600 hover:bg-emerald-700' },
+  PURCHASE: { title: 'My Purchases (Invoices)', createLabel: 'Add Purchase', numberLabel: 'Invoice No.', partyLabel: 'Vendor', empty: 'purchases', color: 'bg-rose-600 hover:bg-rose-700' },
+  QUOTATION: { title: 'Quotations', createLabel: 'New Quotation', numberLabel: 'Quotation No.', partyLabel: 'Customer', empty: 'quotations', color: 'bg-sky-600 hover:bg-sky-700' },
+  PURCHASE_ORDER: { title: 'Purchase Orders', createLabel: 'New Purchase Order', numberLabel: 'PO No.', partyLabel: 'Vendor', empty: 'purchase orders', color: 'bg-amber-600 hover:bg-amber-700' },
+  CREDIT_NOTE: { title: 'Credit Notes (Sales Returns)', numberLabel: 'Credit Note No.', partyLabel: 'Customer', empty: 'credit notes', color: 'bg-teal-600 hover:bg-teal-700' },
+  DEBIT_NOTE: { title: 'Debit Notes (Purchase Returns)', numberLabel: 'Debit Note No.', partyLabel: 'Vendor', empty: 'debit notes', color: 'bg-orange-600 hover:bg-orange-700' },
+};
+
 const App: React.FC = () => {
   const [view, setView] = useState<ViewState>('DASHBOARD');
+  const [session, setSession] = useState<AuthSession | null>(null);
+  const [isCheckingSession, setIsCheckingSession] = useState(true);
+  const [users, setUsers] = useState<User[]>([]);
+  const [businesses, setBusinesses] = useState<Business[]>([]);
+  const [businessId, setBusinessId] = useState<string | null>(null);
   const [transactions, setTransactions] = useState<Invoice[]>([]);
   const [inventory, setInventory] = useState<InventoryItem[]>([]);
+  const [parties, setParties] = useState<Party[]>([]);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [locations, setLocations] = useState<Location[]>([]);
+  const [transfers, setTransfers] = useState<StockTransfer[]>([]);
+  const [stocktakes, setStocktakes] = useState<Stocktake[]>([]);
+  const [settings, setSettings] = useState<BusinessSettings>({ costingMethod: 'WEIGHTED_AVERAGE', negativeStockPolicy: 'WARN', numberSeries: DEFAULT_NUMBER_SERIES });
   const [editingId, setEditingId] = useState<string | null>(null);
+  const [conversion, setConversion] = useState<Invoice | null>(null); // Bill made from a quotation / PO, or a note from a bill
   const [isSidebarOpen, setIsSidebarOpen] = useState(true);
 
+  const can = (permission: Permission) => !!session?.permissions.includes(permission);
+
+  // Nothing of one business's data stays on screen in another
+  const clearBusinessData = () => {
+    setView('DASHBOARD');
+    setEditingId(null);
+    setTransactions([]);
+    setParties([]);
+    setProducts([]);
+    setLocations([]);
+    setTransfers([]);
+    setStocktakes([]);
+  };
+
+  // Nor of the previous user's once they are signed out
+  const clearSession = () => {
+    setSession(null);
+    clearBusinessData();
+    setUsers([]);
+    setBusinesses([]);
+    setBusinessId(null);
+  };
+
+  // Pick up a session from an earlier visit; a 401 later on signs the user out
+  useEffect(() => {
+    MongoService.onSignedOut(clearSession);
+    MongoService.getSession().then(current => {
+      setSession(current);
+      setIsCheckingSession(false);
+    });
+    return () => MongoService.onSignedOut(null);
+  }, []);
+
+  const signOut = async () => {
+    await MongoService.signOut();
+    clearSession();
+  };
+
+  // Work in the business last used on this browser if the user still has it, otherwise the first
+  useEffect(() => {
+    if (!session) return;
+    MongoService.getBusinesses().then(found => {
+      setBusinesses(found);
+      const picked = found.find(b => b.id === MongoService.getBusinessId()) || found[0];
+      if (picked) {
+        MongoService.setBusiness(picked.id);
+        setBusinessId(picked.id);
+      }
+    });
+  }, [session?.user.id]);
+
+  const switchBusiness = (id: string) => {
+    if (id === businessId) return;
+    MongoService.setBusiness(id);
+    clearBusinessData();
+    setBusinessId(id);
+  };
+
+  const saveBusiness = async (business: Business) => {
+    const saved = await MongoService.saveBusiness(business);
+    setBusinesses(prev => prev.some(b => b.id === saved.id) ? prev.map(b => b.id === saved.id ? saved : b) : [...prev, saved]);
+  };
+
   // Load Initial Data using Mongo Service
   useEffect(() => {
+    if (!session || !businessId) return;
+    // A switch to another business while this is loading drops what it loaded
+    let isCurrent = true;
     const fetchData = async () => {
-      let data = await MongoService.getTransactions();
-      if (data.length === 0) {
+      const data = await MongoService.getTransactions();
+      const loaded = {
+        parties: await MongoService.getParties(),
+        products: await MongoService.getProducts(),
+        settings: await MongoService.getSettings(),
+        locations: await MongoService.getLocations(),
+        transfers: await MongoService.getTransfers(),
+        stocktakes: await MongoService.getStocktakes(),
+        users: can('MANAGE_SETTINGS') ? await MongoService.getUsers() : [],
+      };
+      if (!isCurrent) return;
+      setParties(loaded.parties);
+      setProducts(loaded.products);
+      setSettings(loaded.settings);
+      setLocations(loaded.locations);
+      setTransfers(loaded.transfers);
+      setStocktakes(loaded.stocktakes);
+      setUsers(loaded.users);
+      // Only a fresh installation gets the demo data, not a business added later
+      if (data.length === 0 && can('MANAGE_SETTINGS') && businesses.length === 1) {
         // Seed Data for Demo
+        const seedParties: Party[] = [
+          { id: 'p1', name: 'Tech Suppliers Inc', type: 'VENDOR', paymentTermsDays: 30 },
+          { id: 'p2', name: 'Rahul Sharma', type: 'CUSTOMER' }
+        ];
+        const savedParties: Party[] = [];
+        for (const p of seedParties) {
+          savedParties.push(await MongoService.saveParty(p));
+        }
+        setParties(savedParties);
+        setProducts([await MongoService.saveProduct({
+          id: 'prod1', sku: 'SKU-0001', name: 'Laptops', unit: 'NOS', hsnCode: '8471', gstRate: 18,
+          purchasePrice: 30000, sellingPrice: 35000, category: 'Electronics'
+        })]);
+
         const seed: Invoice[] = [
           {
             id: '1',
             type: 'PURCHASE',
             invoiceNumber: 'INV-VENDOR-001',
+            partyId: 'p1',
             partyName: 'Tech Suppliers Inc',
             date: '2024-02-15',
             dueDate: '2024-03-15',
             status: InvoiceStatus.PAID,
             totalAmount: 150000.00,
-            items: [{ id: 'i1', description: 'Laptops', quantity: 5, price: 30000 }]
+            items: [{ id: 'i1', productId: 'prod1', description: 'Laptops', quantity: 5, price: 30000 }]
           },
           {
             id: '2',
             type: 'SALE',
             invoiceNumber: 'BILL-0001',
+            partyId: 'p2',
             partyName: 'Rahul Sharma',
             date: '2024-02-20',
             dueDate: '2024-02-20',
             status: InvoiceStatus.PAID,
             totalAmount: 35000.00,
-            items: [{ id: 'i2', description: 'Laptops', quantity: 1, price: 35000 }]
+            items: [{ id: 'i2', productId: 'prod1', description: 'Laptops', quantity: 1, price: 35000 }]
           }
         ];
-        // Save seed data one by one
+        // Save seed data one by one, settling each with a payment
         const seededData: Invoice[] = [];
         for (const t of seed) {
           const saved = await MongoService.saveTransaction(t);
-          seededData.push(saved);
+          const { transaction } = await MongoService.savePayment({
+            id: `pay-${saved.id}`,
+            invoiceId: saved.id,
+            date: t.dueDate,
+            amount: saved.totalAmount,
+            mode: 'BANK',
+          });
+          seededData.push(transaction);
         }
         setTransactions(seededData);
         return; // Exit early as we've already set transactions
@@ -68,74 +244,179 @@ const App: React.FC = () => {
       setTransactions(data);
     };
     fetchData();
-  }, []);
+    return () => { isCurrent = false; };
+  }, [session?.user.id, businessId]);
 
-  // Derive Inventory from Transactions
-  useEffect(() => {
-    const newInventory: Record<string, InventoryItem> = {};
-
-    // Sort by date to calculate history properly
-    const sortedTransactions = [...transactions].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
-
-    sortedTransactions.forEach(inv => {
-      inv.items.forEach(item => {
-        const key = item.description.trim().toLowerCase();
-
-        if (!newInventory[key]) {
-          newInventory[key] = {
-            id: key,
-            name: item.description,
-            quantity: 0,
-            averageCost: 0,
-            sellingPrice: 0,
-            lastUpdated: inv.date
-          };
-        }
+  // Bills and purchase invoices; quotations and purchase orders don't count towards stock or money
+  const invoices = useMemo(() => transactions.filter(t => !isOrderType(t.type)), [transactions]);
 
-        if (inv.type === 'PURCHASE') {
-          // Buying stock (Incoming Invoice)
-          const currentTotalValue = newInventory[key].quantity * newInventory[key].averageCost;
-          const newItemsValue = item.quantity * item.price;
-          newInventory[key].quantity += item.quantity;
+  const defaultLocationId = (locations.find(l => l.isDefault) || locations[0])?.id || '';
 
-          // Update weighted average cost
-          if (newInventory[key].quantity > 0) {
-            newInventory[key].averageCost = (currentTotalValue + newItemsValue) / newInventory[key].quantity;
-          }
-        } else if (inv.type === 'SALE') {
-          // Selling stock (Outgoing Bill)
-          newInventory[key].quantity -= item.quantity;
-          newInventory[key].sellingPrice = item.price; // Track last selling price
-        }
-        newInventory[key].lastUpdated = inv.date;
-      });
+  // Stock as the server books it, fetched again whenever something that moves
+  // stock or changes its cost has been saved
+  useEffect(() => {
+    if (!session || !businessId) return;
+    let isCurrent = true;
+    MongoService.getInventory().then(stock => {
+      if (isCurrent) setInventory(stock);
     });
+    return () => { isCurrent = false; };
+  }, [session?.user.id, businessId, invoices, products, settings.costingMethod, transfers, stocktakes]);
 
-    setInventory(Object.values(newInventory));
-  }, [transactions]);
+  // Leaving the conversion form drops the pending conversion
+  useEffect(() => {
+    if (conversion && view !== CREATE_VIEWS[conversion.type]) setConversion(null);
+  }, [view, conversion]);
 
-  const saveTransaction = async (transaction: Invoice) => {
+  const saveTransaction = async (transaction: Invoice, allowNegativeStock = false) => {
     try {
-      const savedTransaction = await MongoService.saveTransaction(transaction);
-      setTransactions(prev => {
-        const exists = prev.some(t => t.id === savedTransaction.id);
-        if (exists) {
-          return prev.map(t => t.id === savedTransaction.id ? savedTransaction : t);
-        }
-        return [savedTransaction, ...prev];
-      });
+      const savedTransaction = await MongoService.saveTransaction(transaction, allowNegativeStock);
+      if (savedTransaction.sourceDocumentId) {
+        // The server moved the source order's converted quantities and status too
+        setTransactions(await MongoService.getTransactions());
+      } else {
+        setTransactions(prev => {
+          const exists = prev.some(t => t.id === savedTransaction.id);
+          if (exists) {
+            return prev.map(t => t.id === savedTransaction.id ? savedTransaction : t);
+          }
+          return [savedTransaction, ...prev];
+        });
+      }
       setEditingId(null);
+      setConversion(null);
 
       // Return to list view based on type
-      if (transaction.type === 'PURCHASE') {
-        setView('PURCHASES');
-      } else {
-        setView('SALES');
-      }
+      setView(LIST_VIEWS[transaction.type]);
     } catch (error) {
+      // Under the WARN policy the user may choose to sell into negative stock
+      if (error instanceof StockShortageError && error.canOverride) {
+        if (confirm(`${error.message}\n\nSave anyway? Stock will go below zero.`)) {
+          await saveTransaction(transaction, true);
+        }
+        return;
+      }
       console.error("Failed to save transaction", error);
-      alert("Failed to save. Please ensure the backend server is running.");
+      alert(error instanceof Error && error.message !== 'Failed to fetch'
+        ? error.message
+        : "Failed to save. Please ensure the backend server is running.");
+    }
+  };
+
+  // Reorder suggestions become draft purchases; drafts don't move stock until finalised
+  const createDraftPurchases = async (drafts: Invoice[]) => {
+    const saved: Invoice[] = [];
+    try {
+      for (const draft of drafts) {
+        saved.push(await MongoService.saveTransaction(draft));
+      }
+    } finally {
+      setTransactions(prev => [...saved, ...prev]);
     }
+    setView('PURCHASES');
+  };
+
+  const saveParty = async (party: Party) => {
+    const saved = await MongoService.saveParty(party);
+    setParties(prev => {
+      const exists = prev.some(p => p.id === saved.id);
+      const next = exists ? prev.map(p => p.id === saved.id ? saved : p) : [...prev, saved];
+      return next.sort((a, b) => a.name.localeCompare(b.name));
+    });
+    return saved;
+  };
+
+  const saveProduct = async (product: Product) => {
+    const saved = await MongoService.saveProduct(product);
+    setProducts(prev => {
+      const exists = prev.some(p => p.id === saved.id);
+      const next = exists ? prev.map(p => p.id === saved.id ? saved : p) : [...prev, saved];
+      return next.sort((a, b) => a.name.localeCompare(b.name));
+    });
+    return saved;
+  };
+
+  const deleteProduct = async (id: string) => {
+    await MongoService.deleteProduct(id);
+    setProducts(prev => prev.filter(p => p.id !== id));
+  };
+
+  const saveSettings = async (changes: Partial<BusinessSettings>) => {
+    setSettings(await MongoService.saveSettings(changes));
+  };
+
+  // Making one location the default clears the flag on the others, so reload them all
+  const saveLocation = async (location: Location) => {
+    await MongoService.saveLocation(location);
+    setLocations(await MongoService.getLocations());
+  };
+
+  const deleteLocation = async (id: string) => {
+    await MongoService.deleteLocation(id);
+    setLocations(prev => prev.filter(l => l.id !== id));
+  };
+
+  const saveTransfer = async (transfer: StockTransfer) => {
+    const saved = await MongoService.saveTransfer(transfer);
+    setTransfers(prev => [saved, ...prev]);
+  };
+
+  const deleteTransfer = async (id: string) => {
+    await MongoService.deleteTransfer(id);
+    setTransfers(prev => prev.filter(t => t.id !== id));
+  };
+
+  // Starting a count and saving counts both go through save; the server fills in the lines
+  const saveStocktake = async (stocktake: Partial<Stocktake> & { id: string }) => {
+    const saved = await MongoService.saveStocktake(stocktake);
+    setStocktakes(prev => prev.some(s => s.id === saved.id)
+      ? prev.map(s => s.id === saved.id ? saved : s)
+      : [saved, ...prev]);
+    return saved;
+  };
+
+  const postStocktake = async (id: string) => {
+    const posted = await MongoService.postStocktake(id);
+    setStocktakes(prev => prev.map(s => s.id === id ? posted : s));
+  };
+
+  const deleteStocktake = async (id: string) => {
+    await MongoService.deleteStocktake(id);
+    setStocktakes(prev => prev.filter(s => s.id !== id));
+  };
+
+  const saveUser = async (user: User) => {
+    const saved = await MongoService.saveUser(user);
+    setUsers(prev => {
+      const exists = prev.some(u => u.id === saved.id);
+      const next = exists ? prev.map(u => u.id === saved.id ? saved : u) : [...prev, saved];
+      return next.sort((a, b) => a.name.localeCompare(b.name));
+    });
+  };
+
+  const deleteUser = async (id: string) => {
+    await MongoService.deleteUser(id);
+    setUsers(prev => prev.filter(u => u.id !== id));
+  };
+
+  const deleteParty = async (id: string) => {
+    await MongoService.deleteParty(id);
+    setParties(prev => prev.filter(p => p.id !== id));
+  };
+
+  // Payments change balance and status server-side; keep the local copy in step
+  const handleInvoiceUpdated = (updated: Invoice) => {
+    setTransactions(prev => prev.map(t => t.id === updated.id ? updated : t));
+  };
+
+  // Imported records join the lists; the opening stock is a posted stock count
+  const handleImported = (result: ImportResult) => {
+    const byName = <T extends { name: string }>(a: T, b: T) => a.name.localeCompare(b.name);
+    setParties(prev => [...prev, ...result.parties].sort(byName));
+    setProducts(prev => [...prev, ...result.products].sort(byName));
+    const { stocktake } = result;
+    if (stocktake) setStocktakes(prev => [stocktake, ...prev]);
+    setTransactions(prev => [...result.transactions, ...prev]);
   };
 
   const handleEdit = (id: string) => {
@@ -143,11 +424,37 @@ const App: React.FC = () => {
     setView('EDIT');
   };
 
+  // Opens a new bill or purchase invoice for whatever is left on the order
+  const handleConvert = (order: Invoice) => {
+    setEditingId(null);
+    setConversion(buildConversion(order));
+    setView(CREATE_VIEWS[convertsTo(order.type)]);
+  };
+
+  // Opens a credit / debit note for whatever hasn't been returned yet
+  const handleReturn = (invoice: Invoice) => {
+    setEditingId(null);
+    setConversion(buildReturn(invoice, transactions));
+    setView(CREATE_VIEWS[noteTypeFor(invoice.type)]);
+  };
+
+  // How much each line of the note's invoice can still take back, counting the note's own lines
+  const getNoteLimits = (note: Invoice | null | undefined) => {
+    const invoice = note && isNoteType(note.type) && transactions.find(t => t.id === note.sourceDocumentId);
+    return invoice ? getReturnLimits(invoice, transactions, note.id) : undefined;
+  };
+
   const getStatusColor = (status: InvoiceStatus) => {
     switch (status) {
       case InvoiceStatus.PAID: return 'bg-emerald-100 text-emerald-800';
+      case InvoiceStatus.PARTIALLY_PAID: return 'bg-sky-100 text-sky-800';
       case InvoiceStatus.PENDING: return 'bg-amber-100 text-amber-800';
       case InvoiceStatus.OVERDUE: return 'bg-rose-100 text-rose-800';
+      case InvoiceStatus.OPEN: return 'bg-indigo-100 text-indigo-800';
+      case InvoiceStatus.ACCEPTED: return 'bg-teal-100 text-teal-800';
+      case InvoiceStatus.PARTIALLY_CONVERTED: return 'bg-violet-100 text-violet-800';
+      case InvoiceStatus.CONVERTED: return 'bg-emerald-100 text-emerald-800';
+      case InvoiceStatus.CANCELLED: return 'bg-slate-200 text-slate-500';
       default: return 'bg-slate-100 text-slate-800';
     }
   };
@@ -168,28 +475,35 @@ const App: React.FC = () => {
 
   const renderTransactionTable = (type: TransactionType) => {
     const filtered = transactions.filter(i => i.type === type);
+    const config = LIST_CONFIG[type];
+    const isOrder = isOrderType(type);
     return (
       <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden animate-fade-in">
         <div className="p-6 border-b border-slate-200 flex justify-between items-center bg-slate-50/50">
           <h2 className="text-xl font-bold text-slate-800">
-            {type === 'PURCHASE' ? 'My Purchases (Invoices)' : 'Customer Bills (Sales)'}
+            {config.title}
           </h2>
-          <button
-            onClick={() => setView(type === 'PURCHASE' ? 'CREATE_PURCHASE' : 'CREATE_SALE')}
-            className={`flex items-center gap-2 px-4 py-2 rounded-lg text-white font-medium shadow-sm transition-colors ${type === 'SALE' ? 'bg-emerald-600 hover:bg-emerald-700' : 'bg-rose-600 hover:bg-rose-700'}`}
-          >
-            <Plus size={18} />
-            {type === 'PURCHASE' ? 'Add Purchase' : 'Create Bill'}
-          </button>
+          {config.createLabel ? (
+            <button
+              onClick={() => setView(CREATE_VIEWS[type])}
+              className={`flex items-center gap-2 px-4 py-2 rounded-lg text-white font-medium shadow-sm transition-colors ${config.color}`}
+            >
+              <Plus size={18} />
+              {config.createLabel}
+            </button>
+          ) : (
+            <p className="text-sm text-slate-500">Open a {type === 'CREDIT_NOTE' ? 'bill' : 'purchase invoice'} to raise one.</p>
+          )}
         </div>
         <div className="overflow-x-auto">
           <table className="w-full text-left text-sm text-slate-600">
             <thead className="bg-slate-50 text-slate-700 font-medium border-b border-slate-200">
               <tr>
-                <th className="px-6 py-4">{type === 'PURCHASE' ? 'Invoice No.' : 'Bill No.'}</th>
-                <th className="px-6 py-4">{type === 'PURCHASE' ? 'Vendor' : 'Customer'}</th>
+                <th className="px-6 py-4">{config.numberLabel}</th>
+                <th className="px-6 py-4">{config.partyLabel}</th>
                 <th className="px-6 py-4">Date</th>
                 <th className="px-6 py-4">Amount</th>
+                <th className="px-6 py-4">{isOrder ? 'Converted Qty' : isNoteType(type) ? '' : 'Balance'}</th>
                 <th className="px-6 py-4">Status</th>
                 <th className="px-6 py-4 text-right">Actions</th>
               </tr>
@@ -197,22 +511,38 @@ const App: React.FC = () => {
             <tbody className="divide-y divide-slate-100">
               {filtered.length === 0 ? (
                 <tr>
-                  <td colSpan={6} className="px-6 py-12 text-center text-slate-500">
-                    No {type === 'PURCHASE' ? 'purchases' : 'bills'} found.
+                  <td colSpan={7} className="px-6 py-12 text-center text-slate-500">
+                    No {config.empty} found.
                   </td>
                 </tr>
               ) : filtered.map((t) => (
                 <tr key={t.id} className="hover:bg-slate-50 transition-colors">
-                  <td className="px-6 py-4 font-medium text-indigo-600">{t.invoiceNumber}</td>
+                  <td className="px-6 py-4 font-medium text-indigo-600">
+                    {t.invoiceNumber || <span className="font-normal italic text-slate-400">No number yet</span>}
+                    {t.sourceDocumentNumber && <div className="text-xs font-normal text-slate-400">{isNoteType(t.type) ? 'against' : 'from'} {t.sourceDocumentNumber}</div>}
+                  </td>
                   <td className="px-6 py-4 text-slate-900">{t.partyName}</td>
                   <td className="px-6 py-4">{t.date}</td>
                   <td className="px-6 py-4 font-medium">₹{t.totalAmount.toLocaleString('en-IN', { minimumFractionDigits: 2 })}</td>
+                  <td className="px-6 py-4">
+                    {isOrder
+                      ? `${t.items.reduce((sum, i) => sum + (i.convertedQuantity || 0), 0)} / ${t.items.reduce((sum, i) => sum + i.quantity, 0)}`
+                      : isNoteType(type) ? '' : `₹${getBalanceDue(t).toLocaleString('en-IN', { minimumFractionDigits: 2 })}`}
+                  </td>
                   <td className="px-6 py-4">
                     <span className={`px-2.5 py-0.5 rounded-full text-xs font-medium ${getStatusColor(t.status)}`}>
                       {t.status}
                     </span>
                   </td>
-                  <td className="px-6 py-4 text-right">
+                  <td className="px-6 py-4 text-right space-x-2">
+                    {isOrder && canConvert(t) && (
+                      <button
+                        onClick={() => handleConvert(t)}
+                        className="text-emerald-600 hover:text-emerald-800 font-medium bg-emerald-50 hover:bg-emerald-100 px-3 py-1 rounded-md transition-colors"
+                      >
+                        Convert
+                      </button>
+                    )}
                     <button
                       onClick={() => handleEdit(t.id)}
                       className="text-indigo-600 hover:text-indigo-800 font-medium bg-indigo-50 hover:bg-indigo-100 px-3 py-1 rounded-md transition-colors"
@@ -229,6 +559,26 @@ const App: React.FC = () => {
     );
   };
 
+  const creatingType = (Object.keys(CREATE_VIEWS) as TransactionType[]).find(t => CREATE_VIEWS[t] === view);
+  const editing = transactions.find(i => i.id === editingId);
+
+  if (isCheckingSession) {
+    return (
+      <div className="min-h-screen bg-slate-50 flex items-center justify-center">
+        <Loader2 className="animate-spin text-indigo-600" size={32} />
+      </div>
+    );
+  }
+
+  if (!session) {
+    return <LoginScreen onSignedIn={setSession} />;
+  }
+
+  const showCosts = can('VIEW_COSTS');
+  const canDelete = can('DELETE_RECORDS');
+  // Cashiers can finish drafts but not change what has already been posted
+  const isLocked = (invoice?: Invoice) => !!invoice && !isOrderType(invoice.type) && invoice.status !== InvoiceStatus.DRAFT && !can('EDIT_POSTED');
+
   return (
     <div className="flex h-screen bg-slate-50 overflow-hidden font-sans print:bg-white print:h-auto print:overflow-visible print:block">
       {/* Sidebar (Hidden when printing) */}
@@ -246,12 +596,25 @@ const App: React.FC = () => {
         <nav className="flex-1 px-4 space-y-2 mt-4">
           <SidebarLink icon={LayoutDashboard} label={isSidebarOpen ? "Dashboard" : ""} target="DASHBOARD" />
           <SidebarLink icon={Receipt} label={isSidebarOpen ? "Customer Bills" : ""} target="SALES" />
-          <SidebarLink icon={Truck} label={isSidebarOpen ? "My Purchases" : ""} target="PURCHASES" />
+          <SidebarLink icon={FileText} label={isSidebarOpen ? "Quotations" : ""} target="QUOTATIONS" />
+          {showCosts && <SidebarLink icon={Truck} label={isSidebarOpen ? "My Purchases" : ""} target="PURCHASES" />}
+          {showCosts && <SidebarLink icon={ClipboardList} label={isSidebarOpen ? "Purchase Orders" : ""} target="PURCHASE_ORDERS" />}
+          <SidebarLink icon={Undo2} label={isSidebarOpen ? "Credit Notes" : ""} target="CREDIT_NOTES" />
+          {showCosts && <SidebarLink icon={Redo2} label={isSidebarOpen ? "Debit Notes" : ""} target="DEBIT_NOTES" />}
           <SidebarLink icon={Package} label={isSidebarOpen ? "Stock/Inventory" : ""} target="INVENTORY" />
-          <SidebarLink icon={PieChart} label={isSidebarOpen ? "Reports & AI" : ""} target="REPORTS" />
-          <div className="pt-4 mt-4 border-t border-slate-100">
-            <SidebarLink icon={Settings} label={isSidebarOpen ? "Settings" : ""} target="SETTINGS" />
-          </div>
+          <SidebarLink icon={ArrowLeftRight} label={isSidebarOpen ? "Transfers" : ""} target="TRANSFERS" />
+          <SidebarLink icon={ClipboardCheck} label={isSidebarOpen ? "Stock Count" : ""} target="STOCKTAKE" />
+          <SidebarLink icon={Boxes} label={isSidebarOpen ? "Products" : ""} target="PRODUCTS" />
+          {showCosts && <SidebarLink icon={ShoppingCart} label={isSidebarOpen ? "Reorder" : ""} target="REORDER" />}
+          <SidebarLink icon={Users} label={isSidebarOpen ? "Parties" : ""} target="PARTIES" />
+          {showCosts && <SidebarLink icon={PieChart} label={isSidebarOpen ? "Reports & AI" : ""} target="REPORTS" />}
+          {can('MANAGE_SETTINGS') && (
+            <div className="pt-4 mt-4 border-t border-slate-100">
+              <SidebarLink icon={Settings} label={isSidebarOpen ? "Settings" : ""} target="SETTINGS" />
+              <SidebarLink icon={ScrollText} label={isSidebarOpen ? "Audit Trail" : ""} target="AUDIT" />
+              <SidebarLink icon={FileUp} label={isSidebarOpen ? "Import Data" : ""} target="IMPORT" />
+            </div>
+          )}
         </nav>
 
         <div className="p-4 border-t border-slate-100">
@@ -262,13 +625,15 @@ const App: React.FC = () => {
             <Plus size={20} />
             {isSidebarOpen && <span className="font-medium">New Bill</span>}
           </button>
-          <button
-            onClick={() => setView('CREATE_PURCHASE')}
-            className="w-full mt-2 bg-rose-600 hover:bg-rose-700 text-white rounded-lg py-3 flex items-center justify-center gap-2 transition-colors shadow-sm"
-          >
-            <Plus size={20} />
-            {isSidebarOpen && <span className="font-medium">New Purchase</span>}
-          </button>
+          {showCosts && (
+            <button
+              onClick={() => setView('CREATE_PURCHASE')}
+              className="w-full mt-2 bg-rose-600 hover:bg-rose-700 text-white rounded-lg py-3 flex items-center justify-center gap-2 transition-colors shadow-sm"
+            >
+              <Plus size={20} />
+              {isSidebarOpen && <span className="font-medium">New Purchase</span>}
+            </button>
+          )}
         </div>
       </aside>
 
@@ -287,17 +652,55 @@ const App: React.FC = () => {
               {view === 'DASHBOARD' ? 'Dashboard' :
                 view === 'SALES' ? 'Customer Bills (Sales)' :
                   view === 'PURCHASES' ? 'Purchase Invoices' :
+                  view === 'QUOTATIONS' ? 'Quotations' :
+                  view === 'PURCHASE_ORDERS' ? 'Purchase Orders' :
+                  view === 'CREDIT_NOTES' ? 'Credit Notes (Sales Returns)' :
+                  view === 'DEBIT_NOTES' ? 'Debit Notes (Purchase Returns)' :
                     view === 'INVENTORY' ? 'Stock Inventory' :
+                    view === 'TRANSFERS' ? 'Stock Transfers' :
+                    view === 'STOCKTAKE' ? 'Stock Count' :
+                    view === 'AUDIT' ? 'Audit Trail' :
+                    view === 'IMPORT' ? 'Import Data' :
+                    view === 'PRODUCTS' ? 'Product Catalog' :
+                    view === 'REORDER' ? 'Reorder Suggestions' :
+                    view === 'PARTIES' ? 'Customers & Vendors' :
                       view === 'REPORTS' ? 'Reports & Analytics' :
                         view === 'CREATE_SALE' ? 'Create Customer Bill' :
                           view === 'CREATE_PURCHASE' ? 'Record Purchase' :
+                          view === 'CREATE_QUOTATION' ? 'Create Quotation' :
+                          view === 'CREATE_PURCHASE_ORDER' ? 'Create Purchase Order' :
+                          view === 'CREATE_CREDIT_NOTE' ? 'Create Credit Note' :
+                          view === 'CREATE_DEBIT_NOTE' ? 'Create Debit Note' :
                             view === 'EDIT' ? 'Transaction Details' : 'Settings'}
             </h1>
           </div>
           <div className="flex items-center gap-4">
+            {businesses.length > 1 ? (
+              <label className="flex items-center gap-2 text-sm text-slate-700" title="Switch business">
+                <Building2 size={18} className="text-slate-400" />
+                <select
+                  value={businessId || ''}
+                  onChange={e => switchBusiness(e.target.value)}
+                  className="px-2 py-1.5 border border-slate-300 rounded-lg bg-white font-medium focus:ring-2 focus:ring-indigo-500 outline-none"
+                >
+                  {businesses.map(b => <option key={b.id} value={b.id}>{b.name}</option>)}
+                </select>
+              </label>
+            ) : businesses.length === 1 && (
+              <span className="hidden sm:flex items-center gap-2 text-sm font-medium text-slate-700">
+                <Building2 size={18} className="text-slate-400" /> {businesses[0].name}
+              </span>
+            )}
+            <div className="text-right hidden sm:block">
+              <div className="text-sm font-medium text-slate-800">{session.user.name}</div>
+              <div className="text-xs text-slate-500 capitalize">{session.user.role.toLowerCase()}</div>
+            </div>
             <div className="w-8 h-8 bg-indigo-100 rounded-full flex items-center justify-center text-indigo-700 font-medium text-sm">
-              ME
+              {session.user.name.split(/\s+/).map(part => part[0]).join('').slice(0, 2).toUpperCase()}
             </div>
+            <button onClick={signOut} className="p-2 text-slate-400 hover:text-slate-700 hover:bg-slate-100 rounded-lg" title="Sign out">
+              <LogOut size={18} />
+            </button>
           </div>
         </header>
 
@@ -306,26 +709,105 @@ const App: React.FC = () => {
           <div className="max-w-7xl mx-auto print:max-w-none print:w-full">
 
             {view === 'DASHBOARD' && (
-              <Dashboard transactions={transactions} />
+              <Dashboard transactions={invoices} inventory={inventory} showCosts={showCosts} />
             )}
 
             {view === 'PURCHASES' && renderTransactionTable('PURCHASE')}
 
             {view === 'SALES' && renderTransactionTable('SALE')}
 
+            {view === 'QUOTATIONS' && renderTransactionTable('QUOTATION')}
+
+            {view === 'PURCHASE_ORDERS' && renderTransactionTable('PURCHASE_ORDER')}
+
+            {view === 'CREDIT_NOTES' && renderTransactionTable('CREDIT_NOTE')}
+
+            {view === 'DEBIT_NOTES' && renderTransactionTable('DEBIT_NOTE')}
+
             {view === 'INVENTORY' && (
-              <InventoryList inventory={inventory} />
+              <InventoryList inventory={inventory} costingMethod={settings.costingMethod} locations={locations} showCosts={showCosts} onOpenTransaction={handleEdit} />
+            )}
+
+            {view === 'TRANSFERS' && (
+              <StockTransfers
+                transfers={transfers}
+                locations={locations}
+                inventory={inventory}
+                onSave={saveTransfer}
+                onDelete={canDelete ? deleteTransfer : undefined}
+              />
+            )}
+
+            {view === 'STOCKTAKE' && (
+              <StockCount
+                stocktakes={stocktakes}
+                locations={locations}
+                products={products}
+                inventory={inventory}
+                onStart={saveStocktake}
+                onSaveCounts={async stocktake => { await saveStocktake(stocktake); }}
+                onPost={postStocktake}
+                onDelete={canDelete ? deleteStocktake : undefined}
+                showCosts={showCosts}
+              />
+            )}
+
+            {view === 'REORDER' && (
+              <ReorderList
+                inventory={inventory}
+                products={products}
+                parties={parties}
+                transactions={invoices}
+                homeState={homeStateOf(settings)}
+                onCreateDrafts={createDraftPurchases}
+              />
+            )}
+
+            {view === 'PRODUCTS' && (
+              <ProductList
+                products={products}
+                parties={parties}
+                onSave={async (product) => { await saveProduct(product); }}
+                onDelete={canDelete ? deleteProduct : undefined}
+                showCosts={showCosts}
+              />
+            )}
+
+            {view === 'PARTIES' && (
+              <PartyList
+                parties={parties}
+                transactions={invoices}
+                homeState={homeStateOf(settings)}
+                onSave={async (party) => { await saveParty(party); }}
+                onDelete={canDelete ? deleteParty : undefined}
+              />
             )}
 
             {view === 'REPORTS' && (
-              <Reports transactions={transactions} inventory={inventory} />
+              <Reports transactions={invoices} inventory={inventory} />
             )}
 
-            {(view === 'CREATE_SALE' || view === 'CREATE_PURCHASE') && (
+            {creatingType && (
               <InvoiceForm
+                key={conversion?.id || creatingType}
                 onSave={saveTransaction}
-                onCancel={() => setView(view === 'CREATE_SALE' ? 'SALES' : 'PURCHASES')}
-                type={view === 'CREATE_SALE' ? 'SALE' : 'PURCHASE'}
+                onCancel={() => {
+                  const source = conversion && transactions.find(t => t.id === conversion.sourceDocumentId);
+                  setView(LIST_VIEWS[source ? source.type : creatingType]);
+                }}
+                prefill={conversion || undefined}
+                returnLimits={getNoteLimits(conversion)}
+                type={creatingType}
+                parties={parties}
+                onCreateParty={saveParty}
+                products={products}
+                onCreateProduct={saveProduct}
+                inventory={inventory}
+                negativeStockPolicy={settings.negativeStockPolicy}
+                settings={settings}
+                businessName={businesses.find(b => b.id === businessId)?.name || ''}
+                locations={locations}
+                defaultLocationId={defaultLocationId}
               />
             )}
 
@@ -333,21 +815,77 @@ const App: React.FC = () => {
               <InvoiceForm
                 onSave={saveTransaction}
                 onCancel={() => {
-                  const type = transactions.find(i => i.id === editingId)?.type || 'SALE';
                   setEditingId(null);
-                  setView(type === 'SALE' ? 'SALES' : 'PURCHASES');
+                  setView(LIST_VIEWS[editing?.type || 'SALE']);
                 }}
-                initialData={transactions.find(i => i.id === editingId)}
-                type={transactions.find(i => i.id === editingId)?.type || 'SALE'}
+                onConvert={handleConvert}
+                onReturn={editing && canReturn(editing, transactions) ? handleReturn : undefined}
+                returnLimits={getNoteLimits(editing)}
+                initialData={editing}
+                isLocked={isLocked(editing)}
+                type={editing?.type || 'SALE'}
+                parties={parties}
+                onCreateParty={saveParty}
+                products={products}
+                onCreateProduct={saveProduct}
+                inventory={inventory}
+                negativeStockPolicy={settings.negativeStockPolicy}
+                settings={settings}
+                businessName={businesses.find(b => b.id === businessId)?.name || ''}
+                locations={locations}
+                defaultLocationId={defaultLocationId}
+              />
+            )}
+
+            {view === 'EDIT' && editing && !isOrderType(editing.type) && !isNoteType(editing.type) && (showCosts || editing.type !== 'PURCHASE') && (
+              <PaymentsPanel
+                invoice={editing}
+                onInvoiceUpdated={handleInvoiceUpdated}
+                canDelete={canDelete}
+              />
+            )}
+
+            {view === 'EDIT' && editing && editing.type !== 'PURCHASE' && (
+              <EmailPanel
+                invoice={editing}
+                party={parties.find(p => p.id === editing.partyId)}
+                settings={settings}
+                onInvoiceUpdated={handleInvoiceUpdated}
+              />
+            )}
+
+            {view === 'EDIT' && editing && (
+              <DocumentHistory invoice={editing} />
+            )}
+
+            {view === 'AUDIT' && <AuditLog users={users} />}
+
+            {view === 'IMPORT' && (
+              <ImportWizard
+                parties={parties}
+                products={products}
+                locations={locations}
+                defaultLocationId={defaultLocationId}
+                settings={settings}
+                onImported={handleImported}
               />
             )}
 
             {view === 'SETTINGS' && (
-              <div className="bg-white p-8 rounded-xl shadow-sm border border-slate-200 text-center text-slate-500">
-                <Settings size={48} className="mx-auto mb-4 text-slate-300" />
-                <h3 className="text-lg font-medium text-slate-900">Settings</h3>
-                <p>Database connected via MongoService (Simulated).</p>
-              </div>
+              <SettingsPanel
+                settings={settings}
+                onSave={saveSettings}
+                locations={locations}
+                onSaveLocation={saveLocation}
+                onDeleteLocation={deleteLocation}
+                users={users}
+                currentUserId={session.user.id}
+                onSaveUser={saveUser}
+                onDeleteUser={deleteUser}
+                businesses={businesses}
+                currentBusinessId={businessId || ''}
+                onSaveBusiness={saveBusiness}
+              />
             )}
 
           </div>
@@ -356,7 +894,7 @@ const App: React.FC = () => {
 
       {/* Chat Assistant (Floating) */}
       <div className="print:hidden">
-        <ChatAssistant transactions={transactions} inventory={inventory} />
+        <ChatAssistant transactions={invoices} inventory={inventory} />
       </div>
 
       {/* Mobile Nav (Hidden when printing) */}
@@ -369,18 +907,22 @@ const App: React.FC = () => {
           <Receipt size={20} />
           <span>Bills</span>
         </button>
-        <button onClick={() => setView('PURCHASES')} className={`flex flex-col items-center gap-1 text-xs ${view === 'PURCHASES' ? 'text-indigo-600' : 'text-slate-500'}`}>
-          <Truck size={20} />
-          <span>Purchases</span>
-        </button>
+        {showCosts && (
+          <button onClick={() => setView('PURCHASES')} className={`flex flex-col items-center gap-1 text-xs ${view === 'PURCHASES' ? 'text-indigo-600' : 'text-slate-500'}`}>
+            <Truck size={20} />
+            <span>Purchases</span>
+          </button>
+        )}
         <button onClick={() => setView('INVENTORY')} className={`flex flex-col items-center gap-1 text-xs ${view === 'INVENTORY' ? 'text-indigo-600' : 'text-slate-500'}`}>
           <Package size={20} />
           <span>Stock</span>
         </button>
-        <button onClick={() => setView('REPORTS')} className={`flex flex-col items-center gap-1 text-xs ${view === 'REPORTS' ? 'text-indigo-600' : 'text-slate-500'}`}>
-          <PieChart size={20} />
-          <span>Reports</span>
-        </button>
+        {showCosts && (
+          <button onClick={() => setView('REPORTS')} className={`flex flex-col items-center gap-1 text-xs ${view === 'REPORTS' ? 'text-indigo-600' : 'text-slate-500'}`}>
+            <PieChart size={20} />
+            <span>Reports</span>
+          </button>
+        )}
       </nav>
 
       {/* Global CSS for animations */}
@@ -0,0 +1,197 @@
+import React, { useEffect, useState } from 'react';
+import { AuditAction, AuditChange, AuditEntityType, AuditEntry, AuditFilters, User } from '../types';
+import { MongoService } from '../services/mongo';
+import { ScrollText, Search, Loader2, ChevronDown, ChevronRight } from 'lucide-react';
+
+interface AuditLogProps {
+  users: User[];
+}
+
+export const ENTITY_LABELS: Record<AuditEntityType, string> = {
+  TRANSACTION: 'Document',
+  PAYMENT: 'Payment',
+  PRODUCT: 'Product',
+  PARTY: 'Party',
+  LOCATION: 'Location',
+  TRANSFER: 'Transfer',
+  STOCKTAKE: 'Stock count',
+  SETTINGS: 'Settings',
+  USER: 'User',
+  BUSINESS: 'Business',
+};
+
+export const ACTION_STYLES: Record<AuditAction, string> = {
+  CREATE: 'bg-emerald-100 text-emerald-700',
+  UPDATE: 'bg-indigo-100 text-indigo-700',
+  DELETE: 'bg-rose-100 text-rose-700',
+};
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined) return '—';
+  if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}T/.test(value)) return new Date(value).toLocaleString();
+  return String(value);
+};
+
+// "items[<line id>].price" reads as "<line description> · price", using the
+// description recorded in the same entry so removed lines still read sensibly
+const fieldLabel = (field: string, changes: AuditChange[]) => field.replace(/^(\w+)\[([^\]]+)\]\.?/, (_match, list, key) => {
+  const name = changes.find(c => c.field === `${list}[${key}].description` || c.field === `${list}[${key}].name`);
+  const text = name ? (name.after ?? name.before) : null;
+  return text ? `${text} · ` : `${list} ${key} · `;
+});
+
+// The before/after table shared by the audit screen and a document's history
+export const AuditChanges: React.FC<{ changes: AuditChange[] }> = ({ changes }) => (
+  <table className="w-full text-left text-xs text-slate-600">
+    <thead className="text-slate-500">
+      <tr>
+        <th className="py-1 pr-4 font-medium">Field</th>
+        <th className="py-1 pr-4 font-medium">Before</th>
+        <th className="py-1 font-medium">After</th>
+      </tr>
+    </thead>
+    <tbody className="divide-y divide-slate-100">
+      {changes.map(change => (
+        <tr key={change.field}>
+          <td className="py-1 pr-4 font-medium text-slate-700">{fieldLabel(change.field, changes)}</td>
+          <td className="py-1 pr-4 text-rose-600 break-all">{formatValue(change.before)}</td>
+          <td className="py-1 text-emerald-600 break-all">{formatValue(change.after)}</td>
+        </tr>
+      ))}
+    </tbody>
+  </table>
+);
+
+// Owner's view of every create, edit and delete, newest first
+export const AuditLog: React.FC<AuditLogProps> = ({ users }) => {
+  const [filters, setFilters] = useState<AuditFilters>({ search: '', entityType: '', userId: '', action: '', from: '', to: '' });
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const load = async (query: AuditFilters) => {
+    setIsLoading(true);
+    setError('');
+    try {
+      setEntries(await MongoService.getAuditLog(query));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load the audit trail.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    load(filters);
+  }, [filters.entityType, filters.userId, filters.action, filters.from, filters.to]);
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    load(filters);
+  };
+
+  const update = (changes: Partial<AuditFilters>) => setFilters(prev => ({ ...prev, ...changes }));
+
+  const selectClass = 'px-3 py-2 bg-white border border-slate-300 rounded-lg text-sm focus:border-indigo-500 outline-none';
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <h2 className="text-2xl font-bold text-slate-800 flex items-center gap-2">
+        <ScrollText className="text-indigo-600" /> Audit Trail
+      </h2>
+
+      <form onSubmit={handleSearch} className="bg-white p-4 rounded-xl border border-slate-200 shadow-sm flex flex-wrap gap-3 items-end">
+        <div className="relative flex-1 min-w-[200px]">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" size={18} />
+          <input
+            type="text"
+            value={filters.search}
+            onChange={e => update({ search: e.target.value })}
+            placeholder="Document number, name or user..."
+            className="w-full pl-10 pr-4 py-2 border border-slate-300 rounded-lg text-sm focus:outline-none focus:border-indigo-500"
+          />
+        </div>
+        <select value={filters.entityType} onChange={e => update({ entityType: e.target.value as AuditEntityType | '' })} className={selectClass}>
+          <option value="">All records</option>
+          {Object.entries(ENTITY_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+        </select>
+        <select value={filters.action} onChange={e => update({ action: e.target.value as AuditAction | '' })} className={selectClass}>
+          <option value="">All actions</option>
+          <option value="CREATE">Created</option>
+          <option value="UPDATE">Edited</option>
+          <option value="DELETE">Deleted</option>
+        </select>
+        <select value={filters.userId} onChange={e => update({ userId: e.target.value })} className={selectClass}>
+          <option value="">All users</option>
+          {users.map(u => <option key={u.id} value={u.id}>{u.name}</option>)}
+        </select>
+        <input type="date" value={filters.from} onChange={e => update({ from: e.target.value })} className={selectClass} title="From" />
+        <input type="date" value={filters.to} onChange={e => update({ to: e.target.value })} className={selectClass} title="To" />
+        <button type="submit" className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 text-sm font-medium">
+          Search
+        </button>
+      </form>
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+        {isLoading ? (
+          <div className="flex justify-center py-12"><Loader2 className="animate-spin text-indigo-600" /></div>
+        ) : error ? (
+          <p className="p-6 text-sm text-rose-600">{error}</p>
+        ) : entries.length === 0 ? (
+          <p className="p-6 text-sm text-slate-500 text-center">No changes match these filters.</p>
+        ) : (
+          <table className="w-full text-left text-sm text-slate-600">
+            <thead className="bg-slate-50 text-slate-700 font-medium border-b border-slate-200">
+              <tr>
+                <th className="px-6 py-4 w-8"></th>
+                <th className="px-6 py-4">When</th>
+                <th className="px-6 py-4">User</th>
+                <th className="px-6 py-4">Action</th>
+                <th className="px-6 py-4">Record</th>
+                <th className="px-6 py-4 text-right">Fields</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {entries.map(entry => (
+                <React.Fragment key={entry.id}>
+                  <tr
+                    onClick={() => setExpandedId(expandedId === entry.id ? null : entry.id)}
+                    className="hover:bg-slate-50 cursor-pointer"
+                  >
+                    <td className="px-6 py-3 text-slate-400">
+                      {expandedId === entry.id ? <ChevronDown size={16} /> : <ChevronRight size={16} />}
+                    </td>
+                    <td className="px-6 py-3 whitespace-nowrap">{new Date(entry.at).toLocaleString()}</td>
+                    <td className="px-6 py-3">{entry.userName || 'System'}</td>
+                    <td className="px-6 py-3">
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${ACTION_STYLES[entry.action]}`}>{entry.action}</span>
+                    </td>
+                    <td className="px-6 py-3">
+                      <span className="text-slate-400">{ENTITY_LABELS[entry.entityType] || entry.entityType}</span>{' '}
+                      <span className="font-medium text-slate-900">{entry.label || entry.entityId}</span>
+                    </td>
+                    <td className="px-6 py-3 text-right">{entry.changes.length}</td>
+                  </tr>
+                  {expandedId === entry.id && (
+                    <tr className="bg-slate-50/50">
+                      <td></td>
+                      <td colSpan={5} className="px-6 py-3">
+                        {entry.changes.length > 0
+                          ? <AuditChanges changes={entry.changes} />
+                          : <p className="text-xs text-slate-500">No field details recorded.</p>}
+                      </td>
+                    </tr>
+                  )}
+                </React.Fragment>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+      {entries.length >= 500 && (
+        <p className="text-xs text-slate-500">Showing the latest 500 changes. Narrow the filters to look further back.</p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,188 @@
+import React, { useEffect, useState } from 'react';
+import { BankDetails, BusinessProfile, BusinessSettings } from '../types';
+import { INDIAN_STATES } from '../services/gst';
+import { Save, Loader2, Upload, X } from 'lucide-react';
+
+interface BusinessProfileFormProps {
+  settings: BusinessSettings;
+  onSave: (changes: Partial<BusinessSettings>) => Promise<void>;
+}
+
+const MAX_IMAGE_BYTES = 500 * 1024;
+
+const inputClass = 'w-full px-3 py-2 bg-white border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 outline-none';
+
+// Business identity, bank details and the default text that goes on every printed bill
+export const BusinessProfileForm: React.FC<BusinessProfileFormProps> = ({ settings, onSave }) => {
+  const [profile, setProfile] = useState<BusinessProfile>(settings.profile || {});
+  const [bank, setBank] = useState<BankDetails>(settings.bank || {});
+  const [defaultPaymentTermsDays, setDefaultPaymentTermsDays] = useState(settings.defaultPaymentTermsDays || 0);
+  const [defaultNotes, setDefaultNotes] = useState(settings.defaultNotes || '');
+  const [terms, setTerms] = useState(settings.terms || '');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setProfile(settings.profile || {});
+    setBank(settings.bank || {});
+    setDefaultPaymentTermsDays(settings.defaultPaymentTermsDays || 0);
+    setDefaultNotes(settings.defaultNotes || '');
+    setTerms(settings.terms || '');
+  }, [settings]);
+
+  const updateProfile = (field: keyof BusinessProfile, value: string) => setProfile(prev => ({ ...prev, [field]: value }));
+  const updateBank = (field: keyof BankDetails, value: string) => setBank(prev => ({ ...prev, [field]: value }));
+
+  // Images are kept in the settings as data URLs
+  const uploadImage = (field: 'logo' | 'signature') => (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    if (!['image/png', 'image/jpeg', 'image/webp'].includes(file.type)) {
+      alert('Pick a PNG, JPEG or WebP image.');
+      return;
+    }
+    if (file.size > MAX_IMAGE_BYTES) {
+      alert('Pick an image under 500 KB.');
+      return;
+    }
+    const reader = new FileReader();
+    reader.onloadend = () => updateProfile(field, reader.result as string);
+    reader.readAsDataURL(file);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    try {
+      await onSave({ profile, bank, defaultPaymentTermsDays, defaultNotes, terms });
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to save the business profile.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderImage = (field: 'logo' | 'signature', label: string) => (
+    <div className="space-y-1">
+      <label className="block text-sm font-medium text-slate-700">{label}</label>
+      <div className="flex items-center gap-3">
+        <div className="w-32 h-16 border border-dashed border-slate-300 rounded-lg flex items-center justify-center bg-slate-50 overflow-hidden">
+          {profile[field]
+            ? <img src={profile[field]} alt={label} className="max-w-full max-h-full object-contain" />
+            : <span className="text-xs text-slate-400">None</span>}
+        </div>
+        <label className="px-3 py-1.5 border border-slate-300 rounded-lg text-sm text-slate-700 hover:bg-slate-50 cursor-pointer flex items-center gap-1">
+          <Upload size={14} /> Upload
+          <input type="file" accept="image/png,image/jpeg,image/webp" onChange={uploadImage(field)} className="hidden" />
+        </label>
+        {profile[field] && (
+          <button type="button" onClick={() => updateProfile(field, '')} className="text-slate-400 hover:text-rose-600" title="Remove">
+            <X size={16} />
+          </button>
+        )}
+      </div>
+    </div>
+  );
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="p-6 border-b border-slate-200 bg-slate-50/50">
+        <h3 className="text-lg font-semibold text-slate-800">Business Profile</h3>
+        <p className="text-sm text-slate-500">Printed at the top and foot of every bill, quotation, order and note.</p>
+      </div>
+      <div className="p-6 space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-1 md:col-span-2">
+            <label className="block text-sm font-medium text-slate-700">Legal Name</label>
+            <input type="text" value={profile.legalName || ''} onChange={e => updateProfile('legalName', e.target.value)} className={inputClass} />
+          </div>
+          <div className="space-y-1 md:col-span-2">
+            <label className="block text-sm font-medium text-slate-700">Address</label>
+            <textarea rows={3} value={profile.address || ''} onChange={e => updateProfile('address', e.target.value)} className={inputClass} />
+          </div>
+          <div className="space-y-1">
+            <label className="block text-sm font-medium text-slate-700">GSTIN</label>
+            <input type="text" maxLength={15} value={profile.gstin || ''} onChange={e => updateProfile('gstin', e.target.value.toUpperCase())} className={`${inputClass} uppercase`} />
+          </div>
+          <div className="space-y-1">
+            <label className="block text-sm font-medium text-slate-700">State</label>
+            <select value={profile.state || ''} onChange={e => updateProfile('state', e.target.value)} className={inputClass}>
+              <option value="">Select state</option>
+              {INDIAN_STATES.map(s => <option key={s.code} value={s.code}>{s.code} - {s.name}</option>)}
+            </select>
+          </div>
+          <div className="space-y-1">
+            <label className="block text-sm font-medium text-slate-700">Phone</label>
+            <input type="tel" value={profile.phone || ''} onChange={e => updateProfile('phone', e.target.value)} className={inputClass} />
+          </div>
+          <div className="space-y-1">
+            <label className="block text-sm font-medium text-slate-700">Email</label>
+            <input type="email" value={profile.email || ''} onChange={e => updateProfile('email', e.target.value)} className={inputClass} />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {renderImage('logo', 'Logo')}
+          {renderImage('signature', 'Signature')}
+        </div>
+
+        <div>
+          <h4 className="text-sm font-semibold text-slate-800 mb-3">Bank & UPI</h4>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-1">
+              <label className="block text-sm font-medium text-slate-700">Account Name</label>
+              <input type="text" value={bank.accountName || ''} onChange={e => updateBank('accountName', e.target.value)} className={inputClass} />
+            </div>
+            <div className="space-y-1">
+              <label className="block text-sm font-medium text-slate-700">Bank</label>
+              <input type="text" value={bank.bankName || ''} onChange={e => updateBank('bankName', e.target.value)} className={inputClass} />
+            </div>
+            <div className="space-y-1">
+              <label className="block text-sm font-medium text-slate-700">Account Number</label>
+              <input type="text" value={bank.accountNumber || ''} onChange={e => updateBank('accountNumber', e.target.value)} className={inputClass} />
+            </div>
+            <div className="space-y-1">
+              <label className="block text-sm font-medium text-slate-700">IFSC</label>
+              <input type="text" maxLength={11} value={bank.ifsc || ''} onChange={e => updateBank('ifsc', e.target.value.toUpperCase())} className={`${inputClass} uppercase`} />
+            </div>
+            <div className="space-y-1">
+              <label className="block text-sm font-medium text-slate-700">Branch</label>
+              <input type="text" value={bank.branch || ''} onChange={e => updateBank('branch', e.target.value)} className={inputClass} />
+            </div>
+            <div className="space-y-1">
+              <label className="block text-sm font-medium text-slate-700">UPI ID</label>
+              <input type="text" value={bank.upiId || ''} onChange={e => updateBank('upiId', e.target.value)} placeholder="name@bank" className={inputClass} />
+            </div>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-1">
+            <label className="block text-sm font-medium text-slate-700">Default Payment Terms (days)</label>
+            <input type="number" min="0" value={defaultPaymentTermsDays} onChange={e => setDefaultPaymentTermsDays(parseInt(e.target.value) || 0)} className={inputClass} />
+            <p className="text-xs text-slate-500">Sets the due date for parties without their own terms.</p>
+          </div>
+          <div className="space-y-1 md:col-span-2">
+            <label className="block text-sm font-medium text-slate-700">Default Notes</label>
+            <textarea rows={2} value={defaultNotes} onChange={e => setDefaultNotes(e.target.value)} placeholder="e.g. Goods once sold will not be taken back." className={inputClass} />
+            <p className="text-xs text-slate-500">Filled in on new documents; can be changed per document.</p>
+          </div>
+          <div className="space-y-1 md:col-span-2">
+            <label className="block text-sm font-medium text-slate-700">Terms & Conditions</label>
+            <textarea rows={3} value={terms} onChange={e => setTerms(e.target.value)} className={inputClass} />
+          </div>
+        </div>
+
+        <div className="flex justify-end">
+          <button
+            type="submit"
+            disabled={isSaving}
+            className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 flex items-center gap-2 text-sm font-medium disabled:opacity-50"
+          >
+            {isSaving ? <Loader2 className="animate-spin" size={16} /> : <Save size={16} />} Save Profile
+          </button>
+        </div>
+      </div>
+    </form>
+  );
+};
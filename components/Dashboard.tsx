@@ -1,43 +1,56 @@
 
 import React, { useMemo } from 'react';
-import { Invoice, InvoiceStatus } from '../types';
+import { Invoice, InventoryItem } from '../types';
+import { getBalanceDue, isOutstanding } from '../services/payments';
+import { buildProfitSummary } from '../services/profit';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Cell } from 'recharts';
-import { IndianRupee, TrendingUp, TrendingDown, Wallet } from 'lucide-react';
+import { IndianRupee, TrendingUp, TrendingDown, Wallet, ArrowLeftRight } from 'lucide-react';
 
 interface DashboardProps {
   transactions: Invoice[];
+  inventory: InventoryItem[];
+  showCosts: boolean; // Purchases, cost of goods and profit are hidden from roles without cost access
 }
 
-export const Dashboard: React.FC<DashboardProps> = ({ transactions }) => {
+export const Dashboard: React.FC<DashboardProps> = ({ transactions, inventory, showCosts }) => {
   const stats = useMemo(() => {
+    // Drafts aren't income or expense until they are finalised
+    const posted = transactions.filter(t => t.status !== 'Draft');
     // "Bill" = Sale (Revenue)
-    const sales = transactions.filter(t => t.type === 'SALE');
+    const sales = posted.filter(t => t.type === 'SALE');
     // "Invoice" = Purchase (Expense)
-    const purchases = transactions.filter(t => t.type === 'PURCHASE');
+    const purchases = posted.filter(t => t.type === 'PURCHASE');
 
-    const totalRevenue = sales.reduce((sum, t) => sum + t.totalAmount, 0);
-    const totalExpenses = purchases.reduce((sum, t) => sum + t.totalAmount, 0);
-    const netProfit = totalRevenue - totalExpenses;
-    const pendingCollections = sales.filter(t => t.status === InvoiceStatus.PENDING).reduce((sum, t) => sum + t.totalAmount, 0);
+    // Net of returns: credit notes against bills, debit notes against purchases
+    const creditNotes = posted.filter(t => t.type === 'CREDIT_NOTE');
+    const debitNotes = posted.filter(t => t.type === 'DEBIT_NOTE');
 
-    return { totalRevenue, totalExpenses, netProfit, pendingCollections };
-  }, [transactions]);
+    const totalRevenue = sales.reduce((sum, t) => sum + t.totalAmount, 0) - creditNotes.reduce((sum, t) => sum + t.totalAmount, 0);
+    const totalExpenses = purchases.reduce((sum, t) => sum + t.totalAmount, 0) - debitNotes.reduce((sum, t) => sum + t.totalAmount, 0);
+    const pendingCollections = sales.filter(isOutstanding).reduce((sum, t) => sum + getBalanceDue(t), 0);
+    // Profit is sales less the cost of what was sold; stock still on the shelf isn't a loss
+    const { cogs, grossProfit, grossMargin, cashFlow } = buildProfitSummary(transactions, inventory);
+
+    return { totalRevenue, totalExpenses, cogs, grossProfit, grossMargin, cashFlow, pendingCollections };
+  }, [transactions, inventory]);
 
   const chartData = useMemo(() => {
     const data = [
       { name: 'Income (Bills)', amount: stats.totalRevenue, color: '#10b981' },
       { name: 'Expense (Invoices)', amount: stats.totalExpenses, color: '#ef4444' },
-      { name: 'Net Profit', amount: stats.netProfit, color: '#6366f1' },
+      { name: 'Cost of Goods Sold', amount: stats.cogs, color: '#f59e0b' },
+      { name: 'Gross Profit', amount: stats.grossProfit, color: '#6366f1' },
+      { name: 'Cash Flow', amount: stats.cashFlow, color: '#64748b' },
     ];
-    return data;
-  }, [stats]);
+    return showCosts ? data : data.slice(0, 1);
+  }, [stats, showCosts]);
 
   return (
     <div className="space-y-6 animate-fade-in">
       <h2 className="text-2xl font-bold text-slate-800">Business Overview</h2>
 
       {/* Stats Grid */}
-      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 xl:grid-cols-5 gap-4">
         <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
           <div className="flex items-center justify-between">
             <div>
@@ -50,6 +63,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ transactions }) => {
           </div>
         </div>
 
+        {showCosts && (<>
         <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
           <div className="flex items-center justify-between">
             <div>
@@ -65,10 +79,11 @@ export const Dashboard: React.FC<DashboardProps> = ({ transactions }) => {
         <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
           <div className="flex items-center justify-between">
             <div>
-              <p className="text-sm text-slate-500 font-medium">Net Profit</p>
-              <p className={`text-2xl font-bold ${stats.netProfit >= 0 ? 'text-indigo-600' : 'text-rose-600'}`}>
-                ₹{stats.netProfit.toLocaleString('en-IN')}
+              <p className="text-sm text-slate-500 font-medium">Gross Profit</p>
+              <p className={`text-2xl font-bold ${stats.grossProfit >= 0 ? 'text-indigo-600' : 'text-rose-600'}`}>
+                ₹{stats.grossProfit.toLocaleString('en-IN', { maximumFractionDigits: 0 })}
               </p>
+              <p className="text-xs text-slate-500">{stats.grossMargin.toFixed(1)}% margin</p>
             </div>
             <div className="p-3 bg-indigo-50 rounded-full text-indigo-600">
               <IndianRupee size={24} />
@@ -76,6 +91,21 @@ export const Dashboard: React.FC<DashboardProps> = ({ transactions }) => {
           </div>
         </div>
 
+        <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm text-slate-500 font-medium">Cash Flow (Sales − Purchases)</p>
+              <p className={`text-2xl font-bold ${stats.cashFlow >= 0 ? 'text-slate-700' : 'text-rose-600'}`}>
+                ₹{stats.cashFlow.toLocaleString('en-IN')}
+              </p>
+            </div>
+            <div className="p-3 bg-slate-100 rounded-full text-slate-600">
+              <ArrowLeftRight size={24} />
+            </div>
+          </div>
+        </div>
+        </>)}
+
         <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
           <div className="flex items-center justify-between">
             <div>
@@ -0,0 +1,65 @@
+import React, { useEffect, useState } from 'react';
+import { AuditEntry, Invoice } from '../types';
+import { MongoService } from '../services/mongo';
+import { AuditChanges, ACTION_STYLES, ENTITY_LABELS } from './AuditLog';
+import { History, ChevronDown, ChevronRight } from 'lucide-react';
+
+interface DocumentHistoryProps {
+  invoice: Invoice;
+}
+
+// Who created and changed this document, and its payments, newest first.
+// Reloads whenever the document is saved or a payment changes it.
+export const DocumentHistory: React.FC<DocumentHistoryProps> = ({ invoice }) => {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    MongoService.getAuditLog({ entityType: 'TRANSACTION', entityId: invoice.id })
+      .then(found => {
+        setEntries(found);
+        setError('');
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load the history.'));
+  }, [invoice]);
+
+  return (
+    <div className="max-w-4xl mx-auto mt-6 bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden print:hidden animate-fade-in">
+      <div className="p-6 border-b border-slate-200 bg-slate-50/50">
+        <h3 className="text-lg font-semibold text-slate-800 flex items-center gap-2">
+          <History size={20} className="text-indigo-600" />
+          History
+        </h3>
+      </div>
+      {error ? (
+        <p className="p-6 text-sm text-rose-600">{error}</p>
+      ) : entries.length === 0 ? (
+        <p className="p-6 text-sm text-slate-500 text-center">No changes recorded yet.</p>
+      ) : (
+        <ul className="divide-y divide-slate-100">
+          {entries.map(entry => (
+            <li key={entry.id} className="px-6 py-3">
+              <button
+                type="button"
+                onClick={() => setExpandedId(expandedId === entry.id ? null : entry.id)}
+                className="w-full flex items-center gap-3 text-left text-sm"
+              >
+                {expandedId === entry.id ? <ChevronDown size={16} className="text-slate-400" /> : <ChevronRight size={16} className="text-slate-400" />}
+                <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${ACTION_STYLES[entry.action]}`}>{entry.action}</span>
+                {entry.entityType !== 'TRANSACTION' && <span className="text-slate-500">{ENTITY_LABELS[entry.entityType]}</span>}
+                <span className="font-medium text-slate-800">{entry.userName || 'System'}</span>
+                <span className="ml-auto text-slate-500">{new Date(entry.at).toLocaleString()}</span>
+              </button>
+              {expandedId === entry.id && entry.changes.length > 0 && (
+                <div className="mt-3 ml-7">
+                  <AuditChanges changes={entry.changes} />
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,161 @@
+import React, { useEffect, useState } from 'react';
+import { BusinessSettings, Invoice, Party } from '../types';
+import { EmailNotSentError, MongoService } from '../services/mongo';
+import { DEFAULT_EMAIL_TEMPLATE, EMAIL_PLACEHOLDERS } from '../services/templates';
+import { Mail, Send, Loader2, X } from 'lucide-react';
+
+interface EmailPanelProps {
+  invoice: Invoice;
+  party?: Party;
+  settings: BusinessSettings;
+  onInvoiceUpdated: (invoice: Invoice) => void;
+}
+
+const inputClass = 'w-full px-3 py-2 bg-white border border-slate-300 rounded-md text-sm focus:border-indigo-500 outline-none';
+
+// Sends the document's PDF to the party and lists every send, newest first
+export const EmailPanel: React.FC<EmailPanelProps> = ({ invoice, party, settings, onInvoiceUpdated }) => {
+  const template = settings.emailTemplate || DEFAULT_EMAIL_TEMPLATE;
+  const isConfigured = !!(settings.smtp?.host && settings.smtp?.fromEmail);
+
+  const [isComposing, setIsComposing] = useState(false);
+  const [to, setTo] = useState('');
+  const [subject, setSubject] = useState(template.subject);
+  const [body, setBody] = useState(template.body);
+  const [size, setSize] = useState<'A4' | 'A5'>('A4');
+  const [isSending, setIsSending] = useState(false);
+
+  useEffect(() => {
+    setTo(party?.email || '');
+  }, [party?.email]);
+
+  const compose = () => {
+    setSubject(template.subject);
+    setBody(template.body);
+    setIsComposing(true);
+  };
+
+  const handleSend = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSending(true);
+    try {
+      onInvoiceUpdated(await MongoService.emailTransaction(invoice.id, { to, subject, body, size }));
+      setIsComposing(false);
+    } catch (error) {
+      if (error instanceof EmailNotSentError) onInvoiceUpdated(error.transaction);
+      alert(error instanceof Error ? error.message : 'Failed to send the email.');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const sends = [...(invoice.emails || [])].reverse();
+
+  return (
+    <div className="max-w-4xl mx-auto mt-6 bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden print:hidden animate-fade-in">
+      <div className="p-6 border-b border-slate-200 flex justify-between items-center bg-slate-50/50">
+        <h3 className="text-lg font-semibold text-slate-800 flex items-center gap-2">
+          <Mail size={20} className="text-indigo-600" />
+          Email
+        </h3>
+        {isConfigured ? (
+          !isComposing && (
+            <button
+              type="button"
+              onClick={compose}
+              className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors flex items-center gap-2 text-sm font-medium shadow-sm"
+            >
+              <Send size={16} /> Send by email
+            </button>
+          )
+        ) : (
+          <span className="text-sm text-slate-500">Set up outgoing email in Settings to send documents.</span>
+        )}
+      </div>
+
+      {isComposing && (
+        <form onSubmit={handleSend} className="p-6 border-b border-slate-200 bg-slate-50 space-y-4">
+          <div className="flex gap-4">
+            <div className="flex-grow">
+              <label className="block text-xs font-medium text-slate-500 mb-1">To</label>
+              <input
+                required
+                type="text"
+                value={to}
+                onChange={e => setTo(e.target.value)}
+                placeholder="name@example.com, another@example.com"
+                className={inputClass}
+              />
+              {!party?.email && <p className="text-xs text-slate-500 mt-1">{invoice.partyName} has no email address on file.</p>}
+            </div>
+            <div className="w-24">
+              <label className="block text-xs font-medium text-slate-500 mb-1">PDF</label>
+              <select value={size} onChange={e => setSize(e.target.value as 'A4' | 'A5')} className={inputClass}>
+                <option value="A4">A4</option>
+                <option value="A5">A5</option>
+              </select>
+            </div>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-slate-500 mb-1">Subject</label>
+            <input required type="text" value={subject} onChange={e => setSubject(e.target.value)} className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-slate-500 mb-1">Message</label>
+            <textarea required rows={6} value={body} onChange={e => setBody(e.target.value)} className={inputClass} />
+            <p className="text-xs text-slate-500 mt-1">Filled in when sent: {EMAIL_PLACEHOLDERS.join(' ')}</p>
+          </div>
+          <div className="flex justify-end gap-3">
+            <button
+              type="button"
+              onClick={() => setIsComposing(false)}
+              className="px-4 py-2 rounded-lg border border-slate-300 text-slate-700 text-sm font-medium hover:bg-white flex items-center gap-2"
+            >
+              <X size={16} /> Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isSending}
+              className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors flex items-center gap-2 text-sm font-medium shadow-sm disabled:opacity-70"
+            >
+              {isSending ? <Loader2 className="animate-spin" size={16} /> : <Send size={16} />}
+              Send
+            </button>
+          </div>
+        </form>
+      )}
+
+      {sends.length === 0 ? (
+        <p className="p-6 text-sm text-slate-500 text-center">Not emailed yet.</p>
+      ) : (
+        <table className="w-full text-left text-sm text-slate-600">
+          <thead className="bg-slate-50 text-slate-700 font-medium border-b border-slate-200">
+            <tr>
+              <th className="px-6 py-3">When</th>
+              <th className="px-6 py-3">To</th>
+              <th className="px-6 py-3">Subject</th>
+              <th className="px-6 py-3">By</th>
+              <th className="px-6 py-3">Status</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {sends.map((send, i) => (
+              <tr key={`${send.at}-${i}`}>
+                <td className="px-6 py-3 whitespace-nowrap">{new Date(send.at).toLocaleString()}</td>
+                <td className="px-6 py-3 break-all">{send.to}</td>
+                <td className="px-6 py-3">{send.subject}</td>
+                <td className="px-6 py-3">{send.userName || '-'}</td>
+                <td className="px-6 py-3">
+                  <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${send.status === 'SENT' ? 'bg-emerald-100 text-emerald-700' : 'bg-rose-100 text-rose-700'}`}>
+                    {send.status === 'SENT' ? 'Sent' : 'Failed'}
+                  </span>
+                  {send.error && <p className="text-xs text-rose-600 mt-1">{send.error}</p>}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,167 @@
+import React, { useEffect, useState } from 'react';
+import { BusinessSettings, EmailTemplate, SmtpSettings } from '../types';
+import { MongoService } from '../services/mongo';
+import { DEFAULT_EMAIL_TEMPLATE, EMAIL_PLACEHOLDERS } from '../services/templates';
+import { Save, Loader2, Send } from 'lucide-react';
+
+interface EmailSettingsFormProps {
+  settings: BusinessSettings;
+  onSave: (changes: Partial<BusinessSettings>) => Promise<void>;
+}
+
+const inputClass = 'w-full px-3 py-2 bg-white border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 outline-none';
+
+// Drops the password unless a new one was typed, so the saved one is kept
+const withoutPassword = (smtp?: SmtpSettings): SmtpSettings => ({ ...smtp, password: '' });
+
+// The mail server documents are emailed through, and the default subject and message
+export const EmailSettingsForm: React.FC<EmailSettingsFormProps> = ({ settings, onSave }) => {
+  const [smtp, setSmtp] = useState<SmtpSettings>(withoutPassword(settings.smtp));
+  const [emailTemplate, setEmailTemplate] = useState<EmailTemplate>(settings.emailTemplate || DEFAULT_EMAIL_TEMPLATE);
+  const [testTo, setTestTo] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [isTesting, setIsTesting] = useState(false);
+
+  useEffect(() => {
+    setSmtp(withoutPassword(settings.smtp));
+    setEmailTemplate(settings.emailTemplate || DEFAULT_EMAIL_TEMPLATE);
+  }, [settings]);
+
+  const updateSmtp = (changes: Partial<SmtpSettings>) => setSmtp(prev => ({ ...prev, ...changes }));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    try {
+      await onSave({ smtp, emailTemplate });
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to save the email settings.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleTest = async () => {
+    setIsTesting(true);
+    try {
+      const sentTo = await MongoService.sendTestEmail(testTo.trim() || undefined);
+      alert(`Test email sent to ${sentTo}.`);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to send the test email.');
+    } finally {
+      setIsTesting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="p-6 border-b border-slate-200 bg-slate-50/50">
+        <h3 className="text-lg font-semibold text-slate-800">Email</h3>
+        <p className="text-sm text-slate-500">The mail server bills, quotations, orders and notes are sent through. Leave the host blank to turn email off.</p>
+      </div>
+      <div className="p-6 space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-1">
+            <label className="block text-sm font-medium text-slate-700">SMTP Host</label>
+            <input type="text" value={smtp.host || ''} onChange={e => updateSmtp({ host: e.target.value })} placeholder="smtp.example.com" className={inputClass} />
+          </div>
+          <div className="space-y-1">
+            <label className="block text-sm font-medium text-slate-700">Port</label>
+            <input
+              type="number"
+              min="1"
+              max="65535"
+              value={smtp.port ?? ''}
+              onChange={e => updateSmtp({ port: e.target.value ? parseInt(e.target.value) : undefined })}
+              placeholder={smtp.secure ? '465' : '587'}
+              className={inputClass}
+            />
+          </div>
+          <div className="space-y-1">
+            <label className="block text-sm font-medium text-slate-700">Username</label>
+            <input type="text" autoComplete="off" value={smtp.username || ''} onChange={e => updateSmtp({ username: e.target.value })} placeholder="Blank for servers without sign-in" className={inputClass} />
+          </div>
+          <div className="space-y-1">
+            <label className="block text-sm font-medium text-slate-700">Password</label>
+            <input
+              type="password"
+              autoComplete="new-password"
+              value={smtp.password || ''}
+              onChange={e => updateSmtp({ password: e.target.value })}
+              placeholder={settings.smtp?.hasPassword ? 'Saved; type to change' : ''}
+              className={inputClass}
+            />
+          </div>
+          <div className="space-y-1">
+            <label className="block text-sm font-medium text-slate-700">From Name</label>
+            <input type="text" value={smtp.fromName || ''} onChange={e => updateSmtp({ fromName: e.target.value })} className={inputClass} />
+          </div>
+          <div className="space-y-1">
+            <label className="block text-sm font-medium text-slate-700">From Email</label>
+            <input type="email" value={smtp.fromEmail || ''} onChange={e => updateSmtp({ fromEmail: e.target.value })} placeholder="billing@example.com" className={inputClass} />
+          </div>
+        </div>
+        <div className="flex flex-wrap gap-6">
+          <label className="flex items-center gap-2 text-sm text-slate-700">
+            <input type="checkbox" checked={!!smtp.secure} onChange={e => updateSmtp({ secure: e.target.checked })} className="rounded border-slate-300 text-indigo-600 focus:ring-indigo-500" />
+            Use TLS from the start (port 465)
+          </label>
+          <label className="flex items-center gap-2 text-sm text-slate-700">
+            <input type="checkbox" checked={!!smtp.allowSelfSigned} onChange={e => updateSmtp({ allowSelfSigned: e.target.checked })} className="rounded border-slate-300 text-indigo-600 focus:ring-indigo-500" />
+            Accept self-signed certificates (local or test servers)
+          </label>
+        </div>
+
+        <div className="space-y-4">
+          <div className="space-y-1">
+            <label className="block text-sm font-medium text-slate-700">Default Subject</label>
+            <input
+              type="text"
+              value={emailTemplate.subject}
+              onChange={e => setEmailTemplate(prev => ({ ...prev, subject: e.target.value }))}
+              className={inputClass}
+            />
+          </div>
+          <div className="space-y-1">
+            <label className="block text-sm font-medium text-slate-700">Default Message</label>
+            <textarea
+              rows={6}
+              value={emailTemplate.body}
+              onChange={e => setEmailTemplate(prev => ({ ...prev, body: e.target.value }))}
+              className={inputClass}
+            />
+            <p className="text-xs text-slate-500">Placeholders: {EMAIL_PLACEHOLDERS.join(' ')}</p>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap justify-between items-center gap-3">
+          <div className="flex items-center gap-2">
+            <input
+              type="email"
+              value={testTo}
+              onChange={e => setTestTo(e.target.value)}
+              placeholder="Test address (defaults to From Email)"
+              className="w-72 px-3 py-2 bg-white border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+            />
+            <button
+              type="button"
+              onClick={handleTest}
+              disabled={isTesting || !settings.smtp?.host}
+              title={settings.smtp?.host ? 'Uses the saved settings' : 'Save the mail server settings first'}
+              className="px-3 py-2 border border-slate-300 rounded-lg text-sm text-slate-700 hover:bg-slate-50 flex items-center gap-1 disabled:opacity-50"
+            >
+              {isTesting ? <Loader2 className="animate-spin" size={14} /> : <Send size={14} />} Send Test
+            </button>
+          </div>
+          <button
+            type="submit"
+            disabled={isSaving}
+            className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 flex items-center gap-2 text-sm font-medium disabled:opacity-50"
+          >
+            {isSaving ? <Loader2 className="animate-spin" size={16} /> : <Save size={16} />} Save Email Settings
+          </button>
+        </div>
+      </div>
+    </form>
+  );
+};
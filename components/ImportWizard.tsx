@@ -0,0 +1,377 @@
+import React, { useState } from 'react';
+import { BusinessSettings, ImportData, ImportError, ImportResult, ImportSection, Location, Party, Product } from '../types';
+import { MongoService } from '../services/mongo';
+import { DOCUMENT_LABELS } from '../services/documents';
+import { IMPORT_FIELDS, IMPORT_SECTIONS, ImportSheet, buildImport, matchColumns, readImportFile, sampleCsv } from '../services/imports';
+import { homeStateOf } from '../services/gst';
+import { FileSpreadsheet, Upload, Download, X, ArrowLeft, Loader2, CheckCircle2, AlertTriangle } from 'lucide-react';
+
+interface ImportWizardProps {
+  parties: Party[];
+  products: Product[];
+  locations: Location[];
+  defaultLocationId: string;
+  settings: BusinessSettings;
+  onImported: (result: ImportResult) => void;
+}
+
+const SECTIONS: ImportSection[] = ['PARTIES', 'OPENING_STOCK', 'TRANSACTIONS'];
+
+const MAX_PREVIEW_DOCUMENTS = 100;
+
+const formatMoney = (value: number) => `₹${value.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const selectClass = 'w-full px-3 py-2 bg-white border border-slate-300 rounded-lg text-sm focus:border-indigo-500 outline-none';
+
+// Fields the mapping must cover before a file can be checked
+const missingFields = (section: ImportSection, sheet: ImportSheet) => {
+  const missing = IMPORT_FIELDS[section].filter(f => f.required && sheet.mapping[f.key] === undefined).map(f => f.label);
+  if (section === 'OPENING_STOCK' && sheet.mapping.sku === undefined && sheet.mapping.name === undefined) {
+    missing.push('SKU or Product');
+  }
+  return missing;
+};
+
+// Reads parties, opening stock and past documents from CSV or Excel files: pick
+// a file per kind, match its columns, check everything against the books without
+// saving, then post it all in one go
+export const ImportWizard: React.FC<ImportWizardProps> = ({ parties, products, locations, defaultLocationId, settings, onImported }) => {
+  const [sheets, setSheets] = useState<Partial<Record<ImportSection, ImportSheet>>>({});
+  const [openingDate, setOpeningDate] = useState(new Date().toISOString().split('T')[0]);
+  const [checked, setChecked] = useState<{ data: ImportData; errors: ImportError[] } | null>(null);
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const handleFile = async (section: ImportSection, file?: File) => {
+    if (!file) return;
+    try {
+      const rows = await readImportFile(file);
+      if (rows.length < 2) {
+        alert(`${file.name} has no rows under its headings.`);
+        return;
+      }
+      setSheets(prev => ({ ...prev, [section]: { fileName: file.name, rows, mapping: matchColumns(section, rows[0]) } }));
+    } catch (error) {
+      alert(error instanceof Error ? error.message : `Failed to read ${file.name}.`);
+    }
+  };
+
+  const mapColumn = (section: ImportSection, key: string, column: string) => setSheets(prev => {
+    const sheet = prev[section];
+    if (!sheet) return prev;
+    const mapping = { ...sheet.mapping };
+    if (column === '') delete mapping[key]; else mapping[key] = parseInt(column);
+    return { ...prev, [section]: { ...sheet, mapping } };
+  });
+
+  const removeSheet = (section: ImportSection) => setSheets(prev => {
+    const { [section]: _removed, ...rest } = prev;
+    return rest;
+  });
+
+  const downloadSample = (section: ImportSection) => {
+    const url = URL.createObjectURL(new Blob([sampleCsv(section)], { type: 'text/csv' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${IMPORT_SECTIONS[section].name.toLowerCase().replace(/\s+/g, '-')}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleCheck = async () => {
+    const loaded = SECTIONS.filter(section => sheets[section]);
+    if (loaded.length === 0) {
+      alert('Pick at least one file to import.');
+      return;
+    }
+    const unmapped = loaded
+      .map(section => ({ section, missing: missingFields(section, sheets[section]!) }))
+      .filter(s => s.missing.length > 0);
+    if (unmapped.length > 0) {
+      alert(unmapped.map(s => `${IMPORT_SECTIONS[s.section].name}: match a column to ${s.missing.join(', ')}`).join('\n'));
+      return;
+    }
+
+    setIsBusy(true);
+    try {
+      const { data, errors } = buildImport(sheets, {
+        parties,
+        products,
+        locations,
+        defaultLocationId,
+        defaultPaymentTermsDays: settings.defaultPaymentTermsDays,
+        homeState: homeStateOf(settings),
+        openingDate,
+      });
+      const serverErrors = await MongoService.checkImport(data);
+      const all = [...errors, ...serverErrors].sort((a, b) =>
+        SECTIONS.indexOf(a.section) - SECTIONS.indexOf(b.section) || (a.row ?? 0) - (b.row ?? 0));
+      setChecked({ data, errors: all });
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to check the files.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!checked) return;
+    setIsBusy(true);
+    try {
+      const imported = await MongoService.importData(checked.data);
+      onImported(imported);
+      setResult(imported);
+      setChecked(null);
+      setSheets({});
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to import.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  if (result) {
+    return (
+      <div className="max-w-3xl mx-auto bg-white rounded-xl shadow-sm border border-slate-200 p-8 text-center space-y-4 animate-fade-in">
+        <CheckCircle2 size={40} className="mx-auto text-emerald-600" />
+        <h2 className="text-2xl font-bold text-slate-800">Import complete</h2>
+        <p className="text-slate-600">
+          {result.parties.length} part{result.parties.length === 1 ? 'y' : 'ies'}, {result.products.length} new product(s),
+          {' '}{result.stocktake ? `opening stock as ${result.stocktake.stocktakeNumber}` : 'no opening stock'}
+          {' '}and {result.transactions.length} document(s) were added.
+        </p>
+        <button
+          onClick={() => setResult(null)}
+          className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 text-sm font-medium"
+        >
+          Import more
+        </button>
+      </div>
+    );
+  }
+
+  if (checked) {
+    const { data, errors } = checked;
+    const openingLines = data.openingStock?.lines || [];
+    const stats = [
+      { label: 'New Parties', value: data.parties.length },
+      { label: 'New Products', value: data.products.length },
+      { label: 'Opening Stock Lines', value: openingLines.length },
+      { label: 'Documents', value: data.transactions.length },
+    ];
+
+    return (
+      <div className="space-y-6 animate-fade-in">
+        <div className="flex items-center gap-3">
+          <button onClick={() => setChecked(null)} className="p-2 hover:bg-slate-200 rounded-full transition-colors" title="Change files or columns">
+            <ArrowLeft size={20} className="text-slate-600" />
+          </button>
+          <div>
+            <h2 className="text-2xl font-bold text-slate-800">Check Import</h2>
+            <p className="text-sm text-slate-500">Nothing has been saved yet.</p>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {stats.map(stat => (
+            <div key={stat.label} className="bg-white p-4 rounded-xl border border-slate-200 shadow-sm">
+              <div className="text-sm text-slate-500 mb-1">{stat.label}</div>
+              <div className="text-2xl font-bold text-slate-800">{stat.value}</div>
+            </div>
+          ))}
+        </div>
+
+        {errors.length > 0 ? (
+          <div className="bg-white rounded-xl shadow-sm border border-rose-200 overflow-hidden">
+            <div className="p-4 border-b border-rose-200 bg-rose-50 flex items-center gap-2 text-rose-700 font-medium">
+              <AlertTriangle size={18} /> {errors.length} problem(s) to fix in the files before anything can be imported
+            </div>
+            <div className="max-h-96 overflow-y-auto">
+              <table className="w-full text-left text-sm text-slate-600">
+                <thead className="bg-slate-50 text-slate-700 font-medium border-b border-slate-200 sticky top-0">
+                  <tr>
+                    <th className="px-6 py-3">File</th>
+                    <th className="px-6 py-3">Row</th>
+                    <th className="px-6 py-3">Problem</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {errors.map((error, i) => (
+                    <tr key={i}>
+                      <td className="px-6 py-2 whitespace-nowrap">{IMPORT_SECTIONS[error.section].name}</td>
+                      <td className="px-6 py-2">{error.row ?? '-'}</td>
+                      <td className="px-6 py-2 text-rose-700">{error.message}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        ) : (
+          <div className="p-4 rounded-xl border border-emerald-200 bg-emerald-50 text-emerald-700 text-sm flex items-center gap-2">
+            <CheckCircle2 size={18} />
+            No problems found. Importing posts stock in date order and records any amount paid as a payment on the document date.
+            Historical sales are posted even where they take stock below zero.
+          </div>
+        )}
+
+        {data.transactions.length > 0 && (
+          <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+            <div className="overflow-x-auto">
+              <table className="w-full text-left text-sm text-slate-600">
+                <thead className="bg-slate-50 text-slate-700 font-medium border-b border-slate-200">
+                  <tr>
+                    <th className="px-6 py-3">Row</th>
+                    <th className="px-6 py-3">Type</th>
+                    <th className="px-6 py-3">Number</th>
+                    <th className="px-6 py-3">Date</th>
+                    <th className="px-6 py-3">Party</th>
+                    <th className="px-6 py-3 text-right">Lines</th>
+                    <th className="px-6 py-3 text-right">Total</th>
+                    <th className="px-6 py-3 text-right">Paid</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {data.transactions.slice(0, MAX_PREVIEW_DOCUMENTS).map(doc => (
+                    <tr key={doc.id}>
+                      <td className="px-6 py-2">{doc.row}</td>
+                      <td className="px-6 py-2 whitespace-nowrap">{DOCUMENT_LABELS[doc.type].name}</td>
+                      <td className="px-6 py-2 font-mono">{doc.invoiceNumber || <span className="font-sans text-slate-400">Next in series</span>}</td>
+                      <td className="px-6 py-2 whitespace-nowrap">{new Date(doc.date).toLocaleDateString()}</td>
+                      <td className="px-6 py-2">{doc.partyName}</td>
+                      <td className="px-6 py-2 text-right">{doc.items.length}</td>
+                      <td className="px-6 py-2 text-right">{formatMoney(doc.totalAmount)}</td>
+                      <td className="px-6 py-2 text-right">{doc.payment ? formatMoney(doc.payment.amount) : '-'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            {data.transactions.length > MAX_PREVIEW_DOCUMENTS && (
+              <p className="p-3 text-xs text-slate-500 border-t border-slate-100">
+                Showing the first {MAX_PREVIEW_DOCUMENTS} of {data.transactions.length} documents.
+              </p>
+            )}
+          </div>
+        )}
+
+        <div className="flex justify-end gap-3">
+          <button
+            onClick={() => setChecked(null)}
+            className="px-4 py-2 bg-white border border-slate-300 text-slate-700 rounded-lg hover:bg-slate-50 text-sm font-medium"
+          >
+            Change Files
+          </button>
+          <button
+            onClick={handleImport}
+            disabled={isBusy || errors.length > 0}
+            className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 flex items-center gap-2 text-sm font-medium disabled:opacity-50"
+          >
+            {isBusy ? <Loader2 className="animate-spin" size={16} /> : <Upload size={16} />} Import
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div>
+        <h2 className="text-2xl font-bold text-slate-800">Import Data</h2>
+        <p className="text-sm text-slate-500">
+          Bring parties, opening stock and past documents over from CSV or Excel (.xlsx) files. Each file is optional;
+          documents may refer to parties and products in the other files. Nothing is saved until every row checks out.
+        </p>
+      </div>
+
+      {SECTIONS.map(section => {
+        const sheet = sheets[section];
+        const info = IMPORT_SECTIONS[section];
+        return (
+          <div key={section} className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+            <div className="p-6 border-b border-slate-200 bg-slate-50/50 flex flex-col md:flex-row md:items-center justify-between gap-4">
+              <div>
+                <h3 className="text-lg font-semibold text-slate-800 flex items-center gap-2">
+                  <FileSpreadsheet size={20} className="text-indigo-600" /> {info.name}
+                </h3>
+                <p className="text-sm text-slate-500">{info.description}</p>
+              </div>
+              <button
+                type="button"
+                onClick={() => downloadSample(section)}
+                className="px-3 py-1.5 border border-slate-300 rounded-lg text-sm text-slate-700 hover:bg-slate-50 flex items-center gap-1 shrink-0"
+              >
+                <Download size={14} /> Sample File
+              </button>
+            </div>
+
+            <div className="p-6 space-y-4">
+              {sheet ? (
+                <div className="flex items-center gap-3 text-sm text-slate-700">
+                  <span className="font-medium">{sheet.fileName}</span>
+                  <span className="text-slate-500">{sheet.rows.length - 1} row(s)</span>
+                  <button onClick={() => removeSheet(section)} className="ml-auto p-1 text-slate-400 hover:text-rose-600" title="Remove file">
+                    <X size={16} />
+                  </button>
+                </div>
+              ) : (
+                <label className="inline-flex items-center gap-2 px-4 py-2 bg-indigo-50 text-indigo-700 rounded-lg text-sm font-medium cursor-pointer hover:bg-indigo-100">
+                  <Upload size={16} /> Choose CSV or Excel File
+                  <input
+                    type="file"
+                    accept=".csv,.txt,.xlsx"
+                    className="hidden"
+                    onChange={e => {
+                      handleFile(section, e.target.files?.[0]);
+                      e.target.value = '';
+                    }}
+                  />
+                </label>
+              )}
+
+              {section === 'OPENING_STOCK' && (
+                <div className="w-56 space-y-1">
+                  <label className="block text-sm font-medium text-slate-700">Stock As Of</label>
+                  <input type="date" value={openingDate} onChange={e => setOpeningDate(e.target.value)} className={selectClass} />
+                  <p className="text-xs text-slate-500">Imported bills and purchases can't be dated earlier.</p>
+                </div>
+              )}
+
+              {sheet && (
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  {IMPORT_FIELDS[section].map(field => (
+                    <div key={field.key} className="space-y-1">
+                      <label className="block text-xs font-medium text-slate-500">
+                        {field.label}{field.required && <span className="text-rose-500"> *</span>}
+                      </label>
+                      <select
+                        value={sheet.mapping[field.key] ?? ''}
+                        onChange={e => mapColumn(section, field.key, e.target.value)}
+                        className={selectClass}
+                      >
+                        <option value="">Not in file</option>
+                        {sheet.rows[0].map((heading, i) => (
+                          <option key={i} value={i}>{heading || `Column ${i + 1}`}</option>
+                        ))}
+                      </select>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        );
+      })}
+
+      <div className="flex justify-end">
+        <button
+          onClick={handleCheck}
+          disabled={isBusy}
+          className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 flex items-center gap-2 text-sm font-medium disabled:opacity-50"
+        >
+          {isBusy ? <Loader2 className="animate-spin" size={16} /> : <CheckCircle2 size={16} />} Check Files
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -1,10 +1,16 @@
 
 import React, { useState, useMemo } from 'react';
-import { InventoryItem } from '../types';
+import { InventoryItem, CostingMethod, Location } from '../types';
+import { getLocationQuantity, getStockValue, isLowStock } from '../services/inventory';
+import { StockHistoryDrawer } from './StockHistoryDrawer';
 import { Package, Search, AlertCircle, IndianRupee, ArrowUpDown, ArrowUp, ArrowDown } from 'lucide-react';
 
 interface InventoryListProps {
   inventory: InventoryItem[];
+  costingMethod: CostingMethod;
+  locations: Location[];
+  showCosts: boolean; // Cost and value columns are left out for roles without cost access
+  onOpenTransaction: (id: string) => void;
 }
 
 type SortKey = keyof InventoryItem | 'totalValue';
@@ -15,17 +21,29 @@ interface SortConfig {
   direction: SortDirection;
 }
 
-export const InventoryList: React.FC<InventoryListProps> = ({ inventory }) => {
+export const InventoryList: React.FC<InventoryListProps> = ({ inventory, costingMethod, locations, showCosts, onOpenTransaction }) => {
   const [searchTerm, setSearchTerm] = useState('');
+  const [locationId, setLocationId] = useState(''); // '' = all locations
+  const [historyItem, setHistoryItem] = useState<InventoryItem | null>(null);
   const [sortConfig, setSortConfig] = useState<SortConfig | null>(null);
 
+  // One location's stock, valued at the business-wide average cost
+  const stock = useMemo(() => locationId
+    ? inventory
+        .filter(item => item.byLocation[locationId] !== undefined)
+        .map(item => ({ ...item, quantity: getLocationQuantity(item, locationId), layers: undefined }))
+    : inventory,
+  [inventory, locationId]);
+
+  const locationName = (id: string) => locations.find(l => l.id === id)?.name || id;
+
   const processedInventory = useMemo(() => {
-    let items = [...inventory];
+    let items = [...stock];
 
     // Filter
     if (searchTerm) {
       const lowerTerm = searchTerm.toLowerCase();
-      items = items.filter(item => item.name.toLowerCase().includes(lowerTerm));
+      items = items.filter(item => item.name.toLowerCase().includes(lowerTerm) || (item.sku || '').toLowerCase().includes(lowerTerm));
     }
 
     // Sort
@@ -36,8 +54,8 @@ export const InventoryList: React.FC<InventoryListProps> = ({ inventory }) => {
 
         // Handle computed sort keys
         if (sortConfig.key === 'totalValue') {
-          aValue = a.quantity * a.averageCost;
-          bValue = b.quantity * b.averageCost;
+          aValue = getStockValue(a);
+          bValue = getStockValue(b);
         }
 
         if (aValue < bValue) return sortConfig.direction === 'asc' ? -1 : 1;
@@ -47,7 +65,7 @@ export const InventoryList: React.FC<InventoryListProps> = ({ inventory }) => {
     }
 
     return items;
-  }, [inventory, searchTerm, sortConfig]);
+  }, [stock, searchTerm, sortConfig]);
 
   const handleSort = (key: SortKey) => {
     let direction: SortDirection = 'asc';
@@ -64,8 +82,8 @@ export const InventoryList: React.FC<InventoryListProps> = ({ inventory }) => {
       : <ArrowDown size={14} className="text-indigo-600" />;
   };
 
-  const totalStockValue = inventory.reduce((acc, item) => acc + (item.quantity * item.averageCost), 0);
-  const lowStockCount = inventory.filter(i => i.quantity < 5).length;
+  const totalStockValue = stock.reduce((acc, item) => acc + getStockValue(item), 0);
+  const lowStockCount = stock.filter(i => i.quantity <= i.reorderLevel).length;
 
   return (
     <div className="space-y-6 animate-fade-in">
@@ -74,7 +92,18 @@ export const InventoryList: React.FC<InventoryListProps> = ({ inventory }) => {
           <Package className="text-indigo-600" />
           Inventory Management
         </h2>
-        <div className="relative">
+        <div className="flex flex-col md:flex-row gap-3">
+          {locations.length > 1 && (
+            <select
+              value={locationId}
+              onChange={e => setLocationId(e.target.value)}
+              className="px-4 py-2 border border-slate-200 rounded-full text-sm focus:outline-none focus:border-indigo-500 bg-white shadow-sm"
+            >
+              <option value="">All locations</option>
+              {locations.map(l => <option key={l.id} value={l.id}>{l.name}</option>)}
+            </select>
+          )}
+          <div className="relative">
             <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" size={18} />
             <input 
               type="text" 
@@ -83,21 +112,22 @@ export const InventoryList: React.FC<InventoryListProps> = ({ inventory }) => {
               placeholder="Search stock..." 
               className="pl-10 pr-4 py-2 border border-slate-200 rounded-full text-sm focus:outline-none focus:border-indigo-500 w-full md:w-64 bg-white shadow-sm"
             />
+          </div>
         </div>
       </div>
 
       <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
           <div className="bg-white p-4 rounded-xl border border-slate-200 shadow-sm">
               <div className="text-sm text-slate-500 mb-1">Total Unique Items</div>
-              <div className="text-2xl font-bold text-slate-800">{inventory.length}</div>
+              <div className="text-2xl font-bold text-slate-800">{stock.length}</div>
           </div>
-          <div className="bg-white p-4 rounded-xl border border-slate-200 shadow-sm">
-              <div className="text-sm text-slate-500 mb-1">Total Stock Value</div>
+          {showCosts && <div className="bg-white p-4 rounded-xl border border-slate-200 shadow-sm">
+              <div className="text-sm text-slate-500 mb-1">Total Stock Value ({costingMethod === 'FIFO' ? 'FIFO' : 'Weighted Avg.'})</div>
               <div className="text-2xl font-bold text-emerald-600 flex items-center">
                   <IndianRupee size={20} className="mr-1" />
                   {totalStockValue.toLocaleString('en-IN', { minimumFractionDigits: 2 })}
               </div>
-          </div>
+          </div>}
           <div className="bg-white p-4 rounded-xl border border-slate-200 shadow-sm">
               <div className="text-sm text-slate-500 mb-1">Low Stock Items</div>
               <div className="text-2xl font-bold text-amber-600 flex items-center gap-2">
@@ -118,36 +148,61 @@ export const InventoryList: React.FC<InventoryListProps> = ({ inventory }) => {
                 <th className="px-6 py-4 cursor-pointer hover:bg-slate-100 transition-colors" onClick={() => handleSort('quantity')}>
                   <div className="flex items-center gap-2">Quantity <SortIcon columnKey="quantity" /></div>
                 </th>
-                <th className="px-6 py-4 cursor-pointer hover:bg-slate-100 transition-colors" onClick={() => handleSort('averageCost')}>
-                  <div className="flex items-center gap-2">Avg. Cost <SortIcon columnKey="averageCost" /></div>
-                </th>
+                {showCosts && (
+                  <th className="px-6 py-4 cursor-pointer hover:bg-slate-100 transition-colors" onClick={() => handleSort('averageCost')}>
+                    <div className="flex items-center gap-2">Avg. Cost <SortIcon columnKey="averageCost" /></div>
+                  </th>
+                )}
                 <th className="px-6 py-4 cursor-pointer hover:bg-slate-100 transition-colors" onClick={() => handleSort('sellingPrice')}>
                    <div className="flex items-center gap-2">Selling Price <SortIcon columnKey="sellingPrice" /></div>
                 </th>
-                <th className="px-6 py-4 cursor-pointer hover:bg-slate-100 transition-colors" onClick={() => handleSort('totalValue')}>
-                   <div className="flex items-center gap-2">Total Value <SortIcon columnKey="totalValue" /></div>
-                </th>
+                {showCosts && (
+                  <th className="px-6 py-4 cursor-pointer hover:bg-slate-100 transition-colors" onClick={() => handleSort('totalValue')}>
+                     <div className="flex items-center gap-2">Total Value <SortIcon columnKey="totalValue" /></div>
+                  </th>
+                )}
                 <th className="px-6 py-4 text-right">Status</th>
               </tr>
             </thead>
             <tbody className="divide-y divide-slate-100">
               {processedInventory.length === 0 ? (
                 <tr>
-                  <td colSpan={6} className="px-6 py-12 text-center text-slate-500">
+                  <td colSpan={showCosts ? 6 : 4} className="px-6 py-12 text-center text-slate-500">
                     {searchTerm ? 'No items match your search.' : 'No inventory data found. Add Purchase Invoices to stock up.'}
                   </td>
                 </tr>
               ) : processedInventory.map((item) => (
-                <tr key={item.id} className="hover:bg-slate-50 transition-colors">
-                  <td className="px-6 py-4 font-medium text-slate-900">{item.name}</td>
-                  <td className="px-6 py-4 font-semibold text-indigo-600">{item.quantity}</td>
-                  <td className="px-6 py-4">₹{item.averageCost.toFixed(2)}</td>
+                <tr key={item.id} onClick={() => setHistoryItem(item)} className="hover:bg-slate-50 transition-colors cursor-pointer" title="View stock history">
+                  <td className="px-6 py-4 font-medium text-slate-900">
+                    {item.name}
+                    {item.sku && <div className="text-xs font-mono font-normal text-slate-400">{item.sku}</div>}
+                  </td>
+                  <td className="px-6 py-4 font-semibold text-indigo-600">
+                    {item.quantity}
+                    {!locationId && locations.length > 1 && (
+                      <div className="text-xs font-normal text-slate-400">
+                        {Object.entries(item.byLocation).filter(([, qty]) => qty !== 0).map(([id, qty]) => `${locationName(id)} ${qty}`).join(' · ')}
+                      </div>
+                    )}
+                  </td>
+                  {showCosts && <td className="px-6 py-4">₹{item.averageCost.toFixed(2)}</td>}
                   <td className="px-6 py-4">₹{item.sellingPrice.toFixed(2)}</td>
-                  <td className="px-6 py-4 font-medium">₹{(item.quantity * item.averageCost).toFixed(2)}</td>
+                  {showCosts && (
+                    <td className="px-6 py-4 font-medium">
+                      ₹{getStockValue(item).toFixed(2)}
+                      {item.layers && item.layers.length > 1 && (
+                        <div className="text-xs font-normal text-slate-400">{item.layers.length} cost layers</div>
+                      )}
+                    </td>
+                  )}
                   <td className="px-6 py-4 text-right">
-                    {item.quantity <= 0 ? (
+                    {item.quantity < 0 ? (
+                        <span className="px-2 py-1 bg-rose-100 text-rose-700 rounded-full text-xs font-medium" title="More was sold than was recorded as purchased. Open the history to find the sale.">
+                          Oversold by {-item.quantity}
+                        </span>
+                    ) : item.quantity === 0 ? (
                         <span className="px-2 py-1 bg-rose-100 text-rose-700 rounded-full text-xs font-medium">Out of Stock</span>
-                    ) : item.quantity < 5 ? (
+                    ) : isLowStock(item) ? (
                         <span className="px-2 py-1 bg-amber-100 text-amber-700 rounded-full text-xs font-medium">Low Stock</span>
                     ) : (
                         <span className="px-2 py-1 bg-emerald-100 text-emerald-700 rounded-full text-xs font-medium">In Stock</span>
@@ -159,6 +214,16 @@ export const InventoryList: React.FC<InventoryListProps> = ({ inventory }) => {
           </table>
         </div>
       </div>
+
+      {historyItem && (
+        <StockHistoryDrawer
+          item={historyItem}
+          locations={locations}
+          showCosts={showCosts}
+          onClose={() => setHistoryItem(null)}
+          onOpenTransaction={onOpenTransaction}
+        />
+      )}
     </div>
   );
 };
@@ -1,40 +1,120 @@
 
-import React, { useState, useRef, useEffect } from 'react';
-import { Invoice, InvoiceStatus, LineItem, TransactionType } from '../types';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { BusinessSettings, Invoice, InvoiceTemplateId, InvoiceStatus, InventoryItem, LineItem, Location, NegativeStockPolicy, Party, Product, TransactionType } from '../types';
 import { analyzeInvoiceImage } from '../services/geminiService';
-import { Plus, Trash2, Wand2, Loader2, Save, ArrowLeft, Printer, Eye, X } from 'lucide-react';
+import { GST_RATES, INDIAN_STATES, homeStateOf, isInterState, calculateLineTax, calculateInvoiceTotals } from '../services/gst';
+import { findPartyByName } from '../services/parties';
+import { resolveInvoiceTemplate } from '../services/templates';
+import { MongoService } from '../services/mongo';
+import { DOCUMENT_LABELS, ORDER_STATUSES, canConvert, convertsTo, isNoteType, isNumberedType, isOrderType, noteTypeFor, partySide } from '../services/documents';
+import { PartyPicker } from './PartyPicker';
+import { PartyForm } from './PartyForm';
+import { ProductPicker } from './ProductPicker';
+import { ProductForm } from './ProductForm';
+import { PrintableBill } from './PrintableBill';
+import { PrintPreview } from './PrintPreview';
+import { Plus, Trash2, Wand2, Loader2, Save, ArrowLeft, Printer, Eye, ArrowRightLeft, Undo2, FileDown } from 'lucide-react';
 
 interface InvoiceFormProps {
   onSave: (invoice: Invoice) => void;
   onCancel: () => void;
   initialData?: Invoice;
+  isLocked?: boolean; // Posted, and the user's role can't change posted documents
+  prefill?: Invoice; // Unsaved document to start from, e.g. a conversion from a quotation
+  onConvert?: (order: Invoice) => void;
+  onReturn?: (invoice: Invoice) => void; // Raises a credit / debit note; only passed while something is left to return
+  returnLimits?: Record<string, number>; // Credit / debit notes: most that can come back per invoice line id
   type: TransactionType;
+  parties: Party[];
+  onCreateParty: (party: Party) => Promise<Party>;
+  products: Product[];
+  onCreateProduct: (product: Product) => Promise<Product>;
+  inventory: InventoryItem[];
+  negativeStockPolicy: NegativeStockPolicy;
+  locations: Location[];
+  defaultLocationId: string; // Preselected on new documents
+  settings: BusinessSettings; // Business profile, bank details and default terms for the printed copy
+  businessName: string; // Printed when the profile has no legal name
 }
 
-export const InvoiceForm: React.FC<InvoiceFormProps> = ({ onSave, onCancel, initialData, type }) => {
+const stockKey = (productId?: string, locationId?: string) => `${productId}@${locationId}`;
+
+const newLineItem = (): LineItem => ({ id: Date.now().toString(), description: '', quantity: 1, price: 0, hsnCode: '', gstRate: 18 });
+
+const SUBTITLES: Record<TransactionType, string> = {
+  SALE: 'Create a bill for your customer (Reduces Stock).',
+  PURCHASE: 'Record a purchase invoice from vendor (Adds Stock).',
+  QUOTATION: 'Quote prices to a customer (No stock change).',
+  PURCHASE_ORDER: 'Order stock from a vendor (No stock change).',
+  CREDIT_NOTE: 'Take back goods a customer returned (Adds Stock).',
+  DEBIT_NOTE: 'Send goods back to the vendor (Reduces Stock).',
+};
+
+const HEADER_COLORS: Record<TransactionType, string> = {
+  SALE: 'bg-emerald-600',
+  PURCHASE: 'bg-rose-600',
+  QUOTATION: 'bg-sky-600',
+  PURCHASE_ORDER: 'bg-amber-600',
+  CREDIT_NOTE: 'bg-teal-600',
+  DEBIT_NOTE: 'bg-orange-600',
+};
+
+const SAVE_COLORS: Record<TransactionType, string> = {
+  SALE: 'bg-emerald-600 hover:bg-emerald-700',
+  PURCHASE: 'bg-rose-600 hover:bg-rose-700',
+  QUOTATION: 'bg-sky-600 hover:bg-sky-700',
+  PURCHASE_ORDER: 'bg-amber-600 hover:bg-amber-700',
+  CREDIT_NOTE: 'bg-teal-600 hover:bg-teal-700',
+  DEBIT_NOTE: 'bg-orange-600 hover:bg-orange-700',
+};
+
+export const InvoiceForm: React.FC<InvoiceFormProps> = ({ onSave, onCancel, initialData, isLocked = false, prefill, onConvert, onReturn, returnLimits, type, parties, onCreateParty, products, onCreateProduct, inventory, negativeStockPolicy, locations, defaultLocationId, settings, businessName }) => {
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [showPreview, setShowPreview] = useState(false);
+  const [pdfSize, setPdfSize] = useState<'A4' | 'A5'>('A4');
+  const [templateId, setTemplateId] = useState<InvoiceTemplateId | null>(null); // Picked in the preview; the settings' design otherwise
+  const [isDownloading, setIsDownloading] = useState(false);
+  const [newPartyName, setNewPartyName] = useState<string | null>(null);
+  const [newProduct, setNewProduct] = useState<{ lineId: string; name: string } | null>(null);
+
+  // Place of supply defaults to the business's own state
+  const homeState = homeStateOf(settings);
 
   // Form State
+  const [partyId, setPartyId] = useState<string | undefined>();
   const [partyName, setPartyName] = useState('');
   const [invoiceNumber, setInvoiceNumber] = useState('');
   const [date, setDate] = useState(new Date().toISOString().split('T')[0]);
   const [dueDate, setDueDate] = useState('');
-  const [status, setStatus] = useState<InvoiceStatus>(InvoiceStatus.DRAFT);
-  const [items, setItems] = useState<LineItem[]>([{ id: Date.now().toString(), description: '', quantity: 1, price: 0 }]);
+  const [status, setStatus] = useState<InvoiceStatus>(isOrderType(type) ? InvoiceStatus.OPEN : InvoiceStatus.PENDING);
+  const [items, setItems] = useState<LineItem[]>([newLineItem()]);
+  const [placeOfSupply, setPlaceOfSupply] = useState(homeState);
+  const [partyGstin, setPartyGstin] = useState('');
+  const [taxInclusive, setTaxInclusive] = useState(false);
+  const [locationId, setLocationId] = useState(defaultLocationId);
+  const [notes, setNotes] = useState(settings.defaultNotes || '');
 
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  // The document being edited, or the one a conversion starts from
+  const source = initialData || prefill;
+
   useEffect(() => {
-    if (initialData) {
-      setPartyName(initialData.partyName);
-      setInvoiceNumber(initialData.invoiceNumber);
-      setDate(initialData.date);
-      setDueDate(initialData.dueDate);
-      setStatus(initialData.status);
-      setItems(initialData.items);
+    if (source) {
+      setPartyId(source.partyId);
+      setPartyName(source.partyName);
+      setInvoiceNumber(source.invoiceNumber);
+      setDate(source.date.split('T')[0]);
+      setDueDate((source.dueDate || '').split('T')[0]);
+      setStatus(source.status);
+      setItems(source.items);
+      setPlaceOfSupply(source.placeOfSupply || homeState);
+      setPartyGstin(source.partyGstin || '');
+      setTaxInclusive(!!source.taxInclusive);
+      setLocationId(source.locationId || defaultLocationId);
+      setNotes(initialData ? source.notes || '' : source.notes || settings.defaultNotes || '');
     }
-  }, [initialData]);
+  }, [source]);
 
   const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
@@ -50,16 +130,25 @@ export const InvoiceForm: React.FC<InvoiceFormProps> = ({ onSave, onCancel, init
         try {
           const analysis = await analyzeInvoiceImage(base64Data);
 
-          setPartyName(analysis.vendorName || '');
-          setInvoiceNumber(analysis.invoiceNumber || '');
+          const knownParty = findPartyByName(parties, analysis.vendorName || '');
+          if (knownParty) {
+            selectParty(knownParty);
+          } else {
+            setPartyId(undefined);
+            setPartyName(analysis.vendorName || '');
+          }
+          if (!isNumberedType(type)) setInvoiceNumber(analysis.invoiceNumber || '');
           setDate(analysis.date || new Date().toISOString().split('T')[0]);
 
           if (analysis.items && analysis.items.length > 0) {
             setItems(analysis.items.map(item => ({
               id: Math.random().toString(36).substr(2, 9),
+              productId: products.find(p => p.name.trim().toLowerCase() === (item.description || '').trim().toLowerCase())?.id,
               description: item.description,
               quantity: item.quantity,
-              price: item.price
+              price: item.price,
+              hsnCode: '',
+              gstRate: 0
             })));
           }
         } catch (err) {
@@ -75,8 +164,37 @@ export const InvoiceForm: React.FC<InvoiceFormProps> = ({ onSave, onCancel, init
     }
   };
 
+  // Pulls GST details and payment terms from the party master; parties without
+  // terms of their own get the business default
+  const selectParty = (party: Party) => {
+    setPartyId(party.id);
+    setPartyName(party.name);
+    setPartyGstin(party.gstin || '');
+    setPlaceOfSupply(party.state || homeState);
+    const termsDays = party.paymentTermsDays || settings.defaultPaymentTermsDays || 0;
+    if (!initialData && termsDays) {
+      const due = new Date(date);
+      due.setDate(due.getDate() + termsDays);
+      setDueDate(due.toISOString().split('T')[0]);
+    }
+  };
+
+  const handleCreateParty = async (party: Party) => {
+    const saved = await onCreateParty(party);
+    selectParty(saved);
+    setNewPartyName(null);
+  };
+
+  const selectedParty = parties.find(p => p.id === partyId);
+
   const addItem = () => {
-    setItems([...items, { id: Date.now().toString(), description: '', quantity: 1, price: 0 }]);
+    setItems([...items, { ...newLineItem(), locationId }]);
+  };
+
+  // The document's location applies to every line; lines can then be moved one by one
+  const changeLocation = (id: string) => {
+    setLocationId(id);
+    setItems(prev => prev.map(i => ({ ...i, locationId: id })));
   };
 
   const removeItem = (id: string) => {
@@ -92,22 +210,91 @@ export const InvoiceForm: React.FC<InvoiceFormProps> = ({ onSave, onCancel, init
     }));
   };
 
-  const calculateTotal = () => {
-    return items.reduce((sum, item) => sum + (item.quantity * item.price), 0);
+  // Fills a line from the catalog: purchases default to the buying price, bills to the selling price
+  const selectProduct = (lineId: string, product: Product) => {
+    setItems(prev => prev.map(i => i.id !== lineId ? i : {
+      ...i,
+      productId: product.id,
+      description: product.name,
+      price: partySide(type) === 'SALE' ? product.sellingPrice : product.purchasePrice,
+      hsnCode: product.hsnCode || '',
+      gstRate: product.gstRate ?? i.gstRate,
+    }));
+  };
+
+  const handleCreateProduct = async (product: Product) => {
+    if (!newProduct) return;
+    const saved = await onCreateProduct(product);
+    selectProduct(newProduct.lineId, saved);
+    setNewProduct(null);
   };
 
+  // GST breakup is re-derived from the raw lines on every render
+  const interState = isInterState(placeOfSupply, homeState);
+  const taxedItems = items.map(item => calculateLineTax({ ...item, locationId: item.locationId || locationId }, taxInclusive, interState));
+  const totals = calculateInvoiceTotals(taxedItems);
+
+  // Stock on hand per product and location for bills; when editing, this bill's own quantities count back in
+  const stockAvailable = useMemo(() => {
+    const available = new Map<string, number>();
+    inventory.forEach(i => Object.entries(i.byLocation).forEach(([loc, qty]) => available.set(stockKey(i.id, loc), qty)));
+    if (initialData?.type === 'SALE' && initialData.status !== InvoiceStatus.DRAFT) {
+      initialData.items.forEach(i => {
+        const key = stockKey(i.productId, i.locationId || initialData.locationId);
+        if (i.productId) available.set(key, (available.get(key) || 0) + i.quantity);
+      });
+    }
+    return available;
+  }, [inventory, initialData]);
+
+  const requestedByStock = new Map<string, number>();
+  taxedItems.forEach(i => {
+    const key = stockKey(i.productId, i.locationId);
+    if (i.productId) requestedByStock.set(key, (requestedByStock.get(key) || 0) + (i.quantity || 0));
+  });
+  const shortStockKeys = type === 'SALE' && status !== InvoiceStatus.DRAFT
+    ? [...requestedByStock].filter(([key, qty]) => qty > (stockAvailable.get(key) || 0)).map(([key]) => key)
+    : [];
+  const isShort = (item: LineItem) => shortStockKeys.includes(stockKey(item.productId, item.locationId || locationId));
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+    if (isLocked) return;
+    if (!partyId) {
+      alert(`Pick a ${partySide(type) === 'SALE' ? 'customer' : 'vendor'} from the list or create a new one.`);
+      return;
+    }
+    if (items.some(i => !i.productId)) {
+      alert('Every line must be a product from the catalog. Pick one from the list or add it.');
+      return;
+    }
+    if (shortStockKeys.length > 0 && negativeStockPolicy === 'BLOCK') {
+      alert('Some lines need more stock than is on hand. Reduce the quantities or record the purchase first.');
+      return;
+    }
+    const overReturned = returnLimits && items.find(i => i.quantity > (returnLimits[i.sourceLineId || ''] ?? 0));
+    if (overReturned) {
+      alert(`${overReturned.description}: only ${returnLimits[overReturned.sourceLineId || ''] ?? 0} can be returned.`);
+      return;
+    }
     const invoice: Invoice = {
       id: initialData?.id || Date.now().toString(),
       type: initialData?.type || type,
       invoiceNumber,
+      partyId,
       partyName,
+      locationId,
       date,
       dueDate,
       status,
-      items,
-      totalAmount: calculateTotal(),
+      items: taxedItems,
+      placeOfSupply,
+      partyGstin: partyGstin.trim().toUpperCase() || undefined,
+      taxInclusive,
+      notes: notes.trim() || undefined,
+      sourceDocumentId: source?.sourceDocumentId,
+      sourceDocumentNumber: source?.sourceDocumentNumber,
+      ...totals,
     };
     onSave(invoice);
   };
@@ -116,83 +303,73 @@ export const InvoiceForm: React.FC<InvoiceFormProps> = ({ onSave, onCancel, init
     window.print();
   };
 
-  // Logic: 
-  // Type SALE = "Bill" (To Customer)
-  // Type PURCHASE = "Invoice" (From Vendor)
+  // The saved document, as the server renders it in the design shown in the preview
+  const handleDownloadPdf = async () => {
+    if (!initialData) return;
+    setIsDownloading(true);
+    try {
+      const blob = await MongoService.downloadTransactionPdf(initialData.id, pdfSize, printTemplateId);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${(initialData.invoiceNumber || 'draft').replace(/[^\w.-]+/g, '-')}.pdf`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to create the PDF.');
+    } finally {
+      setIsDownloading(false);
+    }
+  };
 
-  const title = initialData
-    ? `Edit ${type === 'SALE' ? 'Bill' : 'Invoice'}`
-    : `New ${type === 'SALE' ? 'Bill' : 'Invoice'}`;
+  // Logic: 
+  // Type SALE = "Bill" (To Customer), QUOTATION converts into one
+  // Type PURCHASE = "Invoice" (From Vendor), PURCHASE_ORDER converts into one
 
-  const subtitle = type === 'SALE'
-    ? "Create a bill for your customer (Reduces Stock)."
-    : "Record a purchase invoice from vendor (Adds Stock).";
+  // Credit / debit notes are lines taken from the original invoice; only quantities change
 
-  const partyLabel = type === 'SALE' ? "Customer Name" : "Vendor Name";
-  const refLabel = type === 'SALE' ? "Bill No." : "Invoice No.";
-  const headerColor = type === 'SALE' ? 'bg-emerald-600' : 'bg-rose-600';
+  const labels = DOCUMENT_LABELS[type];
+  const isOrder = isOrderType(type);
+  const isNote = isNoteType(type);
+  const isNumbered = isNumberedType(type); // Number comes from the series on save
+  const hasLocations = locations.length > 1;
+  const locationName = (id?: string) => locations.find(l => l.id === id)?.name || id || '';
+  const isCustomerSide = partySide(type) === 'SALE';
 
-  // Shared Render Logic for Print Layout
-  const renderPrintableBill = () => (
-    <div className="p-8 bg-white text-black w-full">
-      <div className="flex justify-between items-start border-b-2 border-black pb-4 mb-6">
-        <div>
-          <h1 className="text-3xl font-bold uppercase tracking-wide text-black">
-            {type === 'SALE' ? 'TAX INVOICE / BILL' : 'PURCHASE ORDER'}
-          </h1>
-          <p className="mt-2 text-sm text-black">Billventory Business Solutions</p>
-          <p className="text-sm text-black">New Delhi, India</p>
-        </div>
-        <div className="text-right">
-          <h2 className="text-xl font-bold text-black">#{invoiceNumber}</h2>
-          <p className="text-black">Date: {date}</p>
-        </div>
-      </div>
+  const title = `${initialData ? 'Edit' : 'New'} ${labels.name}`;
+  const subtitle = source?.sourceDocumentNumber
+    ? `${SUBTITLES[type]} ${isNote ? 'Against' : 'From'} ${source.sourceDocumentNumber}.`
+    : SUBTITLES[type];
 
-      <div className="mb-8">
-        <h3 className="text-sm font-bold uppercase text-gray-600 mb-2">Bill To:</h3>
-        <p className="text-xl font-semibold text-black">{partyName}</p>
-      </div>
+  const partyLabel = isCustomerSide ? "Customer Name" : "Vendor Name";
+  const headerColor = HEADER_COLORS[type];
+  const convertLabel = `Convert to ${DOCUMENT_LABELS[convertsTo(type)].name}`;
+  const returnLabel = `Raise ${DOCUMENT_LABELS[noteTypeFor(type)].name}`;
 
-      <table className="w-full mb-8 border-collapse">
-        <thead>
-          <tr className="border-b-2 border-black">
-            <th className="text-left py-2 text-black font-bold">Item Description</th>
-            <th className="text-right py-2 text-black font-bold">Qty</th>
-            <th className="text-right py-2 text-black font-bold">Price</th>
-            <th className="text-right py-2 text-black font-bold">Total</th>
-          </tr>
-        </thead>
-        <tbody>
-          {items.map(item => (
-            <tr key={item.id} className="border-b border-gray-300">
-              <td className="py-2 text-black">{item.description}</td>
-              <td className="text-right py-2 text-black">{item.quantity}</td>
-              <td className="text-right py-2 text-black">₹{item.price.toFixed(2)}</td>
-              <td className="text-right py-2 font-medium text-black">₹{(item.quantity * item.price).toFixed(2)}</td>
-            </tr>
-          ))}
-        </tbody>
-      </table>
-
-      <div className="flex justify-end">
-        <div className="w-1/2 border-t-2 border-black pt-4">
-          <div className="flex justify-between mb-2 text-black">
-            <span>Subtotal:</span>
-            <span>₹{calculateTotal().toFixed(2)}</span>
-          </div>
-          <div className="flex justify-between text-xl font-bold text-black">
-            <span>Grand Total:</span>
-            <span>₹{calculateTotal().toFixed(2)}</span>
-          </div>
-        </div>
-      </div>
+  // Shared Render Logic for Print Layout
+  const template = resolveInvoiceTemplate(settings.invoiceTemplate);
+  const printTemplateId = templateId || template.templates[type];
 
-      <div className="mt-16 text-center text-sm text-black border-t border-gray-300 pt-8">
-        <p>Thank you for your business!</p>
-        <p className="text-xs text-gray-500 mt-1">Generated by Billventory</p>
-      </div>
-    </div>
+  const renderPrintableBill = () => (
+    <PrintableBill
+      templateId={printTemplateId}
+      template={template}
+      type={type}
+      invoiceNumber={invoiceNumber}
+      date={date}
+      dueDate={dueDate}
+      sourceDocumentNumber={source?.sourceDocumentNumber}
+      partyName={partyName}
+      party={selectedParty}
+      partyGstin={partyGstin}
+      placeOfSupply={placeOfSupply}
+      taxInclusive={taxInclusive}
+      items={taxedItems}
+      totals={totals}
+      notes={notes}
+      settings={settings}
+      businessName={businessName}
+    />
   );
 
   return (
@@ -203,49 +380,63 @@ export const InvoiceForm: React.FC<InvoiceFormProps> = ({ onSave, onCancel, init
         {renderPrintableBill()}
       </div>
 
+      {/* Inline party creation, kept outside the bill's <form> */}
+      {newPartyName !== null && (
+        <PartyForm
+          defaultName={newPartyName}
+          defaultType={isCustomerSide ? 'CUSTOMER' : 'VENDOR'}
+          homeState={homeState}
+          onSave={handleCreateParty}
+          onCancel={() => setNewPartyName(null)}
+        />
+      )}
+
+      {newProduct && (
+        <ProductForm
+          defaultName={newProduct.name}
+          parties={parties}
+          onSave={handleCreateProduct}
+          onCancel={() => setNewProduct(null)}
+        />
+      )}
+
       {/* Preview Modal */}
       {showPreview && (
-        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm print:hidden p-4 animate-fade-in">
-          <div className="bg-white rounded-xl shadow-2xl w-full max-w-4xl h-[85vh] flex flex-col overflow-hidden">
-            {/* Modal Header */}
-            <div className="p-4 border-b border-slate-200 flex justify-between items-center bg-slate-50">
-              <h3 className="font-bold text-lg text-slate-800 flex items-center gap-2">
-                <Eye size={20} className="text-indigo-600" />
-                Print Preview
-              </h3>
-              <button
-                onClick={() => setShowPreview(false)}
-                className="text-slate-500 hover:bg-slate-200 p-2 rounded-full transition-colors"
+        <PrintPreview
+          templateId={printTemplateId}
+          onTemplateChange={setTemplateId}
+          onClose={() => setShowPreview(false)}
+          actions={
+            <>
+              <select
+                value={pdfSize}
+                onChange={e => setPdfSize(e.target.value as 'A4' | 'A5')}
+                className="px-3 py-2 rounded-lg border border-slate-300 text-slate-700 text-sm bg-white"
+                title="PDF page size"
               >
-                <X size={20} />
-              </button>
-            </div>
-
-            {/* Modal Body: Scrollable Preview */}
-            <div className="flex-1 overflow-y-auto bg-slate-200/50 p-8">
-              <div className="bg-white shadow-lg mx-auto max-w-[210mm] min-h-[297mm] origin-top">
-                {renderPrintableBill()}
-              </div>
-            </div>
-
-            {/* Modal Footer */}
-            <div className="p-4 border-t border-slate-200 bg-white flex justify-end gap-3">
+                <option value="A4">A4</option>
+                <option value="A5">A5</option>
+              </select>
               <button
-                onClick={() => setShowPreview(false)}
-                className="px-5 py-2 rounded-lg border border-slate-300 text-slate-700 font-medium hover:bg-slate-50 transition-colors"
+                onClick={handleDownloadPdf}
+                disabled={isDownloading}
+                className="px-5 py-2 rounded-lg border border-indigo-200 text-indigo-700 font-medium hover:bg-indigo-50 flex items-center gap-2 transition-colors disabled:opacity-50"
               >
-                Close
+                {isDownloading ? <Loader2 className="animate-spin" size={18} /> : <FileDown size={18} />}
+                Download PDF
               </button>
               <button
                 onClick={handlePrint}
                 className="px-5 py-2 rounded-lg bg-indigo-600 text-white font-medium hover:bg-indigo-700 flex items-center gap-2 shadow-sm transition-colors"
               >
                 <Printer size={18} />
-                Print Bill
+                Print {labels.name}
               </button>
-            </div>
-          </div>
-        </div>
+            </>
+          }
+        >
+          {renderPrintableBill()}
+        </PrintPreview>
       )}
 
       {/* Screen View (Form) */}
@@ -259,7 +450,25 @@ export const InvoiceForm: React.FC<InvoiceFormProps> = ({ onSave, onCancel, init
             <p className="text-white/80 text-sm ml-8">{subtitle}</p>
           </div>
           <div className="flex gap-2">
-            {initialData && type === 'SALE' && (
+            {initialData && onConvert && canConvert(initialData) && (
+              <button
+                type="button"
+                onClick={() => onConvert(initialData)}
+                className="flex items-center gap-2 bg-white/20 hover:bg-white/30 text-white px-4 py-2 rounded-lg transition-colors font-medium backdrop-blur-sm"
+              >
+                <ArrowRightLeft size={20} /> {convertLabel}
+              </button>
+            )}
+            {initialData && onReturn && (
+              <button
+                type="button"
+                onClick={() => onReturn(initialData)}
+                className="flex items-center gap-2 bg-white/20 hover:bg-white/30 text-white px-4 py-2 rounded-lg transition-colors font-medium backdrop-blur-sm"
+              >
+                <Undo2 size={20} /> {returnLabel}
+              </button>
+            )}
+            {initialData && type !== 'PURCHASE' && (
               <button
                 type="button"
                 onClick={() => setShowPreview(true)}
@@ -268,7 +477,17 @@ export const InvoiceForm: React.FC<InvoiceFormProps> = ({ onSave, onCancel, init
                 <Eye size={20} /> Preview
               </button>
             )}
-            {!initialData && (
+            {initialData && type !== 'PURCHASE' && (
+              <button
+                type="button"
+                onClick={handleDownloadPdf}
+                disabled={isDownloading}
+                className="flex items-center gap-2 bg-white/20 hover:bg-white/30 text-white px-4 py-2 rounded-lg transition-colors font-medium backdrop-blur-sm disabled:opacity-50"
+              >
+                {isDownloading ? <Loader2 className="animate-spin" size={20} /> : <FileDown size={20} />} Download PDF
+              </button>
+            )}
+            {!source && (
               <>
                 <button
                   type="button"
@@ -292,27 +511,44 @@ export const InvoiceForm: React.FC<InvoiceFormProps> = ({ onSave, onCancel, init
         </div>
 
         <form onSubmit={handleSubmit} className="p-6 space-y-6">
+          {isLocked && (
+            <div className="px-4 py-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800">
+              This {labels.name.toLowerCase()} has been posted. Your role can view it but not change it.
+            </div>
+          )}
+          <fieldset disabled={isLocked} className="space-y-6 min-w-0">
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
             <div className="space-y-2">
               <label className="block text-sm font-medium text-slate-700">{partyLabel}</label>
-              <input
-                required
-                type="text"
-                value={partyName}
-                onChange={e => setPartyName(e.target.value)}
-                className="w-full bg-white px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all"
-                placeholder={type === 'SALE' ? "e.g. Rahul Kumar" : "e.g. Acme Wholesalers"}
-              />
+              {isNote ? (
+                <input
+                  type="text"
+                  value={partyName}
+                  disabled
+                  className="w-full px-4 py-2 bg-slate-50 border border-slate-300 rounded-lg text-slate-600"
+                />
+              ) : (
+                <PartyPicker
+                  parties={parties}
+                  type={type}
+                  partyId={partyId}
+                  partyName={partyName}
+                  onSelect={selectParty}
+                  onNameChange={name => { setPartyName(name); setPartyId(undefined); }}
+                  onCreateNew={setNewPartyName}
+                />
+              )}
             </div>
             <div className="space-y-2">
-              <label className="block text-sm font-medium text-slate-700">{refLabel}</label>
+              <label className="block text-sm font-medium text-slate-700">{labels.numberLabel}</label>
               <input
-                required
+                required={!isNumbered && status !== InvoiceStatus.DRAFT}
+                readOnly={isNumbered}
                 type="text"
                 value={invoiceNumber}
                 onChange={e => setInvoiceNumber(e.target.value)}
-                className="w-full px-4 bg-white py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all"
-                placeholder={type === 'SALE' ? "BILL-001" : "INV-001"}
+                className={`w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all ${isNumbered ? 'bg-slate-50 text-slate-500' : 'bg-white'}`}
+                placeholder={isNumbered ? 'Assigned when saved' : labels.numberPlaceholder}
               />
             </div>
             <div className="space-y-2">
@@ -325,53 +561,176 @@ export const InvoiceForm: React.FC<InvoiceFormProps> = ({ onSave, onCancel, init
                 className="w-full px-4 py-2 bg-white border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all"
               />
             </div>
+            {!isNote && (
+              <div className="space-y-2">
+                <label className="block text-sm font-medium text-slate-700">{labels.dateLabel}</label>
+                <input
+                  type="date"
+                  value={dueDate}
+                  min={date}
+                  onChange={e => setDueDate(e.target.value)}
+                  className="w-full px-4 py-2 bg-white border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all"
+                />
+              </div>
+            )}
             <div className="space-y-2">
               <label className="block text-sm font-medium text-slate-700">Status</label>
+              {isOrder ? (
+                // Converted and Partially Converted follow the bills made from this order
+                <select
+                  value={status}
+                  onChange={e => setStatus(e.target.value as InvoiceStatus)}
+                  className="w-full px-4 py-2 bg-white border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all"
+                >
+                  {!ORDER_STATUSES.includes(status) && <option value={status}>{status}</option>}
+                  {ORDER_STATUSES.map(s => <option key={s} value={s}>{s}</option>)}
+                </select>
+              ) : isNote ? (
+                <div className="py-2">
+                  <span className="px-2.5 py-0.5 rounded-full text-xs font-medium bg-slate-100 text-slate-800">{status}</span>
+                </div>
+              ) : (
+                /* Paid / Partially Paid / Overdue come from recorded payments, only Draft is chosen here */
+                <div className="flex items-center gap-4 py-2">
+                  <span className="px-2.5 py-0.5 rounded-full text-xs font-medium bg-slate-100 text-slate-800">{status}</span>
+                  <label className="flex items-center gap-2 text-sm text-slate-600">
+                    <input
+                      type="checkbox"
+                      checked={status === InvoiceStatus.DRAFT}
+                      disabled={(initialData?.amountPaid || 0) > 0}
+                      onChange={e => setStatus(e.target.checked ? InvoiceStatus.DRAFT : InvoiceStatus.PENDING)}
+                      className="rounded border-slate-300"
+                    />
+                    Save as draft
+                  </label>
+                </div>
+              )}
+            </div>
+            <div className="space-y-2">
+              <label className="block text-sm font-medium text-slate-700">
+                {isCustomerSide ? 'Place of Supply' : 'Vendor State'}
+              </label>
               <select
-                value={status}
-                onChange={e => setStatus(e.target.value as InvoiceStatus)}
+                value={placeOfSupply}
+                onChange={e => setPlaceOfSupply(e.target.value)}
                 className="w-full px-4 py-2 bg-white border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all"
               >
-                {Object.values(InvoiceStatus).map(s => (
-                  <option key={s} value={s}>{s}</option>
+                {INDIAN_STATES.map(s => (
+                  <option key={s.code} value={s.code}>{s.code} - {s.name}</option>
                 ))}
               </select>
+              <p className="text-xs text-slate-500">{interState ? 'Inter-state supply: IGST applies' : 'Intra-state supply: CGST + SGST apply'}</p>
+            </div>
+            <div className="space-y-2">
+              <label className="block text-sm font-medium text-slate-700">{isCustomerSide ? 'Customer GSTIN' : 'Vendor GSTIN'}</label>
+              <input
+                type="text"
+                value={partyGstin}
+                onChange={e => setPartyGstin(e.target.value)}
+                maxLength={15}
+                className="w-full px-4 py-2 bg-white border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all uppercase"
+                placeholder="Optional, e.g. 07ABCDE1234F1Z5"
+              />
             </div>
+            {hasLocations && !isNote && (
+              <div className="space-y-2">
+                <label className="block text-sm font-medium text-slate-700">{isCustomerSide ? 'Sell From' : 'Receive At'}</label>
+                <select
+                  value={locationId}
+                  onChange={e => changeLocation(e.target.value)}
+                  className="w-full px-4 py-2 bg-white border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all"
+                >
+                  {locations.map(l => <option key={l.id} value={l.id}>{l.name}</option>)}
+                </select>
+              </div>
+            )}
           </div>
 
           <div className="space-y-4">
             <div className="flex justify-between items-center border-b border-slate-200 pb-2">
               <h3 className="text-lg font-semibold text-slate-800">Items</h3>
-              <button
-                type="button"
-                onClick={addItem}
-                className="text-indigo-600 hover:text-indigo-700 text-sm font-medium flex items-center gap-1"
-              >
-                <Plus size={16} /> Add Item
-              </button>
+              <label className="ml-auto mr-4 flex items-center gap-2 text-sm text-slate-600">
+                <input
+                  type="checkbox"
+                  checked={taxInclusive}
+                  disabled={isNote}
+                  onChange={e => setTaxInclusive(e.target.checked)}
+                  className="rounded border-slate-300"
+                />
+                Prices include GST
+              </label>
+              {!isNote && (
+                <button
+                  type="button"
+                  onClick={addItem}
+                  className="text-indigo-600 hover:text-indigo-700 text-sm font-medium flex items-center gap-1"
+                >
+                  <Plus size={16} /> Add Item
+                </button>
+              )}
             </div>
 
             <div className="bg-slate-50 rounded-lg p-4 space-y-3">
               {items.map((item) => (
                 <div key={item.id} className="flex gap-4 items-end animate-fade-in">
                   <div className="flex-grow">
-                    <label className="block text-xs font-medium text-slate-500 mb-1">Description</label>
+                    <label className="block text-xs font-medium text-slate-500 mb-1">Product</label>
+                    {isNote ? (
+                      <div className="px-3 py-2 bg-white border border-slate-200 rounded-md text-sm text-slate-700">{item.description}</div>
+                    ) : (
+                      <ProductPicker
+                        products={products}
+                        productId={item.productId}
+                        description={item.description}
+                        onSelect={product => selectProduct(item.id, product)}
+                        onDescriptionChange={description => setItems(prev => prev.map(i => i.id === item.id ? { ...i, description, productId: undefined } : i))}
+                        onCreateNew={name => setNewProduct({ lineId: item.id, name })}
+                      />
+                    )}
+                  </div>
+                  {hasLocations && (
+                    <div className="w-32">
+                      <label className="block text-xs font-medium text-slate-500 mb-1">Location</label>
+                      <select
+                        value={item.locationId || locationId}
+                        disabled={isNote}
+                        onChange={e => updateItem(item.id, 'locationId', e.target.value)}
+                        className="w-full px-3 py-2 bg-white border border-slate-300 rounded-md text-sm focus:border-indigo-500 outline-none"
+                      >
+                        {locations.map(l => <option key={l.id} value={l.id}>{l.name}</option>)}
+                      </select>
+                    </div>
+                  )}
+                  <div className="w-28">
+                    <label className="block text-xs font-medium text-slate-500 mb-1">HSN/SAC</label>
                     <input
                       type="text"
-                      value={item.description}
-                      onChange={e => updateItem(item.id, 'description', e.target.value)}
+                      value={item.hsnCode || ''}
+                      disabled={isNote}
+                      onChange={e => updateItem(item.id, 'hsnCode', e.target.value)}
                       className="w-full px-3 py-2 bg-white border border-slate-300 rounded-md text-sm focus:border-indigo-500 outline-none"
-                      placeholder="Product Name"
+                      placeholder="8471"
                     />
                   </div>
-                  <div className="w-24">
-                    <label className="block text-xs font-medium text-slate-500 mb-1">Qty</label>
+                  <div className={type === 'SALE' || isNote ? 'w-32' : 'w-24'}>
+                    <label className="block text-xs font-medium text-slate-500 mb-1 whitespace-nowrap">
+                      Qty
+                      {returnLimits && (
+                        <span className="ml-1 text-slate-400">(of {returnLimits[item.sourceLineId || ''] ?? 0})</span>
+                      )}
+                      {type === 'SALE' && item.productId && (
+                        <span className={`ml-1 ${isShort(item) ? 'text-rose-600 font-semibold' : 'text-slate-400'}`}>
+                          ({stockAvailable.get(stockKey(item.productId, item.locationId || locationId)) || 0} avail.)
+                        </span>
+                      )}
+                    </label>
                     <input
                       type="number"
                       min="1"
+                      max={returnLimits?.[item.sourceLineId || '']}
                       value={item.quantity}
                       onChange={e => updateItem(item.id, 'quantity', parseFloat(e.target.value))}
-                      className="w-full px-3 py-2 bg-white border border-slate-300 rounded-md text-sm focus:border-indigo-500 outline-none"
+                      className={`w-full px-3 py-2 bg-white border rounded-md text-sm focus:border-indigo-500 outline-none ${item.productId && isShort(item) ? 'border-rose-400' : 'border-slate-300'}`}
                     />
                   </div>
                   <div className="w-32">
@@ -381,10 +740,37 @@ export const InvoiceForm: React.FC<InvoiceFormProps> = ({ onSave, onCancel, init
                       min="0"
                       step="0.01"
                       value={item.price}
+                      disabled={isNote}
                       onChange={e => updateItem(item.id, 'price', parseFloat(e.target.value))}
                       className="w-full px-3 py-2 bg-white border border-slate-300 rounded-md text-sm focus:border-indigo-500 outline-none"
                     />
                   </div>
+                  <div className="w-20">
+                    <label className="block text-xs font-medium text-slate-500 mb-1">Disc %</label>
+                    <input
+                      type="number"
+                      min="0"
+                      max="100"
+                      step="0.01"
+                      value={item.discount || 0}
+                      disabled={isNote}
+                      onChange={e => updateItem(item.id, 'discount', Math.min(Math.max(parseFloat(e.target.value) || 0, 0), 100))}
+                      className="w-full px-3 py-2 bg-white border border-slate-300 rounded-md text-sm focus:border-indigo-500 outline-none"
+                    />
+                  </div>
+                  <div className="w-24">
+                    <label className="block text-xs font-medium text-slate-500 mb-1">GST %</label>
+                    <select
+                      value={item.gstRate ?? 0}
+                      disabled={isNote}
+                      onChange={e => updateItem(item.id, 'gstRate', parseFloat(e.target.value))}
+                      className="w-full px-3 py-2 bg-white border border-slate-300 rounded-md text-sm focus:border-indigo-500 outline-none"
+                    >
+                      {GST_RATES.map(rate => (
+                        <option key={rate} value={rate}>{rate}%</option>
+                      ))}
+                    </select>
+                  </div>
                   <div className="pb-2 text-slate-500">
                     <button type="button" onClick={() => removeItem(item.id)} className="hover:text-rose-500 transition-colors">
                       <Trash2 size={18} />
@@ -394,14 +780,65 @@ export const InvoiceForm: React.FC<InvoiceFormProps> = ({ onSave, onCancel, init
               ))}
             </div>
 
+            {shortStockKeys.length > 0 && (
+              <div className={`mt-4 p-3 rounded-lg border text-sm ${negativeStockPolicy === 'BLOCK' ? 'bg-rose-50 border-rose-200 text-rose-700' : 'bg-amber-50 border-amber-200 text-amber-800'}`}>
+                Not enough stock for {shortStockKeys.map(key => {
+                  const [productId, lineLocationId] = key.split('@');
+                  const name = products.find(p => p.id === productId)?.name || productId;
+                  return hasLocations ? `${name} at ${locationName(lineLocationId)}` : name;
+                }).join(', ')}.{' '}
+                {negativeStockPolicy === 'BLOCK'
+                  ? 'This bill cannot be saved until quantities are reduced or stock is purchased.'
+                  : negativeStockPolicy === 'WARN'
+                    ? "You'll be asked to confirm before stock goes below zero."
+                    : 'Stock will go below zero.'}
+              </div>
+            )}
+
             <div className="flex justify-end pt-4">
-              <div className="text-right">
-                <span className="text-slate-500 mr-4">Total Amount:</span>
-                <span className="text-2xl font-bold text-slate-900">₹{calculateTotal().toFixed(2)}</span>
+              <div className="w-72 space-y-1 text-sm text-slate-600">
+                <div className="flex justify-between">
+                  <span>Taxable Value</span>
+                  <span>₹{totals.taxableAmount.toFixed(2)}</span>
+                </div>
+                {interState ? (
+                  <div className="flex justify-between">
+                    <span>IGST</span>
+                    <span>₹{totals.igstAmount.toFixed(2)}</span>
+                  </div>
+                ) : (
+                  <>
+                    <div className="flex justify-between">
+                      <span>CGST</span>
+                      <span>₹{totals.cgstAmount.toFixed(2)}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span>SGST</span>
+                      <span>₹{totals.sgstAmount.toFixed(2)}</span>
+                    </div>
+                  </>
+                )}
+                <div className="flex justify-between items-baseline pt-2 border-t border-slate-200">
+                  <span className="text-slate-500">Total Amount:</span>
+                  <span className="text-2xl font-bold text-slate-900">₹{totals.totalAmount.toFixed(2)}</span>
+                </div>
               </div>
             </div>
           </div>
 
+          <div className="space-y-1">
+            <label className="block text-sm font-medium text-slate-700">Notes</label>
+            <textarea
+              rows={2}
+              value={notes}
+              onChange={e => setNotes(e.target.value)}
+              placeholder="Printed on the document"
+              className="w-full px-3 py-2 bg-white border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+            />
+          </div>
+
+          </fieldset>
+
           <div className="flex justify-end gap-4 pt-6 border-t border-slate-200">
             <button
               type="button"
@@ -410,13 +847,15 @@ export const InvoiceForm: React.FC<InvoiceFormProps> = ({ onSave, onCancel, init
             >
               Cancel
             </button>
-            <button
-              type="submit"
-              className={`px-6 py-2 text-white rounded-lg font-medium shadow-sm transition-colors flex items-center gap-2 ${type === 'SALE' ? 'bg-emerald-600 hover:bg-emerald-700' : 'bg-rose-600 hover:bg-rose-700'}`}
-            >
-              <Save size={18} />
-              {initialData ? 'Update' : 'Save'} {type === 'SALE' ? 'Bill' : 'Invoice'}
-            </button>
+            {!isLocked && (
+              <button
+                type="submit"
+                className={`px-6 py-2 text-white rounded-lg font-medium shadow-sm transition-colors flex items-center gap-2 ${SAVE_COLORS[type]}`}
+              >
+                <Save size={18} />
+                {initialData ? 'Update' : 'Save'} {labels.name}
+              </button>
+            )}
           </div>
         </form>
       </div>
@@ -0,0 +1,189 @@
+import React, { useEffect, useState } from 'react';
+import { BusinessSettings, InvoiceTemplateId, InvoiceTemplateSettings, LineItem, TransactionType } from '../types';
+import { DOCUMENT_LABELS, partySide } from '../services/documents';
+import { homeStateOf, calculateInvoiceTotals, calculateLineTax } from '../services/gst';
+import { INVOICE_TEMPLATES, accentColorFor, resolveInvoiceTemplate } from '../services/templates';
+import { PrintableBill } from './PrintableBill';
+import { PrintPreview } from './PrintPreview';
+import { Save, Loader2, Eye } from 'lucide-react';
+
+interface InvoiceTemplateFormProps {
+  settings: BusinessSettings;
+  businessName: string;
+  onSave: (changes: Partial<BusinessSettings>) => Promise<void>;
+}
+
+const inputClass = 'w-full px-3 py-2 bg-white border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 outline-none';
+
+const TOGGLES: { field: 'showHsn' | 'showDiscount' | 'showSignature' | 'showTerms'; label: string }[] = [
+  { field: 'showHsn', label: 'HSN/SAC column' },
+  { field: 'showDiscount', label: 'Discount column (when a line has one)' },
+  { field: 'showSignature', label: 'Signature block' },
+  { field: 'showTerms', label: 'Terms & conditions' },
+];
+
+// Lines for the preview, one of them discounted so every column shows
+const SAMPLE_ITEMS: LineItem[] = [
+  { id: 'sample-1', description: 'Office Chair', quantity: 2, price: 4500, discount: 10, hsnCode: '9401', gstRate: 18 },
+  { id: 'sample-2', description: 'Printer Paper A4 (500 sheets)', quantity: 10, price: 320, hsnCode: '4802', gstRate: 12 },
+  { id: 'sample-3', description: 'Installation', quantity: 1, price: 750, hsnCode: '9987', gstRate: 18 },
+].map(item => calculateLineTax(item, false, false));
+
+// Which design each document type prints with, the optional parts of a bill,
+// and the business's own header/footer text and colour
+export const InvoiceTemplateForm: React.FC<InvoiceTemplateFormProps> = ({ settings, businessName, onSave }) => {
+  const [template, setTemplate] = useState<InvoiceTemplateSettings>(resolveInvoiceTemplate(settings.invoiceTemplate));
+  const [previewType, setPreviewType] = useState<TransactionType | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setTemplate(resolveInvoiceTemplate(settings.invoiceTemplate));
+  }, [settings]);
+
+  const update = (changes: Partial<InvoiceTemplateSettings>) => setTemplate(prev => ({ ...prev, ...changes }));
+  const pickTemplate = (type: TransactionType, id: InvoiceTemplateId) =>
+    setTemplate(prev => ({ ...prev, templates: { ...prev.templates, [type]: id } }));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    try {
+      await onSave({ invoiceTemplate: template });
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to save the bill templates.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const today = new Date().toISOString().split('T')[0];
+
+  return (
+    <>
+      {/* Kept outside the form so its buttons don't submit it */}
+      {previewType && (
+        <PrintPreview
+          templateId={template.templates[previewType]}
+          onTemplateChange={id => pickTemplate(previewType, id)}
+          onClose={() => setPreviewType(null)}
+        >
+          <PrintableBill
+            templateId={template.templates[previewType]}
+            template={template}
+            type={previewType}
+            invoiceNumber={DOCUMENT_LABELS[previewType].numberPlaceholder}
+            date={today}
+            dueDate={today}
+            partyName={partySide(previewType) === 'SALE' ? 'Sample Customer Pvt Ltd' : 'Sample Vendor Pvt Ltd'}
+            placeOfSupply={homeStateOf(settings)}
+            taxInclusive={false}
+            items={SAMPLE_ITEMS}
+            totals={calculateInvoiceTotals(SAMPLE_ITEMS)}
+            notes={settings.defaultNotes}
+            settings={settings}
+            businessName={businessName}
+          />
+        </PrintPreview>
+      )}
+
+      <form onSubmit={handleSubmit} className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="p-6 border-b border-slate-200 bg-slate-50/50">
+          <h3 className="text-lg font-semibold text-slate-800">Bill Templates</h3>
+          <p className="text-sm text-slate-500">The design each document prints with, and what goes on it. Preview shows unsaved changes.</p>
+        </div>
+        <div className="p-6 space-y-6">
+          <div className="space-y-2">
+            {(Object.keys(DOCUMENT_LABELS) as TransactionType[]).map(type => (
+              <div key={type} className="flex items-center gap-4">
+                <span className="w-40 text-sm font-medium text-slate-700">{DOCUMENT_LABELS[type].name}</span>
+                <select
+                  value={template.templates[type]}
+                  onChange={e => pickTemplate(type, e.target.value as InvoiceTemplateId)}
+                  className="px-3 py-2 bg-white border border-slate-300 rounded-lg text-sm focus:border-indigo-500 outline-none"
+                >
+                  {Object.entries(INVOICE_TEMPLATES).map(([id, info]) => <option key={id} value={id}>{info.name}</option>)}
+                </select>
+                <span className="flex-1 text-xs text-slate-500">{INVOICE_TEMPLATES[template.templates[type]].description}</span>
+                <button
+                  type="button"
+                  onClick={() => setPreviewType(type)}
+                  className="px-3 py-1.5 border border-slate-300 rounded-lg text-sm text-slate-700 hover:bg-slate-50 flex items-center gap-1"
+                >
+                  <Eye size={14} /> Preview
+                </button>
+              </div>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+            {TOGGLES.map(({ field, label }) => (
+              <label key={field} className="flex items-center gap-2 text-sm text-slate-700">
+                <input
+                  type="checkbox"
+                  checked={template[field]}
+                  onChange={e => update({ [field]: e.target.checked })}
+                  className="rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+                />
+                {label}
+              </label>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-1">
+              <label className="block text-sm font-medium text-slate-700">Header Text</label>
+              <input
+                type="text"
+                maxLength={300}
+                value={template.headerText || ''}
+                onChange={e => update({ headerText: e.target.value })}
+                placeholder="e.g. Authorised dealer for Godrej furniture"
+                className={inputClass}
+              />
+              <p className="text-xs text-slate-500">Printed under the business name.</p>
+            </div>
+            <div className="space-y-1">
+              <label className="block text-sm font-medium text-slate-700">Footer Text</label>
+              <input
+                type="text"
+                maxLength={300}
+                value={template.footerText || ''}
+                onChange={e => update({ footerText: e.target.value })}
+                placeholder="Thank you for your business!"
+                className={inputClass}
+              />
+            </div>
+            <div className="space-y-1">
+              <label className="block text-sm font-medium text-slate-700">Accent Colour</label>
+              <div className="flex items-center gap-3">
+                <input
+                  type="color"
+                  value={accentColorFor(template, template.templates.SALE)}
+                  onChange={e => update({ accentColor: e.target.value })}
+                  className="h-9 w-14 border border-slate-300 rounded cursor-pointer"
+                />
+                {template.accentColor ? (
+                  <button type="button" onClick={() => update({ accentColor: '' })} className="text-sm text-indigo-600 hover:underline">
+                    Use each design's own
+                  </button>
+                ) : (
+                  <span className="text-xs text-slate-500">Each design's own colour</span>
+                )}
+              </div>
+            </div>
+          </div>
+
+          <div className="flex justify-end">
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 flex items-center gap-2 text-sm font-medium disabled:opacity-50"
+            >
+              {isSaving ? <Loader2 className="animate-spin" size={16} /> : <Save size={16} />} Save Templates
+            </button>
+          </div>
+        </div>
+      </form>
+    </>
+  );
+};
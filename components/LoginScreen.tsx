@@ -0,0 +1,103 @@
+import React, { useEffect, useState } from 'react';
+import { AuthSession } from '../types';
+import { MongoService } from '../services/mongo';
+import { Loader2, LogIn, UserPlus } from 'lucide-react';
+
+interface LoginScreenProps {
+  onSignedIn: (session: AuthSession) => void;
+}
+
+// Sign-in form. On a fresh install nobody exists yet, so it asks for the owner's
+// details instead; everyone else is added from Settings.
+export const LoginScreen: React.FC<LoginScreenProps> = ({ onSignedIn }) => {
+  const [needsSetup, setNeedsSetup] = useState<boolean | null>(null);
+  const [name, setName] = useState('');
+  const [businessName, setBusinessName] = useState('');
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+
+  useEffect(() => {
+    MongoService.needsSetup()
+      .then(setNeedsSetup)
+      .catch(() => {
+        setNeedsSetup(false);
+        setError('Cannot reach the server. Please ensure the backend server is running.');
+      });
+  }, []);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsBusy(true);
+    setError('');
+    try {
+      onSignedIn(await MongoService.signIn({ name, username, password, businessName }, !!needsSetup));
+    } catch (err) {
+      setError(err instanceof Error && err.message !== 'Failed to fetch'
+        ? err.message
+        : 'Cannot reach the server. Please ensure the backend server is running.');
+      setPassword('');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-2 bg-white border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 outline-none';
+
+  return (
+    <div className="min-h-screen bg-slate-50 flex items-center justify-center p-6">
+      <form onSubmit={handleSubmit} className="w-full max-w-sm bg-white rounded-xl shadow-sm border border-slate-200 p-8 space-y-4">
+        <div className="text-center space-y-1">
+          <div className="w-10 h-10 bg-indigo-600 rounded-lg flex items-center justify-center text-white font-bold text-xl mx-auto">B</div>
+          <h1 className="text-xl font-bold text-slate-800">{needsSetup ? 'Create the owner account' : 'Sign in'}</h1>
+          {needsSetup && <p className="text-sm text-slate-500">You'll manage settings and add everyone else's accounts.</p>}
+        </div>
+
+        {needsSetup === null ? (
+          <div className="flex justify-center py-6"><Loader2 className="animate-spin text-indigo-600" /></div>
+        ) : (
+          <>
+            {needsSetup && (<>
+              <div className="space-y-1">
+                <label className="block text-sm font-medium text-slate-700">Business Name</label>
+                <input type="text" value={businessName} onChange={e => setBusinessName(e.target.value)} placeholder="My Business" className={inputClass} />
+              </div>
+              <div className="space-y-1">
+                <label className="block text-sm font-medium text-slate-700">Your Name</label>
+                <input required type="text" value={name} onChange={e => setName(e.target.value)} className={inputClass} />
+              </div>
+            </>)}
+            <div className="space-y-1">
+              <label className="block text-sm font-medium text-slate-700">Username</label>
+              <input required type="text" autoComplete="username" value={username} onChange={e => setUsername(e.target.value)} className={inputClass} />
+            </div>
+            <div className="space-y-1">
+              <label className="block text-sm font-medium text-slate-700">Password</label>
+              <input
+                required
+                type="password"
+                minLength={needsSetup ? 8 : undefined}
+                autoComplete={needsSetup ? 'new-password' : 'current-password'}
+                value={password}
+                onChange={e => setPassword(e.target.value)}
+                className={inputClass}
+              />
+            </div>
+
+            {error && <p className="text-sm text-rose-600">{error}</p>}
+
+            <button
+              type="submit"
+              disabled={isBusy}
+              className="w-full py-2.5 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 flex items-center justify-center gap-2 font-medium disabled:opacity-50"
+            >
+              {isBusy ? <Loader2 className="animate-spin" size={18} /> : needsSetup ? <UserPlus size={18} /> : <LogIn size={18} />}
+              {needsSetup ? 'Create Account' : 'Sign In'}
+            </button>
+          </>
+        )}
+      </form>
+    </div>
+  );
+};
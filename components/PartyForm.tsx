@@ -0,0 +1,118 @@
+import React, { useState } from 'react';
+import { Party, PartyType } from '../types';
+import { INDIAN_STATES } from '../services/gst';
+import { PARTY_TYPES } from '../services/parties';
+import { Users, X, Save, Loader2 } from 'lucide-react';
+
+interface PartyFormProps {
+  initialData?: Party;
+  defaultName?: string;
+  defaultType?: PartyType;
+  homeState: string; // New parties start in the business's own state
+  onSave: (party: Party) => Promise<void>;
+  onCancel: () => void;
+}
+
+const inputClass = "w-full px-3 py-2 bg-white border border-slate-300 rounded-md text-sm focus:border-indigo-500 outline-none";
+
+// Modal used both from the party list and for inline "create new" on bills
+export const PartyForm: React.FC<PartyFormProps> = ({ initialData, defaultName = '', defaultType = 'CUSTOMER', homeState, onSave, onCancel }) => {
+  const [party, setParty] = useState<Party>(initialData || {
+    id: Date.now().toString(),
+    name: defaultName,
+    type: defaultType,
+    state: homeState,
+    paymentTermsDays: 0,
+    creditLimit: 0,
+  });
+  const [isSaving, setIsSaving] = useState(false);
+
+  const update = (field: keyof Party, value: any) => setParty(prev => ({ ...prev, [field]: value }));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    try {
+      await onSave({ ...party, gstin: party.gstin?.trim().toUpperCase() || undefined });
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to save party.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm print:hidden p-4 animate-fade-in">
+      <form onSubmit={handleSubmit} className="bg-white rounded-xl shadow-2xl w-full max-w-2xl max-h-[90vh] flex flex-col overflow-hidden">
+        <div className="p-4 border-b border-slate-200 flex justify-between items-center bg-slate-50">
+          <h3 className="font-bold text-lg text-slate-800 flex items-center gap-2">
+            <Users size={20} className="text-indigo-600" />
+            {initialData ? 'Edit Party' : 'New Party'}
+          </h3>
+          <button type="button" onClick={onCancel} className="text-slate-500 hover:bg-slate-200 p-2 rounded-full transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-6 grid grid-cols-1 md:grid-cols-2 gap-4 overflow-y-auto">
+          <div className="md:col-span-2">
+            <label className="block text-xs font-medium text-slate-500 mb-1">Name</label>
+            <input required autoFocus type="text" value={party.name} onChange={e => update('name', e.target.value)} className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-slate-500 mb-1">Type</label>
+            <select value={party.type} onChange={e => update('type', e.target.value as PartyType)} className={inputClass}>
+              {PARTY_TYPES.map(t => <option key={t.value} value={t.value}>{t.label}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-slate-500 mb-1">GSTIN</label>
+            <input type="text" maxLength={15} value={party.gstin || ''} onChange={e => update('gstin', e.target.value)} className={`${inputClass} uppercase`} placeholder="Optional" />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-slate-500 mb-1">Phone</label>
+            <input type="tel" value={party.phone || ''} onChange={e => update('phone', e.target.value)} className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-slate-500 mb-1">Email</label>
+            <input type="email" value={party.email || ''} onChange={e => update('email', e.target.value)} className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-slate-500 mb-1">State</label>
+            <select value={party.state || homeState} onChange={e => update('state', e.target.value)} className={inputClass}>
+              {INDIAN_STATES.map(s => <option key={s.code} value={s.code}>{s.code} - {s.name}</option>)}
+            </select>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-xs font-medium text-slate-500 mb-1">Payment Terms (days)</label>
+              <input type="number" min="0" value={party.paymentTermsDays ?? 0} onChange={e => update('paymentTermsDays', parseInt(e.target.value) || 0)} className={inputClass} />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-slate-500 mb-1">Credit Limit (₹)</label>
+              <input type="number" min="0" value={party.creditLimit ?? 0} onChange={e => update('creditLimit', parseFloat(e.target.value) || 0)} className={inputClass} />
+            </div>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-slate-500 mb-1">Billing Address</label>
+            <textarea rows={3} value={party.billingAddress || ''} onChange={e => update('billingAddress', e.target.value)} className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-slate-500 mb-1">Shipping Address</label>
+            <textarea rows={3} value={party.shippingAddress || ''} onChange={e => update('shippingAddress', e.target.value)} className={inputClass} placeholder="Same as billing if empty" />
+          </div>
+        </div>
+
+        <div className="p-4 border-t border-slate-200 bg-white flex justify-end gap-3">
+          <button type="button" onClick={onCancel} className="px-5 py-2 rounded-lg border border-slate-300 text-slate-700 font-medium hover:bg-slate-50 transition-colors">
+            Cancel
+          </button>
+          <button type="submit" disabled={isSaving} className="px-5 py-2 rounded-lg bg-indigo-600 text-white font-medium hover:bg-indigo-700 flex items-center gap-2 shadow-sm transition-colors disabled:opacity-70">
+            {isSaving ? <Loader2 className="animate-spin" size={18} /> : <Save size={18} />}
+            Save Party
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
@@ -0,0 +1,148 @@
+import React, { useState, useMemo } from 'react';
+import { Invoice, Party } from '../types';
+import { PartyForm } from './PartyForm';
+import { getStateName } from '../services/gst';
+import { PARTY_TYPES } from '../services/parties';
+import { getBalanceDue, isOutstanding } from '../services/payments';
+import { Users, Search, Plus, Trash2 } from 'lucide-react';
+
+interface PartyListProps {
+  parties: Party[];
+  transactions: Invoice[];
+  homeState: string; // State new parties start in
+  onSave: (party: Party) => Promise<void>;
+  onDelete?: (id: string) => Promise<void>; // Left out for roles that can't delete
+}
+
+export const PartyList: React.FC<PartyListProps> = ({ parties, transactions, homeState, onSave, onDelete }) => {
+  const [searchTerm, setSearchTerm] = useState('');
+  const [editing, setEditing] = useState<Party | 'NEW' | null>(null);
+
+  // Receivable (+) / payable (-) per party
+  const balances = useMemo(() => {
+    const map: Record<string, number> = {};
+    for (const t of transactions) {
+      if (!t.partyId || !isOutstanding(t)) continue;
+      map[t.partyId] = (map[t.partyId] || 0) + (t.type === 'SALE' ? 1 : -1) * getBalanceDue(t);
+    }
+    return map;
+  }, [transactions]);
+
+  const filtered = useMemo(() => {
+    const term = searchTerm.trim().toLowerCase();
+    if (!term) return parties;
+    return parties.filter(p =>
+      p.name.toLowerCase().includes(term) ||
+      (p.gstin || '').toLowerCase().includes(term) ||
+      (p.phone || '').includes(term)
+    );
+  }, [parties, searchTerm]);
+
+  const handleSave = async (party: Party) => {
+    await onSave(party);
+    setEditing(null);
+  };
+
+  const handleDelete = async (party: Party) => {
+    if (!onDelete || !confirm(`Delete ${party.name}?`)) return;
+    try {
+      await onDelete(party.id);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to delete party.');
+    }
+  };
+
+  const typeLabel = (party: Party) => PARTY_TYPES.find(t => t.value === party.type)?.label || party.type;
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <h2 className="text-2xl font-bold text-slate-800 flex items-center gap-2">
+          <Users className="text-indigo-600" />
+          Customers & Vendors
+        </h2>
+        <div className="flex items-center gap-3">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" size={18} />
+            <input
+              type="text"
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              placeholder="Search name, GSTIN, phone..."
+              className="pl-10 pr-4 py-2 border border-slate-200 rounded-full text-sm focus:outline-none focus:border-indigo-500 w-full md:w-64 bg-white shadow-sm"
+            />
+          </div>
+          <button
+            onClick={() => setEditing('NEW')}
+            className="flex items-center gap-2 px-4 py-2 rounded-lg text-white font-medium shadow-sm transition-colors bg-indigo-600 hover:bg-indigo-700"
+          >
+            <Plus size={18} /> Add Party
+          </button>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-sm text-slate-600">
+            <thead className="bg-slate-50 text-slate-700 font-medium border-b border-slate-200">
+              <tr>
+                <th className="px-6 py-4">Name</th>
+                <th className="px-6 py-4">Type</th>
+                <th className="px-6 py-4">GSTIN</th>
+                <th className="px-6 py-4">Phone</th>
+                <th className="px-6 py-4">State</th>
+                <th className="px-6 py-4 text-right">Balance</th>
+                <th className="px-6 py-4 text-right">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {filtered.length === 0 ? (
+                <tr>
+                  <td colSpan={7} className="px-6 py-12 text-center text-slate-500">
+                    {searchTerm ? 'No parties match your search.' : 'No parties yet. Add customers and vendors here or while creating a bill.'}
+                  </td>
+                </tr>
+              ) : filtered.map(p => {
+                const balance = balances[p.id] || 0;
+                return (
+                  <tr key={p.id} className="hover:bg-slate-50 transition-colors">
+                    <td className="px-6 py-4 font-medium text-slate-900">{p.name}</td>
+                    <td className="px-6 py-4">{typeLabel(p)}</td>
+                    <td className="px-6 py-4">{p.gstin || '-'}</td>
+                    <td className="px-6 py-4">{p.phone || '-'}</td>
+                    <td className="px-6 py-4">{getStateName(p.state) || '-'}</td>
+                    <td className={`px-6 py-4 text-right font-medium ${balance > 0 ? 'text-emerald-600' : balance < 0 ? 'text-rose-600' : ''}`}>
+                      {balance === 0 ? '-' : `₹${Math.abs(balance).toLocaleString('en-IN', { minimumFractionDigits: 2 })} ${balance > 0 ? 'to receive' : 'to pay'}`}
+                    </td>
+                    <td className="px-6 py-4 text-right space-x-2">
+                      <button
+                        onClick={() => setEditing(p)}
+                        className="text-indigo-600 hover:text-indigo-800 font-medium bg-indigo-50 hover:bg-indigo-100 px-3 py-1 rounded-md transition-colors"
+                      >
+                        Edit
+                      </button>
+                      {onDelete && (
+                        <button onClick={() => handleDelete(p)} className="text-slate-400 hover:text-rose-500 transition-colors align-middle">
+                          <Trash2 size={16} />
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {editing && (
+        <PartyForm
+          initialData={editing === 'NEW' ? undefined : editing}
+          homeState={homeState}
+          onSave={handleSave}
+          onCancel={() => setEditing(null)}
+        />
+      )}
+    </div>
+  );
+};
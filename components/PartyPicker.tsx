@@ -0,0 +1,78 @@
+import React, { useState, useMemo } from 'react';
+import { Party, TransactionType } from '../types';
+import { normalizePartyName, partyMatchesType } from '../services/parties';
+import { partySide } from '../services/documents';
+import { CheckCircle2, UserPlus } from 'lucide-react';
+
+interface PartyPickerProps {
+  parties: Party[];
+  type: TransactionType;
+  partyId?: string;
+  partyName: string;
+  onSelect: (party: Party) => void;
+  onNameChange: (name: string) => void;
+  onCreateNew: (name: string) => void;
+}
+
+const MAX_SUGGESTIONS = 8;
+
+export const PartyPicker: React.FC<PartyPickerProps> = ({ parties, type, partyId, partyName, onSelect, onNameChange, onCreateNew }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const suggestions = useMemo(() => {
+    const term = normalizePartyName(partyName);
+    return parties
+      .filter(p => partyMatchesType(p, type))
+      .filter(p => !term || normalizePartyName(p.name).includes(term) || (p.phone || '').includes(term) || (p.gstin || '').toLowerCase().includes(term))
+      .slice(0, MAX_SUGGESTIONS);
+  }, [parties, type, partyName]);
+
+  const exactMatch = parties.some(p => normalizePartyName(p.name) === normalizePartyName(partyName));
+
+  return (
+    <div className="relative">
+      <input
+        required
+        type="text"
+        value={partyName}
+        onChange={e => { onNameChange(e.target.value); setIsOpen(true); }}
+        onFocus={() => setIsOpen(true)}
+        // Delay so a click on a suggestion lands before the list closes
+        onBlur={() => setTimeout(() => setIsOpen(false), 150)}
+        className="w-full bg-white px-4 py-2 pr-10 border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all"
+        placeholder={partySide(type) === 'SALE' ? "Search customers..." : "Search vendors..."}
+      />
+      {partyId && <CheckCircle2 size={18} className="absolute right-3 top-1/2 -translate-y-1/2 text-emerald-500" />}
+
+      {isOpen && (
+        <div className="absolute z-20 mt-1 w-full bg-white border border-slate-200 rounded-lg shadow-lg overflow-hidden">
+          {suggestions.map(p => (
+            <button
+              key={p.id}
+              type="button"
+              onMouseDown={e => e.preventDefault()}
+              onClick={() => { onSelect(p); setIsOpen(false); }}
+              className={`w-full text-left px-4 py-2 text-sm hover:bg-indigo-50 ${p.id === partyId ? 'bg-indigo-50' : ''}`}
+            >
+              <div className="font-medium text-slate-800">{p.name}</div>
+              <div className="text-xs text-slate-500">{[p.gstin, p.phone].filter(Boolean).join(' · ') || 'No GSTIN / phone'}</div>
+            </button>
+          ))}
+          {partyName.trim() && !exactMatch && (
+            <button
+              type="button"
+              onMouseDown={e => e.preventDefault()}
+              onClick={() => { onCreateNew(partyName.trim()); setIsOpen(false); }}
+              className="w-full text-left px-4 py-2 text-sm text-indigo-600 font-medium hover:bg-indigo-50 flex items-center gap-2 border-t border-slate-100"
+            >
+              <UserPlus size={16} /> Create new party "{partyName.trim()}"
+            </button>
+          )}
+          {suggestions.length === 0 && !partyName.trim() && (
+            <div className="px-4 py-2 text-sm text-slate-500">No parties yet. Start typing to create one.</div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,180 @@
+import React, { useState, useEffect } from 'react';
+import { Invoice, Payment, PaymentMode } from '../types';
+import { MongoService } from '../services/mongo';
+import { PAYMENT_MODES, getBalanceDue } from '../services/payments';
+import { Wallet, Plus, Trash2, Loader2 } from 'lucide-react';
+
+interface PaymentsPanelProps {
+  invoice: Invoice;
+  onInvoiceUpdated: (invoice: Invoice) => void;
+  canDelete: boolean;
+}
+
+export const PaymentsPanel: React.FC<PaymentsPanelProps> = ({ invoice, onInvoiceUpdated, canDelete }) => {
+  const [payments, setPayments] = useState<Payment[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // New payment form
+  const [date, setDate] = useState(new Date().toISOString().split('T')[0]);
+  const [amount, setAmount] = useState(0);
+  const [mode, setMode] = useState<PaymentMode>('CASH');
+  const [reference, setReference] = useState('');
+
+  const balanceDue = getBalanceDue(invoice);
+
+  useEffect(() => {
+    MongoService.getPayments(invoice.id).then(setPayments);
+  }, [invoice.id]);
+
+  useEffect(() => {
+    setAmount(balanceDue);
+  }, [balanceDue]);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    try {
+      const { payment, transaction } = await MongoService.savePayment({
+        id: Date.now().toString(),
+        invoiceId: invoice.id,
+        date,
+        amount,
+        mode,
+        reference: reference.trim() || undefined,
+      });
+      setPayments(prev => [...prev, payment]);
+      setReference('');
+      onInvoiceUpdated(transaction);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to record payment.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm('Delete this payment?')) return;
+    try {
+      const transaction = await MongoService.deletePayment(id);
+      setPayments(prev => prev.filter(p => p.id !== id));
+      onInvoiceUpdated(transaction);
+    } catch (error) {
+      alert('Failed to delete payment.');
+    }
+  };
+
+  const modeLabel = (value: PaymentMode) => PAYMENT_MODES.find(m => m.value === value)?.label || value;
+
+  return (
+    <div className="max-w-4xl mx-auto mt-6 bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden print:hidden animate-fade-in">
+      <div className="p-6 border-b border-slate-200 flex justify-between items-center bg-slate-50/50">
+        <h3 className="text-lg font-semibold text-slate-800 flex items-center gap-2">
+          <Wallet size={20} className="text-indigo-600" />
+          {invoice.type === 'SALE' ? 'Payments Received' : 'Payments Made'}
+        </h3>
+        <div className="text-sm text-slate-600 flex gap-6">
+          <span>Paid: <span className="font-semibold text-emerald-600">₹{(invoice.amountPaid || 0).toLocaleString('en-IN', { minimumFractionDigits: 2 })}</span></span>
+          {(invoice.amountCredited || 0) > 0 && (
+            <span>{invoice.type === 'SALE' ? 'Credit notes' : 'Debit notes'}: <span className="font-semibold text-teal-600">₹{(invoice.amountCredited || 0).toLocaleString('en-IN', { minimumFractionDigits: 2 })}</span></span>
+          )}
+          <span>Balance: <span className="font-semibold text-amber-600">₹{balanceDue.toLocaleString('en-IN', { minimumFractionDigits: 2 })}</span></span>
+        </div>
+      </div>
+
+      <table className="w-full text-left text-sm text-slate-600">
+        <thead className="bg-slate-50 text-slate-700 font-medium border-b border-slate-200">
+          <tr>
+            <th className="px-6 py-3">Date</th>
+            <th className="px-6 py-3">Mode</th>
+            <th className="px-6 py-3">Reference</th>
+            <th className="px-6 py-3 text-right">Amount</th>
+            <th className="px-6 py-3"></th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-slate-100">
+          {payments.length === 0 ? (
+            <tr>
+              <td colSpan={5} className="px-6 py-6 text-center text-slate-500">No payments recorded yet.</td>
+            </tr>
+          ) : payments.map(p => (
+            <tr key={p.id}>
+              <td className="px-6 py-3">{p.date.split('T')[0]}</td>
+              <td className="px-6 py-3">{modeLabel(p.mode)}</td>
+              <td className="px-6 py-3">{p.reference || p.notes || '-'}</td>
+              <td className="px-6 py-3 text-right font-medium">₹{p.amount.toLocaleString('en-IN', { minimumFractionDigits: 2 })}</td>
+              <td className="px-6 py-3 text-right">
+                {canDelete && (
+                  <button onClick={() => handleDelete(p.id)} className="text-slate-400 hover:text-rose-500 transition-colors">
+                    <Trash2 size={16} />
+                  </button>
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {invoice.status === 'Draft' ? (
+        <p className="p-6 border-t border-slate-200 bg-slate-50 text-sm text-slate-500">
+          Finalise this draft to record payments against it.
+        </p>
+      ) : balanceDue > 0 && (
+        <form onSubmit={handleAdd} className="p-6 border-t border-slate-200 flex flex-wrap gap-4 items-end bg-slate-50">
+          <div>
+            <label className="block text-xs font-medium text-slate-500 mb-1">Date</label>
+            <input
+              required
+              type="date"
+              value={date}
+              onChange={e => setDate(e.target.value)}
+              className="px-3 py-2 bg-white border border-slate-300 rounded-md text-sm focus:border-indigo-500 outline-none"
+            />
+          </div>
+          <div className="w-36">
+            <label className="block text-xs font-medium text-slate-500 mb-1">Amount (₹)</label>
+            <input
+              required
+              type="number"
+              min="0.01"
+              max={balanceDue}
+              step="0.01"
+              value={amount}
+              onChange={e => setAmount(parseFloat(e.target.value))}
+              className="w-full px-3 py-2 bg-white border border-slate-300 rounded-md text-sm focus:border-indigo-500 outline-none"
+            />
+          </div>
+          <div className="w-36">
+            <label className="block text-xs font-medium text-slate-500 mb-1">Mode</label>
+            <select
+              value={mode}
+              onChange={e => setMode(e.target.value as PaymentMode)}
+              className="w-full px-3 py-2 bg-white border border-slate-300 rounded-md text-sm focus:border-indigo-500 outline-none"
+            >
+              {PAYMENT_MODES.map(m => (
+                <option key={m.value} value={m.value}>{m.label}</option>
+              ))}
+            </select>
+          </div>
+          <div className="flex-grow">
+            <label className="block text-xs font-medium text-slate-500 mb-1">Reference</label>
+            <input
+              type="text"
+              value={reference}
+              onChange={e => setReference(e.target.value)}
+              className="w-full px-3 py-2 bg-white border border-slate-300 rounded-md text-sm focus:border-indigo-500 outline-none"
+              placeholder="UTR / Cheque No."
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={isSaving}
+            className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors flex items-center gap-2 text-sm font-medium shadow-sm disabled:opacity-70"
+          >
+            {isSaving ? <Loader2 className="animate-spin" size={16} /> : <Plus size={16} />}
+            Record Payment
+          </button>
+        </form>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,61 @@
+import React from 'react';
+import { InvoiceTemplateId } from '../types';
+import { INVOICE_TEMPLATES } from '../services/templates';
+import { Eye, X } from 'lucide-react';
+
+interface PrintPreviewProps {
+  templateId: InvoiceTemplateId;
+  onTemplateChange: (id: InvoiceTemplateId) => void;
+  onClose: () => void;
+  actions?: React.ReactNode; // Extra footer buttons, e.g. print and download
+  children: React.ReactNode; // The bill, usually a PrintableBill
+}
+
+// A4-sized preview of a bill with a design switcher, so the designs can be compared live
+export const PrintPreview: React.FC<PrintPreviewProps> = ({ templateId, onTemplateChange, onClose, actions, children }) => (
+  <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm print:hidden p-4 animate-fade-in">
+    <div className="bg-white rounded-xl shadow-2xl w-full max-w-4xl h-[85vh] flex flex-col overflow-hidden">
+      {/* Modal Header */}
+      <div className="p-4 border-b border-slate-200 flex justify-between items-center bg-slate-50">
+        <h3 className="font-bold text-lg text-slate-800 flex items-center gap-2">
+          <Eye size={20} className="text-indigo-600" />
+          Print Preview
+        </h3>
+        <div className="flex items-center gap-3">
+          <select
+            value={templateId}
+            onChange={e => onTemplateChange(e.target.value as InvoiceTemplateId)}
+            className="px-3 py-1.5 rounded-lg border border-slate-300 text-slate-700 text-sm bg-white"
+            title="Design"
+          >
+            {Object.entries(INVOICE_TEMPLATES).map(([id, info]) => <option key={id} value={id}>{info.name}</option>)}
+          </select>
+          <button
+            onClick={onClose}
+            className="text-slate-500 hover:bg-slate-200 p-2 rounded-full transition-colors"
+          >
+            <X size={20} />
+          </button>
+        </div>
+      </div>
+
+      {/* Modal Body: Scrollable Preview */}
+      <div className="flex-1 overflow-y-auto bg-slate-200/50 p-8">
+        <div className="bg-white shadow-lg mx-auto max-w-[210mm] min-h-[297mm] origin-top">
+          {children}
+        </div>
+      </div>
+
+      {/* Modal Footer */}
+      <div className="p-4 border-t border-slate-200 bg-white flex justify-end gap-3">
+        <button
+          onClick={onClose}
+          className="px-5 py-2 rounded-lg border border-slate-300 text-slate-700 font-medium hover:bg-slate-50 transition-colors"
+        >
+          Close
+        </button>
+        {actions}
+      </div>
+    </div>
+  </div>
+);
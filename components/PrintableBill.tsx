@@ -0,0 +1,344 @@
+import React from 'react';
+import { BusinessSettings, InvoiceTemplateId, InvoiceTemplateSettings, LineItem, Party, TransactionType } from '../types';
+import { InvoiceTaxTotals, getStateName, homeStateOf, isInterState } from '../services/gst';
+import { DOCUMENT_LABELS, isOrderType, isNoteType, partySide } from '../services/documents';
+import { accentColorFor } from '../services/templates';
+
+interface PrintableBillProps {
+  templateId: InvoiceTemplateId;
+  template: InvoiceTemplateSettings;
+  type: TransactionType;
+  invoiceNumber: string;
+  date: string;
+  dueDate?: string;
+  sourceDocumentNumber?: string;
+  partyName: string;
+  party?: Party;
+  partyGstin?: string;
+  placeOfSupply: string;
+  taxInclusive: boolean;
+  items: LineItem[]; // Already run through calculateLineTax
+  totals: InvoiceTaxTotals;
+  notes?: string;
+  settings: BusinessSettings;
+  businessName: string;
+}
+
+interface Column {
+  label: string;
+  align?: 'right';
+  value: (item: LineItem, index: number) => React.ReactNode;
+}
+
+const money = (value?: number) => `₹${(value || 0).toFixed(2)}`;
+
+interface RateBreakup {
+  rate: number;
+  taxable: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+}
+
+// Taxable value and tax per GST rate, for the compact design's breakup table
+const breakupByRate = (items: LineItem[]): RateBreakup[] => {
+  const byRate = new Map<number, RateBreakup>();
+  items.forEach(item => {
+    const rate = item.gstRate || 0;
+    const row = byRate.get(rate) || { rate, taxable: 0, cgst: 0, sgst: 0, igst: 0 };
+    row.taxable += item.taxableValue || 0;
+    row.cgst += item.cgst || 0;
+    row.sgst += item.sgst || 0;
+    row.igst += item.igst || 0;
+    byRate.set(rate, row);
+  });
+  return [...byRate.values()].sort((a, b) => a.rate - b.rate);
+};
+
+// The printed document in one of the bill designs. Used for printing, the
+// preview modal and the template preview in Settings.
+export const PrintableBill: React.FC<PrintableBillProps> = ({
+  templateId, template, type, invoiceNumber, date, dueDate, sourceDocumentNumber, partyName, party, partyGstin,
+  placeOfSupply, taxInclusive, items, totals, notes, settings, businessName,
+}) => {
+  const labels = DOCUMENT_LABELS[type];
+  const accent = accentColorFor(template, templateId);
+  const profile = settings.profile || {};
+  const bank = settings.bank || {};
+  const sellerName = profile.legalName || businessName;
+  const isCustomerSide = partySide(type) === 'SALE';
+  const isNote = isNoteType(type);
+  const interState = isInterState(placeOfSupply, homeStateOf(settings));
+  const hasBankDetails = !!(bank.accountNumber || bank.upiId);
+  const showDiscount = template.showDiscount && items.some(item => (item.discount || 0) > 0);
+  const isCompact = templateId === 'COMPACT_GST';
+  const isModern = templateId === 'MODERN';
+
+  const columns = ([
+    isCompact && { label: '#', value: (_item, i) => i + 1 },
+    { label: 'Item Description', value: item => item.description },
+    template.showHsn && { label: 'HSN/SAC', value: item => item.hsnCode },
+    { label: 'Qty', align: 'right', value: item => item.quantity },
+    { label: 'Rate', align: 'right', value: item => money(item.price) },
+    showDiscount && { label: 'Disc %', align: 'right', value: item => item.discount ? `${item.discount}%` : '' },
+    { label: 'Taxable', align: 'right', value: item => money(item.taxableValue) },
+    { label: 'GST %', align: 'right', value: item => `${item.gstRate || 0}%` },
+    { label: interState ? 'IGST' : 'CGST + SGST', align: 'right', value: item => money((item.cgst || 0) + (item.sgst || 0) + (item.igst || 0)) },
+    { label: 'Total', align: 'right', value: item => money(item.lineTotal) },
+  ] as (Column | false)[]).filter((c): c is Column => !!c);
+
+  const seller = (
+    <div className="flex gap-4 items-start">
+      {profile.logo && <img src={profile.logo} alt="" className={`${isCompact ? 'h-12' : 'h-16'} max-w-[8rem] object-contain ${isModern ? 'bg-white rounded p-1' : ''}`} />}
+      <div>
+        <h1
+          className={`${isCompact ? 'text-xl' : 'text-3xl'} font-bold uppercase tracking-wide`}
+          style={isModern ? undefined : { color: accent }}
+        >
+          {labels.printTitle}
+        </h1>
+        <p className={`${isCompact ? 'mt-1' : 'mt-2'} font-semibold`}>{sellerName}</p>
+        {template.headerText && <p className="text-sm italic">{template.headerText}</p>}
+        {profile.address && <p className="text-sm whitespace-pre-wrap">{profile.address}</p>}
+        {profile.gstin && <p className="text-sm">GSTIN: {profile.gstin}</p>}
+        {(profile.phone || profile.email) && (
+          <p className="text-sm">{[profile.phone, profile.email].filter(Boolean).join(' · ')}</p>
+        )}
+      </div>
+    </div>
+  );
+
+  const meta = (
+    <div className="text-right">
+      <h2 className={`${isCompact ? 'text-base' : 'text-xl'} font-bold`}>#{invoiceNumber}</h2>
+      <p>Date: {date}</p>
+      {isOrderType(type) && dueDate && <p>{labels.dateLabel}: {dueDate}</p>}
+      {sourceDocumentNumber && <p className="text-sm">{isNote ? 'Against Invoice' : 'Ref'}: {sourceDocumentNumber}</p>}
+    </div>
+  );
+
+  const billTo = (
+    <div>
+      <h3 className="text-sm font-bold uppercase text-gray-600 mb-2">{isCustomerSide ? 'Bill To:' : 'Vendor:'}</h3>
+      <p className={`${isCompact ? 'text-base' : 'text-xl'} font-semibold`}>{partyName}</p>
+      {party?.billingAddress && <p className="text-sm whitespace-pre-wrap">{party.billingAddress}</p>}
+      {partyGstin && <p className="text-sm">GSTIN: {partyGstin.toUpperCase()}</p>}
+    </div>
+  );
+
+  const supply = (
+    <div className="text-right text-sm">
+      <p>Place of Supply: {getStateName(placeOfSupply)} ({placeOfSupply})</p>
+      {taxInclusive && <p className="text-xs text-gray-600">Prices inclusive of GST</p>}
+    </div>
+  );
+
+  const cell = isCompact ? 'border border-gray-400 px-1.5 py-1' : 'py-2 px-1';
+  const itemsTable = (
+    <table className={`w-full border-collapse ${isCompact ? 'text-xs mb-4' : 'text-sm mb-8'}`}>
+      <thead>
+        <tr
+          className={isModern ? 'text-white' : isCompact ? 'bg-gray-100' : 'border-b-2'}
+          style={isModern ? { backgroundColor: accent } : isCompact ? undefined : { borderColor: accent }}
+        >
+          {columns.map(c => (
+            <th key={c.label} className={`${cell} font-bold ${c.align === 'right' ? 'text-right' : 'text-left'}`}>{c.label}</th>
+          ))}
+        </tr>
+      </thead>
+      <tbody>
+        {items.map((item, i) => (
+          <tr key={item.id} className={isCompact ? '' : `border-b border-gray-300 ${isModern && i % 2 ? 'bg-gray-50' : ''}`}>
+            {columns.map((c, ci) => (
+              <td key={c.label} className={`${cell} ${c.align === 'right' ? 'text-right' : ''} ${ci === columns.length - 1 ? 'font-medium' : ''}`}>
+                {c.value(item, i)}
+              </td>
+            ))}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+
+  const totalRow = (label: string, value: number) => (
+    <div className="flex justify-between mb-2">
+      <span>{label}:</span>
+      <span>{money(value)}</span>
+    </div>
+  );
+
+  const totalsBlock = (
+    <div className="flex justify-end">
+      <div
+        className={`${isCompact ? 'w-full' : 'w-1/2'} ${isModern ? 'bg-gray-50 rounded-lg p-4' : 'border-t-2 pt-4'} ${isCompact ? 'text-xs' : ''}`}
+        style={isModern ? undefined : { borderColor: accent }}
+      >
+        {totalRow('Taxable Value', totals.taxableAmount)}
+        {interState ? totalRow('IGST', totals.igstAmount) : (
+          <>
+            {totalRow('CGST', totals.cgstAmount)}
+            {totalRow('SGST', totals.sgstAmount)}
+          </>
+        )}
+        <div className={`flex justify-between ${isCompact ? 'text-base' : 'text-xl'} font-bold`} style={isModern ? { color: accent } : undefined}>
+          <span>Grand Total:</span>
+          <span>{money(totals.totalAmount)}</span>
+        </div>
+      </div>
+    </div>
+  );
+
+  const breakup = breakupByRate(items);
+  const taxBreakup = (
+    <table className="w-full border-collapse text-xs mt-4">
+      <thead>
+        <tr className="bg-gray-100">
+          <th className={`${cell} text-left`}>GST Rate</th>
+          <th className={`${cell} text-right`}>Taxable Value</th>
+          {interState ? <th className={`${cell} text-right`}>IGST</th> : (
+            <>
+              <th className={`${cell} text-right`}>CGST</th>
+              <th className={`${cell} text-right`}>SGST</th>
+            </>
+          )}
+          <th className={`${cell} text-right`}>Total Tax</th>
+        </tr>
+      </thead>
+      <tbody>
+        {breakup.map(row => (
+          <tr key={row.rate}>
+            <td className={cell}>{row.rate}%</td>
+            <td className={`${cell} text-right`}>{money(row.taxable)}</td>
+            {interState ? <td className={`${cell} text-right`}>{money(row.igst)}</td> : (
+              <>
+                <td className={`${cell} text-right`}>{money(row.cgst)}</td>
+                <td className={`${cell} text-right`}>{money(row.sgst)}</td>
+              </>
+            )}
+            <td className={`${cell} text-right`}>{money(row.cgst + row.sgst + row.igst)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+
+  const notesBlock = notes?.trim() && (
+    <div className={`${isCompact ? 'mt-4 text-xs' : 'mt-6 text-sm'}`}>
+      <h3 className="font-bold uppercase text-gray-600 mb-1">Notes</h3>
+      <p className="whitespace-pre-wrap">{notes.trim()}</p>
+    </div>
+  );
+
+  const showTerms = template.showTerms && !!settings.terms;
+  const closing = (
+    <div className={`${isCompact ? 'mt-4 text-xs' : 'mt-8 text-sm'} flex justify-between items-end gap-8`}>
+      <div className="space-y-4">
+        {isCustomerSide && hasBankDetails && (
+          <div>
+            <h3 className="font-bold uppercase text-gray-600 mb-1">Payment Details</h3>
+            {bank.accountName && <p>A/c Name: {bank.accountName}</p>}
+            {bank.bankName && <p>Bank: {bank.bankName}{bank.branch ? `, ${bank.branch}` : ''}</p>}
+            {bank.accountNumber && <p>A/c No.: {bank.accountNumber}</p>}
+            {bank.ifsc && <p>IFSC: {bank.ifsc}</p>}
+            {bank.upiId && <p>UPI: {bank.upiId}</p>}
+          </div>
+        )}
+        {showTerms && (
+          <div>
+            <h3 className="font-bold uppercase text-gray-600 mb-1">Terms & Conditions</h3>
+            <p className="whitespace-pre-wrap text-xs">{settings.terms}</p>
+          </div>
+        )}
+      </div>
+      {template.showSignature && (
+        <div className="text-center shrink-0">
+          <p className="mb-2">For {sellerName}</p>
+          {profile.signature ? <img src={profile.signature} alt="" className="h-14 mx-auto object-contain" /> : <div className="h-14" />}
+          <p className="border-t border-black pt-1 px-6">Authorised Signatory</p>
+        </div>
+      )}
+    </div>
+  );
+
+  const footer = (
+    <div className={`${isCompact ? 'mt-6 pt-4 text-xs' : 'mt-12 pt-8 text-sm'} text-center border-t border-gray-300`}>
+      {type === 'QUOTATION' && <p className="mb-2">This is a quotation, not a tax invoice. Prices are subject to stock availability.</p>}
+      {type === 'PURCHASE_ORDER' && <p className="mb-2">Please quote PO No. {invoiceNumber} on your invoice and delivery challan.</p>}
+      {type === 'CREDIT_NOTE' && <p className="mb-2">Credit issued for goods returned against invoice {sourceDocumentNumber}. The amount is adjusted against your balance.</p>}
+      {type === 'DEBIT_NOTE' && <p className="mb-2">Goods returned against your invoice {sourceDocumentNumber}. Please adjust the amount against our balance.</p>}
+      <p className="whitespace-pre-wrap">{template.footerText || 'Thank you for your business!'}</p>
+      <p className="text-xs text-gray-500 mt-1">Generated by Billventory</p>
+    </div>
+  );
+
+  // Backgrounds (the modern header band, shaded rows) are kept when printing
+  const printColors: React.CSSProperties = { WebkitPrintColorAdjust: 'exact', printColorAdjust: 'exact' };
+
+  if (isModern) {
+    return (
+      <div className="bg-white text-black w-full" style={printColors}>
+        <div className="p-8 flex justify-between items-start text-white" style={{ backgroundColor: accent }}>
+          {seller}
+          {meta}
+        </div>
+        <div className="p-8">
+          <div className="mb-8 grid grid-cols-2 gap-4">
+            <div className="bg-gray-50 rounded-lg p-4">{billTo}</div>
+            <div className="bg-gray-50 rounded-lg p-4 flex justify-end items-start">{supply}</div>
+          </div>
+          {itemsTable}
+          {totalsBlock}
+          {notesBlock}
+          {closing}
+          {footer}
+        </div>
+      </div>
+    );
+  }
+
+  if (isCompact) {
+    return (
+      <div className="p-6 bg-white text-black w-full text-sm" style={printColors}>
+        <div className="border border-gray-400">
+          <div className="flex justify-between items-start p-3 border-b border-gray-400">
+            {seller}
+            {meta}
+          </div>
+          <div className="flex justify-between items-start p-3">
+            {billTo}
+            {supply}
+          </div>
+        </div>
+        <div className="mt-4">{itemsTable}</div>
+        <div className="grid grid-cols-2 gap-6 items-start">
+          <div>
+            <h3 className="text-xs font-bold uppercase text-gray-600">Tax Breakup</h3>
+            {taxBreakup}
+          </div>
+          {totalsBlock}
+        </div>
+        {notesBlock}
+        {closing}
+        {footer}
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-8 bg-white text-black w-full" style={printColors}>
+      <div className="flex justify-between items-start border-b-2 pb-4 mb-6" style={{ borderColor: accent }}>
+        {seller}
+        {meta}
+      </div>
+      <div className="mb-8 flex justify-between">
+        {billTo}
+        {supply}
+      </div>
+      {itemsTable}
+      {totalsBlock}
+      {notesBlock}
+      {closing}
+      {footer}
+    </div>
+  );
+};
@@ -0,0 +1,139 @@
+import React, { useState } from 'react';
+import { Party, Product } from '../types';
+import { GST_RATES } from '../services/gst';
+import { UNITS } from '../services/products';
+import { DEFAULT_REORDER_LEVEL } from '../services/inventory';
+import { partyMatchesType } from '../services/parties';
+import { Package, X, Save, Loader2 } from 'lucide-react';
+
+interface ProductFormProps {
+  initialData?: Product;
+  defaultName?: string;
+  parties: Party[];
+  onSave: (product: Product) => Promise<void>;
+  onCancel: () => void;
+  showCosts?: boolean; // The server keeps the purchase price from roles without cost access
+}
+
+const inputClass = "w-full px-3 py-2 bg-white border border-slate-300 rounded-md text-sm focus:border-indigo-500 outline-none";
+
+// Modal used both from the product catalog and for inline "create new" on bills
+export const ProductForm: React.FC<ProductFormProps> = ({ initialData, defaultName = '', parties, onSave, onCancel, showCosts = true }) => {
+  const [product, setProduct] = useState<Product>(initialData || {
+    id: Date.now().toString(),
+    sku: '',
+    name: defaultName,
+    unit: 'NOS',
+    gstRate: 18,
+    purchasePrice: 0,
+    sellingPrice: 0,
+  });
+  const [isSaving, setIsSaving] = useState(false);
+
+  const update = (field: keyof Product, value: any) => setProduct(prev => ({ ...prev, [field]: value }));
+  const vendors = parties.filter(p => partyMatchesType(p, 'PURCHASE'));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    try {
+      await onSave(product);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to save product.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm print:hidden p-4 animate-fade-in">
+      <form onSubmit={handleSubmit} className="bg-white rounded-xl shadow-2xl w-full max-w-2xl max-h-[90vh] flex flex-col overflow-hidden">
+        <div className="p-4 border-b border-slate-200 flex justify-between items-center bg-slate-50">
+          <h3 className="font-bold text-lg text-slate-800 flex items-center gap-2">
+            <Package size={20} className="text-indigo-600" />
+            {initialData ? 'Edit Product' : 'New Product'}
+          </h3>
+          <button type="button" onClick={onCancel} className="text-slate-500 hover:bg-slate-200 p-2 rounded-full transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-6 grid grid-cols-1 md:grid-cols-2 gap-4 overflow-y-auto">
+          <div className="md:col-span-2">
+            <label className="block text-xs font-medium text-slate-500 mb-1">Name</label>
+            <input required autoFocus type="text" value={product.name} onChange={e => update('name', e.target.value)} className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-slate-500 mb-1">SKU</label>
+            <input type="text" value={product.sku} onChange={e => update('sku', e.target.value)} className={`${inputClass} uppercase`} placeholder="Auto-generated if empty" />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-slate-500 mb-1">Barcode</label>
+            <input type="text" value={product.barcode || ''} onChange={e => update('barcode', e.target.value)} className={inputClass} placeholder="Optional" />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-slate-500 mb-1">Category</label>
+            <input type="text" value={product.category || ''} onChange={e => update('category', e.target.value)} className={inputClass} placeholder="e.g. Electronics" />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-xs font-medium text-slate-500 mb-1">Unit</label>
+              <select value={product.unit} onChange={e => update('unit', e.target.value)} className={inputClass}>
+                {UNITS.map(u => <option key={u} value={u}>{u}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-slate-500 mb-1">HSN/SAC</label>
+              <input type="text" value={product.hsnCode || ''} onChange={e => update('hsnCode', e.target.value)} className={inputClass} />
+            </div>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-slate-500 mb-1">GST %</label>
+            <select value={product.gstRate ?? 0} onChange={e => update('gstRate', parseFloat(e.target.value))} className={inputClass}>
+              {GST_RATES.map(rate => <option key={rate} value={rate}>{rate}%</option>)}
+            </select>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            {showCosts && (
+              <div>
+                <label className="block text-xs font-medium text-slate-500 mb-1">Purchase Price (₹)</label>
+                <input type="number" min="0" step="0.01" value={product.purchasePrice} onChange={e => update('purchasePrice', parseFloat(e.target.value) || 0)} className={inputClass} />
+              </div>
+            )}
+            <div>
+              <label className="block text-xs font-medium text-slate-500 mb-1">Selling Price (₹)</label>
+              <input type="number" min="0" step="0.01" value={product.sellingPrice} onChange={e => update('sellingPrice', parseFloat(e.target.value) || 0)} className={inputClass} />
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-xs font-medium text-slate-500 mb-1">Reorder Level</label>
+              <input type="number" min="0" value={product.reorderLevel ?? ''} onChange={e => update('reorderLevel', e.target.value === '' ? undefined : parseFloat(e.target.value))} className={inputClass} placeholder={String(DEFAULT_REORDER_LEVEL)} />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-slate-500 mb-1">Reorder Qty</label>
+              <input type="number" min="0" value={product.reorderQuantity ?? ''} onChange={e => update('reorderQuantity', e.target.value === '' ? undefined : parseFloat(e.target.value))} className={inputClass} placeholder="Auto" />
+            </div>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-slate-500 mb-1">Preferred Vendor</label>
+            <select value={product.preferredVendorId || ''} onChange={e => update('preferredVendorId', e.target.value || undefined)} className={inputClass}>
+              <option value="">Last vendor purchased from</option>
+              {vendors.map(v => <option key={v.id} value={v.id}>{v.name}</option>)}
+            </select>
+          </div>
+        </div>
+
+        <div className="p-4 border-t border-slate-200 bg-white flex justify-end gap-3">
+          <button type="button" onClick={onCancel} className="px-5 py-2 rounded-lg border border-slate-300 text-slate-700 font-medium hover:bg-slate-50 transition-colors">
+            Cancel
+          </button>
+          <button type="submit" disabled={isSaving} className="px-5 py-2 rounded-lg bg-indigo-600 text-white font-medium hover:bg-indigo-700 flex items-center gap-2 shadow-sm transition-colors disabled:opacity-70">
+            {isSaving ? <Loader2 className="animate-spin" size={18} /> : <Save size={18} />}
+            Save Product
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
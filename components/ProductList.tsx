@@ -0,0 +1,132 @@
+import React, { useState, useMemo } from 'react';
+import { Party, Product } from '../types';
+import { ProductForm } from './ProductForm';
+import { Boxes, Search, Plus, Trash2 } from 'lucide-react';
+
+interface ProductListProps {
+  products: Product[];
+  parties: Party[];
+  onSave: (product: Product) => Promise<void>;
+  onDelete?: (id: string) => Promise<void>; // Left out for roles that can't delete
+  showCosts: boolean;
+}
+
+export const ProductList: React.FC<ProductListProps> = ({ products, parties, onSave, onDelete, showCosts }) => {
+  const [searchTerm, setSearchTerm] = useState('');
+  const [editing, setEditing] = useState<Product | 'NEW' | null>(null);
+
+  const filtered = useMemo(() => {
+    const term = searchTerm.trim().toLowerCase();
+    if (!term) return products;
+    return products.filter(p =>
+      p.name.toLowerCase().includes(term) ||
+      p.sku.toLowerCase().includes(term) ||
+      (p.barcode || '').toLowerCase().includes(term) ||
+      (p.category || '').toLowerCase().includes(term)
+    );
+  }, [products, searchTerm]);
+
+  const handleSave = async (product: Product) => {
+    await onSave(product);
+    setEditing(null);
+  };
+
+  const handleDelete = async (product: Product) => {
+    if (!onDelete || !confirm(`Delete ${product.name}?`)) return;
+    try {
+      await onDelete(product.id);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to delete product.');
+    }
+  };
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <h2 className="text-2xl font-bold text-slate-800 flex items-center gap-2">
+          <Boxes className="text-indigo-600" />
+          Product Catalog
+        </h2>
+        <div className="flex items-center gap-3">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" size={18} />
+            <input
+              type="text"
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              placeholder="Search name, SKU, barcode..."
+              className="pl-10 pr-4 py-2 border border-slate-200 rounded-full text-sm focus:outline-none focus:border-indigo-500 w-full md:w-64 bg-white shadow-sm"
+            />
+          </div>
+          <button
+            onClick={() => setEditing('NEW')}
+            className="flex items-center gap-2 px-4 py-2 rounded-lg text-white font-medium shadow-sm transition-colors bg-indigo-600 hover:bg-indigo-700"
+          >
+            <Plus size={18} /> Add Product
+          </button>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-sm text-slate-600">
+            <thead className="bg-slate-50 text-slate-700 font-medium border-b border-slate-200">
+              <tr>
+                <th className="px-6 py-4">SKU</th>
+                <th className="px-6 py-4">Name</th>
+                <th className="px-6 py-4">Category</th>
+                <th className="px-6 py-4">HSN</th>
+                <th className="px-6 py-4">Unit</th>
+                {showCosts && <th className="px-6 py-4 text-right">Purchase</th>}
+                <th className="px-6 py-4 text-right">Selling</th>
+                <th className="px-6 py-4 text-right">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {filtered.length === 0 ? (
+                <tr>
+                  <td colSpan={showCosts ? 8 : 7} className="px-6 py-12 text-center text-slate-500">
+                    {searchTerm ? 'No products match your search.' : 'No products yet. Add them here or while creating a bill.'}
+                  </td>
+                </tr>
+              ) : filtered.map(p => (
+                <tr key={p.id} className="hover:bg-slate-50 transition-colors">
+                  <td className="px-6 py-4 font-mono text-xs text-slate-500">{p.sku}</td>
+                  <td className="px-6 py-4 font-medium text-slate-900">{p.name}</td>
+                  <td className="px-6 py-4">{p.category || '-'}</td>
+                  <td className="px-6 py-4">{p.hsnCode || '-'}</td>
+                  <td className="px-6 py-4">{p.unit}</td>
+                  {showCosts && <td className="px-6 py-4 text-right">₹{p.purchasePrice.toFixed(2)}</td>}
+                  <td className="px-6 py-4 text-right">₹{p.sellingPrice.toFixed(2)}</td>
+                  <td className="px-6 py-4 text-right space-x-2">
+                    <button
+                      onClick={() => setEditing(p)}
+                      className="text-indigo-600 hover:text-indigo-800 font-medium bg-indigo-50 hover:bg-indigo-100 px-3 py-1 rounded-md transition-colors"
+                    >
+                      Edit
+                    </button>
+                    {onDelete && (
+                      <button onClick={() => handleDelete(p)} className="text-slate-400 hover:text-rose-500 transition-colors align-middle">
+                        <Trash2 size={16} />
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {editing && (
+        <ProductForm
+          initialData={editing === 'NEW' ? undefined : editing}
+          parties={parties}
+          onSave={handleSave}
+          onCancel={() => setEditing(null)}
+          showCosts={showCosts}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,76 @@
+import React, { useState, useMemo } from 'react';
+import { Product } from '../types';
+import { searchProducts, findExactProduct } from '../services/products';
+import { PackagePlus } from 'lucide-react';
+
+interface ProductPickerProps {
+  products: Product[];
+  productId?: string;
+  description: string;
+  onSelect: (product: Product) => void;
+  onDescriptionChange: (description: string) => void;
+  onCreateNew: (name: string) => void;
+}
+
+export const ProductPicker: React.FC<ProductPickerProps> = ({ products, productId, description, onSelect, onDescriptionChange, onCreateNew }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const suggestions = useMemo(() => searchProducts(products, description), [products, description]);
+  const exactName = products.some(p => p.name.trim().toLowerCase() === description.trim().toLowerCase());
+
+  // Barcode scanners type the code and press Enter
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key !== 'Enter') return;
+    e.preventDefault();
+    const match = findExactProduct(products, description) || (suggestions.length === 1 ? suggestions[0] : undefined);
+    if (match) {
+      onSelect(match);
+      setIsOpen(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <input
+        type="text"
+        value={description}
+        onChange={e => { onDescriptionChange(e.target.value); setIsOpen(true); }}
+        onFocus={() => setIsOpen(true)}
+        onBlur={() => setTimeout(() => setIsOpen(false), 150)}
+        onKeyDown={handleKeyDown}
+        className={`w-full px-3 py-2 bg-white border rounded-md text-sm focus:border-indigo-500 outline-none ${productId ? 'border-slate-300' : 'border-amber-300'}`}
+        placeholder="Search name, SKU or scan barcode"
+      />
+
+      {isOpen && (
+        <div className="absolute z-20 mt-1 w-full min-w-[16rem] bg-white border border-slate-200 rounded-lg shadow-lg overflow-hidden">
+          {suggestions.map(p => (
+            <button
+              key={p.id}
+              type="button"
+              onMouseDown={e => e.preventDefault()}
+              onClick={() => { onSelect(p); setIsOpen(false); }}
+              className={`w-full text-left px-3 py-2 text-sm hover:bg-indigo-50 ${p.id === productId ? 'bg-indigo-50' : ''}`}
+            >
+              <div className="font-medium text-slate-800">{p.name}</div>
+              <div className="text-xs text-slate-500">{p.sku} · {p.unit}{p.category ? ` · ${p.category}` : ''}</div>
+            </button>
+          ))}
+          {description.trim() && !exactName && (
+            <button
+              type="button"
+              onMouseDown={e => e.preventDefault()}
+              onClick={() => { onCreateNew(description.trim()); setIsOpen(false); }}
+              className="w-full text-left px-3 py-2 text-sm text-indigo-600 font-medium hover:bg-indigo-50 flex items-center gap-2 border-t border-slate-100"
+            >
+              <PackagePlus size={16} /> Add "{description.trim()}" to catalog
+            </button>
+          )}
+          {suggestions.length === 0 && !description.trim() && (
+            <div className="px-3 py-2 text-sm text-slate-500">No products yet. Start typing to add one.</div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,223 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import { InventoryItem, Invoice, InvoiceStatus, LineItem, Party, Product } from '../types';
+import { buildReorderSuggestions } from '../services/inventory';
+import { partyMatchesType } from '../services/parties';
+import { calculateLineTax, calculateInvoiceTotals, isInterState } from '../services/gst';
+import { ShoppingCart, Loader2, FilePlus2 } from 'lucide-react';
+
+interface ReorderListProps {
+  inventory: InventoryItem[];
+  products: Product[];
+  parties: Party[];
+  transactions: Invoice[];
+  homeState: string; // Vendors without a state are taken to be local
+  onCreateDrafts: (drafts: Invoice[]) => Promise<void>;
+}
+
+interface RowState {
+  selected: boolean;
+  quantity: number;
+  unitPrice: number;
+  vendorId: string;
+}
+
+export const ReorderList: React.FC<ReorderListProps> = ({ inventory, products, parties, transactions, homeState, onCreateDrafts }) => {
+  const suggestions = useMemo(
+    () => buildReorderSuggestions(inventory, products, transactions),
+    [inventory, products, transactions]
+  );
+  const vendors = useMemo(() => parties.filter(p => partyMatchesType(p, 'PURCHASE')), [parties]);
+  const [rows, setRows] = useState<Record<string, RowState>>({});
+  const [isCreating, setIsCreating] = useState(false);
+
+  // New suggestions start selected; edits to existing rows are kept
+  useEffect(() => {
+    setRows(prev => {
+      const next: Record<string, RowState> = {};
+      for (const s of suggestions) {
+        next[s.productId] = prev[s.productId] || {
+          selected: true,
+          quantity: s.quantity,
+          unitPrice: s.unitPrice,
+          vendorId: s.vendorId || '',
+        };
+      }
+      return next;
+    });
+  }, [suggestions]);
+
+  const updateRow = (productId: string, changes: Partial<RowState>) =>
+    setRows(prev => ({ ...prev, [productId]: { ...prev[productId], ...changes } }));
+
+  // One draft purchase per vendor
+  const groups = useMemo(() => {
+    const byVendor: Record<string, { vendor: Party; lines: { product: Product; row: RowState }[] }> = {};
+    for (const s of suggestions) {
+      const row = rows[s.productId];
+      const vendor = row && vendors.find(v => v.id === row.vendorId);
+      const product = products.find(p => p.id === s.productId);
+      if (!row?.selected || !vendor || !product || row.quantity <= 0) continue;
+      if (!byVendor[vendor.id]) byVendor[vendor.id] = { vendor, lines: [] };
+      byVendor[vendor.id].lines.push({ product, row });
+    }
+    return Object.values(byVendor);
+  }, [suggestions, rows, vendors, products]);
+
+  const missingVendor = suggestions.filter(s => rows[s.productId]?.selected && !rows[s.productId]?.vendorId).length;
+
+  const handleCreate = async () => {
+    const stamp = Date.now();
+    const drafts: Invoice[] = groups.map(({ vendor, lines }, index) => {
+      const placeOfSupply = vendor.state || homeState;
+      const items: LineItem[] = lines.map(({ product, row }, line) => calculateLineTax({
+        id: `${stamp}-${index}-${line}`,
+        productId: product.id,
+        description: product.name,
+        quantity: row.quantity,
+        price: row.unitPrice,
+        hsnCode: product.hsnCode || '',
+        gstRate: product.gstRate ?? 18,
+      }, false, isInterState(placeOfSupply, homeState)));
+      const today = new Date().toISOString().split('T')[0];
+
+      return {
+        id: `${stamp}-${index}`,
+        type: 'PURCHASE',
+        invoiceNumber: '', // The vendor's, entered when the bill arrives and the draft is finalised
+        partyId: vendor.id,
+        partyName: vendor.name,
+        partyGstin: vendor.gstin,
+        placeOfSupply,
+        date: today,
+        dueDate: today,
+        status: InvoiceStatus.DRAFT,
+        taxInclusive: false,
+        items,
+        notes: 'Created from reorder suggestions',
+        ...calculateInvoiceTotals(items),
+      };
+    });
+
+    setIsCreating(true);
+    try {
+      await onCreateDrafts(drafts);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to create draft purchases.');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <h2 className="text-2xl font-bold text-slate-800 flex items-center gap-2">
+          <ShoppingCart className="text-indigo-600" />
+          Reorder
+        </h2>
+        <button
+          onClick={handleCreate}
+          disabled={isCreating || groups.length === 0}
+          className="flex items-center gap-2 px-4 py-2 rounded-lg text-white font-medium shadow-sm transition-colors bg-indigo-600 hover:bg-indigo-700 disabled:opacity-60"
+        >
+          {isCreating ? <Loader2 className="animate-spin" size={18} /> : <FilePlus2 size={18} />}
+          Create {groups.length || ''} Draft Purchase{groups.length === 1 ? '' : 's'}
+        </button>
+      </div>
+
+      {missingVendor > 0 && (
+        <div className="p-3 rounded-lg border bg-amber-50 border-amber-200 text-amber-800 text-sm">
+          {missingVendor} selected item{missingVendor === 1 ? ' has' : 's have'} no vendor. Pick one to include {missingVendor === 1 ? 'it' : 'them'}, or set a preferred vendor on the product.
+        </div>
+      )}
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-sm text-slate-600">
+            <thead className="bg-slate-50 text-slate-700 font-medium border-b border-slate-200">
+              <tr>
+                <th className="px-4 py-4 w-10"></th>
+                <th className="px-4 py-4">Item</th>
+                <th className="px-4 py-4 text-right">On Hand</th>
+                <th className="px-4 py-4 text-right">Reorder Level</th>
+                <th className="px-4 py-4">Order Qty</th>
+                <th className="px-4 py-4">Unit Price (₹)</th>
+                <th className="px-4 py-4">Vendor</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {suggestions.length === 0 ? (
+                <tr>
+                  <td colSpan={7} className="px-6 py-12 text-center text-slate-500">Everything is above its reorder level.</td>
+                </tr>
+              ) : suggestions.map(s => {
+                const row = rows[s.productId];
+                if (!row) return null;
+                return (
+                  <tr key={s.productId} className={row.selected ? '' : 'opacity-50'}>
+                    <td className="px-4 py-3">
+                      <input
+                        type="checkbox"
+                        checked={row.selected}
+                        onChange={e => updateRow(s.productId, { selected: e.target.checked })}
+                        className="accent-indigo-600"
+                      />
+                    </td>
+                    <td className="px-4 py-3 font-medium text-slate-900">
+                      {s.name}
+                      <div className="text-xs font-mono font-normal text-slate-400">{s.sku}</div>
+                    </td>
+                    <td className={`px-4 py-3 text-right font-semibold ${s.onHand <= 0 ? 'text-rose-600' : 'text-amber-600'}`}>{s.onHand}</td>
+                    <td className="px-4 py-3 text-right">{s.reorderLevel}</td>
+                    <td className="px-4 py-3">
+                      <input
+                        type="number"
+                        min="1"
+                        value={row.quantity}
+                        onChange={e => updateRow(s.productId, { quantity: parseFloat(e.target.value) || 0 })}
+                        className="w-24 px-3 py-1.5 bg-white border border-slate-300 rounded-md text-sm focus:border-indigo-500 outline-none"
+                      />
+                    </td>
+                    <td className="px-4 py-3">
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={row.unitPrice}
+                        onChange={e => updateRow(s.productId, { unitPrice: parseFloat(e.target.value) || 0 })}
+                        className="w-28 px-3 py-1.5 bg-white border border-slate-300 rounded-md text-sm focus:border-indigo-500 outline-none"
+                      />
+                    </td>
+                    <td className="px-4 py-3">
+                      <select
+                        value={row.vendorId}
+                        onChange={e => updateRow(s.productId, { vendorId: e.target.value })}
+                        className={`w-48 px-3 py-1.5 bg-white border rounded-md text-sm focus:border-indigo-500 outline-none ${row.vendorId ? 'border-slate-300' : 'border-amber-300'}`}
+                      >
+                        <option value="">Select vendor</option>
+                        {vendors.map(v => <option key={v.id} value={v.id}>{v.name}</option>)}
+                      </select>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {groups.length > 0 && (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {groups.map(({ vendor, lines }) => (
+            <div key={vendor.id} className="bg-white p-4 rounded-xl border border-slate-200 shadow-sm">
+              <div className="font-medium text-slate-800">{vendor.name}</div>
+              <div className="text-sm text-slate-500">
+                {lines.length} item{lines.length === 1 ? '' : 's'} · ₹{lines.reduce((sum, l) => sum + l.row.quantity * l.row.unitPrice, 0).toLocaleString('en-IN', { minimumFractionDigits: 2 })} before GST
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
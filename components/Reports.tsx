@@ -1,6 +1,10 @@
 import React, { useCallback, useMemo, useState } from 'react';
-import { Invoice, InventoryItem } from '../types';
+import { Invoice, InventoryItem, GstReturnsResult, TransactionType } from '../types';
 import { generateBusinessReport } from '../services/geminiService';
+import { MongoService } from '../services/mongo';
+import { AGING_BUCKETS, buildAgingReport } from '../services/payments';
+import { buildProfitSummary, getLineRevenue, getLineCogs } from '../services/profit';
+import { isNoteType, partySide } from '../services/documents';
 import {
   BarChart,
   Bar,
@@ -11,7 +15,7 @@ import {
   ResponsiveContainer,
   Legend,
 } from 'recharts';
-import { FileText, Sparkles, Loader2 } from 'lucide-react';
+import { FileText, Sparkles, Loader2, Landmark, Download, AlertTriangle, CheckCircle2, Clock, TrendingUp } from 'lucide-react';
 
 interface ReportsProps {
   transactions: Invoice[];
@@ -30,9 +34,31 @@ const yAxisTick = (val: number) => {
   return `₹${val}`;
 };
 
+// Previous month as YYYY-MM, the usual period being filed
+const defaultReturnPeriod = () => {
+  const d = new Date();
+  d.setDate(1);
+  d.setMonth(d.getMonth() - 1);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}`;
+};
+
+const downloadJson = (data: unknown, fileName: string) => {
+  const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
 export const Reports: React.FC<ReportsProps> = ({ transactions = [], inventory = [] }) => {
   const [reportText, setReportText] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
+  const [returnPeriod, setReturnPeriod] = useState(defaultReturnPeriod);
+  const [gstReturns, setGstReturns] = useState<GstReturnsResult | null>(null);
+  const [gstLoading, setGstLoading] = useState(false);
+  const [agingType, setAgingType] = useState<TransactionType>('SALE');
 
   // Prepare Chart Data grouped by YYYY-MM (keeps year and month)
   const chartData = useMemo(() => {
@@ -42,8 +68,11 @@ export const Reports: React.FC<ReportsProps> = ({ transactions = [], inventory =
       name: string; // e.g. "Jan 2024"
       sales: number;
       expenses: number;
+      grossProfit: number;
     };
 
+    const costById = new Map(inventory.map(i => [i.id, i.averageCost]));
+
     const map: Record<string, MonthEntry> = {};
 
     for (const t of transactions) {
@@ -63,14 +92,21 @@ export const Reports: React.FC<ReportsProps> = ({ transactions = [], inventory =
       if (!map[periodKey]) {
         const name = d.toLocaleString('default', { month: 'short' }) + ' ' + year; // "Jan 2024"
         const firstOfMonth = new Date(year, month, 1);
-        map[periodKey] = { periodKey, date: firstOfMonth, name, sales: 0, expenses: 0 };
+        map[periodKey] = { periodKey, date: firstOfMonth, name, sales: 0, expenses: 0, grossProfit: 0 };
       }
 
       const amt = typeof t.totalAmount === 'number' && !Number.isNaN(t.totalAmount) ? t.totalAmount : 0;
       const type = (t.type || '').toString().toUpperCase();
 
-      if (type === 'SALE' || type === 'SALES' || type === 'REVENUE') {
-        map[periodKey].sales += amt;
+      if (type === 'SALE' || type === 'SALES' || type === 'REVENUE' || type === 'CREDIT_NOTE') {
+        // Credit notes are returned sales
+        const sign = type === 'CREDIT_NOTE' ? -1 : 1;
+        map[periodKey].sales += sign * amt;
+        for (const item of t.items || []) {
+          map[periodKey].grossProfit += sign * (getLineRevenue(item) - getLineCogs(item, costById.get(item.productId || '')));
+        }
+      } else if (type === 'DEBIT_NOTE') {
+        map[periodKey].expenses -= amt;
       } else {
         // anything else we treat as expense/purchase — adjust as needed
         map[periodKey].expenses += amt;
@@ -81,9 +117,48 @@ export const Reports: React.FC<ReportsProps> = ({ transactions = [], inventory =
     const arr: MonthEntry[] = Object.values(map).sort((a, b) => a.date.getTime() - b.date.getTime());
 
     // If you want latest first, reverse here
-    return arr.map(r => ({ name: r.name, sales: r.sales, expenses: r.expenses }));
+    return arr.map(r => ({ name: r.name, sales: r.sales, expenses: r.expenses, grossProfit: r.grossProfit }));
+  }, [transactions, inventory]);
+
+  const profit = useMemo(() => buildProfitSummary(transactions, inventory), [transactions, inventory]);
+
+  // GST collected on sales (output tax) vs GST paid on purchases (input tax credit)
+  const taxSummary = useMemo(() => {
+    const blank = () => ({ cgst: 0, sgst: 0, igst: 0, total: 0 });
+    const output = blank();
+    const input = blank();
+
+    // Credit notes reduce output tax, debit notes reduce input tax
+    for (const t of transactions) {
+      const bucket = partySide(t.type) === 'SALE' ? output : input;
+      const sign = isNoteType(t.type) ? -1 : 1;
+      bucket.cgst += sign * (t.cgstAmount || 0);
+      bucket.sgst += sign * (t.sgstAmount || 0);
+      bucket.igst += sign * (t.igstAmount || 0);
+      bucket.total += sign * (t.totalTax || 0);
+    }
+
+    return { output, input, netPayable: output.total - input.total };
   }, [transactions]);
 
+  const aging = useMemo(() => buildAgingReport(transactions, agingType), [transactions, agingType]);
+
+  const handlePrepareReturns = useCallback(async () => {
+    setGstLoading(true);
+    setGstReturns(null);
+    try {
+      setGstReturns(await MongoService.getGstReturns(returnPeriod));
+    } catch (err) {
+      alert('Failed to prepare GST returns. Please ensure the backend server is running.');
+    } finally {
+      setGstLoading(false);
+    }
+  }, [returnPeriod]);
+
+  const gstr1Issues = gstReturns?.issues.filter(i => i.returnType === 'GSTR1') || [];
+  const gstr3bIssues = gstReturns?.issues.filter(i => i.returnType === 'GSTR3B') || [];
+  const returnFileSuffix = returnPeriod.replace('-', '');
+
   const handleGenerateReport = useCallback(async () => {
     setLoading(true);
     setReportText(null);
@@ -108,6 +183,241 @@ export const Reports: React.FC<ReportsProps> = ({ transactions = [], inventory =
         </h2>
       </div>
 
+      {/* Profitability */}
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="p-6">
+          <h3 className="text-lg font-semibold text-slate-800 mb-4 flex items-center gap-2">
+            <TrendingUp size={20} className="text-indigo-600" />
+            Profitability
+          </h3>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div className="p-4 rounded-lg bg-emerald-50 border border-emerald-100">
+              <div className="text-sm text-emerald-800 mb-1">Net Sales (excl. GST)</div>
+              <div className="text-2xl font-bold text-emerald-700">{formatCurrency(Math.round(profit.revenue))}</div>
+            </div>
+            <div className="p-4 rounded-lg bg-amber-50 border border-amber-100">
+              <div className="text-sm text-amber-800 mb-1">Cost of Goods Sold</div>
+              <div className="text-2xl font-bold text-amber-700">{formatCurrency(Math.round(profit.cogs))}</div>
+            </div>
+            <div className="p-4 rounded-lg bg-indigo-50 border border-indigo-100">
+              <div className="text-sm text-indigo-800 mb-1">Gross Profit</div>
+              <div className="text-2xl font-bold text-indigo-700">{formatCurrency(Math.round(profit.grossProfit))}</div>
+              <div className="text-xs text-indigo-800/70 mt-1">{profit.grossMargin.toFixed(1)}% gross margin</div>
+            </div>
+            <div className="p-4 rounded-lg bg-slate-50 border border-slate-200">
+              <div className="text-sm text-slate-600 mb-1">Cash Flow (Sales − Purchases)</div>
+              <div className="text-2xl font-bold text-slate-700">{formatCurrency(profit.cashFlow)}</div>
+              <div className="text-xs text-slate-500 mt-1">Includes stock still on hand</div>
+            </div>
+          </div>
+        </div>
+        <table className="w-full text-left text-sm text-slate-600">
+          <thead className="bg-slate-50 text-slate-700 font-medium border-y border-slate-200">
+            <tr>
+              <th className="px-6 py-3">Product</th>
+              <th className="px-6 py-3 text-right">Qty Sold</th>
+              <th className="px-6 py-3 text-right">Revenue</th>
+              <th className="px-6 py-3 text-right">COGS</th>
+              <th className="px-6 py-3 text-right">Gross Profit</th>
+              <th className="px-6 py-3 text-right">Margin</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {profit.byProduct.length === 0 ? (
+              <tr>
+                <td colSpan={6} className="px-6 py-8 text-center text-slate-500">No sales yet.</td>
+              </tr>
+            ) : profit.byProduct.map(p => (
+              <tr key={p.key}>
+                <td className="px-6 py-3 font-medium text-slate-900">{p.name}</td>
+                <td className="px-6 py-3 text-right">{p.quantity}</td>
+                <td className="px-6 py-3 text-right">{formatCurrency(Math.round(p.revenue))}</td>
+                <td className="px-6 py-3 text-right">{formatCurrency(Math.round(p.cogs))}</td>
+                <td className={`px-6 py-3 text-right font-semibold ${p.grossProfit >= 0 ? 'text-slate-800' : 'text-rose-600'}`}>{formatCurrency(Math.round(p.grossProfit))}</td>
+                <td className="px-6 py-3 text-right">{p.margin.toFixed(1)}%</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* GST Summary */}
+      <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
+        <h3 className="text-lg font-semibold text-slate-800 mb-4 flex items-center gap-2">
+          <Landmark size={20} className="text-indigo-600" />
+          GST Summary
+        </h3>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="p-4 rounded-lg bg-emerald-50 border border-emerald-100">
+            <div className="text-sm text-emerald-800 mb-1">Tax Collected (Sales)</div>
+            <div className="text-2xl font-bold text-emerald-700">{formatCurrency(taxSummary.output.total)}</div>
+            <div className="text-xs text-emerald-800/70 mt-1">
+              CGST {formatCurrency(taxSummary.output.cgst)} · SGST {formatCurrency(taxSummary.output.sgst)} · IGST {formatCurrency(taxSummary.output.igst)}
+            </div>
+          </div>
+          <div className="p-4 rounded-lg bg-rose-50 border border-rose-100">
+            <div className="text-sm text-rose-800 mb-1">Tax Paid (Purchases)</div>
+            <div className="text-2xl font-bold text-rose-700">{formatCurrency(taxSummary.input.total)}</div>
+            <div className="text-xs text-rose-800/70 mt-1">
+              CGST {formatCurrency(taxSummary.input.cgst)} · SGST {formatCurrency(taxSummary.input.sgst)} · IGST {formatCurrency(taxSummary.input.igst)}
+            </div>
+          </div>
+          <div className="p-4 rounded-lg bg-indigo-50 border border-indigo-100">
+            <div className="text-sm text-indigo-800 mb-1">{taxSummary.netPayable >= 0 ? 'Net GST Payable' : 'Excess Input Credit'}</div>
+            <div className="text-2xl font-bold text-indigo-700">{formatCurrency(Math.abs(taxSummary.netPayable))}</div>
+          </div>
+        </div>
+      </div>
+
+      {/* Aging Report */}
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="p-6 flex flex-col md:flex-row md:items-center justify-between gap-4">
+          <h3 className="text-lg font-semibold text-slate-800 flex items-center gap-2">
+            <Clock size={20} className="text-indigo-600" />
+            {agingType === 'SALE' ? 'Receivables Aging' : 'Payables Aging'}
+          </h3>
+          <div className="flex rounded-lg border border-slate-200 overflow-hidden text-sm">
+            {(['SALE', 'PURCHASE'] as TransactionType[]).map(t => (
+              <button
+                key={t}
+                onClick={() => setAgingType(t)}
+                className={`px-4 py-2 transition-colors ${agingType === t ? 'bg-indigo-600 text-white' : 'bg-white text-slate-600 hover:bg-slate-50'}`}
+              >
+                {t === 'SALE' ? 'Receivables' : 'Payables'}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-sm text-slate-600">
+            <thead className="bg-slate-50 text-slate-700 font-medium border-y border-slate-200">
+              <tr>
+                <th className="px-6 py-3">{agingType === 'SALE' ? 'Customer' : 'Vendor'}</th>
+                {AGING_BUCKETS.map(b => <th key={b} className="px-6 py-3 text-right">{b} days</th>)}
+                <th className="px-6 py-3 text-right">Total</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {aging.rows.length === 0 ? (
+                <tr>
+                  <td colSpan={AGING_BUCKETS.length + 2} className="px-6 py-8 text-center text-slate-500">Nothing outstanding.</td>
+                </tr>
+              ) : aging.rows.map(row => (
+                <tr key={row.partyName}>
+                  <td className="px-6 py-3 text-slate-900">{row.partyName}</td>
+                  {AGING_BUCKETS.map(b => (
+                    <td key={b} className={`px-6 py-3 text-right ${b === '90+' && row.buckets[b] > 0 ? 'text-rose-600 font-medium' : ''}`}>
+                      {row.buckets[b] ? formatCurrency(row.buckets[b]) : '-'}
+                    </td>
+                  ))}
+                  <td className="px-6 py-3 text-right font-medium text-slate-900">{formatCurrency(row.total)}</td>
+                </tr>
+              ))}
+            </tbody>
+            {aging.rows.length > 0 && (
+              <tfoot className="bg-slate-50 font-semibold text-slate-800 border-t border-slate-200">
+                <tr>
+                  <td className="px-6 py-3">Total</td>
+                  {AGING_BUCKETS.map(b => <td key={b} className="px-6 py-3 text-right">{formatCurrency(aging.totals[b])}</td>)}
+                  <td className="px-6 py-3 text-right">{formatCurrency(aging.grandTotal)}</td>
+                </tr>
+              </tfoot>
+            )}
+          </table>
+        </div>
+      </div>
+
+      {/* GST Returns Export */}
+      <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-4">
+          <h3 className="text-lg font-semibold text-slate-800">GST Returns (GSTR-1 / GSTR-3B)</h3>
+          <div className="flex items-center gap-2">
+            <input
+              type="month"
+              value={returnPeriod}
+              onChange={e => { setReturnPeriod(e.target.value); setGstReturns(null); }}
+              className="px-3 py-2 bg-white border border-slate-300 rounded-lg text-sm focus:border-indigo-500 outline-none"
+            />
+            <button
+              onClick={handlePrepareReturns}
+              disabled={gstLoading || !returnPeriod}
+              className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors flex items-center gap-2 text-sm font-medium shadow-sm disabled:opacity-70"
+            >
+              {gstLoading ? <Loader2 className="animate-spin" size={16} /> : <CheckCircle2 size={16} />}
+              Validate & Prepare
+            </button>
+          </div>
+        </div>
+
+        {!gstReturns && !gstLoading && (
+          <p className="text-sm text-slate-500">
+            Pick a month to check sales and purchases for missing GSTIN / HSN details and build the JSON files for the GST offline tool.
+          </p>
+        )}
+
+        {gstReturns && (
+          <div className="space-y-4">
+            {gstReturns.issues.length === 0 ? (
+              <div className="p-3 rounded-lg bg-emerald-50 border border-emerald-100 text-sm text-emerald-800 flex items-center gap-2">
+                <CheckCircle2 size={16} /> No validation issues found for this period.
+              </div>
+            ) : (
+              <div className="rounded-lg border border-amber-200 overflow-hidden">
+                <div className="px-4 py-2 bg-amber-50 text-sm font-medium text-amber-800 flex items-center gap-2">
+                  <AlertTriangle size={16} /> {gstReturns.issues.length} document(s) need attention
+                </div>
+                <ul className="divide-y divide-amber-100 text-sm">
+                  {gstReturns.issues.map((issue, idx) => (
+                    <li key={issue.invoiceId || idx} className="px-4 py-2">
+                      <div className="font-medium text-slate-800">
+                        {issue.invoiceNumber} · {issue.partyName}
+                        <span className="ml-2 text-xs text-slate-500">({issue.returnType === 'GSTR1' ? 'blocks GSTR-1' : 'affects ITC in GSTR-3B'})</span>
+                      </div>
+                      <ul className="list-disc ml-5 text-slate-600">
+                        {issue.messages.map(m => <li key={m}>{m}</li>)}
+                      </ul>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+              <div className="p-3 rounded-lg bg-slate-50 border border-slate-200">
+                <div className="text-slate-500">Output Tax</div>
+                <div className="text-lg font-semibold text-slate-800">{formatCurrency(gstReturns.gstr3b.summary.outputTax)}</div>
+              </div>
+              <div className="p-3 rounded-lg bg-slate-50 border border-slate-200">
+                <div className="text-slate-500">Input Tax Credit</div>
+                <div className="text-lg font-semibold text-slate-800">{formatCurrency(gstReturns.gstr3b.summary.inputTaxCredit)}</div>
+              </div>
+              <div className="p-3 rounded-lg bg-slate-50 border border-slate-200">
+                <div className="text-slate-500">Net Tax Payable</div>
+                <div className="text-lg font-semibold text-slate-800">{formatCurrency(gstReturns.gstr3b.summary.netPayable)}</div>
+              </div>
+            </div>
+
+            <div className="flex flex-wrap gap-3">
+              <button
+                onClick={() => downloadJson(gstReturns.gstr1, `GSTR1_${returnFileSuffix}.json`)}
+                disabled={gstr1Issues.length > 0}
+                title={gstr1Issues.length > 0 ? 'Fix the GSTR-1 issues above first' : 'Download GSTR-1 JSON'}
+                className="px-4 py-2 border border-slate-300 rounded-lg text-slate-700 hover:bg-slate-50 text-sm font-medium flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Download size={16} /> GSTR-1 JSON
+              </button>
+              <button
+                onClick={() => downloadJson(gstReturns.gstr3b, `GSTR3B_${returnFileSuffix}.json`)}
+                title={gstr3bIssues.length > 0 ? 'Purchases with issues are left out of input tax credit' : 'Download GSTR-3B JSON'}
+                className="px-4 py-2 border border-slate-300 rounded-lg text-slate-700 hover:bg-slate-50 text-sm font-medium flex items-center gap-2"
+              >
+                <Download size={16} /> GSTR-3B JSON
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+
       {/* Chart Section */}
       <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200 h-80">
         <h3 className="text-lg font-semibold text-slate-800 mb-4">Monthly Financial Overview</h3>
@@ -124,6 +434,7 @@ export const Reports: React.FC<ReportsProps> = ({ transactions = [], inventory =
               <Legend />
               <Bar dataKey="sales" name="Sales (Revenue)" radius={[4, 4, 0, 0]} fill="#10b981" />
               <Bar dataKey="expenses" name="Purchases (Expenses)" radius={[4, 4, 0, 0]} fill="#ef4444" />
+              <Bar dataKey="grossProfit" name="Gross Profit" radius={[4, 4, 0, 0]} fill="#6366f1" />
             </BarChart>
           </ResponsiveContainer>
         ) : (
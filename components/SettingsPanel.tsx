@@ -0,0 +1,519 @@
+import React, { useEffect, useState } from 'react';
+import { Business, BusinessSettings, CostingMethod, Location, NegativeStockPolicy, NumberedType, NumberSeries, User, UserRole } from '../types';
+import { COSTING_METHODS, NEGATIVE_STOCK_POLICIES } from '../services/inventory';
+import { BusinessProfileForm } from './BusinessProfileForm';
+import { InvoiceTemplateForm } from './InvoiceTemplateForm';
+import { EmailSettingsForm } from './EmailSettingsForm';
+import { DOCUMENT_LABELS, formatDocumentNumber, getFinancialYear } from '../services/documents';
+import { Settings, Loader2, Save, Plus, Trash2, Pencil, KeyRound } from 'lucide-react';
+
+const NUMBERED_TYPES: NumberedType[] = ['SALE', 'QUOTATION', 'PURCHASE_ORDER', 'CREDIT_NOTE', 'DEBIT_NOTE'];
+
+const ROLES: { value: UserRole; label: string; description: string }[] = [
+  { value: 'OWNER', label: 'Owner', description: 'Everything, including settings and users' },
+  { value: 'ACCOUNTANT', label: 'Accountant', description: 'Purchases, costs and margins; can edit posted documents and delete' },
+  { value: 'CASHIER', label: 'Cashier', description: 'Bills, payments and stock; no costs, no deleting, no changes once posted' },
+];
+
+const emptyUser = (businessId: string): User => ({ id: '', name: '', username: '', role: 'CASHIER', password: '', businessIds: [businessId] });
+
+interface SettingsPanelProps {
+  settings: BusinessSettings;
+  onSave: (changes: Partial<BusinessSettings>) => Promise<void>;
+  locations: Location[];
+  onSaveLocation: (location: Location) => Promise<void>;
+  onDeleteLocation: (id: string) => Promise<void>;
+  users: User[];
+  currentUserId: string;
+  onSaveUser: (user: User) => Promise<void>;
+  onDeleteUser: (id: string) => Promise<void>;
+  businesses: Business[];
+  currentBusinessId: string;
+  onSaveBusiness: (business: Business) => Promise<void>;
+}
+
+export const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, onSave, locations, onSaveLocation, onDeleteLocation, users, currentUserId, onSaveUser, onDeleteUser, businesses, currentBusinessId, onSaveBusiness }) => {
+  const [isSaving, setIsSaving] = useState(false);
+  const [numberSeries, setNumberSeries] = useState(settings.numberSeries);
+
+  useEffect(() => setNumberSeries(settings.numberSeries), [settings.numberSeries]);
+
+  const save = async (changes: Partial<BusinessSettings>) => {
+    setIsSaving(true);
+    try {
+      await onSave(changes);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to save settings.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const changeCostingMethod = async (costingMethod: CostingMethod) => {
+    if (costingMethod === settings.costingMethod) return;
+    if (!confirm('Change the costing method? It applies to postings from now on; stock already on hand is carried over at its current cost.')) return;
+    await save({ costingMethod });
+  };
+
+  const changeNegativeStockPolicy = (negativeStockPolicy: NegativeStockPolicy) => {
+    if (negativeStockPolicy !== settings.negativeStockPolicy) save({ negativeStockPolicy });
+  };
+
+  const updateSeries = (type: NumberedType, changes: Partial<NumberSeries>) => {
+    setNumberSeries(prev => ({ ...prev, [type]: { ...prev[type], ...changes } }));
+  };
+
+  const saveNumberSeries = (e: React.FormEvent) => {
+    e.preventDefault();
+    save({ numberSeries });
+  };
+
+  const currentYear = getFinancialYear(new Date());
+
+  const [newLocationName, setNewLocationName] = useState('');
+
+  // Location changes go straight to the server; errors (duplicate name, stock still there) are shown as they come
+  const changeLocation = async (action: () => Promise<void>) => {
+    setIsSaving(true);
+    try {
+      await action();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to update location.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const addLocation = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newLocationName.trim()) return;
+    changeLocation(async () => {
+      await onSaveLocation({ id: Date.now().toString(), name: newLocationName.trim() });
+      setNewLocationName('');
+    });
+  };
+
+  const renameLocation = (location: Location) => {
+    const name = prompt('Location name', location.name);
+    if (name && name.trim() && name.trim() !== location.name) {
+      changeLocation(() => onSaveLocation({ ...location, name: name.trim() }));
+    }
+  };
+
+  const [newBusinessName, setNewBusinessName] = useState('');
+
+  const changeBusiness = async (action: () => Promise<void>) => {
+    setIsSaving(true);
+    try {
+      await action();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to update business.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const addBusiness = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newBusinessName.trim()) return;
+    changeBusiness(async () => {
+      await onSaveBusiness({ id: Date.now().toString(), name: newBusinessName.trim() });
+      setNewBusinessName('');
+    });
+  };
+
+  const renameBusiness = (business: Business) => {
+    const name = prompt('Business name', business.name);
+    if (name && name.trim() && name.trim() !== business.name) {
+      changeBusiness(() => onSaveBusiness({ ...business, name: name.trim() }));
+    }
+  };
+
+  const [newUser, setNewUser] = useState<User>(() => emptyUser(currentBusinessId));
+
+  // Owners work in every business; everyone else only in the ones ticked
+  const toggleAccess = (businessIds: string[] = [], id: string) =>
+    businessIds.includes(id) ? businessIds.filter(b => b !== id) : [...businessIds, id];
+
+  const changeRole = (user: User, role: UserRole) => onSaveUser({
+    ...user,
+    role,
+    businessIds: user.businessIds?.length ? user.businessIds : [currentBusinessId],
+  });
+
+  const changeUser = async (action: () => Promise<void>) => {
+    setIsSaving(true);
+    try {
+      await action();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to update user.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const addUser = (e: React.FormEvent) => {
+    e.preventDefault();
+    changeUser(async () => {
+      await onSaveUser({ ...newUser, id: Date.now().toString(), active: true });
+      setNewUser(emptyUser(currentBusinessId));
+    });
+  };
+
+  // Signs the user out everywhere; they sign in again with the new password
+  const resetPassword = (user: User) => {
+    const password = prompt(`New password for ${user.name} (at least 8 characters)`);
+    if (password) changeUser(() => onSaveUser({ ...user, password }));
+  };
+
+  return (
+    <div className="max-w-3xl mx-auto space-y-6 animate-fade-in">
+      <h2 className="text-2xl font-bold text-slate-800 flex items-center gap-2">
+        <Settings className="text-indigo-600" />
+        Settings
+      </h2>
+
+      <BusinessProfileForm settings={settings} onSave={onSave} />
+
+      <InvoiceTemplateForm
+        settings={settings}
+        businessName={businesses.find(b => b.id === currentBusinessId)?.name || ''}
+        onSave={onSave}
+      />
+
+      <EmailSettingsForm settings={settings} onSave={onSave} />
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="p-6 border-b border-slate-200 bg-slate-50/50 flex justify-between items-center">
+          <div>
+            <h3 className="text-lg font-semibold text-slate-800">Inventory Costing</h3>
+            <p className="text-sm text-slate-500">How stock is valued and how cost of goods sold is worked out for each sale.</p>
+          </div>
+          {isSaving && <Loader2 className="animate-spin text-indigo-600" size={20} />}
+        </div>
+        <div className="p-6 space-y-3">
+          {COSTING_METHODS.map(m => (
+            <label key={m.value} className="flex items-start gap-3 cursor-pointer">
+              <input
+                type="radio"
+                name="costingMethod"
+                checked={settings.costingMethod === m.value}
+                disabled={isSaving}
+                onChange={() => changeCostingMethod(m.value)}
+                className="mt-1 accent-indigo-600"
+              />
+              <div>
+                <div className="font-medium text-slate-800">{m.label}</div>
+                <div className="text-xs text-slate-500">
+                  {m.value === 'FIFO'
+                    ? 'Each purchase is a cost layer; sales use up the oldest layers first.'
+                    : 'Every purchase re-averages the cost of all units on hand.'}
+                </div>
+              </div>
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="p-6 border-b border-slate-200 bg-slate-50/50">
+          <h3 className="text-lg font-semibold text-slate-800">Selling Beyond Stock</h3>
+          <p className="text-sm text-slate-500">What happens when a bill asks for more of an item than is on hand.</p>
+        </div>
+        <div className="p-6 space-y-3">
+          {NEGATIVE_STOCK_POLICIES.map(p => (
+            <label key={p.value} className="flex items-start gap-3 cursor-pointer">
+              <input
+                type="radio"
+                name="negativeStockPolicy"
+                checked={settings.negativeStockPolicy === p.value}
+                disabled={isSaving}
+                onChange={() => changeNegativeStockPolicy(p.value)}
+                className="mt-1 accent-indigo-600"
+              />
+              <div>
+                <div className="font-medium text-slate-800">{p.label}</div>
+                <div className="text-xs text-slate-500">{p.description}</div>
+              </div>
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="p-6 border-b border-slate-200 bg-slate-50/50">
+          <h3 className="text-lg font-semibold text-slate-800">Stock Locations</h3>
+          <p className="text-sm text-slate-500">Shops, godowns and other places stock is kept. New bills and purchases start at the default location.</p>
+        </div>
+        <div className="divide-y divide-slate-100">
+          {locations.map(location => (
+            <div key={location.id} className="px-6 py-3 flex items-center gap-3">
+              <div className="flex-1 font-medium text-slate-800">
+                {location.name}
+                {location.isDefault && <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-medium bg-indigo-100 text-indigo-700">Default</span>}
+              </div>
+              {!location.isDefault && (
+                <button
+                  onClick={() => changeLocation(() => onSaveLocation({ ...location, isDefault: true }))}
+                  disabled={isSaving}
+                  className="text-xs text-indigo-600 hover:text-indigo-800 font-medium"
+                >
+                  Make default
+                </button>
+              )}
+              <button onClick={() => renameLocation(location)} disabled={isSaving} className="text-slate-400 hover:text-indigo-600" title="Rename">
+                <Pencil size={16} />
+              </button>
+              {!location.isDefault && (
+                <button
+                  onClick={() => confirm(`Delete ${location.name}?`) && changeLocation(() => onDeleteLocation(location.id))}
+                  disabled={isSaving}
+                  className="text-slate-400 hover:text-rose-600"
+                  title="Delete"
+                >
+                  <Trash2 size={16} />
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+        <form onSubmit={addLocation} className="p-6 pt-3 flex gap-3">
+          <input
+            type="text"
+            value={newLocationName}
+            onChange={e => setNewLocationName(e.target.value)}
+            placeholder="New location, e.g. Godown"
+            disabled={isSaving}
+            className="flex-1 px-3 py-2 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+          />
+          <button
+            type="submit"
+            disabled={isSaving || !newLocationName.trim()}
+            className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 flex items-center gap-2 text-sm font-medium disabled:opacity-50"
+          >
+            <Plus size={16} /> Add
+          </button>
+        </form>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="p-6 border-b border-slate-200 bg-slate-50/50">
+          <h3 className="text-lg font-semibold text-slate-800">Businesses</h3>
+          <p className="text-sm text-slate-500">Firms whose books are kept here. Each has its own documents, stock, parties and settings; switch between them from the header.</p>
+        </div>
+        <div className="divide-y divide-slate-100">
+          {businesses.map(business => (
+            <div key={business.id} className="px-6 py-3 flex items-center gap-3">
+              <div className="flex-1 font-medium text-slate-800">
+                {business.name}
+                {business.id === currentBusinessId && <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-medium bg-indigo-100 text-indigo-700">Current</span>}
+              </div>
+              <button onClick={() => renameBusiness(business)} disabled={isSaving} className="text-slate-400 hover:text-indigo-600" title="Rename">
+                <Pencil size={16} />
+              </button>
+            </div>
+          ))}
+        </div>
+        <form onSubmit={addBusiness} className="p-6 pt-3 flex gap-3">
+          <input
+            type="text"
+            value={newBusinessName}
+            onChange={e => setNewBusinessName(e.target.value)}
+            placeholder="New business name"
+            disabled={isSaving}
+            className="flex-1 px-3 py-2 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+          />
+          <button
+            type="submit"
+            disabled={isSaving || !newBusinessName.trim()}
+            className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 flex items-center gap-2 text-sm font-medium disabled:opacity-50"
+          >
+            <Plus size={16} /> Add
+          </button>
+        </form>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="p-6 border-b border-slate-200 bg-slate-50/50">
+          <h3 className="text-lg font-semibold text-slate-800">Users</h3>
+          <p className="text-sm text-slate-500">Who can sign in and what their role lets them do.</p>
+        </div>
+        <div className="divide-y divide-slate-100">
+          {users.map(user => (
+            <div key={user.id} className={`px-6 py-3 flex items-center gap-3 ${user.active === false ? 'opacity-60' : ''}`}>
+              <div className="flex-1">
+                <div className="font-medium text-slate-800">
+                  {user.name}
+                  {user.id === currentUserId && <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-medium bg-indigo-100 text-indigo-700">You</span>}
+                  {user.active === false && <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-medium bg-slate-200 text-slate-600">Inactive</span>}
+                </div>
+                <div className="text-xs text-slate-500">{user.username}</div>
+                {user.role !== 'OWNER' && businesses.length > 1 && (
+                  <div className="flex flex-wrap gap-3 mt-1">
+                    {businesses.map(business => (
+                      <label key={business.id} className="flex items-center gap-1 text-xs text-slate-600">
+                        <input
+                          type="checkbox"
+                          checked={!!user.businessIds?.includes(business.id)}
+                          disabled={isSaving}
+                          onChange={() => changeUser(() => onSaveUser({ ...user, businessIds: toggleAccess(user.businessIds, business.id) }))}
+                          className="accent-indigo-600"
+                        />
+                        {business.name}
+                      </label>
+                    ))}
+                  </div>
+                )}
+              </div>
+              <select
+                value={user.role}
+                onChange={e => changeUser(() => changeRole(user, e.target.value as UserRole))}
+                disabled={isSaving}
+                className="px-2 py-1 border border-slate-300 rounded-md text-sm bg-white focus:ring-2 focus:ring-indigo-500 outline-none"
+              >
+                {ROLES.map(r => <option key={r.value} value={r.value}>{r.label}</option>)}
+              </select>
+              {user.id !== currentUserId && (
+                <button
+                  onClick={() => changeUser(() => onSaveUser({ ...user, active: user.active === false }))}
+                  disabled={isSaving}
+                  className="text-xs text-indigo-600 hover:text-indigo-800 font-medium"
+                >
+                  {user.active === false ? 'Reactivate' : 'Deactivate'}
+                </button>
+              )}
+              <button onClick={() => resetPassword(user)} disabled={isSaving} className="text-slate-400 hover:text-indigo-600" title="Set password">
+                <KeyRound size={16} />
+              </button>
+              {user.id !== currentUserId && (
+                <button
+                  onClick={() => confirm(`Delete ${user.name}? They can no longer sign in.`) && changeUser(() => onDeleteUser(user.id))}
+                  disabled={isSaving}
+                  className="text-slate-400 hover:text-rose-600"
+                  title="Delete"
+                >
+                  <Trash2 size={16} />
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+        <form onSubmit={addUser} className="p-6 pt-3 space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+            <input
+              required
+              type="text"
+              value={newUser.name}
+              onChange={e => setNewUser(prev => ({ ...prev, name: e.target.value }))}
+              placeholder="Name"
+              disabled={isSaving}
+              className="px-3 py-2 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+            />
+            <input
+              required
+              type="text"
+              value={newUser.username}
+              onChange={e => setNewUser(prev => ({ ...prev, username: e.target.value }))}
+              placeholder="Username"
+              autoComplete="off"
+              disabled={isSaving}
+              className="px-3 py-2 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+            />
+            <input
+              required
+              type="password"
+              minLength={8}
+              value={newUser.password}
+              onChange={e => setNewUser(prev => ({ ...prev, password: e.target.value }))}
+              placeholder="Password"
+              autoComplete="new-password"
+              disabled={isSaving}
+              className="px-3 py-2 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+            />
+            <select
+              value={newUser.role}
+              onChange={e => setNewUser(prev => ({ ...prev, role: e.target.value as UserRole }))}
+              disabled={isSaving}
+              className="px-3 py-2 border border-slate-300 rounded-lg text-sm bg-white focus:ring-2 focus:ring-indigo-500 outline-none"
+            >
+              {ROLES.map(r => <option key={r.value} value={r.value}>{r.label}</option>)}
+            </select>
+          </div>
+          {newUser.role !== 'OWNER' && businesses.length > 1 && (
+            <div className="flex flex-wrap gap-3">
+              <span className="text-xs font-medium text-slate-600">Works in:</span>
+              {businesses.map(business => (
+                <label key={business.id} className="flex items-center gap-1 text-xs text-slate-600">
+                  <input
+                    type="checkbox"
+                    checked={!!newUser.businessIds?.includes(business.id)}
+                    disabled={isSaving}
+                    onChange={() => setNewUser(prev => ({ ...prev, businessIds: toggleAccess(prev.businessIds, business.id) }))}
+                    className="accent-indigo-600"
+                  />
+                  {business.name}
+                </label>
+              ))}
+            </div>
+          )}
+          <div className="flex items-center justify-between gap-3">
+            <p className="text-xs text-slate-500">{ROLES.find(r => r.value === newUser.role)?.description}</p>
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 flex items-center gap-2 text-sm font-medium disabled:opacity-50"
+            >
+              <Plus size={16} /> Add User
+            </button>
+          </div>
+        </form>
+      </div>
+
+      <form onSubmit={saveNumberSeries} className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="p-6 border-b border-slate-200 bg-slate-50/50">
+          <h3 className="text-lg font-semibold text-slate-800">Document Numbering</h3>
+          <p className="text-sm text-slate-500">
+            Numbers are given out when a document is saved and start again from 1 every April. Use {'{FY}'} in the prefix for the financial year. Purchase invoices keep the vendor's own number.
+          </p>
+        </div>
+        <div className="p-6 space-y-3">
+          {NUMBERED_TYPES.map(type => (
+            <div key={type} className="grid grid-cols-12 gap-3 items-center">
+              <div className="col-span-3 text-sm font-medium text-slate-700">{DOCUMENT_LABELS[type].name}</div>
+              <input
+                type="text"
+                value={numberSeries[type].prefix}
+                onChange={e => updateSeries(type, { prefix: e.target.value })}
+                disabled={isSaving}
+                className="col-span-4 px-3 py-2 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+                aria-label={`${DOCUMENT_LABELS[type].name} prefix`}
+              />
+              <input
+                type="number"
+                min="1"
+                max="8"
+                value={numberSeries[type].padding}
+                onChange={e => updateSeries(type, { padding: parseInt(e.target.value) || 1 })}
+                disabled={isSaving}
+                className="col-span-2 px-3 py-2 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+                aria-label={`${DOCUMENT_LABELS[type].name} digits`}
+              />
+              <div className="col-span-3 text-sm font-mono text-slate-500 truncate">
+                {formatDocumentNumber(numberSeries[type], currentYear, 1)}
+              </div>
+            </div>
+          ))}
+          <div className="flex justify-end pt-2">
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 flex items-center gap-2 text-sm font-medium disabled:opacity-50"
+            >
+              <Save size={16} /> Save Numbering
+            </button>
+          </div>
+        </div>
+      </form>
+    </div>
+  );
+};
@@ -0,0 +1,351 @@
+import React, { useState, useMemo } from 'react';
+import { InventoryItem, Location, Product, Stocktake, StocktakeLine } from '../types';
+import { ClipboardCheck, ArrowLeft, Loader2, Save, CheckCircle2, Trash2, Search } from 'lucide-react';
+
+interface StockCountProps {
+  stocktakes: Stocktake[];
+  locations: Location[];
+  products: Product[];
+  inventory: InventoryItem[];
+  onStart: (stocktake: { id: string; date: string; locationId?: string; category?: string }) => Promise<Stocktake>;
+  onSaveCounts: (stocktake: Stocktake) => Promise<void>;
+  onPost: (id: string) => Promise<void>;
+  onDelete?: (id: string) => Promise<void>; // Left out for roles that can't delete
+  showCosts: boolean; // Values are left out for roles without cost access
+}
+
+const lineKey = (line: StocktakeLine) => `${line.productId}@${line.locationId}`;
+
+const formatMoney = (value: number) => `₹${value.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+// Start a count, enter what is on the shelves, review the difference against the
+// books and post it as adjustments. Lines left blank aren't adjusted.
+export const StockCount: React.FC<StockCountProps> = ({ stocktakes, locations, products, inventory, onStart, onSaveCounts, onPost, onDelete, showCosts }) => {
+  const [openId, setOpenId] = useState<string | null>(null);
+  const [counts, setCounts] = useState<Record<string, string>>({});
+  const [isBusy, setIsBusy] = useState(false);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [startLocationId, setStartLocationId] = useState('');
+  const [startCategory, setStartCategory] = useState('');
+  const [startDate, setStartDate] = useState(new Date().toISOString().split('T')[0]);
+
+  const categories = useMemo(
+    () => [...new Set(products.map(p => p.category).filter((c): c is string => !!c))].sort(),
+    [products]
+  );
+  const locationName = (id?: string) => id ? locations.find(l => l.id === id)?.name || id : 'All locations';
+  const open = stocktakes.find(s => s.id === openId);
+  const isPosted = open?.status === 'Posted';
+
+  // Posted lines carry their cost; lines still being counted use today's average cost
+  const unitCostOf = (line: StocktakeLine) =>
+    line.unitCost ?? inventory.find(i => i.id === line.productId)?.averageCost ?? 0;
+
+  const countedOf = (line: StocktakeLine): number | null => {
+    if (isPosted) return line.countedQuantity ?? null;
+    const value = counts[lineKey(line)];
+    return value === undefined || value === '' ? null : parseFloat(value);
+  };
+
+  const summarize = (stocktake: Stocktake, counted: (line: StocktakeLine) => number | null) => {
+    let countedLines = 0, surplus = 0, shortfall = 0;
+    for (const line of stocktake.lines) {
+      const qty = counted(line);
+      if (qty === null || isNaN(qty)) continue;
+      countedLines++;
+      const value = (qty - line.systemQuantity) * unitCostOf(line);
+      if (value > 0) surplus += value; else shortfall -= value;
+    }
+    return { countedLines, surplus, shortfall };
+  };
+
+  const openCount = (stocktake: Stocktake) => {
+    setCounts(Object.fromEntries(stocktake.lines
+      .filter(l => l.countedQuantity != null)
+      .map(l => [lineKey(l), String(l.countedQuantity)])));
+    setSearchTerm('');
+    setOpenId(stocktake.id);
+  };
+
+  const run = async (action: () => Promise<void>, failure: string) => {
+    setIsBusy(true);
+    try {
+      await action();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : failure);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleStart = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      const started = await onStart({
+        id: Date.now().toString(),
+        date: startDate,
+        locationId: startLocationId || undefined,
+        category: startCategory || undefined,
+      });
+      openCount(started);
+    }, 'Failed to start the count.');
+  };
+
+  const withCounts = (stocktake: Stocktake): Stocktake => ({
+    ...stocktake,
+    lines: stocktake.lines.map(line => ({ ...line, countedQuantity: countedOf(line) })),
+  });
+
+  const handleSave = () => {
+    if (!open) return;
+    run(() => onSaveCounts(withCounts(open)), 'Failed to save counts.');
+  };
+
+  const handlePost = () => {
+    if (!open) return;
+    const { countedLines, surplus, shortfall } = summarize(open, countedOf);
+    if (countedLines === 0) {
+      alert('Enter at least one counted quantity first.');
+      return;
+    }
+    const values = showCosts ? ` Surplus ${formatMoney(surplus)}, shortfall ${formatMoney(shortfall)}.` : '';
+    if (!confirm(`Post ${countedLines} counted line(s)?${values} Stock is adjusted and the count can no longer change.`)) return;
+    run(async () => {
+      await onSaveCounts(withCounts(open));
+      await onPost(open.id);
+    }, 'Failed to post the count.');
+  };
+
+  const handleDelete = () => {
+    if (!open || !onDelete || !confirm(`Discard ${open.stocktakeNumber}? Counts entered so far are lost.`)) return;
+    run(async () => {
+      await onDelete(open.id);
+      setOpenId(null);
+    }, 'Failed to discard the count.');
+  };
+
+  if (open) {
+    const term = searchTerm.toLowerCase();
+    const lines = open.lines.filter(l => !term || l.name.toLowerCase().includes(term) || (l.sku || '').toLowerCase().includes(term));
+    const { countedLines, surplus, shortfall } = summarize(open, countedOf);
+
+    return (
+      <div className="space-y-6 animate-fade-in">
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+          <div className="flex items-center gap-3">
+            <button onClick={() => setOpenId(null)} className="p-2 hover:bg-slate-200 rounded-full transition-colors">
+              <ArrowLeft size={20} className="text-slate-600" />
+            </button>
+            <div>
+              <h2 className="text-2xl font-bold text-slate-800">{open.stocktakeNumber}</h2>
+              <p className="text-sm text-slate-500">
+                {new Date(open.date).toLocaleDateString()} · {locationName(open.locationId)} · {open.category || 'All categories'} · {open.status}
+              </p>
+            </div>
+          </div>
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" size={18} />
+            <input
+              type="text"
+              value={searchTerm}
+              onChange={e => setSearchTerm(e.target.value)}
+              placeholder="Find item or SKU..."
+              className="pl-10 pr-4 py-2 border border-slate-200 rounded-full text-sm focus:outline-none focus:border-indigo-500 w-full md:w-64 bg-white shadow-sm"
+            />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="bg-white p-4 rounded-xl border border-slate-200 shadow-sm">
+            <div className="text-sm text-slate-500 mb-1">Counted</div>
+            <div className="text-2xl font-bold text-slate-800">{countedLines} / {open.lines.length}</div>
+          </div>
+          {showCosts && (<>
+            <div className="bg-white p-4 rounded-xl border border-slate-200 shadow-sm">
+              <div className="text-sm text-slate-500 mb-1">Surplus Value</div>
+              <div className="text-2xl font-bold text-emerald-600">{formatMoney(surplus)}</div>
+            </div>
+            <div className="bg-white p-4 rounded-xl border border-slate-200 shadow-sm">
+              <div className="text-sm text-slate-500 mb-1">Shortfall Value</div>
+              <div className="text-2xl font-bold text-rose-600">{formatMoney(shortfall)}</div>
+            </div>
+          </>)}
+        </div>
+
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="w-full text-left text-sm text-slate-600">
+              <thead className="bg-slate-50 text-slate-700 font-medium border-b border-slate-200">
+                <tr>
+                  <th className="px-6 py-4">Item</th>
+                  {!open.locationId && <th className="px-6 py-4">Location</th>}
+                  <th className="px-6 py-4 text-right">Books</th>
+                  <th className="px-6 py-4">Counted</th>
+                  <th className="px-6 py-4 text-right">Variance</th>
+                  {showCosts && <th className="px-6 py-4 text-right">Value</th>}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {lines.map(line => {
+                  const counted = countedOf(line);
+                  const variance = counted === null || isNaN(counted) ? null : counted - line.systemQuantity;
+                  return (
+                    <tr key={lineKey(line)} className={variance ? (variance > 0 ? 'bg-emerald-50/50' : 'bg-rose-50/50') : ''}>
+                      <td className="px-6 py-3 font-medium text-slate-900">
+                        {line.name}
+                        {line.sku && <div className="text-xs font-mono font-normal text-slate-400">{line.sku}</div>}
+                      </td>
+                      {!open.locationId && <td className="px-6 py-3">{locationName(line.locationId)}</td>}
+                      <td className="px-6 py-3 text-right">{line.systemQuantity}</td>
+                      <td className="px-6 py-3">
+                        <input
+                          type="number"
+                          min="0"
+                          value={isPosted ? (line.countedQuantity ?? '') : (counts[lineKey(line)] ?? '')}
+                          disabled={isPosted || isBusy}
+                          onChange={e => setCounts(prev => ({ ...prev, [lineKey(line)]: e.target.value }))}
+                          placeholder="Not counted"
+                          className="w-28 px-3 py-1.5 bg-white border border-slate-300 rounded-md text-sm focus:border-indigo-500 outline-none disabled:bg-slate-50"
+                        />
+                      </td>
+                      <td className={`px-6 py-3 text-right font-semibold ${variance ? (variance > 0 ? 'text-emerald-600' : 'text-rose-600') : 'text-slate-400'}`}>
+                        {variance === null ? '-' : variance > 0 ? `+${variance}` : variance}
+                      </td>
+                      {showCosts && (
+                        <td className="px-6 py-3 text-right">
+                          {variance ? formatMoney(variance * unitCostOf(line)) : '-'}
+                        </td>
+                      )}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        {!isPosted && (
+          <div className="flex justify-end gap-3">
+            {onDelete && (
+              <button
+                onClick={handleDelete}
+                disabled={isBusy}
+                className="px-4 py-2 text-rose-600 hover:bg-rose-50 rounded-lg flex items-center gap-2 text-sm font-medium mr-auto"
+              >
+                <Trash2 size={16} /> Discard
+              </button>
+            )}
+            <button
+              onClick={handleSave}
+              disabled={isBusy}
+              className="px-4 py-2 bg-white border border-slate-300 text-slate-700 rounded-lg hover:bg-slate-50 flex items-center gap-2 text-sm font-medium disabled:opacity-50"
+            >
+              <Save size={16} /> Save Counts
+            </button>
+            <button
+              onClick={handlePost}
+              disabled={isBusy}
+              className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 flex items-center gap-2 text-sm font-medium disabled:opacity-50"
+            >
+              {isBusy ? <Loader2 className="animate-spin" size={16} /> : <CheckCircle2 size={16} />} Post Adjustments
+            </button>
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <h2 className="text-2xl font-bold text-slate-800 flex items-center gap-2">
+        <ClipboardCheck className="text-indigo-600" />
+        Stock Count
+      </h2>
+
+      <form onSubmit={handleStart} className="bg-white rounded-xl shadow-sm border border-slate-200 p-6 grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+        <div className="space-y-1">
+          <label className="block text-sm font-medium text-slate-700">Location</label>
+          <select
+            value={startLocationId}
+            onChange={e => setStartLocationId(e.target.value)}
+            className="w-full px-3 py-2 bg-white border border-slate-300 rounded-lg text-sm focus:border-indigo-500 outline-none"
+          >
+            <option value="">All locations</option>
+            {locations.map(l => <option key={l.id} value={l.id}>{l.name}</option>)}
+          </select>
+        </div>
+        <div className="space-y-1">
+          <label className="block text-sm font-medium text-slate-700">Category</label>
+          <select
+            value={startCategory}
+            onChange={e => setStartCategory(e.target.value)}
+            className="w-full px-3 py-2 bg-white border border-slate-300 rounded-lg text-sm focus:border-indigo-500 outline-none"
+          >
+            <option value="">All categories</option>
+            {categories.map(c => <option key={c} value={c}>{c}</option>)}
+          </select>
+        </div>
+        <div className="space-y-1">
+          <label className="block text-sm font-medium text-slate-700">Count Date</label>
+          <input
+            required
+            type="date"
+            value={startDate}
+            onChange={e => setStartDate(e.target.value)}
+            className="w-full px-3 py-2 bg-white border border-slate-300 rounded-lg text-sm focus:border-indigo-500 outline-none"
+          />
+        </div>
+        <button
+          type="submit"
+          disabled={isBusy}
+          className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 flex items-center justify-center gap-2 text-sm font-medium disabled:opacity-50"
+        >
+          {isBusy ? <Loader2 className="animate-spin" size={16} /> : <ClipboardCheck size={16} />} Start Count
+        </button>
+      </form>
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-sm text-slate-600">
+            <thead className="bg-slate-50 text-slate-700 font-medium border-b border-slate-200">
+              <tr>
+                <th className="px-6 py-4">Date</th>
+                <th className="px-6 py-4">Count No.</th>
+                <th className="px-6 py-4">Location</th>
+                <th className="px-6 py-4">Category</th>
+                <th className="px-6 py-4">Counted</th>
+                {showCosts && <th className="px-6 py-4 text-right">Net Variance</th>}
+                <th className="px-6 py-4 text-right">Status</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {stocktakes.length === 0 ? (
+                <tr>
+                  <td colSpan={showCosts ? 7 : 6} className="px-6 py-12 text-center text-slate-500">No stock counts yet.</td>
+                </tr>
+              ) : stocktakes.map(s => {
+                const { countedLines, surplus, shortfall } = summarize(s, line => line.countedQuantity ?? null);
+                const net = surplus - shortfall;
+                return (
+                  <tr key={s.id} onClick={() => openCount(s)} className="hover:bg-slate-50 transition-colors cursor-pointer">
+                    <td className="px-6 py-4">{new Date(s.date).toLocaleDateString()}</td>
+                    <td className="px-6 py-4 font-medium text-slate-900">{s.stocktakeNumber}</td>
+                    <td className="px-6 py-4">{locationName(s.locationId)}</td>
+                    <td className="px-6 py-4">{s.category || 'All'}</td>
+                    <td className="px-6 py-4">{countedLines} / {s.lines.length}</td>
+                    {showCosts && <td className={`px-6 py-4 text-right font-medium ${net > 0 ? 'text-emerald-600' : net < 0 ? 'text-rose-600' : ''}`}>{formatMoney(net)}</td>}
+                    <td className="px-6 py-4 text-right">
+                      <span className={`px-2 py-1 rounded-full text-xs font-medium ${s.status === 'Posted' ? 'bg-emerald-100 text-emerald-700' : 'bg-amber-100 text-amber-700'}`}>
+                        {s.status}
+                      </span>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
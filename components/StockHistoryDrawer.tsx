@@ -0,0 +1,112 @@
+import React, { useEffect, useState } from 'react';
+import { InventoryItem, Location, StockMovement } from '../types';
+import { MongoService } from '../services/mongo';
+import { History, X, Loader2, ExternalLink } from 'lucide-react';
+
+interface StockHistoryDrawerProps {
+  item: InventoryItem;
+  locations: Location[];
+  showCosts: boolean;
+  onClose: () => void;
+  onOpenTransaction: (id: string) => void;
+}
+
+const TYPE_STYLES: Record<string, string> = {
+  PURCHASE: 'bg-emerald-100 text-emerald-700',
+  SALE: 'bg-indigo-100 text-indigo-700',
+  RETURN: 'bg-amber-100 text-amber-700',
+  ADJUSTMENT: 'bg-slate-100 text-slate-700',
+  TRANSFER: 'bg-sky-100 text-sky-700',
+};
+
+// Side panel answering "how did this item get to its current quantity?"
+export const StockHistoryDrawer: React.FC<StockHistoryDrawerProps> = ({ item, locations, showCosts, onClose, onOpenTransaction }) => {
+  const [movements, setMovements] = useState<StockMovement[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    setIsLoading(true);
+    MongoService.getStockMovements(item.id)
+      .then(setMovements)
+      .finally(() => setIsLoading(false));
+  }, [item.id]);
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end bg-black/40 print:hidden animate-fade-in" onClick={onClose}>
+      <div className="bg-white w-full max-w-3xl h-full shadow-2xl flex flex-col" onClick={e => e.stopPropagation()}>
+        <div className="p-4 border-b border-slate-200 flex justify-between items-center bg-slate-50">
+          <div>
+            <h3 className="font-bold text-lg text-slate-800 flex items-center gap-2">
+              <History size={20} className="text-indigo-600" />
+              Stock History
+            </h3>
+            <div className="text-sm text-slate-500">
+              {item.name}{item.sku ? ` · ${item.sku}` : ''} · On hand: <span className="font-semibold text-slate-700">{item.quantity}</span>
+            </div>
+          </div>
+          <button onClick={onClose} className="text-slate-500 hover:bg-slate-200 p-2 rounded-full transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto">
+          {isLoading ? (
+            <div className="flex items-center justify-center py-12 text-slate-500 gap-2">
+              <Loader2 className="animate-spin" size={18} /> Loading movements...
+            </div>
+          ) : movements.length === 0 ? (
+            <div className="py-12 text-center text-slate-500">No stock movements recorded for this item.</div>
+          ) : (
+            <table className="w-full text-left text-sm text-slate-600">
+              <thead className="bg-slate-50 text-slate-700 font-medium border-b border-slate-200 sticky top-0">
+                <tr>
+                  <th className="px-4 py-3">Date</th>
+                  <th className="px-4 py-3">Type</th>
+                  <th className="px-4 py-3">Location</th>
+                  <th className="px-4 py-3 text-right">In</th>
+                  <th className="px-4 py-3 text-right">Out</th>
+                  {showCosts && <th className="px-4 py-3 text-right">Unit Cost</th>}
+                  <th className="px-4 py-3 text-right">Balance</th>
+                  <th className="px-4 py-3">Source</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {movements.map(m => (
+                  <tr key={m.id} className={m.isReversal ? 'bg-slate-50 text-slate-400' : ''}>
+                    <td className="px-4 py-3 whitespace-nowrap">{new Date(m.date).toLocaleDateString()}</td>
+                    <td className="px-4 py-3">
+                      <span className={`px-2 py-1 rounded-full text-xs font-medium ${TYPE_STYLES[m.type] || TYPE_STYLES.ADJUSTMENT}`}>
+                        {m.type}
+                      </span>
+                      {m.isReversal && <span className="ml-1 text-xs">(reversal)</span>}
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap">
+                      {m.locationId ? locations.find(l => l.id === m.locationId)?.name || m.locationId : '-'}
+                      {m.locationBalance !== undefined && <span className="ml-1 text-xs text-slate-400">({m.locationBalance})</span>}
+                    </td>
+                    <td className="px-4 py-3 text-right text-emerald-600">{m.qtyIn || ''}</td>
+                    <td className="px-4 py-3 text-right text-rose-600">{m.qtyOut || ''}</td>
+                    {showCosts && <td className="px-4 py-3 text-right">₹{m.unitCost.toFixed(2)}</td>}
+                    <td className={`px-4 py-3 text-right font-semibold ${m.balance < 0 ? 'text-rose-600' : 'text-slate-800'}`}>{m.balance}</td>
+                    <td className="px-4 py-3">
+                      {m.sourceId && m.sourceType !== 'TRANSFER' && m.sourceType !== 'STOCKTAKE' ? (
+                        <button
+                          onClick={() => onOpenTransaction(m.sourceId!)}
+                          className="text-indigo-600 hover:text-indigo-800 font-medium flex items-center gap-1"
+                        >
+                          {m.sourceNumber || m.sourceId} <ExternalLink size={12} />
+                        </button>
+                      ) : (
+                        <span className="text-slate-400">{m.sourceNumber || m.notes || '-'}</span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
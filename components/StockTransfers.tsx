@@ -0,0 +1,260 @@
+import React, { useState, useMemo } from 'react';
+import { InventoryItem, Location, StockTransfer, TransferLine } from '../types';
+import { getLocationQuantity } from '../services/inventory';
+import { ArrowLeftRight, Plus, Trash2, Loader2, Save, X } from 'lucide-react';
+
+interface StockTransfersProps {
+  transfers: StockTransfer[];
+  locations: Location[];
+  inventory: InventoryItem[];
+  onSave: (transfer: StockTransfer) => Promise<void>;
+  onDelete?: (id: string) => Promise<void>; // Left out for roles that can't delete
+}
+
+const newLine = (): TransferLine => ({ id: Date.now().toString(), productId: '', description: '', quantity: 1 });
+
+// Moves stock between locations, e.g. from the godown to the shop. A transfer is
+// posted once; a wrong one is deleted, which moves the stock back.
+export const StockTransfers: React.FC<StockTransfersProps> = ({ transfers, locations, inventory, onSave, onDelete }) => {
+  const defaultId = (locations.find(l => l.isDefault) || locations[0])?.id || '';
+  const [isCreating, setIsCreating] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [date, setDate] = useState(new Date().toISOString().split('T')[0]);
+  const [fromLocationId, setFromLocationId] = useState('');
+  const [toLocationId, setToLocationId] = useState('');
+  const [items, setItems] = useState<TransferLine[]>([newLine()]);
+  const [notes, setNotes] = useState('');
+
+  const locationName = (id: string) => locations.find(l => l.id === id)?.name || id;
+
+  // What can be moved: items with stock at the source location
+  const available = useMemo(
+    () => inventory.filter(i => getLocationQuantity(i, fromLocationId) > 0).sort((a, b) => a.name.localeCompare(b.name)),
+    [inventory, fromLocationId]
+  );
+
+  const startNew = () => {
+    setDate(new Date().toISOString().split('T')[0]);
+    setFromLocationId(defaultId);
+    setToLocationId(locations.find(l => l.id !== defaultId)?.id || '');
+    setItems([newLine()]);
+    setNotes('');
+    setIsCreating(true);
+  };
+
+  const updateLine = (id: string, changes: Partial<TransferLine>) =>
+    setItems(prev => prev.map(l => l.id === id ? { ...l, ...changes } : l));
+
+  const selectProduct = (id: string, productId: string) =>
+    updateLine(id, { productId, description: inventory.find(i => i.id === productId)?.name || '' });
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (fromLocationId === toLocationId) {
+      alert('Pick two different locations.');
+      return;
+    }
+    if (items.some(l => !l.productId)) {
+      alert('Pick an item on every line.');
+      return;
+    }
+    setIsSaving(true);
+    try {
+      await onSave({
+        id: Date.now().toString(),
+        transferNumber: '',
+        date,
+        fromLocationId,
+        toLocationId,
+        items,
+        notes: notes.trim() || undefined,
+      });
+      setIsCreating(false);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to save transfer.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (transfer: StockTransfer) => {
+    if (!onDelete || !confirm(`Delete ${transfer.transferNumber}? The stock moves back to ${locationName(transfer.fromLocationId)}.`)) return;
+    try {
+      await onDelete(transfer.id);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to delete transfer.');
+    }
+  };
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <h2 className="text-2xl font-bold text-slate-800 flex items-center gap-2">
+          <ArrowLeftRight className="text-indigo-600" />
+          Stock Transfers
+        </h2>
+        {!isCreating && (
+          <button
+            onClick={startNew}
+            disabled={locations.length < 2}
+            title={locations.length < 2 ? 'Add a second location in Settings first' : undefined}
+            className="flex items-center gap-2 px-4 py-2 rounded-lg text-white font-medium shadow-sm transition-colors bg-indigo-600 hover:bg-indigo-700 disabled:opacity-60"
+          >
+            <Plus size={18} /> New Transfer
+          </button>
+        )}
+      </div>
+
+      {isCreating && (
+        <form onSubmit={handleSubmit} className="bg-white rounded-xl shadow-sm border border-slate-200 p-6 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-1">
+              <label className="block text-sm font-medium text-slate-700">From</label>
+              <select
+                value={fromLocationId}
+                onChange={e => { setFromLocationId(e.target.value); setItems([newLine()]); }}
+                className="w-full px-3 py-2 bg-white border border-slate-300 rounded-lg text-sm focus:border-indigo-500 outline-none"
+              >
+                {locations.map(l => <option key={l.id} value={l.id}>{l.name}</option>)}
+              </select>
+            </div>
+            <div className="space-y-1">
+              <label className="block text-sm font-medium text-slate-700">To</label>
+              <select
+                value={toLocationId}
+                onChange={e => setToLocationId(e.target.value)}
+                className="w-full px-3 py-2 bg-white border border-slate-300 rounded-lg text-sm focus:border-indigo-500 outline-none"
+              >
+                {locations.map(l => <option key={l.id} value={l.id} disabled={l.id === fromLocationId}>{l.name}</option>)}
+              </select>
+            </div>
+            <div className="space-y-1">
+              <label className="block text-sm font-medium text-slate-700">Date</label>
+              <input
+                required
+                type="date"
+                value={date}
+                onChange={e => setDate(e.target.value)}
+                className="w-full px-3 py-2 bg-white border border-slate-300 rounded-lg text-sm focus:border-indigo-500 outline-none"
+              />
+            </div>
+          </div>
+
+          <div className="bg-slate-50 rounded-lg p-4 space-y-3">
+            {items.map(line => {
+              const stock = inventory.find(i => i.id === line.productId);
+              const onHand = stock ? getLocationQuantity(stock, fromLocationId) : 0;
+              return (
+                <div key={line.id} className="flex gap-4 items-end">
+                  <div className="flex-grow">
+                    <label className="block text-xs font-medium text-slate-500 mb-1">Item</label>
+                    <select
+                      value={line.productId}
+                      onChange={e => selectProduct(line.id, e.target.value)}
+                      className="w-full px-3 py-2 bg-white border border-slate-300 rounded-md text-sm focus:border-indigo-500 outline-none"
+                    >
+                      <option value="">Select item</option>
+                      {available.map(i => (
+                        <option key={i.id} value={i.id}>{i.name} ({getLocationQuantity(i, fromLocationId)} at {locationName(fromLocationId)})</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="w-32">
+                    <label className="block text-xs font-medium text-slate-500 mb-1">Qty</label>
+                    <input
+                      type="number"
+                      min="1"
+                      max={onHand || undefined}
+                      value={line.quantity}
+                      onChange={e => updateLine(line.id, { quantity: parseFloat(e.target.value) || 0 })}
+                      className="w-full px-3 py-2 bg-white border border-slate-300 rounded-md text-sm focus:border-indigo-500 outline-none"
+                    />
+                  </div>
+                  <div className="pb-2 text-slate-500">
+                    <button type="button" onClick={() => setItems(prev => prev.filter(l => l.id !== line.id))} className="hover:text-rose-500 transition-colors">
+                      <Trash2 size={18} />
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+            <button
+              type="button"
+              onClick={() => setItems(prev => [...prev, newLine()])}
+              className="text-indigo-600 hover:text-indigo-700 text-sm font-medium flex items-center gap-1"
+            >
+              <Plus size={16} /> Add Item
+            </button>
+          </div>
+
+          <input
+            type="text"
+            value={notes}
+            onChange={e => setNotes(e.target.value)}
+            placeholder="Notes (optional), e.g. vehicle or challan number"
+            className="w-full px-3 py-2 bg-white border border-slate-300 rounded-lg text-sm focus:border-indigo-500 outline-none"
+          />
+
+          <div className="flex justify-end gap-3">
+            <button
+              type="button"
+              onClick={() => setIsCreating(false)}
+              className="px-4 py-2 text-slate-600 hover:bg-slate-100 rounded-lg flex items-center gap-2 text-sm font-medium"
+            >
+              <X size={16} /> Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isSaving || items.length === 0}
+              className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 flex items-center gap-2 text-sm font-medium disabled:opacity-50"
+            >
+              {isSaving ? <Loader2 className="animate-spin" size={16} /> : <Save size={16} />} Move Stock
+            </button>
+          </div>
+        </form>
+      )}
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-sm text-slate-600">
+            <thead className="bg-slate-50 text-slate-700 font-medium border-b border-slate-200">
+              <tr>
+                <th className="px-6 py-4">Date</th>
+                <th className="px-6 py-4">Transfer No.</th>
+                <th className="px-6 py-4">From</th>
+                <th className="px-6 py-4">To</th>
+                <th className="px-6 py-4">Items</th>
+                <th className="px-6 py-4 text-right">Action</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {transfers.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="px-6 py-12 text-center text-slate-500">No stock has been moved between locations yet.</td>
+                </tr>
+              ) : transfers.map(t => (
+                <tr key={t.id} className="hover:bg-slate-50 transition-colors">
+                  <td className="px-6 py-4">{new Date(t.date).toLocaleDateString()}</td>
+                  <td className="px-6 py-4 font-medium text-slate-900">{t.transferNumber}</td>
+                  <td className="px-6 py-4">{locationName(t.fromLocationId)}</td>
+                  <td className="px-6 py-4">{locationName(t.toLocationId)}</td>
+                  <td className="px-6 py-4">
+                    {t.items.map(i => `${i.description} × ${i.quantity}`).join(', ')}
+                    {t.notes && <div className="text-xs text-slate-400">{t.notes}</div>}
+                  </td>
+                  <td className="px-6 py-4 text-right">
+                    {onDelete && (
+                      <button onClick={() => handleDelete(t)} className="text-slate-400 hover:text-rose-600 transition-colors" title="Delete and move the stock back">
+                        <Trash2 size={16} />
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
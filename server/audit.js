@@ -0,0 +1,99 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import { AuditLog } from './models.js';
+
+const MAX_ENTRIES = 500; // Per search; narrow the filters to go further back
+
+// Bookkeeping fields, secrets, and figures the server works out itself on every posting
+const IGNORED_FIELDS = new Set(['_id', '__v', 'createdAt', 'updatedAt', 'passwordHash', 'password', 'cogs', 'costLayers', 'numberKey']);
+
+// Uploaded images (logo, signature) are logged as a short fingerprint, not the whole data URL
+const IMAGE_PREFIX = 'data:image/';
+const fingerprint = (image) => `image ${crypto.createHash('sha1').update(image).digest('hex').slice(0, 8)}`;
+
+const toPlain = (doc) => typeof doc?.toObject === 'function' ? doc.toObject() : doc;
+
+// Flattens a record to "path -> value", e.g. "items[<line id>].price". Lines are
+// keyed by their id so adding or removing one doesn't shift the others.
+const flatten = (value, path, out) => {
+    if (value instanceof Date) {
+        out[path] = value.toISOString();
+    } else if (Array.isArray(value)) {
+        value.forEach((el, i) => flatten(el, `${path}[${el?.id ?? i}]`, out));
+    } else if (value && typeof value === 'object' && !(value instanceof mongoose.Types.ObjectId)) {
+        for (const [key, v] of Object.entries(value)) {
+            if (!IGNORED_FIELDS.has(key)) flatten(v, path ? `${path}.${key}` : key, out);
+        }
+    } else if (typeof value === 'string' && value.startsWith(IMAGE_PREFIX)) {
+        out[path] = fingerprint(value);
+    } else if (value !== undefined && value !== null && value !== '') {
+        out[path] = value;
+    }
+    return out;
+};
+
+// Field-level differences between two versions of a record; either may be null
+// for a create or a delete
+export const diffRecords = (before, after) => {
+    const old = flatten(toPlain(before) || {}, '', {});
+    const now = flatten(toPlain(after) || {}, '', {});
+    const fields = new Set([...Object.keys(old), ...Object.keys(now)]);
+    return [...fields]
+        .filter(field => old[field] !== now[field])
+        .map(field => ({ field, before: old[field] ?? null, after: now[field] ?? null }));
+};
+
+export const transactionLabel = (t) => [t.invoiceNumber, t.partyName].filter(Boolean).join(' · ');
+
+// Writes one entry; pass the session when the change runs in a transaction so
+// the two commit together. Saves that changed nothing aren't recorded.
+export const recordAudit = async ({ user, action, entityType, entityId, parentId, label, before = null, after = null, extraChanges = [] }, session = null) => {
+    const changes = [...diffRecords(before, after), ...extraChanges];
+    if (action === 'UPDATE' && changes.length === 0) return;
+
+    await AuditLog.create([{
+        id: new mongoose.Types.ObjectId().toString(),
+        at: new Date(),
+        userId: user?.id,
+        userName: user?.name,
+        action,
+        entityType,
+        entityId,
+        parentId,
+        label,
+        changes,
+    }], { session });
+};
+
+const escapeRegex = (text) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const isDate = (value) => !Number.isNaN(new Date(value).getTime());
+
+// The date range of a search; null when it will do
+export const checkAuditFilters = ({ from, to }) => {
+    if (from && !isDate(from)) return `${from} is not a date`;
+    if (to && !isDate(to)) return `${to} is not a date`;
+    return null;
+};
+
+// Newest first. entityId also brings in entries filed under it, e.g. a bill's payments.
+export const findAuditEntries = ({ entityType, entityId, userId, action, search, from, to }) => {
+    const filter = {};
+    if (entityId) {
+        filter.$or = [{ entityId, ...(entityType ? { entityType } : {}) }, { parentId: entityId }];
+    } else if (entityType) {
+        filter.entityType = entityType;
+    }
+    if (userId) filter.userId = userId;
+    if (action) filter.action = action;
+    if (search && search.trim()) {
+        const pattern = new RegExp(escapeRegex(search.trim()), 'i');
+        filter.$and = [{ $or: [{ label: pattern }, { entityId: pattern }, { userName: pattern }] }];
+    }
+    if (from || to) {
+        filter.at = {};
+        if (from) filter.at.$gte = new Date(from);
+        if (to) filter.at.$lt = new Date(new Date(to).getTime() + 24 * 60 * 60 * 1000); // Through the end of that day
+    }
+    return AuditLog.find(filter).sort({ at: -1, _id: -1 }).limit(MAX_ENTRIES);
+};
@@ -0,0 +1,153 @@
+import crypto from 'crypto';
+import { promisify } from 'util';
+import { Session, User } from './models.js';
+
+const scrypt = promisify(crypto.scrypt);
+
+const SESSION_TTL_MS = 12 * 60 * 60 * 1000; // A working day; sign in again after that
+const MIN_PASSWORD_LENGTH = 8;
+
+export const ROLES = ['OWNER', 'ACCOUNTANT', 'CASHIER'];
+
+// What each role may do beyond billing, collecting payments and moving stock,
+// which everyone can. The owner can do everything.
+const ROLE_PERMISSIONS = {
+    OWNER: ['DELETE_RECORDS', 'EDIT_POSTED', 'VIEW_COSTS', 'MANAGE_SETTINGS'],
+    ACCOUNTANT: ['DELETE_RECORDS', 'EDIT_POSTED', 'VIEW_COSTS'],
+    CASHIER: [],
+};
+
+export const permissionsFor = (user) => ROLE_PERMISSIONS[user?.role] || [];
+
+export const can = (user, permission) => permissionsFor(user).includes(permission);
+
+const PERMISSION_DENIED = {
+    DELETE_RECORDS: "Your role can't delete records",
+    EDIT_POSTED: "Your role can't change a document once it has been posted",
+    VIEW_COSTS: "Your role can't see purchase costs",
+    MANAGE_SETTINGS: 'Only the owner can change settings and users',
+};
+
+// Stored as "scrypt$<salt>$<hash>", both hex
+export const hashPassword = async (password) => {
+    const salt = crypto.randomBytes(16).toString('hex');
+    const hash = await scrypt(password, salt, 64);
+    return `scrypt$${salt}$${hash.toString('hex')}`;
+};
+
+const verifyPassword = async (password, stored) => {
+    const [scheme, salt, hex] = (stored || '').split('$');
+    if (scheme !== 'scrypt' || !salt || !hex) return false;
+    const expected = Buffer.from(hex, 'hex');
+    const actual = await scrypt(password, salt, expected.length);
+    return crypto.timingSafeEqual(actual, expected);
+};
+
+const hashToken = (token) => crypto.createHash('sha256').update(token).digest('hex');
+
+// Checks the fields of a user being added or edited; the password is required
+// for new users only. Returns an error message or null.
+export const validateUser = (user, isNew) => {
+    if (!user.name || !user.name.trim()) return 'Name is required';
+    if (!/^[a-z0-9._-]{3,}$/i.test(user.username || '')) {
+        return 'Username needs at least 3 letters, digits, dots, dashes or underscores';
+    }
+    if (!ROLES.includes(user.role)) return 'Role must be OWNER, ACCOUNTANT or CASHIER';
+    if ((isNew || user.password) && (user.password || '').length < MIN_PASSWORD_LENGTH) {
+        return `Password must be at least ${MIN_PASSWORD_LENGTH} characters`;
+    }
+    return null;
+};
+
+// Returns the user for a correct username and password, null otherwise
+export const checkCredentials = async (username, password) => {
+    const user = await User.findOne({ username: (username || '').trim().toLowerCase(), active: true });
+    if (!user || !(await verifyPassword(password || '', user.passwordHash))) return null;
+    return user;
+};
+
+// Opens a session and returns the bearer token the browser sends from now on
+export const startSession = async (user) => {
+    const token = crypto.randomBytes(32).toString('hex');
+    await Session.create({
+        tokenHash: hashToken(token),
+        userId: user.id,
+        expiresAt: new Date(Date.now() + SESSION_TTL_MS),
+    });
+    return token;
+};
+
+const bearerToken = (req) => {
+    const [scheme, token] = (req.headers.authorization || '').split(' ');
+    return scheme === 'Bearer' && token ? token : null;
+};
+
+export const endSession = async (req) => {
+    const token = bearerToken(req);
+    if (token) await Session.deleteOne({ tokenHash: hashToken(token) });
+};
+
+// Signing out everywhere, e.g. after a password change or deactivation
+export const endUserSessions = (userId) => Session.deleteMany({ userId });
+
+// Middleware: every /api route behind it needs a live session; sets req.user
+export const authenticate = async (req, res, next) => {
+    try {
+        const token = bearerToken(req);
+        const session = token && await Session.findOne({ tokenHash: hashToken(token), expiresAt: { $gt: new Date() } });
+        const user = session && await User.findOne({ id: session.userId, active: true });
+        if (!user) {
+            return res.status(401).json({ message: 'Please sign in' });
+        }
+        req.user = user;
+        next();
+    } catch (err) {
+        res.status(500).json({ message: err.message });
+    }
+};
+
+// Middleware: refuses the request unless the user's role has the permission
+export const requirePermission = (permission) => (req, res, next) => {
+    if (!can(req.user, permission)) {
+        return res.status(403).json({ message: PERMISSION_DENIED[permission] });
+    }
+    next();
+};
+
+export const denied = (permission) => PERMISSION_DENIED[permission];
+
+// Buying-side documents show what the business pays for stock
+export const PURCHASE_SIDE_TYPES = ['PURCHASE', 'PURCHASE_ORDER', 'DEBIT_NOTE'];
+
+const toPlain = (doc) => typeof doc?.toJSON === 'function' ? doc.toJSON() : { ...doc };
+
+// Copies of records with cost figures taken out, for roles without VIEW_COSTS.
+// Buying-side documents keep their lines and quantities, so stock still adds
+// up, but every amount on them reads zero.
+export const hideTransactionCosts = (transaction) => {
+    const t = toPlain(transaction);
+    const buying = PURCHASE_SIDE_TYPES.includes(t.type);
+    t.items = (t.items || []).map(({ cogs, costLayers, ...item }) => buying
+        ? { ...item, price: 0, taxableValue: 0, cgst: 0, sgst: 0, igst: 0, lineTotal: 0 }
+        : item);
+    if (buying) {
+        Object.assign(t, { totalAmount: 0, taxableAmount: 0, cgstAmount: 0, sgstAmount: 0, igstAmount: 0, totalTax: 0, amountPaid: 0, amountCredited: 0 });
+    }
+    return t;
+};
+
+export const hideProductCosts = (product) => ({ ...toPlain(product), purchasePrice: 0 });
+
+export const hideMovementCosts = (movement) => ({ ...toPlain(movement), unitCost: 0 });
+
+export const hideStockCosts = (item) => ({
+    ...item,
+    averageCost: 0,
+    layers: item.layers?.map(layer => ({ ...layer, unitCost: 0 })),
+});
+
+export const hideStocktakeCosts = (stocktake) => {
+    const s = toPlain(stocktake);
+    s.lines = (s.lines || []).map(({ unitCost, ...line }) => line);
+    return s;
+};
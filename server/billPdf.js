@@ -0,0 +1,489 @@
+import PDFDocument from 'pdfkit';
+
+// Renders a saved document to a PDF the same way on every machine, for
+// downloading, emailing and archiving. The built-in fonts have no rupee sign,
+// so amounts read "Rs.".
+
+const TITLES = {
+    SALE: 'TAX INVOICE / BILL',
+    PURCHASE: 'PURCHASE INVOICE',
+    QUOTATION: 'QUOTATION',
+    PURCHASE_ORDER: 'PURCHASE ORDER',
+    CREDIT_NOTE: 'CREDIT NOTE',
+    DEBIT_NOTE: 'DEBIT NOTE',
+};
+
+const DUE_DATE_LABELS = { QUOTATION: 'Valid Until', PURCHASE_ORDER: 'Expected Delivery' };
+
+// Customer-facing documents; the rest go to vendors
+const CUSTOMER_TYPES = ['SALE', 'QUOTATION', 'CREDIT_NOTE'];
+
+const PAGE_SIZES = {
+    A4: { margin: 36, fontSize: 9 },
+    A5: { margin: 24, fontSize: 7 },
+};
+export const PDF_SIZES = Object.keys(PAGE_SIZES);
+
+// The bill designs of components/PrintableBill.tsx, with the accent each uses
+// when the business hasn't picked one (services/templates.ts)
+const DESIGNS = {
+    CLASSIC: { accent: '#000000', scale: 1 },
+    MODERN: { accent: '#4f46e5', scale: 1 },
+    COMPACT_GST: { accent: '#334155', scale: 0.85 },
+};
+
+// Tailwind greys used by the screen designs
+const SHADE = '#f9fafb';
+const HEADING_SHADE = '#f3f4f6';
+const RULE = '#d1d5db';
+const GRID = '#9ca3af';
+
+// Share of the table width per column; the description takes what is left
+const COLUMNS = [
+    { key: 'no', label: '#', width: 0.04 },
+    { key: 'description', label: 'Item Description' },
+    { key: 'hsn', label: 'HSN/SAC', width: 0.09 },
+    { key: 'quantity', label: 'Qty', width: 0.07, align: 'right' },
+    { key: 'rate', label: 'Rate', width: 0.11, align: 'right' },
+    { key: 'discount', label: 'Disc %', width: 0.06, align: 'right' },
+    { key: 'taxable', label: 'Taxable', width: 0.12, align: 'right' },
+    { key: 'gstRate', label: 'GST %', width: 0.06, align: 'right' },
+    { key: 'tax', label: 'Tax', width: 0.10, align: 'right' },
+    { key: 'total', label: 'Total', width: 0.12, align: 'right' },
+];
+
+const ONES = ['', 'One', 'Two', 'Three', 'Four', 'Five', 'Six', 'Seven', 'Eight', 'Nine', 'Ten', 'Eleven', 'Twelve',
+    'Thirteen', 'Fourteen', 'Fifteen', 'Sixteen', 'Seventeen', 'Eighteen', 'Nineteen'];
+const TENS = ['', '', 'Twenty', 'Thirty', 'Forty', 'Fifty', 'Sixty', 'Seventy', 'Eighty', 'Ninety'];
+
+const belowHundred = (n) => n < 20 ? ONES[n] : [TENS[Math.floor(n / 10)], ONES[n % 10]].filter(Boolean).join(' ');
+
+const belowThousand = (n) => [
+    n >= 100 ? `${ONES[Math.floor(n / 100)]} Hundred` : '',
+    belowHundred(n % 100),
+].filter(Boolean).join(' ');
+
+// Indian grouping: 1,23,45,678 is "One Crore Twenty Three Lakh Forty Five Thousand Six Hundred Seventy Eight"
+const indianWords = (n) => {
+    if (n === 0) return 'Zero';
+    const crore = Math.floor(n / 10000000);
+    const lakh = Math.floor(n / 100000) % 100;
+    const thousand = Math.floor(n / 1000) % 100;
+    return [
+        crore ? `${indianWords(crore)} Crore` : '',
+        lakh ? `${belowHundred(lakh)} Lakh` : '',
+        thousand ? `${belowHundred(thousand)} Thousand` : '',
+        belowThousand(n % 1000),
+    ].filter(Boolean).join(' ');
+};
+
+// 1234.5 -> "Rupees One Thousand Two Hundred Thirty Four and Fifty Paise Only"
+export const amountInWords = (amount) => {
+    const paiseTotal = Math.round(Math.abs(amount || 0) * 100);
+    const rupees = Math.floor(paiseTotal / 100);
+    const paise = paiseTotal % 100;
+    return `Rupees ${indianWords(rupees)}${paise ? ` and ${belowHundred(paise)} Paise` : ''} Only`;
+};
+
+// "INV/2025-26/001" -> "INV-2025-26-001.pdf"; "draft.pdf" for a draft purchase without the vendor's number yet
+export const pdfFilename = (transaction) => `${(transaction.invoiceNumber || 'draft').replace(/[^\w.-]+/g, '-')}.pdf`;
+
+const money = (value) => `Rs. ${(value || 0).toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatDate = (date) => date ? new Date(date).toLocaleDateString('en-IN', { day: '2-digit', month: 'short', year: 'numeric' }) : '';
+
+// PDFKit reads PNG and JPEG; anything else (e.g. WebP) is left off
+const imageBuffer = (dataUrl) => {
+    const match = /^data:image\/(png|jpeg);base64,(.+)$/.exec(dataUrl || '');
+    return match ? Buffer.from(match[2], 'base64') : null;
+};
+
+const round2 = (value) => Math.round(value * 100) / 100;
+
+// Taxable value and tax per GST rate
+const taxBreakup = (items) => {
+    const byRate = new Map();
+    for (const item of items) {
+        const rate = item.gstRate || 0;
+        const row = byRate.get(rate) || { rate, taxable: 0, cgst: 0, sgst: 0, igst: 0 };
+        row.taxable += item.taxableValue || 0;
+        row.cgst += item.cgst || 0;
+        row.sgst += item.sgst || 0;
+        row.igst += item.igst || 0;
+        byRate.set(rate, row);
+    }
+    return [...byRate.values()].sort((a, b) => a.rate - b.rate).map(row => ({
+        ...row,
+        taxable: round2(row.taxable), cgst: round2(row.cgst), sgst: round2(row.sgst), igst: round2(row.igst),
+    }));
+};
+
+
+// Resolves with the PDF as a Buffer. party is the Party record, for its address;
+// templateId picks the design and defaults to the one set for the document type.
+export const renderTransactionPdf = (transaction, { settings, businessName, party, size = 'A4', templateId }) => new Promise((resolve, reject) => {
+    const t = transaction;
+    const template = settings?.invoiceTemplate || {};
+    const design = [templateId, template.templates?.[t.type]].find(id => DESIGNS[id]) || 'CLASSIC';
+    const modern = design === 'MODERN';
+    const compact = design === 'COMPACT_GST';
+    const accent = template.accentColor || DESIGNS[design].accent;
+    const page = PAGE_SIZES[size] || PAGE_SIZES.A4;
+    const margin = page.margin;
+    const fontSize = page.fontSize * DESIGNS[design].scale;
+    const profile = settings?.profile || {};
+    const bank = settings?.bank || {};
+    const sellerName = profile.legalName || businessName;
+    const interState = (t.igstAmount || 0) > 0;
+    const showDiscount = template.showDiscount !== false && t.items.some(item => (item.discount || 0) > 0);
+
+    const doc = new PDFDocument({
+        size,
+        margin,
+        bufferPages: true, // Page numbers are filled in once the page count is known
+        info: { Title: `${TITLES[t.type]} ${t.invoiceNumber}`, Author: sellerName },
+    });
+    const chunks = [];
+    doc.on('data', chunk => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    const left = margin;
+    const width = doc.page.width - margin * 2;
+    const footerSpace = fontSize * 3; // Kept free at the foot of each page for its number
+    const bottom = () => doc.page.height - margin - footerSpace;
+    const lineGap = fontSize * 0.4;
+    const cellPadding = 2;
+
+    // Starts a new page when the next block won't fit on this one
+    const ensureSpace = (height) => {
+        if (doc.y + height > bottom()) doc.addPage();
+    };
+
+    const text = (value, x, y, options = {}) =>
+        doc.font(options.bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(options.size || fontSize).fillColor(options.color || 'black')
+            .text(value, x, y, { lineBreak: true, ...options });
+
+    const rule = (x, y, length, lineWidth, color = 'black') =>
+        doc.moveTo(x, y).lineTo(x + length, y).lineWidth(lineWidth).strokeColor(color).stroke().strokeColor('black');
+
+    // A block is a list of lines; it is measured first wherever a band or box goes behind it
+    const blockHeight = (lines, blockWidth) => lines.reduce((sum, { value, gap = 0, ...style }) => sum + gap +
+        doc.font(style.bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(style.size || fontSize).heightOfString(value, { width: blockWidth }), 0);
+    const drawBlock = (lines, x, y, blockWidth, options = {}) => {
+        doc.y = y;
+        for (const { value, gap = 0, ...style } of lines) text(value, x, doc.y + gap, { width: blockWidth, ...options, ...style });
+        return doc.y;
+    };
+
+    // PNG or JPEG PDFKit can read, or null to leave it off
+    const loadImage = (dataUrl) => {
+        const buffer = imageBuffer(dataUrl);
+        if (!buffer) return null;
+        try {
+            return doc.openImage(buffer);
+        } catch {
+            return null;
+        }
+    };
+
+    // Header: logo, title and seller on the left, number and dates on the right.
+    // Compact boxes the header and party, so their text sits inside the box.
+    const boxTop = doc.y;
+    const inset = compact ? lineGap * 2 : 0;
+    const innerLeft = left + inset;
+    const innerWidth = width - inset * 2;
+    const top = boxTop + inset;
+    const logo = loadImage(profile.logo);
+    const logoFit = [fontSize * 8, fontSize * 6];
+    const sellerX = logo ? innerLeft + fontSize * 9 : innerLeft;
+    const sellerWidth = innerWidth * 0.6 - (sellerX - innerLeft);
+    const metaX = innerLeft + innerWidth * 0.6;
+    const metaWidth = innerWidth * 0.4;
+    const contact = [profile.phone, profile.email].filter(Boolean).join(' · ');
+    const refLabel = ['CREDIT_NOTE', 'DEBIT_NOTE'].includes(t.type) ? 'Against Invoice' : 'Ref';
+    const sellerLines = [
+        { value: TITLES[t.type], bold: true, size: fontSize * (compact ? 1.4 : 1.8), color: modern ? 'white' : accent },
+        { value: sellerName, bold: true, size: fontSize * 1.2, gap: lineGap },
+        template.headerText && { value: template.headerText, oblique: true },
+        profile.address && { value: profile.address },
+        profile.gstin && { value: `GSTIN: ${profile.gstin}` },
+        contact && { value: contact },
+    ].filter(Boolean);
+    const metaLines = [
+        { value: `#${t.invoiceNumber}`, bold: true, size: fontSize * 1.4 },
+        { value: `Date: ${formatDate(t.date)}`, gap: lineGap },
+        t.dueDate && { value: `${DUE_DATE_LABELS[t.type] || 'Due Date'}: ${formatDate(t.dueDate)}` },
+        t.sourceDocumentNumber && { value: `${refLabel}: ${t.sourceDocumentNumber}` },
+    ].filter(Boolean);
+    const headerHeight = Math.max(blockHeight(sellerLines, sellerWidth), blockHeight(metaLines, metaWidth), logo ? logoFit[1] : 0);
+    const ink = modern ? 'white' : 'black';
+
+    if (modern) {
+        // Band in the accent across the top of the page; the logo goes on white so it shows
+        doc.rect(0, 0, doc.page.width, top + headerHeight + margin / 2).fill(accent);
+        if (logo) doc.roundedRect(left - 2, top - 2, logoFit[0] + 4, logoFit[1] + 4, 3).fill('white');
+    }
+    if (logo) doc.image(logo, innerLeft, top, { fit: logoFit });
+    drawBlock(sellerLines, sellerX, top, sellerWidth, { color: ink });
+    drawBlock(metaLines, metaX, top, metaWidth, { align: 'right', color: ink });
+
+    if (modern) {
+        doc.y = top + headerHeight + margin / 2 + lineGap * 3;
+    } else {
+        doc.y = top + headerHeight + lineGap * 2;
+        if (compact) rule(left, doc.y, width, 0.5, GRID);
+        else rule(left, doc.y, width, 1.5, accent);
+        doc.y += lineGap * 2;
+    }
+
+    // Party, and the place of supply on the right
+    const partyLines = [
+        { value: CUSTOMER_TYPES.includes(t.type) ? 'BILL TO' : 'VENDOR', bold: true, color: '#555' },
+        { value: t.partyName, bold: true, size: fontSize * 1.2 },
+        party?.billingAddress && { value: party.billingAddress },
+        t.partyGstin && { value: `GSTIN: ${t.partyGstin.toUpperCase()}` },
+    ].filter(Boolean);
+    const supplyLines = [
+        t.placeOfSupply && { value: `Place of Supply: ${t.placeOfSupply}` },
+        t.taxInclusive && { value: 'Prices inclusive of GST', color: '#555' },
+    ].filter(Boolean);
+    const partyTop = doc.y;
+    if (modern) {
+        // Each in a shaded box, side by side
+        const boxPadding = fontSize;
+        const boxWidth = (width - fontSize) / 2;
+        const textWidth = boxWidth - boxPadding * 2;
+        const boxHeight = Math.max(blockHeight(partyLines, textWidth), blockHeight(supplyLines, textWidth)) + boxPadding * 2;
+        const supplyX = left + width - boxWidth;
+        doc.roundedRect(left, partyTop, boxWidth, boxHeight, 4).fill(SHADE);
+        doc.roundedRect(supplyX, partyTop, boxWidth, boxHeight, 4).fill(SHADE);
+        drawBlock(partyLines, left + boxPadding, partyTop + boxPadding, textWidth);
+        drawBlock(supplyLines, supplyX + boxPadding, partyTop + boxPadding, textWidth, { align: 'right' });
+        doc.y = partyTop + boxHeight;
+    } else {
+        const partyBottom = drawBlock(partyLines, innerLeft, partyTop, innerWidth * 0.6);
+        doc.y = Math.max(partyBottom, drawBlock(supplyLines, metaX, partyTop, metaWidth, { align: 'right' }));
+        if (compact) {
+            doc.y += inset;
+            doc.rect(left, boxTop, width, doc.y - boxTop).lineWidth(0.5).strokeColor(GRID).stroke().strokeColor('black');
+        }
+    }
+    doc.y += lineGap * 3;
+
+    // Line items, with the column headings repeated on every page the table runs onto
+    const shown = COLUMNS.filter(c => (c.key !== 'no' || compact)
+        && (c.key !== 'hsn' || template.showHsn !== false) && (c.key !== 'discount' || showDiscount));
+    const descriptionShare = 1 - shown.reduce((sum, c) => sum + (c.width || 0), 0);
+    const columns = [];
+    let x = left;
+    for (const column of shown) {
+        const columnWidth = (column.width || descriptionShare) * width;
+        columns.push({ ...column, x, width: columnWidth });
+        x += columnWidth;
+    }
+    const descriptionColumn = columns.find(c => c.key === 'description');
+
+    // Classic rules the rows, Modern shades every other one and Compact draws a full grid
+    const drawRow = (cells, { heading = false, shaded = false } = {}) => {
+        const heights = columns.map(c => doc.font(heading ? 'Helvetica-Bold' : 'Helvetica').fontSize(fontSize)
+            .heightOfString(String(cells[c.key] ?? ''), { width: c.width - cellPadding * 2 }));
+        const height = Math.max(...heights) + lineGap * 2;
+        const y = doc.y;
+        const fill = heading ? (modern ? accent : compact && HEADING_SHADE) : shaded && SHADE;
+        if (fill) doc.rect(left, y, width, height).fill(fill);
+        columns.forEach(c => text(String(cells[c.key] ?? ''), c.x + cellPadding, y + lineGap, {
+            bold: heading, width: c.width - cellPadding * 2, align: c.align || 'left', color: heading && modern ? 'white' : 'black',
+        }));
+        doc.y = y + height;
+        if (compact) {
+            columns.forEach(c => doc.rect(c.x, y, c.width, height));
+            doc.lineWidth(0.5).strokeColor(GRID).stroke().strokeColor('black');
+        } else if (heading) {
+            if (!modern) rule(left, doc.y, width, 1.5, accent);
+        } else {
+            rule(left, doc.y, width, 0.5, RULE);
+        }
+        return height;
+    };
+
+    const headingCells = Object.fromEntries(COLUMNS.map(c => [c.key, c.label]));
+    headingCells.tax = interState ? 'IGST' : 'CGST+SGST';
+    const drawHeading = () => drawRow(headingCells, { heading: true });
+
+    drawHeading();
+    t.items.forEach((item, i) => {
+        const cells = {
+            no: i + 1,
+            description: item.description,
+            hsn: item.hsnCode || '',
+            quantity: item.quantity,
+            rate: (item.price || 0).toFixed(2),
+            discount: item.discount ? `${item.discount}%` : '',
+            taxable: (item.taxableValue || 0).toFixed(2),
+            gstRate: `${item.gstRate || 0}%`,
+            tax: ((item.cgst || 0) + (item.sgst || 0) + (item.igst || 0)).toFixed(2),
+            total: (item.lineTotal || 0).toFixed(2),
+        };
+        const height = doc.font('Helvetica').fontSize(fontSize)
+            .heightOfString(item.description || '', { width: descriptionColumn.width - cellPadding * 2 }) + lineGap * 2;
+        if (doc.y + height > bottom()) {
+            doc.addPage();
+            drawHeading();
+        }
+        drawRow(cells, { shaded: modern && i % 2 === 1 });
+    });
+    doc.y += lineGap * 3;
+
+    // Totals: in a shaded box on Modern, under a rule in the accent otherwise
+    const taxRows = interState ? [['IGST', t.igstAmount]] : [['CGST', t.cgstAmount], ['SGST', t.sgstAmount]];
+    const drawTotals = (totalsX, totalsWidth) => {
+        const padding = modern ? fontSize : 0;
+        const rowX = totalsX + padding;
+        const rowWidth = totalsWidth - padding * 2;
+        const totalRow = (label, value, options = {}) => {
+            const y = doc.y;
+            text(label, rowX, y, { width: rowWidth * 0.5, ...options });
+            text(value, rowX + rowWidth * 0.5, y, { width: rowWidth * 0.5, align: 'right', ...options });
+            doc.y += lineGap;
+        };
+        const grandSize = fontSize * (compact ? 1.15 : 1.3);
+        if (modern) {
+            const rowHeight = (size) => doc.font('Helvetica-Bold').fontSize(size).currentLineHeight(true) + lineGap;
+            const boxHeight = (taxRows.length + 1) * rowHeight(fontSize) + lineGap + rowHeight(grandSize) + padding * 2;
+            doc.roundedRect(totalsX, doc.y, totalsWidth, boxHeight, 6).fill(SHADE);
+        } else {
+            rule(totalsX, doc.y, totalsWidth, 1.5, accent);
+        }
+        doc.y += modern ? padding : lineGap * 2;
+        totalRow('Taxable Value', money(t.taxableAmount));
+        for (const [label, value] of taxRows) totalRow(label, money(value));
+        rule(rowX, doc.y, rowWidth, 1);
+        doc.y += lineGap;
+        totalRow('Grand Total', money(t.totalAmount), { bold: true, size: grandSize, color: modern ? accent : 'black' });
+        doc.y += padding;
+    };
+
+    // Tax breakup by rate, ruled like the items table
+    const breakup = taxBreakup(t.items);
+    const breakupColumns = interState
+        ? [['GST Rate', 0.2], ['Taxable Value', 0.3], ['IGST', 0.25], ['Total Tax', 0.25]]
+        : [['GST Rate', 0.16], ['Taxable Value', 0.24], ['CGST', 0.2], ['SGST', 0.2], ['Total Tax', 0.2]];
+    const breakupHeight = (breakup.length + 3) * (fontSize + lineGap * 2);
+    const drawBreakup = (tableX, tableWidth) => {
+        const breakupRow = (values, heading = false) => {
+            const y = doc.y;
+            const height = fontSize + lineGap * 2;
+            if (heading && compact) doc.rect(tableX, y, tableWidth, height).fill(HEADING_SHADE);
+            const cells = [];
+            let cx = tableX;
+            values.forEach((value, i) => {
+                const columnWidth = breakupColumns[i][1] * tableWidth;
+                text(value, cx + cellPadding, y + lineGap, { bold: heading, width: columnWidth - cellPadding * 2, align: i === 0 ? 'left' : 'right' });
+                cells.push([cx, columnWidth]);
+                cx += columnWidth;
+            });
+            doc.y = y + height;
+            if (compact) {
+                cells.forEach(([cellX, cellWidth]) => doc.rect(cellX, y, cellWidth, height));
+                doc.lineWidth(0.5).strokeColor(GRID).stroke().strokeColor('black');
+            } else {
+                rule(tableX, doc.y, tableWidth, 0.5, RULE);
+            }
+        };
+        text('Tax Breakup', tableX, doc.y, { bold: true, width: tableWidth, color: compact ? '#555' : 'black' });
+        doc.y += lineGap / 2;
+        breakupRow(breakupColumns.map(([label]) => label), true);
+        for (const row of breakup) {
+            const tax = row.cgst + row.sgst + row.igst;
+            breakupRow(interState
+                ? [`${row.rate}%`, money(row.taxable), money(row.igst), money(tax)]
+                : [`${row.rate}%`, money(row.taxable), money(row.cgst), money(row.sgst), money(tax)]);
+        }
+    };
+
+    const drawAmountInWords = () => {
+        ensureSpace(fontSize * 3);
+        text('Amount in words:', left, doc.y, { bold: true, width });
+        text(amountInWords(t.totalAmount), left, doc.y, { width });
+        doc.y += lineGap * 3;
+    };
+
+    if (compact) {
+        // Breakup and totals side by side
+        ensureSpace(Math.max(breakupHeight, fontSize * 8));
+        const blockTop = doc.y;
+        drawBreakup(left, width * 0.48);
+        const breakupBottom = doc.y;
+        doc.y = blockTop;
+        drawTotals(left + width * 0.52, width * 0.48);
+        doc.y = Math.max(doc.y, breakupBottom) + lineGap * 3;
+        drawAmountInWords();
+    } else {
+        ensureSpace(fontSize * 8);
+        drawTotals(left + width * 0.55, width * 0.45);
+        doc.y += lineGap;
+        drawAmountInWords();
+        ensureSpace(breakupHeight);
+        drawBreakup(left, width);
+        doc.y += lineGap * 3;
+    }
+
+    if (t.notes) {
+        ensureSpace(fontSize * 4);
+        text('Notes', left, doc.y, { bold: true, width });
+        text(t.notes, left, doc.y, { width });
+        doc.y += lineGap * 3;
+    }
+
+    // Bank details and terms on the left, signature on the right
+    ensureSpace(fontSize * 10);
+    const blockTop = doc.y;
+    const termsWidth = width * 0.6;
+    if (CUSTOMER_TYPES.includes(t.type) && (bank.accountNumber || bank.upiId)) {
+        text('Payment Details', left, doc.y, { bold: true, width: termsWidth });
+        if (bank.accountName) text(`A/c Name: ${bank.accountName}`, left, doc.y, { width: termsWidth });
+        if (bank.bankName) text(`Bank: ${bank.bankName}${bank.branch ? `, ${bank.branch}` : ''}`, left, doc.y, { width: termsWidth });
+        if (bank.accountNumber) text(`A/c No.: ${bank.accountNumber}`, left, doc.y, { width: termsWidth });
+        if (bank.ifsc) text(`IFSC: ${bank.ifsc}`, left, doc.y, { width: termsWidth });
+        if (bank.upiId) text(`UPI: ${bank.upiId}`, left, doc.y, { width: termsWidth });
+        doc.y += lineGap * 2;
+    }
+    if (template.showTerms !== false && settings?.terms) {
+        text('Terms & Conditions', left, doc.y, { bold: true, width: termsWidth });
+        text(settings.terms, left, doc.y, { width: termsWidth, size: fontSize * 0.9 });
+    }
+    const termsBottom = doc.y;
+
+    if (template.showSignature !== false) {
+        const signX = left + width * 0.65;
+        const signWidth = width * 0.35;
+        text(`For ${sellerName}`, signX, blockTop, { width: signWidth, align: 'center' });
+        // Without a readable image the line is left blank for a hand signature
+        const signature = loadImage(profile.signature);
+        const signatureTop = doc.y + lineGap;
+        if (signature) doc.image(signature, signX + signWidth * 0.2, signatureTop, { fit: [signWidth * 0.6, fontSize * 5], align: 'center' });
+        doc.y = signatureTop + fontSize * 5 + lineGap;
+        rule(signX + signWidth * 0.1, doc.y, signWidth * 0.8, 0.5);
+        text('Authorised Signatory', signX, doc.y + lineGap, { width: signWidth, align: 'center' });
+    }
+    doc.y = Math.max(doc.y, termsBottom) + lineGap * 3;
+
+    ensureSpace(fontSize * 3);
+    rule(left, doc.y, width, 0.5, RULE);
+    text(template.footerText || 'Thank you for your business!', left, doc.y + lineGap * 2, { width, align: 'center' });
+
+    // Page numbers, written below the bottom margin without starting another page
+    const range = doc.bufferedPageRange();
+    for (let i = range.start; i < range.start + range.count; i++) {
+        doc.switchToPage(i);
+        const { bottom: savedBottom } = doc.page.margins;
+        doc.page.margins.bottom = 0;
+        text(`${t.invoiceNumber} · Page ${i - range.start + 1} of ${range.count}`, left, doc.page.height - margin - fontSize * 1.5, {
+            width, align: 'center', color: '#666', size: fontSize * 0.9, lineBreak: false,
+        });
+        doc.page.margins.bottom = savedBottom;
+    }
+
+    doc.end();
+});
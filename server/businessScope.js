@@ -0,0 +1,58 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+// One installation keeps the books of several businesses. Each request (and each
+// startup job) runs inside one of them, and every query on a scoped collection is
+// limited to that business here rather than route by route, so a query that
+// forgets to filter can't reach another firm's data.
+const context = new AsyncLocalStorage();
+
+// Runs fn with every scoped query limited to the business
+export const runInBusiness = (businessId, fn) => context.run({ businessId }, fn);
+
+export const currentBusinessId = () => {
+    const businessId = context.getStore()?.businessId;
+    if (!businessId) throw new Error('No business selected for this query');
+    return businessId;
+};
+
+const QUERY_HOOKS = [
+    'find', 'findOne', 'countDocuments', 'distinct',
+    'updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne', 'findOneAndReplace',
+    'deleteOne', 'deleteMany', 'findOneAndDelete',
+];
+
+// Schema plugin: adds businessId, filters every query by the current business,
+// stamps it on new records and never lets an update move a record to another one
+export const businessScoped = (schema) => {
+    schema.add({ businessId: { type: String, required: true } }); // Leads each model's unique indexes
+
+    schema.pre(QUERY_HOOKS, function () {
+        const businessId = currentBusinessId();
+        const update = this.getUpdate();
+        if (update) {
+            delete update.businessId;
+            delete update.$set?.businessId;
+            this.setUpdate(update);
+        }
+        this.where({ businessId });
+    });
+
+    schema.pre('save', function () {
+        const businessId = currentBusinessId();
+        if (this.isNew) {
+            this.businessId = businessId;
+        } else if (this.businessId !== businessId) {
+            throw new Error('This record belongs to another business');
+        }
+    });
+
+    schema.pre('insertMany', function (next, docs) {
+        const businessId = currentBusinessId();
+        for (const doc of docs) doc.businessId = businessId;
+        next();
+    });
+
+    schema.pre('aggregate', function () {
+        this.pipeline().unshift({ $match: { businessId: currentBusinessId() } });
+    });
+};
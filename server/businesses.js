@@ -0,0 +1,85 @@
+import {
+    Business, User, AuditLog, CostLayer, Counter, Inventory, Location, Party, Payment, Product, Settings,
+    StockMovement, StockTransfer, Stocktake, Transaction
+} from './models.js';
+import { runInBusiness } from './businessScope.js';
+
+const SCOPED_MODELS = [
+    Inventory, Transaction, Payment, Party, Product, StockMovement, CostLayer,
+    Settings, Counter, Location, StockTransfer, Stocktake, AuditLog
+];
+
+const FIRST_BUSINESS_NAME = 'My Business';
+
+export const canAccessBusiness = (user, businessId) =>
+    user.role === 'OWNER' || (user.businessIds || []).includes(businessId);
+
+// Businesses the user may switch between, oldest first
+export const findBusinessesFor = async (user) => {
+    const businesses = await Business.find().sort({ createdAt: 1 });
+    return businesses.filter(b => canAccessBusiness(user, b.id));
+};
+
+// Middleware: every route behind it works in the business named by the
+// X-Business-Id header, and only sees that business's records
+export const selectBusiness = async (req, res, next) => {
+    try {
+        const id = req.headers['x-business-id'];
+        const business = id && await Business.findOne({ id });
+        if (!business) {
+            return res.status(400).json({ message: 'Pick a business to work in' });
+        }
+        if (!canAccessBusiness(req.user, business.id)) {
+            return res.status(403).json({ message: `You don't have access to ${business.name}` });
+        }
+        req.business = business;
+        runInBusiness(business.id, next);
+    } catch (err) {
+        res.status(500).json({ message: err.message });
+    }
+};
+
+// Returns an error message or null
+export const validateBusiness = async (business) => {
+    if (!business.id) return 'Business id is required';
+    if (!business.name || !business.name.trim()) return 'Business name is required';
+    const name = business.name.trim().toLowerCase();
+    const others = await Business.find({ id: { $ne: business.id } });
+    const clash = others.find(b => b.name.toLowerCase() === name);
+    return clash ? `A business named "${clash.name}" already exists` : null;
+};
+
+// Runs a job once for each business, e.g. the startup migrations
+export const forEachBusiness = async (job) => {
+    for (const business of await Business.find().sort({ createdAt: 1 })) {
+        await runInBusiness(business.id, job);
+    }
+};
+
+// The business a fresh install or a pre-business database starts with
+export const firstBusiness = () => Business.findOne().sort({ createdAt: 1 });
+
+// Before businesses, one installation was one firm. Its records, and the users
+// who worked on them, move into a first business. Runs on the raw collections,
+// since scoped queries only ever see records that already have a business.
+export const migrateToBusinesses = async () => {
+    let business = await firstBusiness();
+    if (!business) {
+        business = await Business.create({ id: Date.now().toString(), name: FIRST_BUSINESS_NAME });
+        await User.updateMany({ businessIds: { $exists: false } }, { $set: { businessIds: [business.id] } });
+    }
+
+    let moved = 0;
+    for (const model of SCOPED_MODELS) {
+        const { modifiedCount } = await model.collection.updateMany(
+            { businessId: { $exists: false } },
+            { $set: { businessId: business.id } }
+        );
+        moved += modifiedCount;
+    }
+    if (moved > 0) {
+        // The unique indexes are per business now; the old installation-wide ones go
+        for (const model of SCOPED_MODELS) await model.syncIndexes();
+        console.log(`Moved ${moved} existing record(s) into "${business.name}"`);
+    }
+};
@@ -0,0 +1,308 @@
+// Builds GSTR-1 and GSTR-3B JSON (GST offline tool format) from saved transactions.
+// Credit notes are sales returns: GSTR-1 reports them and they come off outward
+// supplies. Debit notes are purchase returns to vendors: they only take back input
+// tax credit in GSTR-3B.
+
+export const GSTIN_PATTERN = /^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+const B2CL_LIMIT = 250000; // Inter-state B2C invoices above this are reported individually
+
+const round2 = (value) => Math.round(value * 100) / 100;
+
+const pad2 = (n) => String(n).padStart(2, '0');
+
+// "2024-02" -> { start, end, fp: "022024" }
+export const parsePeriod = (period) => {
+    const match = /^(\d{4})-(\d{2})$/.exec(period || '');
+    if (!match) return null;
+    const year = Number(match[1]);
+    const month = Number(match[2]);
+    if (month < 1 || month > 12) return null;
+    return {
+        start: new Date(Date.UTC(year, month - 1, 1)),
+        end: new Date(Date.UTC(year, month, 1)),
+        fp: `${pad2(month)}${year}`,
+    };
+};
+
+const formatDate = (date) => {
+    const d = new Date(date);
+    return `${pad2(d.getUTCDate())}-${pad2(d.getUTCMonth() + 1)}-${d.getUTCFullYear()}`;
+};
+
+const lineTax = (item) => (item.cgst || 0) + (item.sgst || 0) + (item.igst || 0);
+
+const taxableOf = (item) => item.taxableValue ?? (item.quantity || 0) * (item.price || 0);
+
+const isInterState = (t, homeState) => (t.placeOfSupply || homeState) !== homeState;
+
+// Lists problems per invoice so they can be fixed before filing
+export const validateForReturns = (transactions, { gstin }) => {
+    const issues = [];
+
+    if (!gstin || !GSTIN_PATTERN.test(gstin)) {
+        issues.push({
+            returnType: 'GSTR1',
+            invoiceId: null,
+            invoiceNumber: '-',
+            partyName: 'Business profile',
+            messages: ['Business GSTIN is missing or invalid (add it under Settings → Business Profile)'],
+        });
+    }
+
+    for (const t of transactions) {
+        const messages = [];
+        const isOutward = t.type === 'SALE' || t.type === 'CREDIT_NOTE';
+
+        if (t.partyGstin && !GSTIN_PATTERN.test(t.partyGstin)) {
+            messages.push(`GSTIN "${t.partyGstin}" is not a valid format`);
+        }
+        if (t.type === 'PURCHASE' && !t.partyGstin) {
+            messages.push('Vendor GSTIN is missing, input tax credit cannot be claimed');
+        }
+        if (isOutward && !t.placeOfSupply) {
+            messages.push('Place of supply is missing');
+        }
+        t.items.forEach((item, index) => {
+            if (isOutward && !item.hsnCode) {
+                messages.push(`Line ${index + 1} (${item.description || 'unnamed'}) has no HSN/SAC code`);
+            }
+            if (item.taxableValue === undefined || item.taxableValue === null) {
+                messages.push(`Line ${index + 1} (${item.description || 'unnamed'}) has no tax breakup, re-save the invoice`);
+            }
+        });
+
+        if (messages.length > 0) {
+            issues.push({
+                returnType: isOutward ? 'GSTR1' : 'GSTR3B',
+                invoiceId: t.id,
+                invoiceNumber: t.invoiceNumber,
+                partyName: t.partyName,
+                messages,
+            });
+        }
+    }
+
+    return issues;
+};
+
+// Groups an invoice's lines by GST rate, as the portal expects one row per rate
+const itemsByRate = (t) => {
+    const byRate = {};
+    for (const item of t.items) {
+        const rt = item.gstRate || 0;
+        if (!byRate[rt]) byRate[rt] = { txval: 0, rt, iamt: 0, camt: 0, samt: 0, csamt: 0 };
+        byRate[rt].txval += taxableOf(item);
+        byRate[rt].iamt += item.igst || 0;
+        byRate[rt].camt += item.cgst || 0;
+        byRate[rt].samt += item.sgst || 0;
+    }
+    return Object.values(byRate).map(r => ({
+        ...r,
+        txval: round2(r.txval),
+        iamt: round2(r.iamt),
+        camt: round2(r.camt),
+        samt: round2(r.samt),
+    }));
+};
+
+// HSN-wise summary rows; credit notes pass sign -1 to take their lines back out
+const addToHsn = (hsn, t, sign) => {
+    for (const item of t.items) {
+        const code = item.hsnCode || 'NA';
+        const rt = item.gstRate || 0;
+        const key = `${code}|${rt}`;
+        if (!hsn[key]) {
+            hsn[key] = { hsn_sc: code, desc: item.description, uqc: 'NOS', rt, qty: 0, val: 0, txval: 0, iamt: 0, camt: 0, samt: 0, csamt: 0 };
+        }
+        hsn[key].qty += sign * (item.quantity || 0);
+        hsn[key].txval += sign * taxableOf(item);
+        hsn[key].val += sign * (taxableOf(item) + lineTax(item));
+        hsn[key].iamt += sign * (item.igst || 0);
+        hsn[key].camt += sign * (item.cgst || 0);
+        hsn[key].samt += sign * (item.sgst || 0);
+    }
+};
+
+// Small B2C supplies are reported as one row per state and rate; credit notes
+// pass sign -1 to net off against them
+const addToB2cs = (b2cs, t, homeState, sign) => {
+    const pos = t.placeOfSupply || homeState;
+    const interState = isInterState(t, homeState);
+    for (const r of itemsByRate(t)) {
+        const key = `${pos}|${r.rt}`;
+        if (!b2cs[key]) {
+            b2cs[key] = { sply_ty: interState ? 'INTER' : 'INTRA', pos, typ: 'OE', rt: r.rt, txval: 0, iamt: 0, camt: 0, samt: 0, csamt: 0 };
+        }
+        b2cs[key].txval += sign * r.txval;
+        b2cs[key].iamt += sign * r.iamt;
+        b2cs[key].camt += sign * r.camt;
+        b2cs[key].samt += sign * r.samt;
+    }
+};
+
+const sortNumbers = (list) => list.map(t => t.invoiceNumber).sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+
+const documentRange = (docNum, numbers) => ({
+    doc_num: docNum,
+    docs: [{ num: 1, from: numbers[0], to: numbers[numbers.length - 1], totnum: numbers.length, cancel: 0, net_issue: numbers.length }],
+});
+
+export const buildGstr1 = (transactions, { gstin, fp, homeState }) => {
+    const sales = transactions.filter(t => t.type === 'SALE');
+    const creditNotes = transactions.filter(t => t.type === 'CREDIT_NOTE');
+
+    const b2bByParty = {};
+    const b2cl = {};
+    const b2cs = {};
+    const cdnrByParty = {};
+    const cdnur = [];
+    const hsn = {};
+
+    for (const t of sales) {
+        const pos = t.placeOfSupply || homeState;
+        const interState = isInterState(t, homeState);
+        const rates = itemsByRate(t);
+
+        if (t.partyGstin) {
+            if (!b2bByParty[t.partyGstin]) b2bByParty[t.partyGstin] = { ctin: t.partyGstin, inv: [] };
+            b2bByParty[t.partyGstin].inv.push({
+                inum: t.invoiceNumber,
+                idt: formatDate(t.date),
+                val: round2(t.totalAmount),
+                pos,
+                rchrg: 'N',
+                inv_typ: 'R',
+                itms: rates.map((r, i) => ({ num: i + 1, itm_det: r })),
+            });
+        } else if (interState && t.totalAmount > B2CL_LIMIT) {
+            if (!b2cl[pos]) b2cl[pos] = { pos, inv: [] };
+            b2cl[pos].inv.push({
+                inum: t.invoiceNumber,
+                idt: formatDate(t.date),
+                val: round2(t.totalAmount),
+                itms: rates.map((r, i) => ({ num: i + 1, itm_det: { txval: r.txval, rt: r.rt, iamt: r.iamt, csamt: 0 } })),
+            });
+        } else {
+            addToB2cs(b2cs, t, homeState, 1);
+        }
+        addToHsn(hsn, t, 1);
+    }
+
+    // Notes to registered parties go in cdnr and inter-state ones to unregistered
+    // buyers in cdnur; the portal takes no intra-state B2C notes, so those net
+    // off the B2C rows instead
+    for (const t of creditNotes) {
+        const pos = t.placeOfSupply || homeState;
+        const interState = isInterState(t, homeState);
+        const rates = itemsByRate(t);
+        const note = { ntty: 'C', nt_num: t.invoiceNumber, nt_dt: formatDate(t.date), val: round2(t.totalAmount), pos };
+
+        if (t.partyGstin) {
+            if (!cdnrByParty[t.partyGstin]) cdnrByParty[t.partyGstin] = { ctin: t.partyGstin, nt: [] };
+            cdnrByParty[t.partyGstin].nt.push({
+                ...note,
+                rchrg: 'N',
+                inv_typ: 'R',
+                itms: rates.map((r, i) => ({ num: i + 1, itm_det: r })),
+            });
+        } else if (interState) {
+            cdnur.push({
+                typ: 'B2CL',
+                ...note,
+                itms: rates.map((r, i) => ({ num: i + 1, itm_det: { txval: r.txval, rt: r.rt, iamt: r.iamt, csamt: 0 } })),
+            });
+        } else {
+            addToB2cs(b2cs, t, homeState, -1);
+        }
+        addToHsn(hsn, t, -1);
+    }
+
+    const roundRow = (row) => ({
+        ...row,
+        txval: round2(row.txval),
+        iamt: round2(row.iamt),
+        camt: round2(row.camt),
+        samt: round2(row.samt),
+        ...(row.val !== undefined ? { val: round2(row.val) } : {}),
+    });
+
+    const invoiceNumbers = sortNumbers(sales);
+    const noteNumbers = sortNumbers(creditNotes);
+
+    return {
+        gstin,
+        fp,
+        b2b: Object.values(b2bByParty),
+        b2cl: Object.values(b2cl),
+        b2cs: Object.values(b2cs).map(roundRow),
+        cdnr: Object.values(cdnrByParty),
+        cdnur,
+        hsn: { data: Object.values(hsn).map((row, i) => ({ num: i + 1, ...roundRow(row) })) },
+        doc_issue: {
+            doc_det: [
+                ...(invoiceNumbers.length > 0 ? [documentRange(1, invoiceNumbers)] : []), // Invoices for outward supply
+                ...(noteNumbers.length > 0 ? [documentRange(5, noteNumbers)] : []), // Credit notes
+            ],
+        },
+    };
+};
+
+export const buildGstr3b = (transactions, { gstin, fp }) => {
+    const sum = (list) => {
+        const totals = { txval: 0, iamt: 0, camt: 0, samt: 0, csamt: 0 };
+        for (const t of list) {
+            totals.txval += t.taxableAmount ?? t.totalAmount;
+            totals.iamt += t.igstAmount || 0;
+            totals.camt += t.cgstAmount || 0;
+            totals.samt += t.sgstAmount || 0;
+        }
+        return {
+            txval: round2(totals.txval),
+            iamt: round2(totals.iamt),
+            camt: round2(totals.camt),
+            samt: round2(totals.samt),
+            csamt: 0,
+        };
+    };
+
+    const less = (a, b) => Object.fromEntries(Object.keys(a).map(key => [key, round2(a[key] - b[key])]));
+    const taxOf = (list) => {
+        const { txval, ...tax } = sum(list);
+        return tax;
+    };
+    const withVendorGstin = (type) => transactions.filter(t => t.type === type && GSTIN_PATTERN.test(t.partyGstin || ''));
+
+    // Table 3.1: sales less the credit notes against them
+    const outward = less(sum(transactions.filter(t => t.type === 'SALE')), sum(transactions.filter(t => t.type === 'CREDIT_NOTE')));
+    // Table 4: only purchases backed by a valid vendor GSTIN are eligible for input
+    // tax credit, and goods returned on debit notes give back what was claimed
+    const available = taxOf(withVendorGstin('PURCHASE'));
+    const reversed = taxOf(withVendorGstin('DEBIT_NOTE'));
+    const itc = less(available, reversed);
+
+    const payable = {
+        iamt: round2(Math.max(outward.iamt - itc.iamt, 0)),
+        camt: round2(Math.max(outward.camt - itc.camt, 0)),
+        samt: round2(Math.max(outward.samt - itc.samt, 0)),
+    };
+
+    return {
+        gstin,
+        ret_period: fp,
+        sup_details: {
+            osup_det: outward,
+        },
+        itc_elg: {
+            itc_avl: [{ ty: 'OTH', ...available }],
+            itc_rev: [{ ty: 'OTH', ...reversed }],
+            itc_net: itc,
+        },
+        // Not part of the portal schema: simple output vs input view for the accountant
+        summary: {
+            outputTax: round2(outward.iamt + outward.camt + outward.samt),
+            inputTaxCredit: round2(itc.iamt + itc.camt + itc.samt),
+            netPayable: round2(payable.iamt + payable.camt + payable.samt),
+            payable,
+        },
+    };
+};
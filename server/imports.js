@@ -0,0 +1,273 @@
+import mongoose from 'mongoose';
+import { Inventory, Location, Party, Payment, Product, Stocktake, Transaction, PAYMENT_MODES } from './models.js';
+import { GSTIN_PATTERN } from './gstReturns.js';
+import { getSettings, homeStateOf } from './settings.js';
+import { isEmailAddress } from './mailer.js';
+import { normalizePartyName } from './parties.js';
+import { nextSku } from './products.js';
+import { postStock, postAdjustment } from './stock.js';
+import { keepNumber, assignNumber, nextRunningNumber } from './numbering.js';
+import { applyLocations, locationQuantity } from './locations.js';
+import { POSTING_TYPES, isOrderType, prepareOrder } from './orders.js';
+import { deriveStatus } from './payments.js';
+import { applyTaxes } from './taxes.js';
+import { recordAudit, transactionLabel } from './audit.js';
+
+// Parties, opening stock and past documents brought over from another system in
+// one go. The app reads the spreadsheets, maps their columns and works out line
+// taxes; every row is checked here against the books, and nothing is written
+// unless all of them pass.
+//
+// Rows carry their line number in the file (row) so problems can be pointed at.
+// New parties and products come with ids picked by the app, which the opening
+// stock and documents in the same import refer to. Line taxes and totals are
+// worked out again here rather than taken from the app.
+
+// Credit / debit notes are left out: they need the invoice they return goods from
+export const IMPORT_TYPES = ['SALE', 'PURCHASE', 'QUOTATION', 'PURCHASE_ORDER'];
+
+const PARTY_TYPES = ['CUSTOMER', 'VENDOR', 'BOTH'];
+const STATE_CODE_PATTERN = /^[0-9]{2}$/;
+
+const isAmount = (value) => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+const isDate = (value) => !!value && !Number.isNaN(new Date(value).getTime());
+const newId = () => new mongoose.Types.ObjectId().toString();
+
+// Every problem with the rows as { section, row, message }; row is unset for
+// problems with a whole section. Numbers documents that bring their own, prices
+// their lines and settles their locations and order status, ready for postImport.
+export const checkImport = async ({ parties = [], products = [], openingStock, transactions = [] }) => {
+    const errors = [];
+    const fail = (section, row, message) => errors.push({ section, row, message });
+
+    const existingParties = await Party.find();
+    const takenNames = new Set(existingParties.map(p => normalizePartyName(p.name)));
+    const partyIds = new Set(existingParties.map(p => p.id));
+    const seenNames = new Set();
+    for (const party of parties) {
+        const key = normalizePartyName(party.name);
+        if (!key) fail('PARTIES', party.row, 'Name is required');
+        else if (takenNames.has(key)) fail('PARTIES', party.row, `A party named "${party.name}" already exists`);
+        else if (seenNames.has(key)) fail('PARTIES', party.row, `"${party.name}" is in the file more than once`);
+        if (!PARTY_TYPES.includes(party.type)) fail('PARTIES', party.row, 'Type must be Customer, Vendor or Both');
+        if (party.gstin && !GSTIN_PATTERN.test(party.gstin)) fail('PARTIES', party.row, `${party.gstin} is not a valid GSTIN`);
+        if (party.state && !STATE_CODE_PATTERN.test(party.state)) fail('PARTIES', party.row, 'State must be a GST state code or name');
+        if (party.email && !isEmailAddress(party.email)) fail('PARTIES', party.row, `${party.email} is not an email address`);
+        if (!isAmount(party.paymentTermsDays ?? 0) || !isAmount(party.creditLimit ?? 0)) {
+            fail('PARTIES', party.row, 'Payment terms and credit limit must be zero or more');
+        }
+        if (partyIds.has(party.id)) fail('PARTIES', party.row, `Id ${party.id} is already used by another party`);
+        seenNames.add(key);
+        partyIds.add(party.id);
+    }
+
+    const existingProducts = await Product.find();
+    const skus = new Set(existingProducts.map(p => p.sku));
+    const productIds = new Set(existingProducts.map(p => p.id));
+    for (const product of products) {
+        if (!product.name?.trim()) fail('OPENING_STOCK', product.row, 'Product name is required');
+        if (product.sku && skus.has(product.sku)) fail('OPENING_STOCK', product.row, `SKU ${product.sku} is already used`);
+        if (!isAmount(product.gstRate ?? 0) || !isAmount(product.sellingPrice ?? 0)) {
+            fail('OPENING_STOCK', product.row, 'GST rate and selling price must be zero or more');
+        }
+        if (productIds.has(product.id)) fail('OPENING_STOCK', product.row, `Id ${product.id} is already used by another product`);
+        if (product.sku) skus.add(product.sku);
+        productIds.add(product.id);
+    }
+
+    const locationIds = new Set((await Location.find()).map(l => l.id));
+    const openingLines = openingStock?.lines || [];
+    if (openingLines.length > 0 && !isDate(openingStock.date)) {
+        fail('OPENING_STOCK', null, 'Pick the date the opening stock is counted as of');
+    }
+    for (const line of openingLines) {
+        if (!productIds.has(line.productId)) fail('OPENING_STOCK', line.row, 'Product not found');
+        if (!locationIds.has(line.locationId)) fail('OPENING_STOCK', line.row, 'Stock location not found');
+        if (!(line.quantity > 0)) fail('OPENING_STOCK', line.row, 'Quantity must be more than zero');
+        if (!isAmount(line.unitCost)) fail('OPENING_STOCK', line.row, 'Unit cost must be zero or more');
+    }
+    // Stock is replayed in date order, so bills before the opening stock would sell goods not yet there
+    const openingDate = openingLines.length > 0 && isDate(openingStock.date) ? new Date(openingStock.date) : null;
+
+    const homeState = homeStateOf(await getSettings());
+    const numberKeys = new Set();
+    const transactionIds = new Set();
+    for (const transaction of transactions) {
+        const problem = (message) => fail('TRANSACTIONS', transaction.row, message);
+        if (!IMPORT_TYPES.includes(transaction.type)) {
+            problem('Type must be Sale, Purchase, Quotation or Purchase Order');
+            continue;
+        }
+        if (!partyIds.has(transaction.partyId)) problem('Party not found');
+        if (!isDate(transaction.date)) {
+            problem('Date is missing or not a date');
+        } else if (openingDate && POSTING_TYPES.includes(transaction.type) && new Date(transaction.date) < openingDate) {
+            problem('Dated before the opening stock');
+        }
+        if (transaction.dueDate && !isDate(transaction.dueDate)) problem('Due date is not a date');
+        if (transactionIds.has(transaction.id) || await Transaction.exists({ id: transaction.id })) {
+            problem(`Id ${transaction.id} is already used by another document`);
+        }
+        transactionIds.add(transaction.id);
+        if (!transaction.items?.length) problem('No lines');
+
+        const errorsBeforeLines = errors.length;
+        for (const item of transaction.items || []) {
+            if (!productIds.has(item.productId)) fail('TRANSACTIONS', item.row, 'Product not found');
+            if (item.locationId && !locationIds.has(item.locationId)) fail('TRANSACTIONS', item.row, 'Stock location not found');
+            if (!(item.quantity > 0)) fail('TRANSACTIONS', item.row, 'Quantity must be more than zero');
+            if (!isAmount(item.price) || !isAmount(item.gstRate ?? 0)) fail('TRANSACTIONS', item.row, 'Price and GST rate must be zero or more');
+            if (!isAmount(item.discount ?? 0) || item.discount > 100) fail('TRANSACTIONS', item.row, 'Discount must be 0 to 100%');
+        }
+        if (transaction.items?.length && errors.length === errorsBeforeLines) {
+            applyTaxes(transaction, homeState);
+            // Settled here as the app's save route does, so what it would refuse stops the import
+            const prepared = (isOrderType(transaction.type) && await prepareOrder(transaction))
+                || await applyLocations(transaction);
+            if (prepared) problem(prepared);
+        }
+
+        if (transaction.type === 'PURCHASE' && !(transaction.invoiceNumber || '').trim()) {
+            problem("Enter the vendor's invoice number");
+        } else if ((transaction.invoiceNumber || '').trim() && isDate(transaction.date)) {
+            keepNumber(transaction);
+            if (numberKeys.has(transaction.numberKey)) {
+                problem(`${transaction.invoiceNumber} is in the file more than once`);
+            } else if (await Transaction.exists({ numberKey: transaction.numberKey })) {
+                problem(`${transaction.invoiceNumber} is already recorded`);
+            }
+            numberKeys.add(transaction.numberKey);
+        }
+
+        const { payment } = transaction;
+        if (payment) {
+            if (isOrderType(transaction.type)) {
+                problem('Quotations and purchase orders take no payments');
+            } else if (!(payment.amount > 0) || payment.amount - transaction.totalAmount > 0.005) {
+                problem(`Amount paid must be between ₹0.01 and the total of ₹${(transaction.totalAmount || 0).toFixed(2)}`);
+            }
+            if (!PAYMENT_MODES.includes(payment.mode)) problem('Payment mode must be Cash, UPI, Cheque, Bank, Card or Other');
+        }
+    }
+
+    return errors;
+};
+
+// Opening stock is booked as a posted stock count, each line a surplus over what
+// the books held, so it shows in stock history like any other adjustment
+const postOpeningStock = async ({ date, lines }, user, session) => {
+    const stocktake = new Stocktake({
+        id: newId(),
+        stocktakeNumber: await nextRunningNumber('ST', date, session),
+        date,
+        status: 'Posted',
+        postedAt: new Date(),
+        notes: 'Opening stock, imported',
+        lines: [],
+    });
+
+    for (const line of lines) {
+        const product = await Product.findOne({ id: line.productId }).session(session);
+        const invItem = await Inventory.findOne({ id: line.productId }).session(session);
+        const systemQuantity = locationQuantity(invItem, line.locationId);
+        const unitCost = await postAdjustment({
+            productId: line.productId,
+            locationId: line.locationId,
+            quantity: line.quantity,
+            unitCost: line.unitCost,
+            date,
+            sourceId: stocktake.id,
+            sourceNumber: stocktake.stocktakeNumber,
+            notes: 'Opening stock',
+        }, session);
+        stocktake.lines.push({
+            productId: product.id,
+            name: product.name,
+            sku: product.sku,
+            locationId: line.locationId,
+            systemQuantity,
+            countedQuantity: systemQuantity + line.quantity,
+            unitCost,
+            adjustment: line.quantity,
+        });
+    }
+
+    await stocktake.save({ session });
+    await recordAudit({ user, action: 'CREATE', entityType: 'STOCKTAKE', entityId: stocktake.id, label: stocktake.stocktakeNumber, after: stocktake }, session);
+    return stocktake;
+};
+
+// One past document, posted as it was: finalised, with its own number when it
+// has one, and paid up to the amount given. checkImport has already settled its
+// locations and, for an order, its status.
+const postDocument = async ({ payment, ...transaction }, user, session) => {
+    if (!isOrderType(transaction.type)) {
+        transaction.amountPaid = payment?.amount || 0;
+        transaction.amountCredited = 0;
+        transaction.status = deriveStatus(transaction, transaction.amountPaid);
+    }
+    if (transaction.invoiceNumber) {
+        keepNumber(transaction);
+    } else {
+        await assignNumber(transaction, null, session);
+    }
+    await postStock(transaction, 1, session);
+
+    const [saved] = await Transaction.create([transaction], { session });
+    await recordAudit({ user, action: 'CREATE', entityType: 'TRANSACTION', entityId: saved.id, label: transactionLabel(saved), after: saved }, session);
+
+    if (payment && !isOrderType(transaction.type)) {
+        const [received] = await Payment.create([{
+            id: `pay-${saved.id}`,
+            invoiceId: saved.id,
+            date: saved.date,
+            amount: payment.amount,
+            mode: payment.mode,
+            notes: 'Imported',
+        }], { session });
+        await recordAudit({
+            user,
+            action: 'CREATE',
+            entityType: 'PAYMENT',
+            entityId: received.id,
+            parentId: saved.id,
+            label: `Payment on ${saved.invoiceNumber}`,
+            after: received,
+        }, session);
+    }
+    return saved;
+};
+
+// Writes a checked import inside the caller's transaction: parties and products
+// first, then the opening stock, then the documents oldest first so stock and
+// cost build up in the order it happened. The negative stock policy isn't
+// applied; these sales already took place.
+export const postImport = async ({ parties = [], products = [], openingStock, transactions = [] }, user, session) => {
+    const created = { parties: [], products: [], stocktake: null, transactions: [] };
+
+    for (const party of parties) {
+        const [saved] = await Party.create([party], { session });
+        await recordAudit({ user, action: 'CREATE', entityType: 'PARTY', entityId: saved.id, label: saved.name, after: saved }, session);
+        created.parties.push(saved);
+    }
+
+    for (const product of products) {
+        const [saved] = await Product.create([{
+            ...product,
+            sku: product.sku || await nextSku(session),
+            purchasePrice: product.purchasePrice ?? 0,
+        }], { session });
+        await recordAudit({ user, action: 'CREATE', entityType: 'PRODUCT', entityId: saved.id, label: saved.name, after: saved }, session);
+        created.products.push(saved);
+    }
+
+    if (openingStock?.lines?.length) {
+        created.stocktake = await postOpeningStock(openingStock, user, session);
+    }
+
+    const oldestFirst = [...transactions].sort((a, b) => new Date(a.date) - new Date(b.date));
+    for (const transaction of oldestFirst) {
+        created.transactions.push(await postDocument(transaction, user, session));
+    }
+    return created;
+};
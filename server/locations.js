@@ -0,0 +1,78 @@
+import { Inventory, Location, StockTransfer, Stocktake, Transaction } from './models.js';
+
+// Stock is held at locations, e.g. a shop and a godown. Quantities are split by
+// location; cost stays business-wide, so moving goods between them changes no value.
+const FIRST_LOCATION = { id: 'main', name: 'Main', isDefault: true };
+
+export const locationQuantity = (invItem, locationId) =>
+    invItem?.locations?.find(l => l.locationId === locationId)?.quantity || 0;
+
+// Adds delta to the quantity at a location; returns the new quantity there
+export const adjustLocation = (invItem, locationId, delta) => {
+    const entry = invItem.locations.find(l => l.locationId === locationId);
+    if (entry) {
+        entry.quantity += delta;
+        return entry.quantity;
+    }
+    invItem.locations.push({ locationId, quantity: delta });
+    return delta;
+};
+
+// Fills in the stock location of a document and each of its lines: lines default
+// to the document's, the document to the business default. Returns an error
+// message if one of them doesn't exist.
+export const applyLocations = async (transaction) => {
+    const locations = await Location.find();
+    const known = new Set(locations.map(l => l.id));
+
+    if (!transaction.locationId) {
+        transaction.locationId = (locations.find(l => l.isDefault) || locations[0])?.id;
+    }
+    if (!known.has(transaction.locationId)) {
+        return 'Pick a stock location';
+    }
+    for (const item of transaction.items) {
+        item.locationId = item.locationId || transaction.locationId;
+        if (!known.has(item.locationId)) {
+            return `${item.description}: pick a stock location`;
+        }
+    }
+    return null;
+};
+
+// Why a location can't be deleted, or null when nothing refers to it
+export const findLocationUsage = async (id) => {
+    const location = await Location.findOne({ id });
+    if (location?.isDefault) return 'Make another location the default before deleting this one';
+
+    const inUse = await Transaction.exists({ $or: [{ locationId: id }, { 'items.locationId': id }] })
+        || await StockTransfer.exists({ $or: [{ fromLocationId: id }, { toLocationId: id }] })
+        || await Stocktake.exists({ 'lines.locationId': id })
+        || await Inventory.exists({ locations: { $elemMatch: { locationId: id, quantity: { $ne: 0 } } } });
+    return inUse ? 'This location has stock or documents and cannot be deleted' : null;
+};
+
+// Every business starts with one location, the default
+export const createFirstLocation = () => Location.create(FIRST_LOCATION);
+
+// Before locations, all stock was in one place. Creates that location as the
+// default and puts existing stock and document lines there.
+export const migrateStockLocations = async () => {
+    if (await Location.exists({})) return;
+
+    const location = await createFirstLocation();
+    await Transaction.updateMany({ locationId: null }, { $set: { locationId: location.id } });
+    await Transaction.updateMany(
+        { 'items.locationId': null },
+        { $set: { 'items.$[line].locationId': location.id } },
+        { arrayFilters: [{ 'line.locationId': null }] }
+    );
+
+    const stock = await Inventory.find({ 'locations.0': { $exists: false } });
+    for (const item of stock) {
+        item.locations = [{ locationId: location.id, quantity: item.quantity }];
+        await item.save();
+    }
+
+    console.log(`Created the "${location.name}" stock location for ${stock.length} existing item(s)`);
+};
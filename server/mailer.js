@@ -0,0 +1,65 @@
+import nodemailer from 'nodemailer';
+
+// Sends documents through the business's own mail server (any SMTP server,
+// including a local test one such as MailHog)
+
+const EMAIL_PATTERN = /^[^\s@,;]+@[^\s@,;]+\.[^\s@,;]+$/;
+
+const DOCUMENT_NAMES = {
+    SALE: 'Bill',
+    PURCHASE: 'Invoice',
+    QUOTATION: 'Quotation',
+    PURCHASE_ORDER: 'Purchase Order',
+    CREDIT_NOTE: 'Credit Note',
+    DEBIT_NOTE: 'Debit Note',
+};
+
+export const isEmailAddress = (value) => EMAIL_PATTERN.test(value || '');
+
+// "a@x.com, b@y.com" -> list of addresses, or null when any of them isn't one
+export const parseRecipients = (value) => {
+    const addresses = String(value || '').split(/[,;]/).map(a => a.trim()).filter(Boolean);
+    return addresses.length > 0 && addresses.every(isEmailAddress) ? addresses : null;
+};
+
+export const isMailConfigured = (smtp) => !!(smtp?.host && smtp?.fromEmail);
+
+const rupees = (value) => `₹${(value || 0).toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatDate = (date) => date ? new Date(date).toLocaleDateString('en-IN', { day: '2-digit', month: 'short', year: 'numeric' }) : '';
+
+// Fills {party}, {document}, {number}, {amount}, {balance}, {date}, {dueDate} and
+// {business} in a subject or message. Anything else in braces is left as typed.
+export const fillPlaceholders = (text, transaction, businessName) => {
+    const t = transaction;
+    const values = {
+        party: t.partyName,
+        document: DOCUMENT_NAMES[t.type],
+        number: t.invoiceNumber,
+        amount: rupees(t.totalAmount),
+        balance: rupees(t.totalAmount - (t.amountPaid || 0) - (t.amountCredited || 0)),
+        date: formatDate(t.date),
+        dueDate: formatDate(t.dueDate || t.date),
+        business: businessName,
+    };
+    return text.replace(/\{(\w+)\}/g, (placeholder, name) => values[name] ?? placeholder);
+};
+
+// Rejects with the mail server's error when the message isn't accepted
+export const sendMail = async (smtp, message) => {
+    const transport = nodemailer.createTransport({
+        host: smtp.host,
+        port: smtp.port,
+        secure: smtp.secure,
+        auth: smtp.username ? { user: smtp.username, pass: smtp.password } : undefined,
+        tls: { rejectUnauthorized: !smtp.allowSelfSigned },
+        connectionTimeout: 15000,
+        greetingTimeout: 15000,
+        socketTimeout: 30000,
+    });
+    try {
+        return await transport.sendMail({ from: { name: smtp.fromName || '', address: smtp.fromEmail }, ...message });
+    } finally {
+        transport.close();
+    }
+};
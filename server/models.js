@@ -1,34 +1,362 @@
 
 import mongoose from 'mongoose';
+import { businessScoped } from './businessScope.js';
+
+export const DOCUMENT_TYPES = ['PURCHASE', 'SALE', 'QUOTATION', 'PURCHASE_ORDER', 'CREDIT_NOTE', 'DEBIT_NOTE'];
+export const TEMPLATE_IDS = ['CLASSIC', 'MODERN', 'COMPACT_GST']; // Bill designs, see components/PrintableBill.tsx
+export const PAYMENT_MODES = ['CASH', 'UPI', 'CHEQUE', 'BANK', 'CARD', 'OTHER'];
 
 const InventorySchema = new mongoose.Schema({
-    id: { type: String, required: true, unique: true },
+    id: { type: String, required: true }, // Product id
     name: { type: String, required: true },
     quantity: { type: Number, required: true, default: 0 },
     averageCost: { type: Number, required: true, default: 0 },
     sellingPrice: { type: Number, required: true, default: 0 },
-    lastUpdated: { type: Date, default: Date.now }
+    lastUpdated: { type: Date, default: Date.now },
+    // Quantity split by location; sums to quantity. Cost is business-wide.
+    locations: [{ locationId: String, quantity: { type: Number, default: 0 }, _id: false }]
+});
+
+// Where stock is kept, e.g. the shop and the godown
+const LocationSchema = new mongoose.Schema({
+    id: { type: String, required: true },
+    name: { type: String, required: true },
+    address: String,
+    isDefault: { type: Boolean, default: false } // Preselected on new documents
+});
+
+const ProductSchema = new mongoose.Schema({
+    id: { type: String, required: true },
+    sku: { type: String, required: true },
+    name: { type: String, required: true },
+    barcode: { type: String, index: true },
+    hsnCode: String,
+    unit: { type: String, default: 'NOS' },
+    gstRate: { type: Number, default: 18 },
+    purchasePrice: { type: Number, default: 0 },
+    sellingPrice: { type: Number, default: 0 },
+    category: String,
+    // Replenishment
+    reorderLevel: Number,
+    reorderQuantity: Number,
+    preferredVendorId: String // Party id
 });
 
 const ItemSchema = new mongoose.Schema({
     id: String,
+    productId: String,
     description: String,
     quantity: Number,
-    price: Number
+    price: Number,
+    discount: { type: Number, min: 0, max: 100, default: 0 }, // Percentage off the price, before GST
+    hsnCode: String,
+    gstRate: { type: Number, default: 0 },
+    taxableValue: Number,
+    cgst: { type: Number, default: 0 },
+    sgst: { type: Number, default: 0 },
+    igst: { type: Number, default: 0 },
+    lineTotal: Number,
+    // Set by the server when stock is posted, never by the client
+    cogs: Number, // Cost of goods sold for sale lines, cost of goods taken back for credit notes
+    costLayers: [{ layerId: String, quantity: Number, unitCost: Number, _id: false }], // FIFO layers this sale consumed
+    sourceLineId: String, // Quotation / purchase order line this was converted from, or invoice line returned
+    convertedQuantity: Number, // On quotation / purchase order lines, maintained from the converted bills
+    locationId: String // Where the goods come from or go to; defaults to the document's location
 }, { _id: false });
 
 const TransactionSchema = new mongoose.Schema({
-    id: { type: String, required: true, unique: true },
-    type: { type: String, required: true, enum: ['PURCHASE', 'SALE'] },
+    id: { type: String, required: true },
+    type: { type: String, required: true, enum: DOCUMENT_TYPES },
     invoiceNumber: { type: String, required: true },
-    partyName: { type: String, required: true }, // Vendor or Customer
+    financialYear: String, // e.g. "2025-26", the numbering series year
+    numberKey: String, // Enforces unique numbers, see numbering.js
+    partyId: { type: String, index: true }, // Party master record
+    partyName: { type: String, required: true }, // Vendor or Customer, as printed on the bill
+    locationId: String, // Default stock location for the lines
     date: { type: Date, required: true },
     dueDate: { type: Date },
     status: { type: String, required: true },
     items: [ItemSchema],
     totalAmount: { type: Number, required: true },
-    notes: String
+    notes: String,
+    // GST
+    placeOfSupply: String, // State code of the party
+    partyGstin: String,
+    taxInclusive: { type: Boolean, default: false },
+    taxableAmount: Number,
+    cgstAmount: { type: Number, default: 0 },
+    sgstAmount: { type: Number, default: 0 },
+    igstAmount: { type: Number, default: 0 },
+    totalTax: { type: Number, default: 0 },
+    // Maintained from the Payment collection, never set by the client
+    amountPaid: { type: Number, default: 0 },
+    amountCredited: { type: Number, default: 0 }, // Credit / debit notes against this invoice
+    // Bills and purchase invoices converted from a quotation or purchase order,
+    // and credit / debit notes to the invoice they return goods from
+    sourceDocumentId: { type: String, index: true },
+    sourceDocumentNumber: String,
+    // Every time the document was emailed, maintained by the server
+    emails: [{
+        at: Date,
+        to: String,
+        subject: String,
+        userId: String,
+        userName: String,
+        status: { type: String, enum: ['SENT', 'FAILED'] },
+        error: String, // What the mail server said when it failed
+        _id: false
+    }]
 }, { schema: true });
 
+// Append-only: every change to stock is a new row, corrections are reversing rows
+const StockMovementSchema = new mongoose.Schema({
+    id: { type: String, required: true },
+    productId: { type: String, required: true, index: true },
+    locationId: String, // Unset on movements recorded before locations existed
+    date: { type: Date, required: true },
+    type: { type: String, required: true, enum: ['PURCHASE', 'SALE', 'RETURN', 'ADJUSTMENT', 'TRANSFER'] },
+    qtyIn: { type: Number, default: 0 },
+    qtyOut: { type: Number, default: 0 },
+    unitCost: { type: Number, default: 0 },
+    balance: { type: Number, required: true }, // Quantity on hand after this movement, all locations
+    locationBalance: Number, // Quantity at the movement's location after it
+    sourceType: String, // Type of the originating document
+    sourceId: String,
+    sourceNumber: String,
+    isReversal: { type: Boolean, default: false }, // Undoes an earlier posting after an edit or delete
+    notes: String
+}, { timestamps: { createdAt: true, updatedAt: false } });
+
+StockMovementSchema.pre(['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne', 'deleteOne', 'deleteMany', 'findOneAndDelete'], function () {
+    throw new Error('Stock movements are append-only');
+});
+
+// Moves stock from one location to another; posts a TRANSFER movement out and one in
+const StockTransferSchema = new mongoose.Schema({
+    id: { type: String, required: true },
+    transferNumber: { type: String, required: true },
+    date: { type: Date, required: true },
+    fromLocationId: { type: String, required: true },
+    toLocationId: { type: String, required: true },
+    items: [{ id: String, productId: String, description: String, quantity: Number, _id: false }],
+    notes: String
+}, { timestamps: true });
+
+// Physical stock count. Lines snapshot the book quantity when the count starts;
+// posting turns each difference into an ADJUSTMENT movement.
+const StocktakeSchema = new mongoose.Schema({
+    id: { type: String, required: true },
+    stocktakeNumber: { type: String, required: true },
+    date: { type: Date, required: true },
+    locationId: String, // Unset when every location is counted
+    category: String, // Unset when every category is counted
+    status: { type: String, enum: ['Counting', 'Posted'], default: 'Counting' },
+    lines: [{
+        productId: String,
+        name: String,
+        sku: String,
+        locationId: String,
+        systemQuantity: Number, // Book quantity when the count started
+        countedQuantity: Number, // Unset until counted; uncounted lines are left alone
+        unitCost: Number, // Cost the difference was posted at
+        adjustment: Number, // Quantity posted, counted less system
+        _id: false
+    }],
+    notes: String,
+    postedAt: Date
+}, { timestamps: true });
+
+// FIFO purchase layer; remaining is drawn down by sales oldest first
+const CostLayerSchema = new mongoose.Schema({
+    id: { type: String, required: true },
+    productId: { type: String, required: true, index: true },
+    date: { type: Date, required: true },
+    quantity: { type: Number, required: true },
+    remaining: { type: Number, required: true },
+    unitCost: { type: Number, required: true },
+    sourceType: String, // PURCHASE, OPENING, SALE (restored by a reversed sale), RETURN or ADJUSTMENT
+    sourceId: String,
+    sourceNumber: String,
+    // Later layers that made good this one going below zero, and by how much; see stock.js addLayer
+    coveredBy: [{ layerId: String, quantity: Number, _id: false }]
+}, { timestamps: { createdAt: true, updatedAt: false } });
+
+// Document numbers are prefix + running number; {FY} in the prefix becomes e.g. "2025-26"
+const NumberSeriesSchema = new mongoose.Schema({
+    prefix: { type: String, default: '' },
+    padding: { type: Number, min: 1, max: 8, default: 4 }
+}, { _id: false });
+
+const series = (prefix, padding = 4) => ({ type: NumberSeriesSchema, default: () => ({ prefix, padding }) });
+
+// One settings document per business
+const SettingsSchema = new mongoose.Schema({
+    id: { type: String, required: true, default: 'business' },
+    costingMethod: { type: String, enum: ['WEIGHTED_AVERAGE', 'FIFO'], default: 'WEIGHTED_AVERAGE' },
+    negativeStockPolicy: { type: String, enum: ['BLOCK', 'WARN', 'ALLOW'], default: 'WARN' }, // Sales beyond stock on hand
+    numberSeries: {
+        SALE: series('INV/{FY}/', 3),
+        QUOTATION: series('QT/{FY}/'),
+        PURCHASE_ORDER: series('PO/{FY}/'),
+        CREDIT_NOTE: series('CN/{FY}/'),
+        DEBIT_NOTE: series('DN/{FY}/')
+    },
+    // Who the business is, as printed on its bills
+    profile: {
+        legalName: String,
+        address: String,
+        gstin: String, // Also the GSTIN the GST returns are filed under
+        state: String, // GST state code the business is registered in
+        phone: String,
+        email: String,
+        logo: String, // Image data URL
+        signature: String // Image data URL, printed above "Authorised Signatory"
+    },
+    // Where customers pay, printed on bills
+    bank: {
+        accountName: String,
+        bankName: String,
+        accountNumber: String,
+        ifsc: String,
+        branch: String,
+        upiId: String
+    },
+    defaultPaymentTermsDays: { type: Number, min: 0, default: 0 }, // For parties without their own terms
+    defaultNotes: String, // Prefilled on new documents
+    terms: String, // Terms and conditions printed at the foot of every bill
+    // How printed bills look: a design per document type, which optional parts
+    // are shown, and the business's own header/footer text and colour
+    invoiceTemplate: {
+        templates: Object.fromEntries(DOCUMENT_TYPES.map(type => [type, { type: String, enum: TEMPLATE_IDS, default: 'CLASSIC' }])),
+        showHsn: { type: Boolean, default: true },
+        showDiscount: { type: Boolean, default: true },
+        showSignature: { type: Boolean, default: true },
+        showTerms: { type: Boolean, default: true },
+        headerText: String,
+        footerText: String,
+        accentColor: String // Hex colour; blank uses the design's own
+    },
+    // Outgoing mail server for emailing documents; the password never goes back to the app
+    smtp: {
+        host: String,
+        port: Number,
+        secure: { type: Boolean, default: false }, // TLS from the start (usually port 465); otherwise STARTTLS when offered
+        username: String,
+        password: String,
+        fromName: String,
+        fromEmail: String,
+        allowSelfSigned: { type: Boolean, default: false } // For local and test servers
+    },
+    // Prefilled when emailing a document; placeholders are listed in mailer.js
+    emailTemplate: {
+        subject: { type: String, default: '{document} {number} from {business}' },
+        body: { type: String, default: 'Dear {party},\n\nPlease find attached {document} {number} for {amount}, due on {dueDate}.\n\nRegards,\n{business}' }
+    }
+});
+
+// Running numbers per series and financial year, e.g. id "SALE:2025-26"
+const CounterSchema = new mongoose.Schema({
+    id: { type: String, required: true },
+    seq: { type: Number, default: 0 }
+});
+
+const PartySchema = new mongoose.Schema({
+    id: { type: String, required: true },
+    name: { type: String, required: true },
+    type: { type: String, required: true, enum: ['CUSTOMER', 'VENDOR', 'BOTH'] },
+    gstin: String,
+    billingAddress: String,
+    shippingAddress: String,
+    phone: String,
+    email: String,
+    state: String, // GST state code
+    paymentTermsDays: { type: Number, default: 0 },
+    creditLimit: { type: Number, default: 0 } // 0 = no limit
+});
+
+const PaymentSchema = new mongoose.Schema({
+    id: { type: String, required: true },
+    invoiceId: { type: String, required: true, index: true },
+    date: { type: Date, required: true },
+    amount: { type: Number, required: true, min: 0.01 },
+    mode: { type: String, required: true, enum: PAYMENT_MODES },
+    reference: String, // UTR, cheque number etc.
+    notes: String
+});
+
+// People who sign in. The password is only ever stored as a scrypt hash.
+const UserSchema = new mongoose.Schema({
+    id: { type: String, required: true, unique: true },
+    name: { type: String, required: true },
+    username: { type: String, required: true, unique: true, lowercase: true, trim: true },
+    passwordHash: { type: String, required: true },
+    role: { type: String, required: true, enum: ['OWNER', 'ACCOUNTANT', 'CASHIER'] },
+    businessIds: [String], // Businesses a non-owner may work in; owners work in all of them
+    active: { type: Boolean, default: true } // Inactive users can't sign in
+}, {
+    toJSON: { transform: (doc, ret) => { delete ret.passwordHash; return ret; } }
+});
+
+// A signed-in browser. Only a hash of the token is kept; Mongo drops expired rows.
+const SessionSchema = new mongoose.Schema({
+    tokenHash: { type: String, required: true, unique: true },
+    userId: { type: String, required: true, index: true },
+    expiresAt: { type: Date, required: true, expires: 0 }
+});
+
+// Who created, changed or deleted what, with the fields that changed. Written
+// alongside the change itself and never edited.
+const AuditLogSchema = new mongoose.Schema({
+    id: { type: String, required: true },
+    at: { type: Date, required: true, index: true },
+    userId: String,
+    userName: String, // As it was at the time
+    action: { type: String, required: true, enum: ['CREATE', 'UPDATE', 'DELETE'] },
+    entityType: { type: String, required: true }, // TRANSACTION, PAYMENT, PRODUCT, PARTY, LOCATION, TRANSFER, STOCKTAKE, SETTINGS, USER or BUSINESS
+    entityId: { type: String, required: true },
+    parentId: { type: String, index: true }, // Document a payment belongs to, so it shows in that document's history
+    label: String, // e.g. the bill number, for searching and display
+    changes: [{ field: String, before: mongoose.Schema.Types.Mixed, after: mongoose.Schema.Types.Mixed, _id: false }]
+});
+AuditLogSchema.index({ entityType: 1, entityId: 1, at: -1 });
+
+// A firm whose books are kept here. Everything except users and their sessions
+// belongs to exactly one business, see businessScope.js.
+const BusinessSchema = new mongoose.Schema({
+    id: { type: String, required: true, unique: true },
+    name: { type: String, required: true, unique: true }
+}, { timestamps: true });
+
+// Ids, document numbers and names only need to be unique within a business
+const uniquePerBusiness = (schema, field, options = {}) =>
+    schema.index({ businessId: 1, [field]: 1 }, { unique: true, ...options });
+
+[
+    InventorySchema, LocationSchema, ProductSchema, TransactionSchema, StockMovementSchema, StockTransferSchema,
+    StocktakeSchema, CostLayerSchema, SettingsSchema, CounterSchema, PartySchema, PaymentSchema, AuditLogSchema
+].forEach(schema => {
+    schema.plugin(businessScoped);
+    uniquePerBusiness(schema, 'id');
+});
+uniquePerBusiness(LocationSchema, 'name');
+uniquePerBusiness(ProductSchema, 'sku');
+uniquePerBusiness(TransactionSchema, 'numberKey', { partialFilterExpression: { numberKey: { $type: 'string' } } });
+uniquePerBusiness(StockTransferSchema, 'transferNumber');
+uniquePerBusiness(StocktakeSchema, 'stocktakeNumber');
+
 export const Inventory = mongoose.model('Inventory', InventorySchema);
 export const Transaction = mongoose.model('Transaction', TransactionSchema);
+export const Payment = mongoose.model('Payment', PaymentSchema);
+export const Party = mongoose.model('Party', PartySchema);
+export const Product = mongoose.model('Product', ProductSchema);
+export const StockMovement = mongoose.model('StockMovement', StockMovementSchema);
+export const CostLayer = mongoose.model('CostLayer', CostLayerSchema);
+export const Settings = mongoose.model('Settings', SettingsSchema);
+export const Counter = mongoose.model('Counter', CounterSchema);
+export const Location = mongoose.model('Location', LocationSchema);
+export const StockTransfer = mongoose.model('StockTransfer', StockTransferSchema);
+export const Stocktake = mongoose.model('Stocktake', StocktakeSchema);
+export const User = mongoose.model('User', UserSchema);
+export const Session = mongoose.model('Session', SessionSchema);
+export const AuditLog = mongoose.model('AuditLog', AuditLogSchema);
+export const Business = mongoose.model('Business', BusinessSchema);
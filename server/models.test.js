@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { Transaction } from './models.js';
+
+const discountError = (discount) => {
+    const transaction = new Transaction({
+        id: '1',
+        type: 'SALE',
+        invoiceNumber: 'BILL/1',
+        items: [{ id: 'a', description: 'Widget', quantity: 1, price: 100, discount }],
+    });
+    return transaction.validateSync()?.errors['items.0.discount'];
+};
+
+describe('line discount', () => {
+    it('defaults to no discount', () => {
+        const transaction = new Transaction({ items: [{ id: 'a', quantity: 1, price: 100 }] });
+        expect(transaction.items[0].discount).toBe(0);
+    });
+
+    it('takes 0 to 100 percent', () => {
+        expect(discountError(0)).toBeUndefined();
+        expect(discountError(12.5)).toBeUndefined();
+        expect(discountError(100)).toBeUndefined();
+    });
+
+    it('refuses a negative discount or one over 100 percent', () => {
+        expect(discountError(-1)).toBeDefined();
+        expect(discountError(101)).toBeDefined();
+    });
+});
@@ -0,0 +1,139 @@
+import { Counter, Settings, Transaction } from './models.js';
+import { getSettings } from './settings.js';
+
+// Our own documents are numbered by the server from a series per type. Purchase
+// invoice numbers are the vendor's, typed in, and only need to be unique per vendor.
+export const SERIES_TYPES = ['SALE', 'QUOTATION', 'PURCHASE_ORDER', 'CREDIT_NOTE', 'DEBIT_NOTE'];
+
+// GST allows up to 16 characters: letters, digits, "-" and "/"
+const MAX_NUMBER_LENGTH = 16;
+const NUMBER_PATTERN = /^[A-Za-z0-9/-]+$/;
+
+// Indian financial year, April to March: 2025-04-01 is in "2025-26"
+export const financialYear = (date) => {
+    const d = new Date(date);
+    const start = d.getUTCMonth() >= 3 ? d.getUTCFullYear() : d.getUTCFullYear() - 1;
+    return `${start}-${String(start + 1).slice(-2)}`;
+};
+
+const formatNumber = (series, fy, seq) =>
+    series.prefix.replaceAll('{FY}', fy) + String(seq).padStart(series.padding, '0');
+
+const normalizeNumber = (number) => (number || '').trim().toUpperCase();
+
+// Unique per series and year for our numbers, per vendor for purchase invoices.
+// Draft purchases have none: they may not have the vendor's number yet.
+const numberKeyFor = (t) => {
+    if (SERIES_TYPES.includes(t.type)) return `${t.type}:${t.financialYear}:${normalizeNumber(t.invoiceNumber)}`;
+    if (t.type === 'PURCHASE' && t.status !== 'Draft') return `PURCHASE:${t.partyId}:${normalizeNumber(t.invoiceNumber)}`;
+    return null;
+};
+
+// Checks a series against GST's invoice number rules; returns an error message or null
+export const validateSeries = (type, series) => {
+    if (typeof series?.prefix !== 'string' || !Number.isInteger(series.padding) || series.padding < 1 || series.padding > 8) {
+        return `${type}: the prefix must be text and the padding 1 to 8 digits`;
+    }
+    const sample = formatNumber(series, '2025-26', 1);
+    if (!NUMBER_PATTERN.test(sample)) {
+        return `${type}: only letters, digits, "-" and "/" are allowed (plus {FY} for the year)`;
+    }
+    if (sample.length > MAX_NUMBER_LENGTH) {
+        return `${type}: numbers like ${sample} are longer than the ${MAX_NUMBER_LENGTH} characters GST allows`;
+    }
+    return null;
+};
+
+// Another purchase invoice from the same vendor with this number; returns an error message or null
+export const findDuplicateNumber = async (transaction) => {
+    const numberKey = numberKeyFor(transaction);
+    if (transaction.type !== 'PURCHASE' || !numberKey) return null;
+    const clash = await Transaction.findOne({ numberKey, id: { $ne: transaction.id } });
+    return clash ? `Invoice ${clash.invoiceNumber} from ${clash.partyName} is already recorded` : null;
+};
+
+// Next number for internal stock documents, which don't have a configurable
+// series: "TR" gives "TR/2025-26/0001". Restarts every financial year.
+export const nextRunningNumber = async (prefix, date, session) => {
+    const fy = financialYear(date);
+    const counter = await Counter.findOneAndUpdate(
+        { id: `${prefix}:${fy}` },
+        { $inc: { seq: 1 } },
+        { new: true, upsert: true, session }
+    );
+    return `${prefix}/${fy}/${String(counter.seq).padStart(4, '0')}`;
+};
+
+// Keeps the number a document already has: purchase invoices, and documents
+// imported from another system with the numbers they were issued under
+export const keepNumber = (transaction) => {
+    transaction.invoiceNumber = (transaction.invoiceNumber || '').trim();
+    transaction.financialYear = financialYear(transaction.date);
+    transaction.numberKey = numberKeyFor(transaction) ?? undefined;
+};
+
+// Gives a new document the next number in its series and keeps the number of one
+// being edited; purchase invoices keep the number typed in. Runs inside the save's
+// session, so a save that fails doesn't use up a number.
+export const assignNumber = async (transaction, previous, session) => {
+    if (!SERIES_TYPES.includes(transaction.type)) {
+        keepNumber(transaction);
+        return;
+    }
+
+    if (previous) {
+        transaction.invoiceNumber = previous.invoiceNumber;
+        transaction.financialYear = previous.financialYear || financialYear(previous.date);
+        transaction.numberKey = previous.numberKey; // Unset on duplicates issued before series existed
+        return;
+    }
+
+    const { numberSeries } = await getSettings(session);
+    const series = numberSeries[transaction.type];
+    const fy = financialYear(transaction.date);
+    transaction.financialYear = fy;
+
+    // Skips numbers already taken, e.g. typed in by hand before series existed
+    do {
+        const counter = await Counter.findOneAndUpdate(
+            { id: `${transaction.type}:${fy}` },
+            { $inc: { seq: 1 } },
+            { new: true, upsert: true, session }
+        );
+        transaction.invoiceNumber = formatNumber(series, fy, counter.seq);
+        transaction.numberKey = numberKeyFor(transaction);
+    } while (await Transaction.exists({ numberKey: transaction.numberKey }).session(session));
+};
+
+// Documents saved before numbering series get their financial year and
+// uniqueness key. Duplicates already issued keep their numbers but are left out
+// of the check, and are listed so they can be corrected.
+export const migrateNumberKeys = async () => {
+    const transactions = await Transaction.find({ financialYear: null }).sort({ date: 1 });
+    const duplicates = [];
+
+    for (const t of transactions) {
+        t.financialYear = financialYear(t.date);
+        const key = numberKeyFor(t);
+        if (key && await Transaction.exists({ numberKey: key })) {
+            duplicates.push(`${t.type} ${t.invoiceNumber}`);
+        } else if (key) {
+            t.numberKey = key;
+        }
+        await t.save();
+    }
+
+    if (duplicates.length > 0) {
+        console.warn(`Duplicate document numbers found, left unenforced: ${duplicates.join(', ')}`);
+    }
+};
+
+// The first sales series default, BILL/{FY}/ with four digits, made numbers one
+// character longer than GST allows. Businesses still on it move to the current
+// default; a prefix set by hand is left alone.
+export const migrateSaleSeries = async () => {
+    await Settings.updateMany(
+        { 'numberSeries.SALE.prefix': 'BILL/{FY}/', 'numberSeries.SALE.padding': 4 },
+        { $set: { 'numberSeries.SALE': { prefix: 'INV/{FY}/', padding: 3 } } }
+    );
+};
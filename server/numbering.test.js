@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest';
+import { Settings } from './models.js';
+import { SERIES_TYPES, validateSeries } from './numbering.js';
+import { DEFAULT_NUMBER_SERIES } from '../services/documents';
+
+describe('default number series', () => {
+    it.each(SERIES_TYPES)('%s on the server passes the GST rules', (type) => {
+        const { numberSeries } = new Settings();
+        expect(validateSeries(type, numberSeries[type].toObject())).toBeNull();
+    });
+
+    it.each(SERIES_TYPES)('%s in the app passes the GST rules', (type) => {
+        expect(validateSeries(type, DEFAULT_NUMBER_SERIES[type])).toBeNull();
+    });
+
+    it('is the same in the app as on the server', () => {
+        const { numberSeries } = new Settings();
+        for (const type of SERIES_TYPES) expect(numberSeries[type].toObject()).toEqual(DEFAULT_NUMBER_SERIES[type]);
+    });
+});
@@ -0,0 +1,97 @@
+import { Transaction } from './models.js';
+
+// Quotations and purchase orders never post stock or take payments; they are
+// converted, in full or in parts, into the bill or purchase invoice that does
+export const ORDER_TYPES = ['QUOTATION', 'PURCHASE_ORDER'];
+export const POSTING_TYPES = ['SALE', 'PURCHASE'];
+const CONVERTS_TO = { QUOTATION: 'SALE', PURCHASE_ORDER: 'PURCHASE' };
+const MANUAL_STATUSES = ['Open', 'Accepted', 'Cancelled'];
+
+export const isOrderType = (type) => ORDER_TYPES.includes(type);
+
+// Quantity per line id, optionally summed by another key (sourceLineId)
+const sumByLine = (items, key = 'id') => {
+    const totals = new Map();
+    for (const item of items) {
+        if (!item[key]) continue;
+        totals.set(item[key], (totals.get(item[key]) || 0) + item.quantity);
+    }
+    return totals;
+};
+
+// How much of each order line has been converted, leaving out one bill if given
+const convertedByLine = async (orderId, excludeId = null, session = null) => {
+    const filter = { sourceDocumentId: orderId };
+    if (excludeId) filter.id = { $ne: excludeId };
+    const conversions = await Transaction.find(filter).session(session);
+    return sumByLine(conversions.flatMap(t => t.items), 'sourceLineId');
+};
+
+// Converted and Partially Converted follow the delivered quantities; otherwise
+// the status the user picked stands. Cancelled always stands.
+export const deriveOrderStatus = (order) => {
+    if (order.status === 'Cancelled') return 'Cancelled';
+
+    const lines = order.items.filter(i => i.quantity > 0);
+    if (lines.length > 0 && lines.every(i => (i.convertedQuantity || 0) >= i.quantity)) return 'Converted';
+    if (lines.some(i => (i.convertedQuantity || 0) > 0)) return 'Partially Converted';
+    if (order.status === 'Converted' || order.status === 'Partially Converted') return 'Accepted';
+    return MANUAL_STATUSES.includes(order.status) ? order.status : 'Open';
+};
+
+// Fills in convertedQuantity and status on an order about to be saved. Returns
+// an error message if an edit takes a line below what has already been delivered.
+export const prepareOrder = async (order) => {
+    const converted = await convertedByLine(order.id);
+    const quantities = sumByLine(order.items);
+
+    for (const [lineId, delivered] of converted) {
+        if ((quantities.get(lineId) || 0) < delivered) {
+            const line = order.items.find(i => i.id === lineId);
+            return `${line ? line.description : 'A removed line'} has ${delivered} already converted and can't go below that`;
+        }
+    }
+
+    for (const item of order.items) item.convertedQuantity = converted.get(item.id) || 0;
+    order.amountPaid = 0;
+    order.status = deriveOrderStatus(order);
+    return null;
+};
+
+// Checks a bill or purchase invoice against the order it was converted from.
+// Returns an error message, or null when every line fits what is left.
+export const checkConversion = async (transaction) => {
+    const order = await Transaction.findOne({ id: transaction.sourceDocumentId });
+    if (!order || !isOrderType(order.type)) {
+        return 'The quotation or purchase order this was converted from no longer exists';
+    }
+    if (CONVERTS_TO[order.type] !== transaction.type) {
+        return `${order.invoiceNumber} can't be converted into this kind of document`;
+    }
+    const isNew = !(await Transaction.exists({ id: transaction.id }));
+    if (isNew && order.status === 'Cancelled') {
+        return `${order.invoiceNumber} is cancelled`;
+    }
+
+    const converted = await convertedByLine(order.id, transaction.id);
+    for (const [lineId, quantity] of sumByLine(transaction.items, 'sourceLineId')) {
+        const line = order.items.find(i => i.id === lineId);
+        if (!line) return `A line is no longer on ${order.invoiceNumber}`;
+        const remaining = line.quantity - (converted.get(lineId) || 0);
+        if (quantity - remaining > 1e-9) {
+            return `${line.description}: only ${remaining} left to convert on ${order.invoiceNumber}`;
+        }
+    }
+    return null;
+};
+
+// Recomputes convertedQuantity and status of an order from the bills linked to it
+export const syncOrderConversion = async (orderId, session = null) => {
+    const order = await Transaction.findOne({ id: orderId }).session(session);
+    if (!order || !isOrderType(order.type)) return null;
+
+    const converted = await convertedByLine(orderId, null, session);
+    for (const item of order.items) item.convertedQuantity = converted.get(item.id) || 0;
+    order.status = deriveOrderStatus(order);
+    return order.save({ session });
+};
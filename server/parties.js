@@ -0,0 +1,56 @@
+import { Party, Transaction } from './models.js';
+
+// "  Rahul  Sharma " and "rahul sharma" are the same party
+export const normalizePartyName = (name) => (name || '').trim().replace(/\s+/g, ' ').toLowerCase();
+
+const partyTypeFor = (types) => {
+    if (types.has('SALE') && types.has('PURCHASE')) return 'BOTH';
+    return types.has('PURCHASE') ? 'VENDOR' : 'CUSTOMER';
+};
+
+// Groups the free-text party names on older transactions into Party records
+// and links each transaction to its party
+export const migratePartyNames = async () => {
+    const unlinked = await Transaction.find({ partyId: { $in: [null, ''] } }).sort({ date: 1 });
+    if (unlinked.length === 0) return;
+
+    const existing = await Party.find();
+    const byName = new Map(existing.map(p => [normalizePartyName(p.name), p]));
+
+    const groups = new Map();
+    for (const t of unlinked) {
+        const key = normalizePartyName(t.partyName);
+        if (!groups.has(key)) groups.set(key, []);
+        groups.get(key).push(t);
+    }
+
+    let created = 0;
+    for (const [key, transactions] of groups) {
+        let party = byName.get(key);
+        const types = new Set(transactions.map(t => t.type));
+
+        if (!party) {
+            // Latest transaction carries the most recent name spelling and tax details
+            const latest = transactions[transactions.length - 1];
+            party = await Party.create({
+                id: `party-${Date.now()}-${created}`,
+                name: latest.partyName.trim().replace(/\s+/g, ' '),
+                type: partyTypeFor(types),
+                gstin: transactions.map(t => t.partyGstin).filter(Boolean).pop(),
+                state: latest.placeOfSupply,
+            });
+            byName.set(key, party);
+            created++;
+        } else if (party.type !== 'BOTH' && party.type !== partyTypeFor(types)) {
+            party.type = 'BOTH';
+            await party.save();
+        }
+
+        await Transaction.updateMany(
+            { id: { $in: transactions.map(t => t.id) } },
+            { $set: { partyId: party.id } }
+        );
+    }
+
+    console.log(`Linked ${unlinked.length} transaction(s) to parties (${created} new)`);
+};
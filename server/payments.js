@@ -0,0 +1,77 @@
+import { Payment, Transaction } from './models.js';
+import { NOTE_TYPES } from './returns.js';
+
+const round2 = (value) => Math.round(value * 100) / 100;
+
+const startOfToday = () => {
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    return today;
+};
+
+// Status follows the money received, with credit / debit notes counting towards it;
+// a draft stays a draft (it takes no payments until it is finalised), and anything
+// still owed after its due date is overdue
+export const deriveStatus = (transaction, amountPaid) => {
+    const settled = amountPaid + (transaction.amountCredited || 0);
+    if (settled > 0 && round2(transaction.totalAmount - settled) <= 0) return 'Paid';
+    if (amountPaid === 0 && transaction.status === 'Draft') return 'Draft';
+    if (transaction.dueDate && new Date(transaction.dueDate) < startOfToday()) return 'Overdue';
+    return settled > 0 ? 'Partially Paid' : 'Pending';
+};
+
+// Moves unpaid invoices whose due date has passed to Overdue
+export const markOverdueInvoices = async () => {
+    const result = await Transaction.updateMany(
+        { status: { $in: ['Pending', 'Partially Paid'] }, dueDate: { $lt: startOfToday() } },
+        { $set: { status: 'Overdue' } }
+    );
+    return result.modifiedCount;
+};
+
+// Recomputes amountPaid and status of an invoice from its payment records
+export const syncInvoicePayments = async (invoiceId) => {
+    const transaction = await Transaction.findOne({ id: invoiceId });
+    if (!transaction) return null;
+
+    const payments = await Payment.find({ invoiceId });
+    const amountPaid = round2(payments.reduce((sum, p) => sum + p.amount, 0));
+
+    transaction.amountPaid = amountPaid;
+    transaction.status = deriveStatus(transaction, amountPaid);
+    return transaction.save();
+};
+
+// Recomputes amountCredited and status of an invoice from the credit / debit notes against it
+export const syncInvoiceCredits = async (invoiceId, session = null) => {
+    const transaction = await Transaction.findOne({ id: invoiceId }).session(session);
+    if (!transaction || (transaction.type !== 'SALE' && transaction.type !== 'PURCHASE')) return null;
+
+    const notes = await Transaction.find({ sourceDocumentId: invoiceId, type: { $in: NOTE_TYPES } }).session(session);
+    transaction.amountCredited = round2(notes.reduce((sum, n) => sum + n.totalAmount, 0));
+    transaction.status = deriveStatus(transaction, transaction.amountPaid || 0);
+    return transaction.save({ session });
+};
+
+// Invoices marked "Paid" by hand before the payments ledger existed get a
+// single settling payment so their derived status doesn't fall back to Pending
+export const migrateManualPaidStatus = async () => {
+    const legacy = await Transaction.find({ status: 'Paid', amountPaid: { $in: [0, null] } });
+
+    for (const t of legacy) {
+        const hasPayments = await Payment.exists({ invoiceId: t.id });
+        if (hasPayments || t.totalAmount <= 0) continue;
+
+        await Payment.create({
+            id: `migrated-${t.id}`,
+            invoiceId: t.id,
+            date: t.dueDate || t.date,
+            amount: t.totalAmount,
+            mode: 'OTHER',
+            notes: 'Recorded from manual "Paid" status',
+        });
+        await syncInvoicePayments(t.id);
+    }
+
+    if (legacy.length > 0) console.log(`Migrated ${legacy.length} manually paid invoice(s) to payment records`);
+};
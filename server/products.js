@@ -0,0 +1,53 @@
+import { Inventory, Product, Transaction } from './models.js';
+
+const descriptionKey = (description) => (description || '').trim().toLowerCase();
+
+// Next free "SKU-0001" style code; pass the session to see products created in it
+export const nextSku = async (session = null) => {
+    const count = await Product.countDocuments().session(session);
+    let n = count + 1;
+    while (await Product.exists({ sku: `SKU-${String(n).padStart(4, '0')}` }).session(session)) n++;
+    return `SKU-${String(n).padStart(4, '0')}`;
+};
+
+// Stock used to be keyed by lower-cased line description. Creates a product for
+// each distinct description, links line items to it and re-keys Inventory.
+export const migrateDescriptionKeyedStock = async () => {
+    const transactions = await Transaction.find({ 'items.productId': { $in: [null, ''] } }).sort({ date: 1 });
+    if (transactions.length === 0) return;
+
+    const products = await Product.find();
+    const byName = new Map(products.map(p => [descriptionKey(p.name), p]));
+    let created = 0;
+
+    for (const t of transactions) {
+        for (const item of t.items) {
+            if (item.productId) continue;
+            const key = descriptionKey(item.description);
+            let product = byName.get(key);
+
+            if (!product) {
+                product = await Product.create({
+                    id: `prod-${Date.now()}-${created}`,
+                    sku: await nextSku(),
+                    name: item.description.trim(),
+                    hsnCode: item.hsnCode,
+                    gstRate: item.gstRate ?? 18,
+                    purchasePrice: t.type === 'PURCHASE' ? item.price : 0,
+                    sellingPrice: t.type === 'SALE' ? item.price : 0,
+                });
+                byName.set(key, product);
+                created++;
+
+                // Carry the existing stock record over to the product id
+                await Inventory.updateOne({ id: key }, { $set: { id: product.id, name: product.name } });
+            }
+
+            item.productId = product.id;
+        }
+        t.markModified('items');
+        await t.save();
+    }
+
+    console.log(`Linked line items on ${transactions.length} transaction(s) to products (${created} new)`);
+};
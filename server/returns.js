@@ -0,0 +1,80 @@
+import { Transaction } from './models.js';
+
+// Credit notes take goods back from a bill; debit notes send goods on a purchase
+// invoice back to the vendor. Both post stock and count against the invoice balance.
+export const NOTE_TYPES = ['CREDIT_NOTE', 'DEBIT_NOTE'];
+const RETURNS_AGAINST = { CREDIT_NOTE: 'SALE', DEBIT_NOTE: 'PURCHASE' };
+
+export const isNoteType = (type) => NOTE_TYPES.includes(type);
+
+// How much of each invoice line has come back, leaving out one note if given
+const returnedByLine = async (invoiceId, excludeId = null, session = null) => {
+    const filter = { sourceDocumentId: invoiceId, type: { $in: NOTE_TYPES } };
+    if (excludeId) filter.id = { $ne: excludeId };
+    const notes = await Transaction.find(filter).session(session);
+
+    const totals = new Map();
+    for (const item of notes.flatMap(n => n.items)) {
+        if (!item.sourceLineId) continue;
+        totals.set(item.sourceLineId, (totals.get(item.sourceLineId) || 0) + item.quantity);
+    }
+    return totals;
+};
+
+// Checks a credit or debit note against the invoice it returns goods from.
+// Returns an error message, or null when every line fits what was billed.
+export const checkReturn = async (note) => {
+    const invoice = await Transaction.findOne({ id: note.sourceDocumentId });
+    if (!invoice || RETURNS_AGAINST[note.type] !== invoice.type) {
+        return note.type === 'CREDIT_NOTE'
+            ? 'A credit note must be raised against a bill'
+            : 'A debit note must be raised against a purchase invoice';
+    }
+    if (invoice.status === 'Draft') {
+        return `${invoice.invoiceNumber} is a draft, so there is nothing to return yet`;
+    }
+    if (note.partyId !== invoice.partyId) {
+        return `The party must be the one on ${invoice.invoiceNumber}`;
+    }
+
+    if (note.items.length === 0) {
+        return 'Add at least one line being returned';
+    }
+
+    const requested = new Map();
+    for (const item of note.items) {
+        const line = invoice.items.find(i => i.id === item.sourceLineId);
+        if (!line || line.productId !== item.productId) {
+            return `Every line must come from ${invoice.invoiceNumber}`;
+        }
+        requested.set(line.id, (requested.get(line.id) || 0) + item.quantity);
+    }
+
+    const returned = await returnedByLine(invoice.id, note.id);
+    for (const [lineId, quantity] of requested) {
+        const line = invoice.items.find(i => i.id === lineId);
+        const remaining = line.quantity - (returned.get(lineId) || 0);
+        if (quantity - remaining > 1e-9) {
+            return `${line.description}: only ${remaining} of ${line.quantity} left to return on ${invoice.invoiceNumber}`;
+        }
+    }
+    return null;
+};
+
+// An invoice with returns against it can't go back to draft or drop a line
+// below what has already come back. Returns an error message or null.
+export const checkReturnedLines = async (invoice) => {
+    const returned = await returnedByLine(invoice.id);
+    if (returned.size === 0) return null;
+
+    if (invoice.status === 'Draft') {
+        return 'Goods have been returned against this invoice, so it can\'t go back to draft';
+    }
+    for (const [lineId, quantity] of returned) {
+        const line = invoice.items.find(i => i.id === lineId);
+        if (!line || line.quantity < quantity) {
+            return `${line ? line.description : 'A removed line'} has ${quantity} returned and can't go below that`;
+        }
+    }
+    return null;
+};
@@ -3,28 +3,393 @@ import express from 'express';
 import mongoose from 'mongoose';
 import cors from 'cors';
 import dotenv from 'dotenv';
-import { Inventory, Transaction } from './models.js';
+import { Inventory, Transaction, Payment, Party, Product, StockMovement, Location, StockTransfer, Stocktake, User, Business, TEMPLATE_IDS } from './models.js';
+import { parsePeriod, validateForReturns, buildGstr1, buildGstr3b } from './gstReturns.js';
+import { deriveStatus, syncInvoicePayments, syncInvoiceCredits, migrateManualPaidStatus, markOverdueInvoices } from './payments.js';
+import { normalizePartyName, migratePartyNames } from './parties.js';
+import { nextSku, migrateDescriptionKeyedStock } from './products.js';
+import { postStock, findStockShortages, listStock, releaseDraftStock, backfillStockMovements, backfillSaleCogs } from './stock.js';
+import {
+    getSettings, updateSettings, settingsForClient, cleanProfile, cleanBank, cleanInvoiceTemplate, cleanSmtp, cleanEmailTemplate,
+    homeStateOf, migrateHomeState
+} from './settings.js';
+import { POSTING_TYPES, isOrderType, prepareOrder, checkConversion, syncOrderConversion } from './orders.js';
+import { NOTE_TYPES, isNoteType, checkReturn, checkReturnedLines } from './returns.js';
+import { SERIES_TYPES, validateSeries, findDuplicateNumber, assignNumber, nextRunningNumber, migrateNumberKeys, migrateSaleSeries } from './numbering.js';
+import { applyLocations, findLocationUsage, migrateStockLocations, createFirstLocation } from './locations.js';
+import { applyTaxes, checkLineAmounts } from './taxes.js';
+import { checkTransfer, checkTransferReversal, postTransfer } from './transfers.js';
+import { buildStocktakeLines, applyCounts, postStocktake } from './stocktakes.js';
+import {
+    authenticate, requirePermission, can, denied, permissionsFor, validateUser, hashPassword, checkCredentials,
+    startSession, endSession, endUserSessions, PURCHASE_SIDE_TYPES,
+    hideTransactionCosts, hideProductCosts, hideMovementCosts, hideStockCosts, hideStocktakeCosts
+} from './auth.js';
+import { recordAudit, transactionLabel, checkAuditFilters, findAuditEntries } from './audit.js';
+import { renderTransactionPdf, pdfFilename, PDF_SIZES } from './billPdf.js';
+import { parseRecipients, isMailConfigured, fillPlaceholders, sendMail } from './mailer.js';
+import { checkImport, postImport } from './imports.js';
+import { runInBusiness } from './businessScope.js';
+import {
+    selectBusiness, findBusinessesFor, validateBusiness, forEachBusiness, firstBusiness, migrateToBusinesses
+} from './businesses.js';
 
 dotenv.config();
 
 const app = express();
 const PORT = process.env.PORT || 5000;
+const OVERDUE_CHECK_INTERVAL_MS = 60 * 60 * 1000; // Hourly
 
-app.use(cors());
-app.use(express.json());
+// Only the web app may call the API from a browser; CLIENT_ORIGIN takes a
+// comma-separated list when it is served from more than one address
+app.use(cors({ origin: (process.env.CLIENT_ORIGIN || 'http://localhost:5173').split(',').map(o => o.trim()) }));
+app.use('/api/import', express.json({ limit: '20mb' })); // Whole spreadsheets of parties, stock and documents
+app.use(express.json({ limit: '2mb' })); // Room for the logo and signature images in settings
 
 // MongoDB Connection
 mongoose.connect(process.env.MONGODB_URI)
-    .then(() => console.log('MongoDB Connected'))
+    .then(async () => {
+        console.log('MongoDB Connected');
+        await migrateToBusinesses();
+        await runInBusiness((await firstBusiness()).id, migrateHomeState);
+        await forEachBusiness(async () => {
+            await migrateManualPaidStatus();
+            await migratePartyNames();
+            await migrateDescriptionKeyedStock();
+            await migrateStockLocations();
+            await backfillStockMovements();
+            await releaseDraftStock();
+            await backfillSaleCogs();
+            await migrateNumberKeys();
+            await migrateSaleSeries();
+        });
+    })
+    .then(async () => {
+        await forEachBusiness(markOverdueInvoices);
+        setInterval(() => {
+            forEachBusiness(markOverdueInvoices).catch(err => console.error('Overdue check failed:', err));
+        }, OVERDUE_CHECK_INTERVAL_MS);
+    })
     .catch(err => console.log('MongoDB Connection Error:', err));
 
+// Quotations / purchase orders track what was converted from them, invoices what
+// was returned against them
+const syncSourceDocument = async (id, session) => {
+    await syncOrderConversion(id, session);
+    await syncInvoiceCredits(id, session);
+};
+
+// Cost figures are hidden from roles that may not see them
+const forViewer = (req, hide) => (record) => can(req.user, 'VIEW_COSTS') ? record : hide(record);
+
+const signedIn = async (user) => ({
+    token: await startSession(user),
+    user,
+    permissions: permissionsFor(user),
+});
+
 // Routes
 
+// GET /api/auth/status
+// Whether anyone has signed up yet; the first person to do so becomes the owner
+app.get('/api/auth/status', async (req, res) => {
+    try {
+        res.json({ needsSetup: !(await User.exists({})) });
+    } catch (err) {
+        res.status(500).json({ message: err.message });
+    }
+});
+
+// POST /api/auth/setup
+// Creates the owner, and names the first business when a name is given
+app.post('/api/auth/setup', async (req, res) => {
+    try {
+        if (await User.exists({})) {
+            return res.status(409).json({ message: 'The owner account already exists; sign in instead' });
+        }
+        const owner = { ...req.body, role: 'OWNER' };
+        const problem = validateUser(owner, true);
+        if (problem) {
+            return res.status(400).json({ message: problem });
+        }
+        const user = await User.create({
+            id: Date.now().toString(),
+            name: owner.name.trim(),
+            username: owner.username,
+            passwordHash: await hashPassword(owner.password),
+            role: 'OWNER',
+        });
+        const business = await firstBusiness();
+        const businessName = (req.body.businessName || '').trim();
+        if (businessName) {
+            business.name = businessName;
+            await business.save();
+        }
+        await runInBusiness(business.id, () =>
+            recordAudit({ user, action: 'CREATE', entityType: 'USER', entityId: user.id, label: user.username, after: user }));
+        res.json(await signedIn(user));
+    } catch (err) {
+        res.status(500).json({ message: err.message });
+    }
+});
+
+// POST /api/auth/login
+app.post('/api/auth/login', async (req, res) => {
+    try {
+        const user = await checkCredentials(req.body.username, req.body.password);
+        if (!user) {
+            return res.status(401).json({ message: 'Wrong username or password' });
+        }
+        res.json(await signedIn(user));
+    } catch (err) {
+        res.status(500).json({ message: err.message });
+    }
+});
+
+// Everything below needs a signed-in user
+app.use('/api', authenticate);
+
+// GET /api/auth/me
+app.get('/api/auth/me', (req, res) => {
+    res.json({ user: req.user, permissions: permissionsFor(req.user) });
+});
+
+// POST /api/auth/logout
+app.post('/api/auth/logout', async (req, res) => {
+    try {
+        await endSession(req);
+        res.json({ success: true });
+    } catch (err) {
+        res.status(500).json({ message: err.message });
+    }
+});
+
+// GET /api/businesses
+// The businesses the user may switch between
+app.get('/api/businesses', async (req, res) => {
+    try {
+        res.json(await findBusinessesFor(req.user));
+    } catch (err) {
+        res.status(500).json({ message: err.message });
+    }
+});
+
+// POST /api/businesses
+// Adds a business, which starts with its own empty books and a Main location, or renames one
+app.post('/api/businesses', requirePermission('MANAGE_SETTINGS'), async (req, res) => {
+    try {
+        const problem = await validateBusiness(req.body);
+        if (problem) {
+            return res.status(400).json({ message: problem });
+        }
+        const existing = await Business.findOne({ id: req.body.id });
+        const saved = await Business.findOneAndUpdate(
+            { id: req.body.id },
+            { id: req.body.id, name: req.body.name.trim() },
+            { new: true, upsert: true, runValidators: true }
+        );
+        await runInBusiness(saved.id, async () => {
+            if (!existing) await createFirstLocation();
+            await recordAudit({ user: req.user, action: existing ? 'UPDATE' : 'CREATE', entityType: 'BUSINESS', entityId: saved.id, label: saved.name, before: existing, after: saved });
+        });
+        res.json({ business: saved });
+    } catch (err) {
+        res.status(500).json({ message: err.message });
+    }
+});
+
+// Everything below works inside the business picked in the app
+app.use('/api', selectBusiness);
+
+// GET /api/users
+app.get('/api/users', requirePermission('MANAGE_SETTINGS'), async (req, res) => {
+    try {
+        const users = await User.find().sort({ name: 1 });
+        res.json(users);
+    } catch (err) {
+        res.status(500).json({ message: err.message });
+    }
+});
+
+// POST /api/users
+// Adds or edits a user; a blank password leaves the current one
+app.post('/api/users', requirePermission('MANAGE_SETTINGS'), async (req, res) => {
+    try {
+        const { password, ...user } = req.body;
+        const existing = await User.findOne({ id: user.id });
+        const problem = validateUser({ ...user, password }, !existing);
+        if (problem) {
+            return res.status(400).json({ message: problem });
+        }
+        user.name = user.name.trim();
+        user.username = user.username.trim().toLowerCase();
+        const known = new Set((await Business.find()).map(b => b.id));
+        user.businessIds = (user.businessIds || []).filter(id => known.has(id));
+        if (user.role !== 'OWNER' && user.businessIds.length === 0) {
+            return res.status(400).json({ message: 'Give them access to at least one business' });
+        }
+
+        if (await User.exists({ id: { $ne: user.id }, username: user.username })) {
+            return res.status(409).json({ message: `The username "${user.username}" is taken` });
+        }
+        // Someone has to be able to manage the business
+        const demoted = existing?.role === 'OWNER' && (user.role !== 'OWNER' || user.active === false);
+        if (demoted && !(await User.exists({ id: { $ne: user.id }, role: 'OWNER', active: true }))) {
+            return res.status(400).json({ message: 'Make someone else an owner first' });
+        }
+        if (password) {
+            user.passwordHash = await hashPassword(password);
+        }
+
+        const saved = await User.findOneAndUpdate(
+            { id: user.id },
+            user,
+            { new: true, upsert: true, runValidators: true }
+        );
+        if (password || saved.active === false || existing?.role !== saved.role) {
+            await endUserSessions(saved.id);
+        }
+        await recordAudit({
+            user: req.user,
+            action: existing ? 'UPDATE' : 'CREATE',
+            entityType: 'USER',
+            entityId: saved.id,
+            label: saved.username,
+            before: existing,
+            after: saved,
+            extraChanges: password && existing ? [{ field: 'password', before: null, after: 'changed' }] : [],
+        });
+        res.json({ user: saved });
+    } catch (err) {
+        res.status(500).json({ message: err.message });
+    }
+});
+
+// DELETE /api/users/:id
+app.delete('/api/users/:id', requirePermission('MANAGE_SETTINGS'), async (req, res) => {
+    try {
+        if (req.params.id === req.user.id) {
+            return res.status(400).json({ message: "You can't delete your own account" });
+        }
+        const user = await User.findOneAndDelete({ id: req.params.id });
+        await endUserSessions(req.params.id);
+        if (user) {
+            await recordAudit({ user: req.user, action: 'DELETE', entityType: 'USER', entityId: user.id, label: user.username, before: user });
+        }
+        res.json({ success: true });
+    } catch (err) {
+        res.status(500).json({ message: err.message });
+    }
+});
+
 // Get all transactions
 app.get('/api/transactions', async (req, res) => {
     try {
+        // Re-evaluate due dates on read so the list never shows stale statuses
+        await markOverdueInvoices();
         const transactions = await Transaction.find().sort({ date: -1 });
-        res.json(transactions);
+        res.json(transactions.map(forViewer(req, hideTransactionCosts)));
+    } catch (err) {
+        res.status(500).json({ message: err.message });
+    }
+});
+
+// GET /api/transactions/:id/pdf?size=A4|A5&template= - the document as a PDF download,
+// in the design picked in the print preview or else the one set for its type
+app.get('/api/transactions/:id/pdf', async (req, res) => {
+    try {
+        const size = req.query.size || 'A4';
+        if (!PDF_SIZES.includes(size)) {
+            return res.status(400).json({ message: `Page size must be one of ${PDF_SIZES.join(', ')}` });
+        }
+        const templateId = req.query.template;
+        if (templateId !== undefined && !TEMPLATE_IDS.includes(templateId)) {
+            return res.status(400).json({ message: `Bill design must be one of ${TEMPLATE_IDS.join(', ')}` });
+        }
+        const transaction = await Transaction.findOne({ id: req.params.id });
+        if (!transaction) return res.status(404).json({ message: 'Document not found' });
+        if (PURCHASE_SIDE_TYPES.includes(transaction.type) && !can(req.user, 'VIEW_COSTS')) {
+            return res.status(403).json({ message: denied('VIEW_COSTS') });
+        }
+
+        const party = transaction.partyId ? await Party.findOne({ id: transaction.partyId }) : null;
+        const pdf = await renderTransactionPdf(transaction, {
+            settings: await getSettings(), businessName: req.business.name, party, size, templateId
+        });
+        res.set({
+            'Content-Type': 'application/pdf',
+            'Content-Disposition': `attachment; filename="${pdfFilename(transaction)}"`,
+        });
+        res.send(pdf);
+    } catch (err) {
+        res.status(500).json({ message: err.message });
+    }
+});
+
+// POST /api/transactions/:id/email - sends the document's PDF through the mail
+// server in Settings. Every attempt, sent or failed, is logged on the document.
+app.post('/api/transactions/:id/email', async (req, res) => {
+    try {
+        const transaction = await Transaction.findOne({ id: req.params.id });
+        if (!transaction) return res.status(404).json({ message: 'Document not found' });
+        if (PURCHASE_SIDE_TYPES.includes(transaction.type) && !can(req.user, 'VIEW_COSTS')) {
+            return res.status(403).json({ message: denied('VIEW_COSTS') });
+        }
+
+        const { to, subject, body, size = 'A4' } = req.body;
+        const recipients = parseRecipients(to);
+        if (!recipients) {
+            return res.status(400).json({ message: 'Enter the email address to send to' });
+        }
+        if (!String(subject || '').trim() || !String(body || '').trim()) {
+            return res.status(400).json({ message: 'Enter a subject and a message' });
+        }
+        if (!PDF_SIZES.includes(size)) {
+            return res.status(400).json({ message: `Page size must be one of ${PDF_SIZES.join(', ')}` });
+        }
+        const settings = await getSettings();
+        if (!isMailConfigured(settings.smtp)) {
+            return res.status(400).json({ message: 'Set up outgoing email in Settings first' });
+        }
+
+        const businessName = req.business.name;
+        const party = transaction.partyId ? await Party.findOne({ id: transaction.partyId }) : null;
+        const pdf = await renderTransactionPdf(transaction, { settings, businessName, party, size });
+        const filledSubject = fillPlaceholders(String(subject).trim(), transaction, businessName);
+        let error = null;
+        try {
+            await sendMail(settings.smtp, {
+                to: recipients,
+                subject: filledSubject,
+                text: fillPlaceholders(String(body).trim(), transaction, businessName),
+                attachments: [{ filename: pdfFilename(transaction), content: pdf, contentType: 'application/pdf' }],
+            });
+        } catch (err) {
+            error = err.message;
+        }
+
+        const saved = await Transaction.findOneAndUpdate(
+            { id: transaction.id },
+            {
+                $push: {
+                    emails: {
+                        at: new Date(),
+                        to: recipients.join(', '),
+                        subject: filledSubject,
+                        userId: req.user.id,
+                        userName: req.user.name,
+                        status: error ? 'FAILED' : 'SENT',
+                        error,
+                    },
+                },
+            },
+            { new: true }
+        );
+        const result = forViewer(req, hideTransactionCosts)(saved);
+        if (error) {
+            return res.status(502).json({ message: `The email wasn't sent: ${error}`, transaction: result });
+        }
+        res.json({ transaction: result });
     } catch (err) {
         res.status(500).json({ message: err.message });
     }
@@ -34,78 +399,828 @@ app.get('/api/transactions', async (req, res) => {
 app.post('/api/transactions', async (req, res) => {
     try {
         const transaction = req.body;
+        if (PURCHASE_SIDE_TYPES.includes(transaction.type) && !can(req.user, 'VIEW_COSTS')) {
+            return res.status(403).json({ message: denied('VIEW_COSTS') });
+        }
+        delete transaction.emails; // Logged by the email route only
 
-        // Check if existing to determine if we need to adjust inventory
-        const existing = await Transaction.findOne({ id: transaction.id });
+        const party = await Party.findOne({ id: transaction.partyId });
+        if (!party) {
+            return res.status(400).json({ message: 'Select a customer or vendor from the party list' });
+        }
 
-        // Only adjust inventory if it's a NEW transaction (simple logic for now)
-        if (!existing) {
-            for (const item of transaction.items) {
-                const productId = item.description.trim().toLowerCase();
-                let invItem = await Inventory.findOne({ id: productId });
-
-                if (!invItem) {
-                    invItem = new Inventory({
-                        id: productId,
-                        name: item.description,
-                        quantity: 0,
-                        averageCost: 0,
-                        sellingPrice: 0,
-                        lastUpdated: transaction.date,
+        const productIds = [...new Set(transaction.items.map(i => i.productId))];
+        const productCount = await Product.countDocuments({ id: { $in: productIds } });
+        if (productCount !== productIds.length) {
+            return res.status(400).json({ message: 'Every line must be a product from the catalog' });
+        }
+        const lineProblem = checkLineAmounts(transaction.items);
+        if (lineProblem) {
+            return res.status(400).json({ message: lineProblem });
+        }
+        // Taxes and totals are worked out here, the same way as for imported documents
+        applyTaxes(transaction, homeStateOf(await getSettings()));
+
+        // Payment state is owned by the payments ledger, not the form. Status is
+        // settled first since drafts don't post stock. Quotations and purchase
+        // orders take their status from what has been converted instead, and
+        // credit / debit notes are simply issued.
+        const previous = await Transaction.findOne({ id: transaction.id });
+        if (previous && !isOrderType(previous.type) && previous.status !== 'Draft' && !can(req.user, 'EDIT_POSTED')) {
+            return res.status(403).json({ message: denied('EDIT_POSTED') });
+        }
+        let problem = null;
+        if (isOrderType(transaction.type)) {
+            problem = await prepareOrder(transaction);
+        } else if (isNoteType(transaction.type)) {
+            transaction.amountPaid = 0;
+            transaction.amountCredited = 0;
+            transaction.status = 'Issued';
+            problem = await checkReturn(transaction);
+        } else {
+            transaction.amountPaid = previous?.amountPaid || 0;
+            transaction.amountCredited = previous?.amountCredited || 0;
+            transaction.status = deriveStatus(transaction, transaction.amountPaid);
+            problem = await checkReturnedLines(transaction)
+                || (transaction.sourceDocumentId ? await checkConversion(transaction) : null);
+        }
+        // A draft purchase may wait for the vendor's bill to arrive
+        if (!problem && transaction.type === 'PURCHASE' && transaction.status !== 'Draft' && !(transaction.invoiceNumber || '').trim()) {
+            problem = "Enter the vendor's invoice number";
+        }
+        if (!problem) {
+            problem = await applyLocations(transaction);
+        }
+        if (problem) {
+            return res.status(400).json({ message: problem });
+        }
+
+        const duplicate = await findDuplicateNumber(transaction);
+        if (duplicate) {
+            return res.status(409).json({ message: duplicate });
+        }
+
+        // Selling more than is on hand: BLOCK refuses, WARN needs ?allowNegativeStock=true
+        if (transaction.type === 'SALE' && transaction.status !== 'Draft') {
+            const { negativeStockPolicy } = await getSettings();
+            const override = negativeStockPolicy === 'WARN' && req.query.allowNegativeStock === 'true';
+            if (negativeStockPolicy !== 'ALLOW' && !override) {
+                const shortages = await findStockShortages(transaction);
+                if (shortages.length > 0) {
+                    const list = shortages.map(s => `${s.name}: ${s.requested} requested, ${s.available} at ${s.locationName}`).join('; ');
+                    return res.status(409).json({
+                        message: `Not enough stock. ${list}`,
+                        shortages,
+                        canOverride: negativeStockPolicy === 'WARN',
                     });
                 }
+            }
+        }
+
+        // Reverse the old posting and apply the new one atomically, so a failure
+        // halfway through never leaves stock out of step with the saved bill
+        const session = await mongoose.startSession();
+        let saved;
+        try {
+            await session.withTransaction(async () => {
+                const existing = await Transaction.findOne({ id: transaction.id }).session(session);
+                if (existing) {
+                    await postStock(existing, -1, session);
+                }
+                // Numbered first, so the stock postings carry the document number
+                await assignNumber(transaction, existing, session);
+                await postStock(transaction, 1, session);
+
+                saved = await Transaction.findOneAndUpdate(
+                    { id: transaction.id },
+                    transaction,
+                    { new: true, upsert: true, session }
+                );
+                await recordAudit({
+                    user: req.user,
+                    action: existing ? 'UPDATE' : 'CREATE',
+                    entityType: 'TRANSACTION',
+                    entityId: saved.id,
+                    label: transactionLabel(saved),
+                    before: existing,
+                    after: saved,
+                }, session);
 
-                if (transaction.type === 'PURCHASE') {
-                    const currentTotalValue = invItem.quantity * invItem.averageCost;
-                    const newItemsValue = item.quantity * item.price;
-                    invItem.quantity += item.quantity;
-                    if (invItem.quantity > 0) {
-                        invItem.averageCost = (currentTotalValue + newItemsValue) / invItem.quantity;
-                    }
-                } else if (transaction.type === 'SALE') {
-                    invItem.quantity -= item.quantity;
-                    invItem.sellingPrice = item.price;
+                const sourceIds = new Set([previous?.sourceDocumentId, transaction.sourceDocumentId]);
+                for (const sourceId of sourceIds) {
+                    if (sourceId) await syncSourceDocument(sourceId, session);
                 }
+            });
+        } finally {
+            await session.endSession();
+        }
+
+        res.json({ transaction: forViewer(req, hideTransactionCosts)(saved) });
+    } catch (err) {
+        if (err.code === 11000 && err.keyPattern?.numberKey) {
+            return res.status(409).json({ message: 'That document number is already in use' });
+        }
+        console.error(err);
+        res.status(500).json({ message: err.message });
+    }
+});
+
+// DELETE /api/transactions/:id
+app.delete('/api/transactions/:id', requirePermission('DELETE_RECORDS'), async (req, res) => {
+    const session = await mongoose.startSession();
+    try {
+        if (await Transaction.exists({ sourceDocumentId: req.params.id })) {
+            return res.status(409).json({ message: 'Other documents were created from this one (bills, credit or debit notes); delete them first' });
+        }
+
+        await session.withTransaction(async () => {
+            const existing = await Transaction.findOne({ id: req.params.id }).session(session);
+            if (!existing) return;
 
-                invItem.lastUpdated = transaction.date;
-                await invItem.save();
+            await postStock(existing, -1, session);
+            await Transaction.deleteOne({ id: req.params.id }, { session });
+            await Payment.deleteMany({ invoiceId: req.params.id }, { session });
+            await recordAudit({
+                user: req.user,
+                action: 'DELETE',
+                entityType: 'TRANSACTION',
+                entityId: existing.id,
+                label: transactionLabel(existing),
+                before: existing,
+            }, session);
+            if (existing.sourceDocumentId) {
+                await syncSourceDocument(existing.sourceDocumentId, session);
             }
+        });
+        res.json({ success: true });
+    } catch (err) {
+        res.status(500).json({ message: err.message });
+    } finally {
+        await session.endSession();
+    }
+});
+
+// GET /api/inventory - stock on hand and, under FIFO, the open cost layers
+app.get('/api/inventory', async (req, res) => {
+    try {
+        const stock = await listStock();
+        res.json(stock.map(forViewer(req, hideStockCosts)));
+    } catch (err) {
+        res.status(500).json({ message: err.message });
+    }
+});
+
+// GET /api/stock-movements?productId=
+app.get('/api/stock-movements', async (req, res) => {
+    try {
+        const filter = req.query.productId ? { productId: req.query.productId } : {};
+        const movements = await StockMovement.find(filter).sort({ createdAt: 1, _id: 1 });
+        res.json(movements.map(forViewer(req, hideMovementCosts)));
+    } catch (err) {
+        res.status(500).json({ message: err.message });
+    }
+});
+
+// GET /api/locations
+app.get('/api/locations', async (req, res) => {
+    try {
+        const locations = await Location.find().sort({ name: 1 });
+        res.json(locations);
+    } catch (err) {
+        res.status(500).json({ message: err.message });
+    }
+});
+
+// POST /api/locations
+app.post('/api/locations', requirePermission('MANAGE_SETTINGS'), async (req, res) => {
+    try {
+        const location = req.body;
+        if (!location.name || !location.name.trim()) {
+            return res.status(400).json({ message: 'Location name is required' });
         }
+        location.name = location.name.trim().replace(/\s+/g, ' ');
 
-        // Upsert transaction
-        const saved = await Transaction.findOneAndUpdate(
-            { id: transaction.id },
-            transaction,
-            { new: true, upsert: true }
+        const others = await Location.find({ id: { $ne: location.id } });
+        if (others.some(l => l.name.toLowerCase() === location.name.toLowerCase())) {
+            return res.status(409).json({ message: `A location named "${location.name}" already exists` });
+        }
+
+        // Exactly one default: the first location is it, and choosing another moves it
+        const current = await Location.findOne({ id: location.id });
+        if (others.length === 0) location.isDefault = true;
+        if (current?.isDefault && !location.isDefault) {
+            return res.status(400).json({ message: 'Make another location the default instead' });
+        }
+        if (location.isDefault) {
+            await Location.updateMany({ id: { $ne: location.id } }, { $set: { isDefault: false } });
+        }
+
+        const saved = await Location.findOneAndUpdate(
+            { id: location.id },
+            location,
+            { new: true, upsert: true, runValidators: true }
         );
+        await recordAudit({ user: req.user, action: current ? 'UPDATE' : 'CREATE', entityType: 'LOCATION', entityId: saved.id, label: saved.name, before: current, after: saved });
+        res.json({ location: saved });
+    } catch (err) {
+        res.status(500).json({ message: err.message });
+    }
+});
+
+// DELETE /api/locations/:id
+app.delete('/api/locations/:id', requirePermission('DELETE_RECORDS'), async (req, res) => {
+    try {
+        const problem = await findLocationUsage(req.params.id);
+        if (problem) {
+            return res.status(409).json({ message: problem });
+        }
+        const location = await Location.findOneAndDelete({ id: req.params.id });
+        if (location) {
+            await recordAudit({ user: req.user, action: 'DELETE', entityType: 'LOCATION', entityId: location.id, label: location.name, before: location });
+        }
+        res.json({ success: true });
+    } catch (err) {
+        res.status(500).json({ message: err.message });
+    }
+});
 
-        res.json({ transaction: saved });
+// GET /api/transfers
+app.get('/api/transfers', async (req, res) => {
+    try {
+        const transfers = await StockTransfer.find().sort({ date: -1, createdAt: -1 });
+        res.json(transfers);
     } catch (err) {
-        console.error(err);
         res.status(500).json({ message: err.message });
     }
 });
 
-// DELETE /api/transactions/:id
-app.delete('/api/transactions/:id', async (req, res) => {
+// POST /api/transfers
+// Transfers are posted once; a wrong one is deleted and recorded again
+app.post('/api/transfers', async (req, res) => {
+    const session = await mongoose.startSession();
     try {
-        await Transaction.deleteOne({ id: req.params.id });
+        const transfer = req.body;
+        if (await StockTransfer.exists({ id: transfer.id })) {
+            return res.status(409).json({ message: 'Transfers cannot be edited; delete it and record it again' });
+        }
+        const problem = await checkTransfer(transfer);
+        if (problem) {
+            return res.status(400).json({ message: problem });
+        }
+
+        let saved;
+        await session.withTransaction(async () => {
+            transfer.transferNumber = await nextRunningNumber('TR', transfer.date, session);
+            await postTransfer(transfer, 1, session);
+            [saved] = await StockTransfer.create([transfer], { session });
+            await recordAudit({ user: req.user, action: 'CREATE', entityType: 'TRANSFER', entityId: saved.id, label: saved.transferNumber, after: saved }, session);
+        });
+        res.json({ transfer: saved });
+    } catch (err) {
+        res.status(500).json({ message: err.message });
+    } finally {
+        await session.endSession();
+    }
+});
+
+// DELETE /api/transfers/:id
+app.delete('/api/transfers/:id', requirePermission('DELETE_RECORDS'), async (req, res) => {
+    const session = await mongoose.startSession();
+    try {
+        const existing = await StockTransfer.findOne({ id: req.params.id });
+        if (!existing) {
+            return res.status(404).json({ message: 'Transfer not found' });
+        }
+        const problem = await checkTransferReversal(existing);
+        if (problem) {
+            return res.status(409).json({ message: problem });
+        }
+
+        await session.withTransaction(async () => {
+            await postTransfer(existing, -1, session);
+            await StockTransfer.deleteOne({ id: req.params.id }, { session });
+            await recordAudit({ user: req.user, action: 'DELETE', entityType: 'TRANSFER', entityId: existing.id, label: existing.transferNumber, before: existing }, session);
+        });
+        res.json({ success: true });
+    } catch (err) {
+        res.status(500).json({ message: err.message });
+    } finally {
+        await session.endSession();
+    }
+});
+
+// GET /api/stocktakes
+app.get('/api/stocktakes', async (req, res) => {
+    try {
+        const stocktakes = await Stocktake.find().sort({ date: -1, createdAt: -1 });
+        res.json(stocktakes.map(forViewer(req, hideStocktakeCosts)));
+    } catch (err) {
+        res.status(500).json({ message: err.message });
+    }
+});
+
+// POST /api/stocktakes
+// Starts a count, or saves counted quantities on one in progress
+app.post('/api/stocktakes', async (req, res) => {
+    try {
+        const { id, date, locationId, category, notes, lines } = req.body;
+        const existing = await Stocktake.findOne({ id });
+
+        if (!existing) {
+            if (locationId && !(await Location.exists({ id: locationId }))) {
+                return res.status(400).json({ message: 'That location no longer exists' });
+            }
+            const snapshot = await buildStocktakeLines({ locationId, category });
+            if (snapshot.length === 0) {
+                return res.status(400).json({ message: 'No products match, so there is nothing to count' });
+            }
+            const saved = await Stocktake.create({
+                id,
+                stocktakeNumber: await nextRunningNumber('ST', date),
+                date,
+                locationId: locationId || undefined,
+                category: category || undefined,
+                notes,
+                lines: snapshot,
+            });
+            await recordAudit({ user: req.user, action: 'CREATE', entityType: 'STOCKTAKE', entityId: saved.id, label: saved.stocktakeNumber, after: saved });
+            return res.json({ stocktake: saved });
+        }
+
+        if (existing.status === 'Posted') {
+            return res.status(409).json({ message: 'This count has been posted and can no longer change' });
+        }
+        const before = existing.toObject();
+        const problem = applyCounts(existing, lines);
+        if (problem) {
+            return res.status(400).json({ message: problem });
+        }
+        existing.notes = notes;
+        const saved = await existing.save();
+        await recordAudit({ user: req.user, action: 'UPDATE', entityType: 'STOCKTAKE', entityId: saved.id, label: saved.stocktakeNumber, before, after: saved });
+        res.json({ stocktake: saved });
+    } catch (err) {
+        res.status(500).json({ message: err.message });
+    }
+});
+
+// POST /api/stocktakes/:id/post
+// Books the differences as adjustments; the count is read-only afterwards
+app.post('/api/stocktakes/:id/post', async (req, res) => {
+    const session = await mongoose.startSession();
+    try {
+        let stocktake;
+        await session.withTransaction(async () => {
+            stocktake = await Stocktake.findOne({ id: req.params.id }).session(session);
+            if (!stocktake || stocktake.status === 'Posted') return;
+            const before = stocktake.toObject();
+            await postStocktake(stocktake, session);
+            await stocktake.save({ session });
+            await recordAudit({ user: req.user, action: 'UPDATE', entityType: 'STOCKTAKE', entityId: stocktake.id, label: stocktake.stocktakeNumber, before, after: stocktake }, session);
+        });
+        if (!stocktake) {
+            return res.status(404).json({ message: 'Stock count not found' });
+        }
+        res.json({ stocktake: forViewer(req, hideStocktakeCosts)(stocktake) });
+    } catch (err) {
+        res.status(500).json({ message: err.message });
+    } finally {
+        await session.endSession();
+    }
+});
+
+// DELETE /api/stocktakes/:id
+// Discards a count in progress; posted counts are part of stock history
+app.delete('/api/stocktakes/:id', requirePermission('DELETE_RECORDS'), async (req, res) => {
+    try {
+        const stocktake = await Stocktake.findOne({ id: req.params.id });
+        if (stocktake?.status === 'Posted') {
+            return res.status(409).json({ message: 'A posted count cannot be deleted' });
+        }
+        if (stocktake) {
+            await Stocktake.deleteOne({ id: req.params.id });
+            await recordAudit({ user: req.user, action: 'DELETE', entityType: 'STOCKTAKE', entityId: stocktake.id, label: stocktake.stocktakeNumber, before: stocktake });
+        }
+        res.json({ success: true });
+    } catch (err) {
+        res.status(500).json({ message: err.message });
+    }
+});
+
+// GET /api/products
+app.get('/api/products', async (req, res) => {
+    try {
+        const products = await Product.find().sort({ name: 1 });
+        res.json(products.map(forViewer(req, hideProductCosts)));
+    } catch (err) {
+        res.status(500).json({ message: err.message });
+    }
+});
+
+// POST /api/products
+app.post('/api/products', async (req, res) => {
+    try {
+        const product = req.body;
+        if (!product.name || !product.name.trim()) {
+            return res.status(400).json({ message: 'Product name is required' });
+        }
+        product.name = product.name.trim();
+        if (!can(req.user, 'VIEW_COSTS')) {
+            delete product.purchasePrice; // The form shows zero; keep what is stored
+        }
+        product.sku = (product.sku || '').trim().toUpperCase() || await nextSku();
+
+        const clash = await Product.findOne({
+            id: { $ne: product.id },
+            $or: [{ sku: product.sku }, ...(product.barcode ? [{ barcode: product.barcode }] : [])]
+        });
+        if (clash) {
+            return res.status(409).json({ message: `SKU or barcode already used by "${clash.name}"` });
+        }
+
+        const existing = await Product.findOne({ id: product.id });
+
+        // Replenishment fields left blank on the form are cleared
+        const update = { ...product };
+        const cleared = ['reorderLevel', 'reorderQuantity', 'preferredVendorId'].filter(f => product[f] == null);
+        if (cleared.length) {
+            cleared.forEach(f => delete update[f]);
+            update.$unset = Object.fromEntries(cleared.map(f => [f, '']));
+        }
+        const saved = await Product.findOneAndUpdate(
+            { id: product.id },
+            update,
+            { new: true, upsert: true, runValidators: true }
+        );
+        // Renames show up in stock straight away
+        await Inventory.updateOne({ id: saved.id }, { $set: { name: saved.name } });
+        await recordAudit({ user: req.user, action: existing ? 'UPDATE' : 'CREATE', entityType: 'PRODUCT', entityId: saved.id, label: saved.name, before: existing, after: saved });
+        res.json({ product: forViewer(req, hideProductCosts)(saved) });
+    } catch (err) {
+        res.status(500).json({ message: err.message });
+    }
+});
+
+// DELETE /api/products/:id
+app.delete('/api/products/:id', requirePermission('DELETE_RECORDS'), async (req, res) => {
+    try {
+        const inUse = await Transaction.exists({ 'items.productId': req.params.id })
+            || await StockMovement.exists({ productId: req.params.id });
+        if (inUse) {
+            return res.status(409).json({ message: 'This product appears on transactions or in stock history and cannot be deleted' });
+        }
+        const product = await Product.findOneAndDelete({ id: req.params.id });
+        await Inventory.deleteOne({ id: req.params.id });
+        if (product) {
+            await recordAudit({ user: req.user, action: 'DELETE', entityType: 'PRODUCT', entityId: product.id, label: product.name, before: product });
+        }
         res.json({ success: true });
     } catch (err) {
         res.status(500).json({ message: err.message });
     }
 });
 
-// POST /api/inventory
-app.post('/api/inventory', async (req, res) => {
+// GET /api/parties
+app.get('/api/parties', async (req, res) => {
+    try {
+        const parties = await Party.find().sort({ name: 1 });
+        res.json(parties);
+    } catch (err) {
+        res.status(500).json({ message: err.message });
+    }
+});
+
+// POST /api/parties
+app.post('/api/parties', async (req, res) => {
     try {
-        const item = req.body;
-        const saved = await Inventory.findOneAndUpdate(
-            { id: item.id },
-            item,
-            { new: true, upsert: true }
+        const party = req.body;
+        if (!party.name || !party.name.trim()) {
+            return res.status(400).json({ message: 'Party name is required' });
+        }
+        party.name = party.name.trim().replace(/\s+/g, ' ');
+
+        // Names are matched case- and space-insensitively to stop near-duplicates
+        const others = await Party.find({ id: { $ne: party.id } });
+        if (others.some(p => normalizePartyName(p.name) === normalizePartyName(party.name))) {
+            return res.status(409).json({ message: `A party named "${party.name}" already exists` });
+        }
+
+        const existing = await Party.findOne({ id: party.id });
+        const saved = await Party.findOneAndUpdate(
+            { id: party.id },
+            party,
+            { new: true, upsert: true, runValidators: true }
         );
-        res.json({ item: saved }); // frontend expects single updated item
+        await recordAudit({ user: req.user, action: existing ? 'UPDATE' : 'CREATE', entityType: 'PARTY', entityId: saved.id, label: saved.name, before: existing, after: saved });
+        res.json({ party: saved });
+    } catch (err) {
+        res.status(500).json({ message: err.message });
+    }
+});
+
+// DELETE /api/parties/:id
+app.delete('/api/parties/:id', requirePermission('DELETE_RECORDS'), async (req, res) => {
+    try {
+        const inUse = await Transaction.exists({ partyId: req.params.id });
+        if (inUse) {
+            return res.status(409).json({ message: 'This party has transactions and cannot be deleted' });
+        }
+        const party = await Party.findOneAndDelete({ id: req.params.id });
+        if (party) {
+            await recordAudit({ user: req.user, action: 'DELETE', entityType: 'PARTY', entityId: party.id, label: party.name, before: party });
+        }
+        res.json({ success: true });
+    } catch (err) {
+        res.status(500).json({ message: err.message });
+    }
+});
+
+// GET /api/payments?invoiceId=
+app.get('/api/payments', async (req, res) => {
+    try {
+        const filter = req.query.invoiceId ? { invoiceId: req.query.invoiceId } : {};
+        const payments = await Payment.find(filter).sort({ date: 1 });
+        res.json(payments);
+    } catch (err) {
+        res.status(500).json({ message: err.message });
+    }
+});
+
+// POST /api/payments
+app.post('/api/payments', async (req, res) => {
+    try {
+        const payment = req.body;
+        const invoice = await Transaction.findOne({ id: payment.invoiceId });
+        if (!invoice) {
+            return res.status(404).json({ message: 'Invoice not found' });
+        }
+        if (PURCHASE_SIDE_TYPES.includes(invoice.type) && !can(req.user, 'VIEW_COSTS')) {
+            return res.status(403).json({ message: denied('VIEW_COSTS') });
+        }
+        if (isOrderType(invoice.type) || isNoteType(invoice.type)) {
+            return res.status(400).json({ message: 'Payments are recorded against bills and purchase invoices only' });
+        }
+        // Finalising posts stock under the shortage policy, which belongs to the document's own save
+        if (invoice.status === 'Draft') {
+            return res.status(400).json({ message: 'Finalise the draft before recording a payment against it' });
+        }
+
+        const balanceDue = invoice.totalAmount - (invoice.amountPaid || 0) - (invoice.amountCredited || 0);
+        if (!(payment.amount > 0) || payment.amount - balanceDue > 0.005) {
+            return res.status(400).json({ message: `Payment must be between ₹0.01 and the balance due of ₹${balanceDue.toFixed(2)}` });
+        }
+
+        const saved = await Payment.create(payment);
+        const transaction = await syncInvoicePayments(payment.invoiceId);
+        await recordAudit({
+            user: req.user,
+            action: 'CREATE',
+            entityType: 'PAYMENT',
+            entityId: saved.id,
+            parentId: invoice.id,
+            label: `Payment on ${invoice.invoiceNumber}`,
+            after: saved,
+        });
+        res.json({ payment: saved, transaction: forViewer(req, hideTransactionCosts)(transaction) });
+    } catch (err) {
+        res.status(500).json({ message: err.message });
+    }
+});
+
+// DELETE /api/payments/:id
+app.delete('/api/payments/:id', requirePermission('DELETE_RECORDS'), async (req, res) => {
+    try {
+        const payment = await Payment.findOneAndDelete({ id: req.params.id });
+        if (!payment) {
+            return res.status(404).json({ message: 'Payment not found' });
+        }
+        const transaction = await syncInvoicePayments(payment.invoiceId);
+        await recordAudit({
+            user: req.user,
+            action: 'DELETE',
+            entityType: 'PAYMENT',
+            entityId: payment.id,
+            parentId: payment.invoiceId,
+            label: `Payment on ${transaction?.invoiceNumber || payment.invoiceId}`,
+            before: payment,
+        });
+        res.json({ success: true, transaction: forViewer(req, hideTransactionCosts)(transaction) });
+    } catch (err) {
+        res.status(500).json({ message: err.message });
+    }
+});
+
+// GET /api/gst/returns?period=YYYY-MM
+// Builds GSTR-1 and GSTR-3B for the month along with per-invoice validation issues
+app.get('/api/gst/returns', requirePermission('VIEW_COSTS'), async (req, res) => {
+    try {
+        const range = parsePeriod(req.query.period);
+        if (!range) {
+            return res.status(400).json({ message: 'period must be in YYYY-MM format' });
+        }
+
+        const transactions = await Transaction.find({
+            type: { $in: [...POSTING_TYPES, ...NOTE_TYPES] },
+            status: { $ne: 'Draft' },
+            date: { $gte: range.start, $lt: range.end }
+        }).sort({ date: 1 }).lean();
+
+        const settings = await getSettings();
+        const options = {
+            gstin: (settings.profile?.gstin || process.env.BUSINESS_GSTIN || '').toUpperCase(),
+            homeState: homeStateOf(settings),
+            fp: range.fp,
+        };
+
+        res.json({
+            period: req.query.period,
+            issues: validateForReturns(transactions, options),
+            gstr1: buildGstr1(transactions, options),
+            gstr3b: buildGstr3b(transactions, options),
+        });
+    } catch (err) {
+        res.status(500).json({ message: err.message });
+    }
+});
+
+// GET /api/settings
+app.get('/api/settings', async (req, res) => {
+    try {
+        res.json(settingsForClient(await getSettings()));
+    } catch (err) {
+        res.status(500).json({ message: err.message });
+    }
+});
+
+// POST /api/settings
+app.post('/api/settings', requirePermission('MANAGE_SETTINGS'), async (req, res) => {
+    try {
+        const {
+            costingMethod, negativeStockPolicy, numberSeries, profile, bank, defaultPaymentTermsDays, defaultNotes, terms,
+            invoiceTemplate, smtp, emailTemplate
+        } = req.body;
+        const changes = {};
+        if (costingMethod !== undefined) {
+            if (!['WEIGHTED_AVERAGE', 'FIFO'].includes(costingMethod)) {
+                return res.status(400).json({ message: 'Costing method must be WEIGHTED_AVERAGE or FIFO' });
+            }
+            changes.costingMethod = costingMethod;
+        }
+        if (negativeStockPolicy !== undefined) {
+            if (!['BLOCK', 'WARN', 'ALLOW'].includes(negativeStockPolicy)) {
+                return res.status(400).json({ message: 'Negative stock policy must be BLOCK, WARN or ALLOW' });
+            }
+            changes.negativeStockPolicy = negativeStockPolicy;
+        }
+        for (const [type, series] of Object.entries(numberSeries || {})) {
+            if (!SERIES_TYPES.includes(type)) {
+                return res.status(400).json({ message: `${type} documents aren't numbered by a series` });
+            }
+            const cleaned = { prefix: typeof series?.prefix === 'string' ? series.prefix.trim() : series?.prefix, padding: series?.padding };
+            const problem = validateSeries(type, cleaned);
+            if (problem) {
+                return res.status(400).json({ message: problem });
+            }
+            changes[`numberSeries.${type}`] = cleaned;
+        }
+        if (profile !== undefined) {
+            const cleaned = cleanProfile(profile);
+            if (cleaned.problem) {
+                return res.status(400).json({ message: cleaned.problem });
+            }
+            changes.profile = cleaned.profile;
+        }
+        if (bank !== undefined) {
+            const cleaned = cleanBank(bank);
+            if (cleaned.problem) {
+                return res.status(400).json({ message: cleaned.problem });
+            }
+            changes.bank = cleaned.bank;
+        }
+        if (defaultPaymentTermsDays !== undefined) {
+            if (!Number.isInteger(defaultPaymentTermsDays) || defaultPaymentTermsDays < 0) {
+                return res.status(400).json({ message: 'Default payment terms must be a whole number of days' });
+            }
+            changes.defaultPaymentTermsDays = defaultPaymentTermsDays;
+        }
+        if (defaultNotes !== undefined) changes.defaultNotes = String(defaultNotes).trim();
+        if (terms !== undefined) changes.terms = String(terms).trim();
+        if (invoiceTemplate !== undefined) {
+            const cleaned = cleanInvoiceTemplate(invoiceTemplate);
+            if (cleaned.problem) {
+                return res.status(400).json({ message: cleaned.problem });
+            }
+            changes.invoiceTemplate = cleaned.invoiceTemplate;
+        }
+        const before = await getSettings();
+        if (smtp !== undefined) {
+            const cleaned = cleanSmtp(smtp, before.smtp);
+            if (cleaned.problem) {
+                return res.status(400).json({ message: cleaned.problem });
+            }
+            changes.smtp = cleaned.smtp;
+        }
+        if (emailTemplate !== undefined) {
+            const cleaned = cleanEmailTemplate(emailTemplate);
+            if (cleaned.problem) {
+                return res.status(400).json({ message: cleaned.problem });
+            }
+            changes.emailTemplate = cleaned.emailTemplate;
+        }
+        const saved = await updateSettings(changes);
+        await recordAudit({ user: req.user, action: 'UPDATE', entityType: 'SETTINGS', entityId: saved.id, label: 'Business settings', before, after: saved });
+        res.json({ settings: settingsForClient(saved) });
+    } catch (err) {
+        res.status(500).json({ message: err.message });
+    }
+});
+
+// POST /api/settings/email/test - sends a short message with the saved mail
+// settings, to the given address or the sender's own
+app.post('/api/settings/email/test', requirePermission('MANAGE_SETTINGS'), async (req, res) => {
+    try {
+        const { smtp } = await getSettings();
+        if (!isMailConfigured(smtp)) {
+            return res.status(400).json({ message: 'Save the mail server settings first' });
+        }
+        const recipients = parseRecipients(req.body.to || smtp.fromEmail);
+        if (!recipients) {
+            return res.status(400).json({ message: 'Enter the email address to send to' });
+        }
+        try {
+            await sendMail(smtp, {
+                to: recipients,
+                subject: `Test email from ${req.business.name}`,
+                text: `Email from Billventory is working. Bills and other documents will be sent from ${smtp.fromEmail}.`,
+            });
+        } catch (err) {
+            return res.status(502).json({ message: `The email wasn't sent: ${err.message}` });
+        }
+        res.json({ sentTo: recipients.join(', ') });
+    } catch (err) {
+        res.status(500).json({ message: err.message });
+    }
+});
+
+// POST /api/import
+// Parties, opening stock and past documents read from spreadsheets. Every row is
+// checked first; a dry run, or an import with any problem, writes nothing.
+app.post('/api/import', requirePermission('MANAGE_SETTINGS'), async (req, res) => {
+    const session = await mongoose.startSession();
+    try {
+        const { dryRun, ...data } = req.body;
+        const errors = await checkImport(data);
+        if (dryRun) {
+            return res.json({ errors });
+        }
+        if (errors.length > 0) {
+            return res.status(400).json({ message: `${errors.length} problem(s) found; nothing was imported`, errors });
+        }
+
+        let created;
+        await session.withTransaction(async () => {
+            created = await postImport(data, req.user, session);
+        });
+        res.json({
+            errors: [],
+            parties: created.parties,
+            products: created.products.map(forViewer(req, hideProductCosts)),
+            stocktake: created.stocktake && forViewer(req, hideStocktakeCosts)(created.stocktake),
+            transactions: created.transactions.map(forViewer(req, hideTransactionCosts)),
+        });
+    } catch (err) {
+        if (err.code === 11000 && err.keyPattern?.numberKey) {
+            return res.status(409).json({ message: 'A document number is already in use' });
+        }
+        console.error(err);
+        res.status(500).json({ message: err.message });
+    } finally {
+        await session.endSession();
+    }
+});
+
+// GET /api/audit?entityType=&entityId=&userId=&action=&search=&from=&to=
+// The owner can search everything; others may only read a document's own history
+app.get('/api/audit', async (req, res) => {
+    try {
+        if (!can(req.user, 'MANAGE_SETTINGS')) {
+            const { entityType, entityId } = req.query;
+            if (entityType !== 'TRANSACTION' || !entityId) {
+                return res.status(403).json({ message: denied('MANAGE_SETTINGS') });
+            }
+            const transaction = await Transaction.findOne({ id: entityId });
+            if (!transaction) {
+                return res.status(404).json({ message: 'Transaction not found' });
+            }
+            if (PURCHASE_SIDE_TYPES.includes(transaction.type) && !can(req.user, 'VIEW_COSTS')) {
+                return res.status(403).json({ message: denied('VIEW_COSTS') });
+            }
+        }
+        const problem = checkAuditFilters(req.query);
+        if (problem) {
+            return res.status(400).json({ message: problem });
+        }
+        res.json(await findAuditEntries(req.query));
     } catch (err) {
         res.status(500).json({ message: err.message });
     }
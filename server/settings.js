@@ -0,0 +1,177 @@
+import mongoose from 'mongoose';
+import { CostLayer, Inventory, Settings, DOCUMENT_TYPES, TEMPLATE_IDS } from './models.js';
+import { GSTIN_PATTERN } from './gstReturns.js';
+import { isEmailAddress } from './mailer.js';
+
+const SETTINGS_ID = 'business';
+
+const MAX_IMAGE_LENGTH = 700 * 1024; // Data URL characters, about 500 KB of image
+const IMAGE_PATTERN = /^data:image\/(png|jpeg|webp);base64,[A-Za-z0-9+/=]+$/;
+const IFSC_PATTERN = /^[A-Z]{4}0[A-Z0-9]{6}$/;
+const UPI_PATTERN = /^[\w.-]{2,}@[A-Za-z]{2,}$/;
+const COLOR_PATTERN = /^#[0-9A-Fa-f]{6}$/;
+const STATE_CODE_PATTERN = /^[0-9]{2}$/;
+const MAX_TEMPLATE_TEXT = 300;
+const MAX_EMAIL_BODY = 5000;
+const DEFAULT_STATE_CODE = '07'; // Delhi, for a business whose profile has neither a state nor a GSTIN yet
+
+const PROFILE_FIELDS = ['legalName', 'address', 'gstin', 'state', 'phone', 'email', 'logo', 'signature'];
+const BANK_FIELDS = ['accountName', 'bankName', 'accountNumber', 'ifsc', 'branch', 'upiId'];
+
+// Keeps the known fields as trimmed text; blanks are cleared
+const cleanFields = (value, fields) => Object.fromEntries(fields.map(field => {
+    const text = typeof value?.[field] === 'string' ? value[field].trim() : '';
+    return [field, text || undefined];
+}));
+
+const imageProblem = (label, image) => {
+    if (!image) return null;
+    if (!IMAGE_PATTERN.test(image)) return `${label} must be a PNG, JPEG or WebP image`;
+    return image.length > MAX_IMAGE_LENGTH ? `${label} must be under 500 KB` : null;
+};
+
+// Business identity as printed on bills. Returns { profile } or { problem }.
+export const cleanProfile = (value) => {
+    const profile = cleanFields(value, PROFILE_FIELDS);
+    if (profile.gstin) profile.gstin = profile.gstin.toUpperCase();
+    if (profile.gstin && !GSTIN_PATTERN.test(profile.gstin)) return { problem: `${profile.gstin} is not a valid GSTIN` };
+    if (profile.state && !STATE_CODE_PATTERN.test(profile.state)) return { problem: 'State must be a GST state code' };
+    // The first two digits of a GSTIN are the state it is registered in
+    if (profile.gstin && profile.state && !profile.gstin.startsWith(profile.state)) {
+        return { problem: `GSTIN ${profile.gstin} is registered in state ${profile.gstin.slice(0, 2)}, not ${profile.state}` };
+    }
+    const problem = imageProblem('The logo', profile.logo) || imageProblem('The signature', profile.signature);
+    return problem ? { problem } : { profile };
+};
+
+// Bank and UPI details printed on bills. Returns { bank } or { problem }.
+export const cleanBank = (value) => {
+    const bank = cleanFields(value, BANK_FIELDS);
+    if (bank.ifsc) bank.ifsc = bank.ifsc.toUpperCase();
+    if (bank.ifsc && !IFSC_PATTERN.test(bank.ifsc)) return { problem: `${bank.ifsc} is not a valid IFSC code` };
+    if (bank.upiId && !UPI_PATTERN.test(bank.upiId)) return { problem: `${bank.upiId} is not a valid UPI ID` };
+    return { bank };
+};
+
+// Bill designs per document type and what they show. Returns { invoiceTemplate } or { problem }.
+export const cleanInvoiceTemplate = (value) => {
+    const templates = {};
+    for (const [type, id] of Object.entries(value?.templates || {})) {
+        if (!DOCUMENT_TYPES.includes(type)) return { problem: `${type} is not a document type` };
+        if (!TEMPLATE_IDS.includes(id)) return { problem: `Template must be one of ${TEMPLATE_IDS.join(', ')}` };
+        templates[type] = id;
+    }
+    const { headerText, footerText, accentColor } = cleanFields(value, ['headerText', 'footerText', 'accentColor']);
+    if ((headerText || '').length > MAX_TEMPLATE_TEXT || (footerText || '').length > MAX_TEMPLATE_TEXT) {
+        return { problem: `Header and footer text must be under ${MAX_TEMPLATE_TEXT} characters` };
+    }
+    if (accentColor && !COLOR_PATTERN.test(accentColor)) return { problem: `${accentColor} is not a colour like #4f46e5` };
+    const flag = (field) => value?.[field] !== false; // Everything is shown unless turned off
+    return {
+        invoiceTemplate: {
+            templates,
+            showHsn: flag('showHsn'),
+            showDiscount: flag('showDiscount'),
+            showSignature: flag('showSignature'),
+            showTerms: flag('showTerms'),
+            headerText,
+            footerText,
+            accentColor: accentColor?.toLowerCase(),
+        },
+    };
+};
+
+// Outgoing mail server. A blank password keeps the saved one, so the app never
+// needs to hold it; a blank host turns email off. Returns { smtp } or { problem }.
+export const cleanSmtp = (value, current) => {
+    const fields = cleanFields(value, ['host', 'username', 'password', 'fromName', 'fromEmail']);
+    if (!fields.host) return { smtp: {} };
+    const secure = value.secure === true;
+    const port = value.port === undefined || value.port === null || value.port === '' ? (secure ? 465 : 587) : Number(value.port);
+    if (!Number.isInteger(port) || port < 1 || port > 65535) return { problem: 'Mail server port must be between 1 and 65535' };
+    if (!fields.fromEmail || !isEmailAddress(fields.fromEmail)) return { problem: 'Enter the email address bills are sent from' };
+    return {
+        smtp: {
+            ...fields,
+            port,
+            secure,
+            allowSelfSigned: value.allowSelfSigned === true,
+            password: fields.username ? (fields.password || current?.password) : undefined,
+        },
+    };
+};
+
+// Default subject and message for emailed documents. Returns { emailTemplate } or { problem }.
+export const cleanEmailTemplate = (value) => {
+    const subject = typeof value?.subject === 'string' ? value.subject.trim() : '';
+    const body = typeof value?.body === 'string' ? value.body.trim() : '';
+    if (!subject || !body) return { problem: 'The email subject and message are required' };
+    if (subject.length > MAX_TEMPLATE_TEXT || body.length > MAX_EMAIL_BODY) {
+        return { problem: `The email subject must be under ${MAX_TEMPLATE_TEXT} characters and the message under ${MAX_EMAIL_BODY}` };
+    }
+    return { emailTemplate: { subject, body } };
+};
+
+// Settings as the app sees them: the mail password is replaced by whether one is saved
+export const settingsForClient = (settings) => {
+    const plain = settings.toObject();
+    const { password, ...smtp } = plain.smtp || {};
+    return { ...plain, smtp: { ...smtp, hasPassword: !!password } };
+};
+
+export const getSettings = async (session = null) => {
+    const settings = await Settings.findOne({ id: SETTINGS_ID }).session(session);
+    return settings || new Settings({ id: SETTINGS_ID });
+};
+
+// State the business is registered in: the one in its profile, else the one its
+// GSTIN starts with. Same as homeStateOf in services/gst.ts.
+export const homeStateOf = (settings) =>
+    settings.profile?.state || settings.profile?.gstin?.slice(0, 2) || DEFAULT_STATE_CODE;
+
+// Before the profile had a state, one BUSINESS_STATE_CODE setting served the whole
+// installation; the first business, which it was set for, keeps it
+export const migrateHomeState = async () => {
+    const state = process.env.BUSINESS_STATE_CODE;
+    if (!STATE_CODE_PATTERN.test(state || '')) return;
+    const settings = await getSettings();
+    if (settings.profile?.state || settings.profile?.gstin) return;
+    settings.set('profile.state', state);
+    await settings.save();
+    console.log(`Set the business state to ${state} from BUSINESS_STATE_CODE`);
+};
+
+// Changing the costing method applies from today on. Moving to FIFO opens one
+// layer per item at its current average cost, so existing stock keeps its value.
+export const updateSettings = async (changes) => {
+    const session = await mongoose.startSession();
+    let saved;
+    try {
+        await session.withTransaction(async () => {
+            const current = await getSettings(session);
+
+            if (changes.costingMethod === 'FIFO' && current.costingMethod !== 'FIFO') {
+                await CostLayer.deleteMany({}, { session });
+                const stock = await Inventory.find({ quantity: { $gt: 0 } }).session(session);
+                await CostLayer.insertMany(stock.map(item => ({
+                    id: new mongoose.Types.ObjectId().toString(),
+                    productId: item.id,
+                    date: new Date(),
+                    quantity: item.quantity,
+                    remaining: item.quantity,
+                    unitCost: item.averageCost,
+                    sourceType: 'OPENING',
+                })), { session });
+            }
+
+            saved = await Settings.findOneAndUpdate(
+                { id: SETTINGS_ID },
+                { ...changes, id: SETTINGS_ID },
+                { new: true, upsert: true, runValidators: true, session }
+            );
+        });
+    } finally {
+        await session.endSession();
+    }
+    return saved;
+};
@@ -0,0 +1,519 @@
+import mongoose from 'mongoose';
+import { CostLayer, Inventory, Location, Product, StockMovement, Transaction } from './models.js';
+import { getSettings } from './settings.js';
+import { adjustLocation } from './locations.js';
+import { POSTING_TYPES, isOrderType } from './orders.js';
+import { isNoteType } from './returns.js';
+
+// Stock is valued net of GST since input tax is claimed back
+const lineValue = (item) => item.taxableValue ?? item.quantity * item.price;
+
+const newId = () => new mongoose.Types.ObjectId().toString();
+
+// Draws quantity from the oldest open layers. Anything beyond them (selling
+// into negative stock) is costed at fallbackCost and has no layer to restore.
+const consumeLayers = async (productId, quantity, fallbackCost, session) => {
+    const layers = await CostLayer.find({ productId, remaining: { $gt: 0 } })
+        .sort({ date: 1, createdAt: 1 })
+        .session(session);
+    const consumed = [];
+    let left = quantity;
+
+    for (const layer of layers) {
+        if (left <= 0) break;
+        const take = Math.min(layer.remaining, left);
+        layer.remaining -= take;
+        left -= take;
+        await layer.save({ session });
+        consumed.push({ layerId: layer.id, quantity: take, unitCost: layer.unitCost });
+    }
+    if (left > 0) consumed.push({ layerId: null, quantity: left, unitCost: fallbackCost });
+    return consumed;
+};
+
+// Opens a layer for stock coming in. Layers left below zero, by reversing a
+// purchase that was partly sold (an edit or a delete), are made good from it
+// first: those units already went out, so the new stock holds that many fewer.
+// What is left across the layers then matches the stock on hand. The overdrawn
+// layer notes what covered it, for returnToLayer.
+const addLayer = async (productId, quantity, unitCost, sourceType, transaction, session) => {
+    const [layer] = await CostLayer.create([{
+        id: newId(),
+        productId,
+        date: transaction.date,
+        quantity,
+        remaining: quantity,
+        unitCost,
+        sourceType,
+        sourceId: transaction.id,
+        sourceNumber: transaction.invoiceNumber,
+    }], { session });
+
+    const overdrawn = await CostLayer.find({ productId, remaining: { $lt: 0 } })
+        .sort({ date: 1, createdAt: 1 })
+        .session(session);
+    for (const old of overdrawn) {
+        if (layer.remaining <= 0) break;
+        const take = Math.min(-old.remaining, layer.remaining);
+        old.remaining += take;
+        old.coveredBy = [...(old.coveredBy || []), { layerId: layer.id, quantity: take }];
+        layer.remaining -= take;
+        await old.save({ session });
+    }
+    if (overdrawn.length > 0) await layer.save({ session });
+    return layer;
+};
+
+// Puts back units drawn from a layer. If that layer has since been made good by
+// later ones, the units first go back to those, at the cost they now stand at:
+// a sale of a purchase that was then edited returns to the edited purchase.
+// Returns false when the layer no longer exists.
+const returnToLayer = async (layerId, quantity, session) => {
+    const layer = await CostLayer.findOne({ id: layerId }).session(session);
+    if (!layer) return false;
+    let left = quantity;
+    for (const cover of layer.coveredBy || []) {
+        if (left <= 0) break;
+        const back = Math.min(cover.quantity, left);
+        if (await returnToLayer(cover.layerId, back, session)) {
+            cover.quantity -= back;
+            left -= back;
+        }
+    }
+    layer.coveredBy = (layer.coveredBy || []).filter(c => c.quantity > 0);
+    layer.remaining += left;
+    await layer.save({ session });
+    return true;
+};
+
+// Cost per unit of what is left in the layers
+const layerAverageCost = async (productId, session) => {
+    const layers = await CostLayer.find({ productId, remaining: { $gt: 0 } }).session(session);
+    const quantity = layers.reduce((sum, l) => sum + l.remaining, 0);
+    const value = layers.reduce((sum, l) => sum + l.remaining * l.unitCost, 0);
+    return quantity > 0 ? value / quantity : null;
+};
+
+// FIFO side of postStock; returns the line's unit cost for the movement ledger
+const postFifo = async (transaction, item, invItem, direction, session) => {
+    const fallbackCost = invItem.averageCost;
+
+    if (transaction.type === 'PURCHASE') {
+        const unitCost = item.quantity ? lineValue(item) / item.quantity : item.price;
+        if (direction > 0) {
+            const layer = await addLayer(item.productId, item.quantity, unitCost, 'PURCHASE', transaction, session);
+            item.costLayers = [{ layerId: layer.id, quantity: item.quantity, unitCost }];
+        } else if (item.costLayers?.length) {
+            // Goes negative when the purchase was partly sold; reversing those sales or the next layer added makes it good
+            for (const c of item.costLayers) {
+                await CostLayer.updateOne({ id: c.layerId }, { $inc: { remaining: -c.quantity } }, { session });
+            }
+        } else {
+            // Posted before FIFO was switched on, so it lives in the opening layers
+            await consumeLayers(item.productId, item.quantity, fallbackCost, session);
+        }
+        return unitCost;
+    }
+
+    if (direction > 0) {
+        const consumed = await consumeLayers(item.productId, item.quantity, fallbackCost, session);
+        item.costLayers = consumed;
+        item.cogs = consumed.reduce((sum, c) => sum + c.quantity * c.unitCost, 0);
+    } else if (item.costLayers?.length) {
+        for (const c of item.costLayers) {
+            if (!c.layerId) continue; // Sold into negative stock, nothing was drawn
+            if (!(await returnToLayer(c.layerId, c.quantity, session))) {
+                await addLayer(item.productId, c.quantity, c.unitCost, 'SALE', transaction, session);
+            }
+        }
+    } else {
+        // Sold under weighted average; put the units back at the cost they left at
+        const unitCost = item.quantity ? (item.cogs ?? item.quantity * fallbackCost) / item.quantity : fallbackCost;
+        await addLayer(item.productId, item.quantity, unitCost, 'SALE', transaction, session);
+    }
+    return item.quantity ? (item.cogs ?? item.quantity * fallbackCost) / item.quantity : fallbackCost;
+};
+
+// Unit cost a returned line moves at: credit notes take goods back at the cost
+// they were sold at, debit notes send them back at the price they were bought for
+const returnUnitCost = (transaction, item, sourceLine, direction, fallbackCost) => {
+    if (direction < 0 && item.cogs != null && item.quantity) return item.cogs / item.quantity; // As posted
+    if (!sourceLine?.quantity) return fallbackCost;
+    if (transaction.type === 'DEBIT_NOTE') return lineValue(sourceLine) / sourceLine.quantity;
+    return sourceLine.cogs != null ? sourceLine.cogs / sourceLine.quantity : fallbackCost;
+};
+
+// Credit / debit note side of postStock; returns the line's unit cost for the ledger
+const postReturn = async (transaction, item, invItem, sourceLine, costingMethod, direction, session) => {
+    const unitCost = returnUnitCost(transaction, item, sourceLine, direction, invItem.averageCost);
+    const sign = (transaction.type === 'CREDIT_NOTE' ? 1 : -1) * direction; // +1 = stock comes in
+
+    if (costingMethod === 'FIFO') {
+        if (direction > 0 && sign > 0) {
+            const layer = await addLayer(item.productId, item.quantity, unitCost, 'RETURN', transaction, session);
+            item.costLayers = [{ layerId: layer.id, quantity: item.quantity, unitCost }];
+        } else if (direction > 0) {
+            item.costLayers = await consumeLayers(item.productId, item.quantity, unitCost, session);
+        } else if (item.costLayers?.length) {
+            for (const c of item.costLayers) {
+                if (!c.layerId) continue;
+                if (sign < 0) {
+                    await CostLayer.updateOne({ id: c.layerId }, { $inc: { remaining: -c.quantity } }, { session });
+                } else if (!(await returnToLayer(c.layerId, c.quantity, session))) {
+                    await addLayer(item.productId, c.quantity, c.unitCost, 'RETURN', transaction, session);
+                }
+            }
+        } else if (sign > 0) {
+            // Posted under weighted average
+            await addLayer(item.productId, item.quantity, unitCost, 'RETURN', transaction, session);
+        } else {
+            await consumeLayers(item.productId, item.quantity, unitCost, session);
+        }
+        invItem.quantity += sign * item.quantity;
+        invItem.averageCost = (await layerAverageCost(item.productId, session)) ?? invItem.averageCost;
+    } else {
+        const newTotalValue = invItem.quantity * invItem.averageCost + sign * item.quantity * unitCost;
+        invItem.quantity += sign * item.quantity;
+        if (invItem.quantity > 0) {
+            invItem.averageCost = Math.max(newTotalValue / invItem.quantity, 0);
+        }
+        if (direction > 0) item.costLayers = [];
+    }
+
+    if (direction > 0) item.cogs = item.quantity * unitCost;
+    return unitCost;
+};
+
+// Applies (direction = 1) or reverses (direction = -1) a transaction's effect on
+// stock using the business costing method. Under weighted average, reversal
+// undoes the average the original purchase produced; under FIFO, purchases open
+// cost layers that sales draw down. Sale lines get their cost of goods sold and
+// every line is written to the stock movement ledger. Credit and debit notes
+// bring goods back in or send them out as returns. Each line moves stock at its
+// own location. Drafts, quotations and purchase orders don't touch stock.
+export const postStock = async (transaction, direction, session) => {
+    if (transaction.status === 'Draft' || isOrderType(transaction.type)) return;
+    const { costingMethod } = await getSettings(session);
+    const isReturn = isNoteType(transaction.type);
+    const source = isReturn
+        ? await Transaction.findOne({ id: transaction.sourceDocumentId }).session(session)
+        : null;
+    const movements = [];
+
+    for (const item of transaction.items) {
+        if (!item.productId) continue; // Not linked to the catalog yet, see migrateDescriptionKeyedStock
+        let invItem = await Inventory.findOne({ id: item.productId }).session(session);
+
+        if (!invItem) {
+            const product = await Product.findOne({ id: item.productId }).session(session);
+            invItem = new Inventory({
+                id: item.productId,
+                name: product?.name || item.description,
+                quantity: 0,
+                averageCost: 0,
+                sellingPrice: 0,
+                lastUpdated: transaction.date,
+            });
+        }
+
+        const locationId = item.locationId || transaction.locationId;
+        const before = invItem.quantity;
+        let unitCost;
+        if (isReturn) {
+            const sourceLine = source?.items.find(i => i.id === item.sourceLineId);
+            unitCost = await postReturn(transaction, item, invItem, sourceLine, costingMethod, direction, session);
+        } else if (costingMethod === 'FIFO') {
+            unitCost = await postFifo(transaction, item, invItem, direction, session);
+            invItem.quantity += (transaction.type === 'PURCHASE' ? 1 : -1) * direction * item.quantity;
+            invItem.averageCost = (await layerAverageCost(item.productId, session)) ?? invItem.averageCost;
+            if (transaction.type === 'SALE' && direction > 0) invItem.sellingPrice = item.price;
+        } else if (transaction.type === 'PURCHASE') {
+            unitCost = item.quantity ? lineValue(item) / item.quantity : item.price;
+            const currentTotalValue = invItem.quantity * invItem.averageCost;
+            const newTotalValue = currentTotalValue + direction * lineValue(item);
+            invItem.quantity += direction * item.quantity;
+            if (invItem.quantity > 0) {
+                invItem.averageCost = Math.max(newTotalValue / invItem.quantity, 0);
+            }
+            if (direction > 0) item.costLayers = [];
+        } else {
+            // Sales leave the average cost alone in both directions
+            unitCost = invItem.averageCost;
+            if (direction > 0) {
+                item.cogs = item.quantity * invItem.averageCost;
+                item.costLayers = [];
+                invItem.sellingPrice = item.price;
+            } else if (item.cogs != null && item.quantity) {
+                unitCost = item.cogs / item.quantity;
+            }
+            invItem.quantity -= direction * item.quantity;
+        }
+
+        const locationBalance = adjustLocation(invItem, locationId, invItem.quantity - before);
+        invItem.lastUpdated = direction > 0 ? transaction.date : new Date();
+        await invItem.save({ session });
+
+        const inward = (transaction.type === 'PURCHASE' || transaction.type === 'CREDIT_NOTE') === (direction > 0);
+        movements.push({
+            id: newId(),
+            productId: item.productId,
+            locationId,
+            date: direction > 0 ? transaction.date : new Date(),
+            type: isReturn ? 'RETURN' : transaction.type,
+            qtyIn: inward ? item.quantity : 0,
+            qtyOut: inward ? 0 : item.quantity,
+            unitCost,
+            balance: invItem.quantity,
+            locationBalance,
+            sourceType: transaction.type,
+            sourceId: transaction.id,
+            sourceNumber: transaction.invoiceNumber,
+            isReversal: direction < 0,
+        });
+    }
+
+    if (movements.length > 0) {
+        await StockMovement.insertMany(movements, { session });
+    }
+};
+
+// Stock on hand per product as the books hold it, split by location, with what
+// is left in each cost layer under FIFO (oldest first) for the inventory screens
+export const listStock = async () => {
+    const { costingMethod } = await getSettings();
+    const stock = await Inventory.find();
+    const products = await Product.find({ id: { $in: stock.map(s => s.id) } });
+    const layers = costingMethod === 'FIFO'
+        ? await CostLayer.find({ remaining: { $gt: 0 } }).sort({ date: 1, createdAt: 1 })
+        : [];
+    const productsById = new Map(products.map(p => [p.id, p]));
+
+    return stock.map(s => {
+        const product = productsById.get(s.id);
+        return {
+            id: s.id,
+            sku: product?.sku,
+            name: product?.name || s.name,
+            quantity: s.quantity,
+            averageCost: s.averageCost,
+            sellingPrice: s.sellingPrice,
+            lastUpdated: s.lastUpdated,
+            layers: costingMethod === 'FIFO'
+                ? layers.filter(l => l.productId === s.id).map(l => ({
+                    sourceId: l.sourceId, date: l.date, remaining: l.remaining, unitCost: l.unitCost,
+                }))
+                : undefined,
+            reorderLevel: product?.reorderLevel, // Unset means the app's default
+            byLocation: Object.fromEntries(s.locations.map(l => [l.locationId, l.quantity])),
+        };
+    });
+};
+
+const stockKey = (productId, locationId) => `${productId}@${locationId}`;
+
+// Counted stock that differs from the books: a surplus comes in at the cost given
+// (opening stock), else the current average cost or the catalog purchase price if
+// there is none yet; a shortfall goes out like a sale, oldest layers first under
+// FIFO. Returns the unit cost.
+export const postAdjustment = async (adjustment, session) => {
+    const { productId, locationId, quantity } = adjustment;
+    const { costingMethod } = await getSettings(session);
+    const product = await Product.findOne({ id: productId }).session(session);
+    const invItem = await Inventory.findOne({ id: productId }).session(session) || new Inventory({
+        id: productId,
+        name: product?.name || productId,
+        quantity: 0,
+        averageCost: 0,
+        sellingPrice: 0,
+    });
+
+    let unitCost = quantity > 0
+        ? adjustment.unitCost ?? (invItem.averageCost || product?.purchasePrice || 0)
+        : invItem.averageCost;
+    if (costingMethod === 'FIFO') {
+        if (quantity > 0) {
+            await addLayer(productId, quantity, unitCost, 'ADJUSTMENT', { id: adjustment.sourceId, invoiceNumber: adjustment.sourceNumber, date: adjustment.date }, session);
+        } else {
+            const consumed = await consumeLayers(productId, -quantity, unitCost, session);
+            unitCost = consumed.reduce((sum, c) => sum + c.quantity * c.unitCost, 0) / -quantity;
+        }
+        invItem.quantity += quantity;
+        invItem.averageCost = (await layerAverageCost(productId, session)) ?? invItem.averageCost;
+    } else {
+        if (invItem.quantity + quantity > 0) {
+            invItem.averageCost = Math.max((invItem.quantity * invItem.averageCost + quantity * unitCost) / (invItem.quantity + quantity), 0);
+        }
+        invItem.quantity += quantity;
+    }
+
+    const locationBalance = adjustLocation(invItem, locationId, quantity);
+    invItem.lastUpdated = adjustment.date;
+    await invItem.save({ session });
+
+    await StockMovement.create([{
+        id: newId(),
+        productId,
+        locationId,
+        date: adjustment.date,
+        type: 'ADJUSTMENT',
+        qtyIn: quantity > 0 ? quantity : 0,
+        qtyOut: quantity < 0 ? -quantity : 0,
+        unitCost,
+        balance: invItem.quantity,
+        locationBalance,
+        sourceType: 'STOCKTAKE',
+        sourceId: adjustment.sourceId,
+        sourceNumber: adjustment.sourceNumber,
+        notes: adjustment.notes,
+    }], { session });
+    return unitCost;
+};
+
+// Products a sale asks for more of than is on hand at the line's location. What
+// this sale already took, when it is being edited and isn't a draft, counts as
+// available again. Lines must have their locations applied.
+export const findStockShortages = async (transaction) => {
+    const requested = new Map();
+    for (const item of transaction.items) {
+        const key = stockKey(item.productId, item.locationId);
+        const line = requested.get(key) || { productId: item.productId, locationId: item.locationId, quantity: 0 };
+        line.quantity += item.quantity;
+        requested.set(key, line);
+    }
+
+    const available = new Map();
+    const stock = await Inventory.find({ id: { $in: transaction.items.map(i => i.productId) } });
+    for (const s of stock) {
+        for (const l of s.locations) available.set(stockKey(s.id, l.locationId), l.quantity);
+    }
+
+    const existing = await Transaction.findOne({ id: transaction.id, type: 'SALE', status: { $ne: 'Draft' } });
+    for (const item of existing?.items || []) {
+        const key = stockKey(item.productId, item.locationId || existing.locationId);
+        available.set(key, (available.get(key) || 0) + item.quantity);
+    }
+
+    const locations = await Location.find({ id: { $in: transaction.items.map(i => i.locationId) } });
+    const shortages = [];
+    for (const [key, { productId, locationId, quantity }] of requested) {
+        const onHand = available.get(key) || 0;
+        if (quantity > onHand) {
+            const name = stock.find(s => s.id === productId)?.name
+                || transaction.items.find(i => i.productId === productId)?.description;
+            const locationName = locations.find(l => l.id === locationId)?.name || locationId;
+            shortages.push({ productId, name, locationId, locationName, requested: quantity, available: onHand });
+        }
+    }
+    return shortages;
+};
+
+// Drafts used to post stock like any other bill. Takes back whatever a draft
+// still has posted, going by its net movements in the ledger.
+export const releaseDraftStock = async () => {
+    const drafts = await Transaction.find({ status: 'Draft' });
+    let released = 0;
+
+    for (const draft of drafts) {
+        const movements = await StockMovement.find({ sourceId: draft.id });
+        const net = movements.reduce((sum, m) => sum + m.qtyIn - m.qtyOut, 0);
+        if (net === 0) continue;
+
+        const posted = draft.toObject();
+        posted.status = 'Posted'; // Anything but Draft, so postStock reverses it
+        const session = await mongoose.startSession();
+        try {
+            await session.withTransaction(() => postStock(posted, -1, session));
+        } finally {
+            await session.endSession();
+        }
+        released++;
+    }
+
+    if (released > 0) console.log(`Released stock held by ${released} draft(s)`);
+};
+
+// Builds the ledger for data posted before it existed by replaying every
+// transaction in date order
+export const backfillStockMovements = async () => {
+    if (await StockMovement.exists({})) return;
+
+    const transactions = await Transaction.find({ type: { $in: POSTING_TYPES } }).sort({ date: 1 });
+    const state = new Map();
+    const movements = [];
+
+    for (const t of transactions) {
+        for (const item of t.items) {
+            if (!item.productId) continue;
+            const s = state.get(item.productId) || { quantity: 0, averageCost: 0 };
+            let unitCost = s.averageCost;
+
+            if (t.type === 'PURCHASE') {
+                unitCost = item.quantity ? lineValue(item) / item.quantity : item.price;
+                const value = s.quantity * s.averageCost + lineValue(item);
+                s.quantity += item.quantity;
+                if (s.quantity > 0) s.averageCost = value / s.quantity;
+            } else {
+                s.quantity -= item.quantity;
+            }
+            state.set(item.productId, s);
+
+            movements.push({
+                id: newId(),
+                productId: item.productId,
+                date: t.date,
+                type: t.type,
+                qtyIn: t.type === 'PURCHASE' ? item.quantity : 0,
+                qtyOut: t.type === 'PURCHASE' ? 0 : item.quantity,
+                unitCost,
+                balance: s.quantity,
+                sourceType: t.type,
+                sourceId: t.id,
+                sourceNumber: t.invoiceNumber,
+                notes: 'Backfilled from transaction history',
+            });
+        }
+    }
+
+    if (movements.length > 0) {
+        await StockMovement.insertMany(movements);
+        console.log(`Backfilled ${movements.length} stock movement(s)`);
+    }
+};
+
+// Sale lines posted before cost of goods sold was recorded get it from the
+// weighted average cost at the time of the sale, replayed from history
+export const backfillSaleCogs = async () => {
+    if (!(await Transaction.exists({ type: 'SALE', items: { $elemMatch: { productId: { $ne: null }, cogs: null } } }))) return;
+
+    const transactions = await Transaction.find({ type: { $in: POSTING_TYPES } }).sort({ date: 1 });
+    const state = new Map();
+    let updated = 0;
+
+    for (const t of transactions) {
+        let changed = false;
+        for (const item of t.items) {
+            if (!item.productId) continue;
+            const s = state.get(item.productId) || { quantity: 0, averageCost: 0 };
+
+            if (t.type === 'PURCHASE') {
+                const value = s.quantity * s.averageCost + lineValue(item);
+                s.quantity += item.quantity;
+                if (s.quantity > 0) s.averageCost = value / s.quantity;
+            } else {
+                if (item.cogs == null) {
+                    item.cogs = item.quantity * s.averageCost;
+                    changed = true;
+                }
+                s.quantity -= item.quantity;
+            }
+            state.set(item.productId, s);
+        }
+        if (changed) {
+            t.markModified('items');
+            await t.save();
+            updated++;
+        }
+    }
+
+    console.log(`Recorded cost of goods sold on ${updated} older sale(s)`);
+};
@@ -0,0 +1,187 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+// Just enough of the Mongoose models for stock postings, kept in memory
+const models = vi.hoisted(() => {
+    const compare = (value, op, arg) => ({
+        $gt: value > arg,
+        $lt: value < arg,
+        $lte: value <= arg,
+        $in: arg.includes?.(value),
+    })[op];
+    const matches = (doc, filter) => Object.entries(filter).every(([key, cond]) =>
+        cond && typeof cond === 'object'
+            ? Object.entries(cond).every(([op, arg]) => compare(doc[key], op, arg))
+            : doc[key] === cond);
+    const sortBy = (spec) => (a, b) => {
+        for (const [key, dir] of Object.entries(spec)) {
+            if (a[key] < b[key]) return -dir;
+            if (a[key] > b[key]) return dir;
+        }
+        return 0;
+    };
+    const query = (run) => {
+        let order = null;
+        const q = {
+            sort: (spec) => { order = spec; return q; },
+            session: () => q,
+            then: (resolve, reject) => {
+                const result = run();
+                if (order && Array.isArray(result)) result.sort(sortBy(order));
+                return Promise.resolve(result).then(resolve, reject);
+            },
+        };
+        return q;
+    };
+
+    let created = 0;
+    const model = (defaults = {}) => {
+        class Model {
+            constructor(fields) {
+                Object.assign(this, structuredClone(defaults), fields, { createdAt: created++ });
+            }
+
+            async save() {
+                if (!Model.docs.includes(this)) Model.docs.push(this);
+                return this;
+            }
+        }
+        Model.docs = [];
+        Model.find = (filter = {}) => query(() => Model.docs.filter(d => matches(d, filter)));
+        Model.findOne = (filter) => query(() => Model.docs.find(d => matches(d, filter)) ?? null);
+        Model.create = async (list) => Promise.all(list.map(fields => new Model(fields).save()));
+        Model.insertMany = Model.create;
+        Model.updateOne = async (filter, update) => {
+            const doc = Model.docs.find(d => matches(d, filter));
+            if (!doc) return { matchedCount: 0 };
+            for (const [key, by] of Object.entries(update.$inc || {})) doc[key] += by;
+            return { matchedCount: 1 };
+        };
+        return Model;
+    };
+
+    return {
+        CostLayer: model(),
+        Inventory: model({ locations: [] }),
+        Location: model(),
+        Product: model(),
+        StockMovement: model(),
+        Transaction: model(),
+    };
+});
+
+vi.mock('./models.js', () => models);
+vi.mock('./settings.js', () => ({ getSettings: async () => ({ costingMethod: 'FIFO' }) }));
+
+const { postStock } = await import('./stock.js');
+const { CostLayer, Inventory } = models;
+
+const document = (id, type, date, quantity, price) => ({
+    id,
+    type,
+    invoiceNumber: id.toUpperCase(),
+    status: 'Pending',
+    date: new Date(date),
+    locationId: 'main',
+    items: [{ id: `${id}-1`, productId: 'widget', description: 'Widget', quantity, price, taxableValue: quantity * price }],
+});
+
+const onHand = () => Inventory.docs.find(i => i.id === 'widget').quantity;
+const inLayers = () => CostLayer.docs.reduce((sum, l) => sum + Math.max(l.remaining, 0), 0);
+const layerValue = () => CostLayer.docs.reduce((sum, l) => sum + Math.max(l.remaining, 0) * l.unitCost, 0);
+
+// Editing a document reverses the saved version and posts the new one, as the save route does
+const edit = async (saved, changes) => {
+    const updated = { ...structuredClone(saved), ...changes };
+    await postStock(saved, -1, null);
+    await postStock(updated, 1, null);
+    return updated;
+};
+
+describe('FIFO purchase edited after part of it was sold', () => {
+    let purchase;
+    let sale;
+
+    beforeEach(async () => {
+        for (const model of Object.values(models)) model.docs.length = 0;
+        purchase = document('p1', 'PURCHASE', '2025-04-01', 10, 100);
+        sale = document('s1', 'SALE', '2025-04-02', 3, 150);
+        await postStock(purchase, 1, null);
+        await postStock(sale, 1, null);
+    });
+
+    it('keeps what is left in the layers', async () => {
+        await edit(purchase, { items: [{ ...purchase.items[0], price: 120, taxableValue: 1200 }] });
+
+        expect(onHand()).toBe(7);
+        expect(inLayers()).toBe(7);
+        expect(layerValue()).toBe(840);
+        expect(CostLayer.docs.every(l => l.remaining >= 0)).toBe(true);
+        expect(Inventory.docs[0].averageCost).toBe(120);
+    });
+
+    it('costs later sales from the edited purchase', async () => {
+        await edit(purchase, { items: [{ ...purchase.items[0], price: 120, taxableValue: 1200 }] });
+        const next = document('s2', 'SALE', '2025-04-03', 7, 150);
+        await postStock(next, 1, null);
+
+        expect(next.items[0].cogs).toBe(840);
+        expect(next.items[0].costLayers.every(c => c.layerId)).toBe(true);
+        expect(onHand()).toBe(0);
+        expect(inLayers()).toBe(0);
+    });
+
+    it('survives a second edit', async () => {
+        const first = await edit(purchase, { items: [{ ...purchase.items[0], quantity: 12, taxableValue: 1200 }] });
+        await edit(first, { items: [{ ...first.items[0], quantity: 8, taxableValue: 800 }] });
+
+        expect(onHand()).toBe(5);
+        expect(inLayers()).toBe(5);
+        expect(layerValue()).toBe(500);
+    });
+
+    it('gets the sold units back at the edited cost when the sale is deleted', async () => {
+        await edit(purchase, { items: [{ ...purchase.items[0], price: 120, taxableValue: 1200 }] });
+        await postStock(sale, -1, null);
+
+        expect(onHand()).toBe(10);
+        expect(inLayers()).toBe(10);
+        expect(layerValue()).toBe(1200);
+        expect(Inventory.docs[0].averageCost).toBe(120);
+    });
+
+    it('gets the sold units back at the latest cost after a second edit', async () => {
+        const first = await edit(purchase, { items: [{ ...purchase.items[0], price: 110, taxableValue: 1100 }] });
+        await edit(first, { items: [{ ...first.items[0], quantity: 8, price: 125, taxableValue: 1000 }] });
+        await postStock(sale, -1, null);
+
+        expect(onHand()).toBe(8);
+        expect(inLayers()).toBe(8);
+        expect(layerValue()).toBe(1000);
+    });
+
+    it('values a sale edited after the purchase was cut below what it sold', async () => {
+        await edit(purchase, { items: [{ ...purchase.items[0], quantity: 2, price: 120, taxableValue: 240 }] });
+        expect(onHand()).toBe(-1);
+        expect(inLayers()).toBe(0);
+
+        const smaller = await edit(sale, { items: [{ ...sale.items[0], quantity: 1, taxableValue: 150 }] });
+        expect(onHand()).toBe(1);
+        expect(inLayers()).toBe(1);
+        expect(layerValue()).toBe(120);
+        expect(smaller.items[0].cogs).toBe(120);
+    });
+
+    it('keeps the layers in step when the purchase is deleted and bought again', async () => {
+        await postStock(purchase, -1, null);
+        await postStock(document('p2', 'PURCHASE', '2025-04-05', 5, 110), 1, null);
+
+        expect(onHand()).toBe(2);
+        expect(inLayers()).toBe(2);
+        expect(layerValue()).toBe(220);
+
+        await postStock(sale, -1, null);
+        expect(onHand()).toBe(5);
+        expect(inLayers()).toBe(5);
+        expect(layerValue()).toBe(550);
+    });
+});
@@ -0,0 +1,60 @@
+import { Inventory, Location, Product } from './models.js';
+import { locationQuantity } from './locations.js';
+import { postAdjustment } from './stock.js';
+
+const lineKey = (line) => `${line.productId}@${line.locationId}`;
+
+// Lines for a new count: every catalog product in the category (all of them
+// when none is given) at the location (every location when none is given), with
+// the book quantity as it stands now
+export const buildStocktakeLines = async ({ locationId, category }) => {
+    const products = await Product.find(category ? { category } : {}).sort({ name: 1 });
+    const locations = await Location.find(locationId ? { id: locationId } : {}).sort({ name: 1 });
+    const stock = await Inventory.find({ id: { $in: products.map(p => p.id) } });
+
+    return locations.flatMap(location => products.map(product => ({
+        productId: product.id,
+        name: product.name,
+        sku: product.sku,
+        locationId: location.id,
+        systemQuantity: locationQuantity(stock.find(s => s.id === product.id), location.id),
+    })));
+};
+
+// Copies counted quantities from the form onto a count in progress; null clears
+// a count. Returns an error message or null.
+export const applyCounts = (stocktake, lines = []) => {
+    const counts = new Map(lines.map(l => [lineKey(l), l.countedQuantity]));
+    for (const line of stocktake.lines) {
+        const counted = counts.get(lineKey(line));
+        if (counted === undefined) continue;
+        if (counted !== null && !(counted >= 0)) {
+            return `${line.name}: the counted quantity can't be negative`;
+        }
+        line.countedQuantity = counted ?? undefined;
+    }
+    return null;
+};
+
+// Posts the difference between counted and book quantity on every counted line
+// as an adjustment, dated the day of the count. Movements since the count started
+// are left alone, since the difference is taken against the snapshot.
+export const postStocktake = async (stocktake, session) => {
+    for (const line of stocktake.lines) {
+        if (line.countedQuantity == null) continue;
+        line.adjustment = line.countedQuantity - line.systemQuantity;
+        if (line.adjustment === 0) continue;
+
+        line.unitCost = await postAdjustment({
+            productId: line.productId,
+            locationId: line.locationId,
+            quantity: line.adjustment,
+            date: stocktake.date,
+            sourceId: stocktake.id,
+            sourceNumber: stocktake.stocktakeNumber,
+            notes: `Counted ${line.countedQuantity}, books said ${line.systemQuantity}`,
+        }, session);
+    }
+    stocktake.status = 'Posted';
+    stocktake.postedAt = new Date();
+};
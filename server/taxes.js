@@ -0,0 +1,42 @@
+// GST on a document's lines, worked out on the server whatever the app or an
+// imported file sent, so every document is priced by the same rule.
+
+const round2 = (value) => Math.round(value * 100) / 100;
+
+// Line taxes and document totals from quantity, price, discount and rate, the
+// same way calculateLineTax and calculateInvoiceTotals in services/gst.ts do
+export const applyTaxes = (transaction, homeState) => {
+    const interState = (transaction.placeOfSupply || homeState) !== homeState;
+    transaction.items = transaction.items.map(item => {
+        const rate = item.gstRate || 0;
+        const gross = item.quantity * item.price * (1 - (item.discount || 0) / 100);
+        const taxableValue = round2(transaction.taxInclusive ? gross / (1 + rate / 100) : gross);
+        const tax = round2(transaction.taxInclusive ? gross - taxableValue : taxableValue * rate / 100);
+        const cgst = interState ? 0 : round2(tax / 2);
+        return {
+            ...item,
+            taxableValue,
+            cgst,
+            sgst: interState ? 0 : round2(tax - cgst),
+            igst: interState ? tax : 0,
+            lineTotal: round2(taxableValue + tax),
+        };
+    });
+
+    const sum = (field) => round2(transaction.items.reduce((total, item) => total + item[field], 0));
+    transaction.taxableAmount = sum('taxableValue');
+    transaction.cgstAmount = sum('cgst');
+    transaction.sgstAmount = sum('sgst');
+    transaction.igstAmount = sum('igst');
+    transaction.totalTax = round2(transaction.cgstAmount + transaction.sgstAmount + transaction.igstAmount);
+    transaction.totalAmount = round2(transaction.taxableAmount + transaction.totalTax);
+};
+
+const isAmount = (value) => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+// Lines applyTaxes can price; returns an error message or null
+export const checkLineAmounts = (items) => {
+    const bad = items.find(item => !(isAmount(item.quantity) && item.quantity > 0) || !isAmount(item.price)
+        || !isAmount(item.gstRate ?? 0) || !isAmount(item.discount ?? 0) || item.discount > 100);
+    return bad ? `${bad.description || 'A line'}: quantity must be more than zero, price and GST rate zero or more, and discount 0 to 100%` : null;
+};
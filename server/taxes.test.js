@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { applyTaxes, checkLineAmounts } from './taxes.js';
+import { calculateInvoiceTotals, calculateLineTax } from '../services/gst';
+
+const lines = [
+    { id: '1', description: 'Widget', quantity: 3, price: 33.33, gstRate: 18, discount: 7.5 },
+    { id: '2', description: 'Cable', quantity: 2, price: 118, gstRate: 5 },
+    { id: '3', description: 'Service', quantity: 1, price: 999.99, gstRate: 0 },
+];
+
+// What the app shows for the same document
+const inApp = (document) => {
+    const interState = !!document.placeOfSupply && document.placeOfSupply !== '07';
+    const items = document.items.map(item => calculateLineTax(item, document.taxInclusive, interState));
+    return { items, ...calculateInvoiceTotals(items) };
+};
+
+describe('applyTaxes', () => {
+    it.each([
+        ['within the state', { placeOfSupply: '07', taxInclusive: false }],
+        ['between states', { placeOfSupply: '27', taxInclusive: false }],
+        ['with tax-inclusive prices', { placeOfSupply: '07', taxInclusive: true }],
+    ])('prices a document %s the same as the app', (_, terms) => {
+        const document = { ...terms, items: structuredClone(lines) };
+        applyTaxes(document, '07');
+        expect(document).toMatchObject(inApp({ ...terms, items: structuredClone(lines) }));
+    });
+
+    it('replaces the amounts it was sent', () => {
+        const document = { placeOfSupply: '07', items: [{ ...lines[1], taxableValue: 1, cgst: 1, sgst: 1 }], totalAmount: 1 };
+        applyTaxes(document, '07');
+        expect(document.items[0].taxableValue).toBe(236);
+        expect(document.totalAmount).toBe(247.8);
+    });
+});
+
+describe('checkLineAmounts', () => {
+    it('takes lines the sums can use', () => {
+        expect(checkLineAmounts(lines)).toBeNull();
+    });
+
+    it('names the first line it cannot price', () => {
+        expect(checkLineAmounts([lines[0], { ...lines[1], quantity: 0 }])).toMatch(/^Cable:/);
+        expect(checkLineAmounts([{ ...lines[0], price: '10' }])).toMatch(/^Widget:/);
+        expect(checkLineAmounts([{ ...lines[0], discount: 101 }])).toMatch(/^Widget:/);
+    });
+});
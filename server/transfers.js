@@ -0,0 +1,108 @@
+import mongoose from 'mongoose';
+import { Inventory, Location, Product, StockMovement } from './models.js';
+import { adjustLocation, locationQuantity } from './locations.js';
+
+const newId = () => new mongoose.Types.ObjectId().toString();
+
+// Checks a transfer before it is posted. Returns an error message, or null when
+// both locations exist and the source has every line in stock.
+export const checkTransfer = async (transfer) => {
+    if (!transfer.fromLocationId || !transfer.toLocationId) {
+        return 'Pick the location stock moves from and the one it moves to';
+    }
+    if (transfer.fromLocationId === transfer.toLocationId) {
+        return 'Stock must move to a different location';
+    }
+    const locations = await Location.find({ id: { $in: [transfer.fromLocationId, transfer.toLocationId] } });
+    if (locations.length !== 2) {
+        return 'One of the locations no longer exists';
+    }
+    const from = locations.find(l => l.id === transfer.fromLocationId);
+
+    if (!transfer.items?.length) {
+        return 'Add at least one item to move';
+    }
+    if (transfer.items.some(i => !(i.quantity > 0))) {
+        return 'Every line needs a quantity above zero';
+    }
+
+    const productIds = [...new Set(transfer.items.map(i => i.productId))];
+    if (await Product.countDocuments({ id: { $in: productIds } }) !== productIds.length) {
+        return 'Every line must be a product from the catalog';
+    }
+
+    const requested = new Map();
+    for (const item of transfer.items) {
+        requested.set(item.productId, (requested.get(item.productId) || 0) + item.quantity);
+    }
+    const stock = await Inventory.find({ id: { $in: productIds } });
+    for (const [productId, quantity] of requested) {
+        const invItem = stock.find(s => s.id === productId);
+        const onHand = locationQuantity(invItem, from.id);
+        if (quantity > onHand) {
+            const name = invItem?.name || transfer.items.find(i => i.productId === productId).description;
+            return `${name}: ${quantity} requested, ${onHand} at ${from.name}`;
+        }
+    }
+    return null;
+};
+
+// Moves each line out of one location and into the other (direction = -1 moves
+// it back). Totals and cost stay as they are; the ledger gets a TRANSFER row for
+// each side.
+export const postTransfer = async (transfer, direction, session) => {
+    const [fromId, toId] = direction > 0
+        ? [transfer.fromLocationId, transfer.toLocationId]
+        : [transfer.toLocationId, transfer.fromLocationId];
+    const date = direction > 0 ? transfer.date : new Date();
+    const movements = [];
+
+    for (const item of transfer.items) {
+        const invItem = await Inventory.findOne({ id: item.productId }).session(session);
+        if (!invItem) continue; // Nothing was ever in stock, so nothing moved
+
+        const fromBalance = adjustLocation(invItem, fromId, -item.quantity);
+        const toBalance = adjustLocation(invItem, toId, item.quantity);
+        await invItem.save({ session });
+
+        const shared = {
+            productId: item.productId,
+            date,
+            type: 'TRANSFER',
+            unitCost: invItem.averageCost,
+            balance: invItem.quantity,
+            sourceType: 'TRANSFER',
+            sourceId: transfer.id,
+            sourceNumber: transfer.transferNumber,
+            isReversal: direction < 0,
+        };
+        movements.push(
+            { ...shared, id: newId(), locationId: fromId, qtyOut: item.quantity, locationBalance: fromBalance },
+            { ...shared, id: newId(), locationId: toId, qtyIn: item.quantity, locationBalance: toBalance },
+        );
+    }
+
+    if (movements.length > 0) {
+        await StockMovement.insertMany(movements, { session });
+    }
+};
+
+// Whether stock moved in by a transfer has since left the destination, so
+// undoing it would take that location below zero. Returns an error message or null.
+export const checkTransferReversal = async (transfer) => {
+    const location = await Location.findOne({ id: transfer.toLocationId });
+    const stock = await Inventory.find({ id: { $in: transfer.items.map(i => i.productId) } });
+    const moved = new Map();
+    for (const item of transfer.items) {
+        moved.set(item.productId, (moved.get(item.productId) || 0) + item.quantity);
+    }
+    for (const [productId, quantity] of moved) {
+        const invItem = stock.find(s => s.id === productId);
+        const onHand = locationQuantity(invItem, transfer.toLocationId);
+        if (quantity > onHand) {
+            const name = invItem?.name || transfer.items.find(i => i.productId === productId).description;
+            return `${name}: only ${onHand} left at ${location?.name || 'the destination'}, so the transfer can't be undone`;
+        }
+    }
+    return null;
+};
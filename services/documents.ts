@@ -0,0 +1,162 @@
+import { Invoice, InvoiceStatus, LineItem, NumberedType, NumberSeries, TransactionType } from '../types';
+
+export interface DocumentLabels {
+  name: string; // e.g. "Bill"
+  plural: string;
+  numberLabel: string;
+  numberPlaceholder: string;
+  printTitle: string;
+  dateLabel: string; // What the due date means on this document
+}
+
+export const DOCUMENT_LABELS: Record<TransactionType, DocumentLabels> = {
+  SALE: { name: 'Bill', plural: 'bills', numberLabel: 'Bill No.', numberPlaceholder: 'BILL-001', printTitle: 'TAX INVOICE / BILL', dateLabel: 'Due Date' },
+  PURCHASE: { name: 'Invoice', plural: 'purchases', numberLabel: 'Invoice No.', numberPlaceholder: 'INV-001', printTitle: 'PURCHASE INVOICE', dateLabel: 'Due Date' },
+  QUOTATION: { name: 'Quotation', plural: 'quotations', numberLabel: 'Quotation No.', numberPlaceholder: 'QT-001', printTitle: 'QUOTATION', dateLabel: 'Valid Until' },
+  PURCHASE_ORDER: { name: 'Purchase Order', plural: 'purchase orders', numberLabel: 'PO No.', numberPlaceholder: 'PO-001', printTitle: 'PURCHASE ORDER', dateLabel: 'Expected Delivery' },
+  CREDIT_NOTE: { name: 'Credit Note', plural: 'credit notes', numberLabel: 'Credit Note No.', numberPlaceholder: 'CN-001', printTitle: 'CREDIT NOTE', dateLabel: 'Due Date' },
+  DEBIT_NOTE: { name: 'Debit Note', plural: 'debit notes', numberLabel: 'Debit Note No.', numberPlaceholder: 'DN-001', printTitle: 'DEBIT NOTE', dateLabel: 'Due Date' },
+};
+
+// Statuses a quotation or purchase order can be set to by hand; the converted ones are derived
+export const ORDER_STATUSES = [InvoiceStatus.OPEN, InvoiceStatus.ACCEPTED, InvoiceStatus.CANCELLED];
+
+// Matches the server defaults in server/models.js
+export const DEFAULT_NUMBER_SERIES: Record<NumberedType, NumberSeries> = {
+  SALE: { prefix: 'INV/{FY}/', padding: 3 },
+  QUOTATION: { prefix: 'QT/{FY}/', padding: 4 },
+  PURCHASE_ORDER: { prefix: 'PO/{FY}/', padding: 4 },
+  CREDIT_NOTE: { prefix: 'CN/{FY}/', padding: 4 },
+  DEBIT_NOTE: { prefix: 'DN/{FY}/', padding: 4 },
+};
+
+export const isNumberedType = (type: TransactionType): type is NumberedType => type !== 'PURCHASE';
+
+// Indian financial year, April to March: 2025-04-01 is in "2025-26"
+export const getFinancialYear = (date: string | Date) => {
+  const d = new Date(date);
+  const start = d.getMonth() >= 3 ? d.getFullYear() : d.getFullYear() - 1;
+  return `${start}-${String(start + 1).slice(-2)}`;
+};
+
+export const formatDocumentNumber = (series: NumberSeries, financialYear: string, seq: number) =>
+  series.prefix.split('{FY}').join(financialYear) + String(seq).padStart(series.padding, '0');
+
+export const isOrderType = (type: TransactionType) => type === 'QUOTATION' || type === 'PURCHASE_ORDER';
+
+export const isNoteType = (type: TransactionType) => type === 'CREDIT_NOTE' || type === 'DEBIT_NOTE';
+
+// Customer-facing documents vs vendor-facing ones
+export const partySide = (type: TransactionType): 'SALE' | 'PURCHASE' =>
+  type === 'SALE' || type === 'QUOTATION' || type === 'CREDIT_NOTE' ? 'SALE' : 'PURCHASE';
+
+// The note that returns goods from a bill or purchase invoice
+export const noteTypeFor = (type: TransactionType): TransactionType =>
+  partySide(type) === 'SALE' ? 'CREDIT_NOTE' : 'DEBIT_NOTE';
+
+export const convertsTo = (type: TransactionType): TransactionType =>
+  type === 'QUOTATION' ? 'SALE' : type === 'PURCHASE_ORDER' ? 'PURCHASE' : type;
+
+export const getRemainingQuantity = (line: LineItem) => Math.max(line.quantity - (line.convertedQuantity || 0), 0);
+
+export const canConvert = (order: Invoice) =>
+  isOrderType(order.type) &&
+  order.status !== InvoiceStatus.CANCELLED &&
+  order.items.some(line => getRemainingQuantity(line) > 0);
+
+// A new bill or purchase invoice for whatever is still undelivered on the order
+export const buildConversion = (order: Invoice): Invoice => {
+  const stamp = Date.now();
+  const today = new Date().toISOString().split('T')[0];
+  return {
+    id: stamp.toString(),
+    type: convertsTo(order.type),
+    invoiceNumber: '',
+    partyId: order.partyId,
+    partyName: order.partyName,
+    partyGstin: order.partyGstin,
+    placeOfSupply: order.placeOfSupply,
+    taxInclusive: order.taxInclusive,
+    locationId: order.locationId,
+    date: today,
+    dueDate: today,
+    status: InvoiceStatus.PENDING,
+    totalAmount: 0,
+    items: order.items
+      .filter(line => getRemainingQuantity(line) > 0)
+      .map((line, i) => ({
+        id: `${stamp}-${i}`,
+        productId: line.productId,
+        description: line.description,
+        quantity: getRemainingQuantity(line),
+        price: line.price,
+        discount: line.discount,
+        hsnCode: line.hsnCode,
+        gstRate: line.gstRate,
+        sourceLineId: line.id,
+        locationId: line.locationId,
+      })),
+    sourceDocumentId: order.id,
+    sourceDocumentNumber: order.invoiceNumber,
+  };
+};
+
+// Quantity already returned per invoice line, leaving out one note if given
+export const getReturnedQuantities = (invoiceId: string, transactions: Invoice[], excludeId?: string) => {
+  const returned = new Map<string, number>();
+  transactions
+    .filter(t => isNoteType(t.type) && t.sourceDocumentId === invoiceId && t.id !== excludeId)
+    .forEach(t => t.items.forEach(line => {
+      if (line.sourceLineId) returned.set(line.sourceLineId, (returned.get(line.sourceLineId) || 0) + line.quantity);
+    }));
+  return returned;
+};
+
+// What each line of the invoice can still take back, keyed by invoice line id
+export const getReturnLimits = (invoice: Invoice, transactions: Invoice[], excludeId?: string) => {
+  const returned = getReturnedQuantities(invoice.id, transactions, excludeId);
+  return Object.fromEntries(invoice.items.map(line => [line.id, Math.max(line.quantity - (returned.get(line.id) || 0), 0)]));
+};
+
+export const canReturn = (invoice: Invoice, transactions: Invoice[]) =>
+  (invoice.type === 'SALE' || invoice.type === 'PURCHASE') &&
+  invoice.status !== InvoiceStatus.DRAFT &&
+  Object.values(getReturnLimits(invoice, transactions)).some(qty => qty > 0);
+
+// A credit or debit note for everything not yet returned; quantities are trimmed on the form
+export const buildReturn = (invoice: Invoice, transactions: Invoice[]): Invoice => {
+  const stamp = Date.now();
+  const today = new Date().toISOString().split('T')[0];
+  const limits = getReturnLimits(invoice, transactions);
+  return {
+    id: stamp.toString(),
+    type: noteTypeFor(invoice.type),
+    invoiceNumber: '',
+    partyId: invoice.partyId,
+    partyName: invoice.partyName,
+    partyGstin: invoice.partyGstin,
+    placeOfSupply: invoice.placeOfSupply,
+    taxInclusive: invoice.taxInclusive,
+    locationId: invoice.locationId,
+    date: today,
+    dueDate: today,
+    status: InvoiceStatus.ISSUED,
+    totalAmount: 0,
+    items: invoice.items
+      .filter(line => limits[line.id] > 0)
+      .map((line, i) => ({
+        id: `${stamp}-${i}`,
+        productId: line.productId,
+        description: line.description,
+        quantity: limits[line.id],
+        price: line.price,
+        discount: line.discount,
+        hsnCode: line.hsnCode,
+        gstRate: line.gstRate,
+        sourceLineId: line.id,
+        locationId: line.locationId, // Goods go back where they came from
+      })),
+    sourceDocumentId: invoice.id,
+    sourceDocumentNumber: invoice.invoiceNumber,
+  };
+};
@@ -1,6 +1,10 @@
 
 import { GoogleGenAI, Type } from "@google/genai";
 import { AIAnalysisResult, Invoice, InventoryItem, ChatMessage, InvoiceStatus } from "../types";
+import { getBalanceDue, isOutstanding } from "./payments";
+import { normalizePartyName } from "./parties";
+import { buildProfitSummary } from "./profit";
+import { isLowStock } from "./inventory";
 
 const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
 const MODEL_ID = "gemini-2.5-flash";
@@ -68,43 +72,49 @@ export const generateBusinessReport = async (transactions: Invoice[], inventory:
     // Financial calculations
     const totalRevenue = sales.reduce((sum, t) => sum + t.totalAmount, 0);
     const totalExpense = purchases.reduce((sum, t) => sum + t.totalAmount, 0);
-    const netProfit = totalRevenue - totalExpense;
-    const profitMargin = totalRevenue > 0 ? ((netProfit / totalRevenue) * 100).toFixed(1) : 0;
+    const profit = buildProfitSummary(transactions, inventory);
+
+    // Per product margins, best and worst
+    const productMargins = profit.byProduct
+      .map(p => `• ${p.name}: sold ${p.quantity} | Revenue ₹${p.revenue.toFixed(0)} | COGS ₹${p.cogs.toFixed(0)} | Gross Profit ₹${p.grossProfit.toFixed(0)} (${p.margin.toFixed(1)}%)`)
+      .join('\n');
 
     // Payment status breakdown
-    const pendingPayments = sales.filter(t => t.status === InvoiceStatus.PENDING);
+    const pendingPayments = sales.filter(t => isOutstanding(t) && t.status !== InvoiceStatus.OVERDUE);
     const overduePayments = sales.filter(t => t.status === InvoiceStatus.OVERDUE);
-    const pendingAmount = pendingPayments.reduce((sum, t) => sum + t.totalAmount, 0);
-    const overdueAmount = overduePayments.reduce((sum, t) => sum + t.totalAmount, 0);
+    const pendingAmount = pendingPayments.reduce((sum, t) => sum + getBalanceDue(t), 0);
+    const overdueAmount = overduePayments.reduce((sum, t) => sum + getBalanceDue(t), 0);
 
     // Inventory analysis
-    const lowStockItems = inventory.filter(i => i.quantity > 0 && i.quantity <= 5);
+    const lowStockItems = inventory.filter(isLowStock);
     const outOfStockItems = inventory.filter(i => i.quantity <= 0);
     const wellStockedItems = inventory.filter(i => i.quantity > 20);
 
     // Format inventory data
     const inventoryBreakdown = inventory
       .map(i => {
-        const stockStatus = i.quantity <= 0 ? '🔴 OUT OF STOCK' : i.quantity <= 5 ? '🟡 LOW STOCK' : '🟢 OK';
-        return `• ${i.name}: ${i.quantity} units | Cost: ₹${i.averageCost.toFixed(0)} | Sell: ₹${i.sellingPrice.toFixed(0)} | Status: ${stockStatus}`;
+        const stockStatus = i.quantity <= 0 ? '🔴 OUT OF STOCK' : isLowStock(i) ? '🟡 LOW STOCK' : '🟢 OK';
+        return `• ${i.name}: ${i.quantity} units (reorder at ${i.reorderLevel}) | Cost: ₹${i.averageCost.toFixed(0)} | Sell: ₹${i.sellingPrice.toFixed(0)} | Status: ${stockStatus}`;
       })
       .join('\n');
 
-    // Top customers/vendors
-    const customerSpending: Record<string, number> = {};
+    // Top customers/vendors, grouped by party record so spelling variants don't split a customer
+    const customerSpending: Record<string, { name: string; amount: number }> = {};
     sales.forEach(t => {
-      customerSpending[t.partyName] = (customerSpending[t.partyName] || 0) + t.totalAmount;
+      const key = t.partyId || normalizePartyName(t.partyName);
+      if (!customerSpending[key]) customerSpending[key] = { name: t.partyName, amount: 0 };
+      customerSpending[key].amount += t.totalAmount;
     });
-    const topCustomers = Object.entries(customerSpending)
-      .sort((a, b) => b[1] - a[1])
+    const topCustomers = Object.values(customerSpending)
+      .sort((a, b) => b.amount - a.amount)
       .slice(0, 5)
-      .map(([name, amount]) => `• ${name}: ₹${amount.toLocaleString('en-IN')}`)
+      .map(({ name, amount }) => `• ${name}: ₹${amount.toLocaleString('en-IN')}`)
       .join('\n');
 
     // Recent activity
     const recentActivity = transactions
       .slice(0, 8)
-      .map(t => `• ${t.date} | ${t.type === 'SALE' ? '💰 SALE' : '📦 PURCHASE'} | ${t.partyName} | ₹${t.totalAmount.toLocaleString('en-IN')}`)
+      .map(t => `• ${t.date} | ${t.type === 'SALE' ? '💰 SALE' : t.type === 'PURCHASE' ? '📦 PURCHASE' : `↩️ ${t.type.replace('_', ' ')}`} | ${t.partyName} | ₹${t.totalAmount.toLocaleString('en-IN')}`)
       .join('\n');
 
     const prompt = `
@@ -117,8 +127,11 @@ You are a professional business analyst generating a monthly performance report
 💵 FINANCIAL SUMMARY:
 • Total Sales (Revenue): ₹${totalRevenue.toLocaleString('en-IN')}
 • Total Purchases (Expenses): ₹${totalExpense.toLocaleString('en-IN')}
-• Net Profit: ₹${netProfit.toLocaleString('en-IN')}
-• Profit Margin: ${profitMargin}%
+• Net Sales excl. GST: ₹${profit.revenue.toLocaleString('en-IN', { maximumFractionDigits: 0 })}
+• Cost of Goods Sold: ₹${profit.cogs.toLocaleString('en-IN', { maximumFractionDigits: 0 })}
+• Gross Profit: ₹${profit.grossProfit.toLocaleString('en-IN', { maximumFractionDigits: 0 })}
+• Gross Margin: ${profit.grossMargin.toFixed(1)}%
+• Cash Flow (Sales − Purchases, includes unsold stock): ₹${profit.cashFlow.toLocaleString('en-IN')}
 • Number of Sales: ${sales.length}
 • Number of Purchases: ${purchases.length}
 
@@ -129,12 +142,15 @@ You are a professional business analyst generating a monthly performance report
 📦 INVENTORY STATUS:
 • Total Products: ${inventory.length}
 • Out of Stock Items: ${outOfStockItems.length}
-• Low Stock Items (≤5 units): ${lowStockItems.length}
+• Low Stock Items (at or below reorder level): ${lowStockItems.length}
 • Well Stocked Items (>20 units): ${wellStockedItems.length}
 
 Inventory Details:
 ${inventoryBreakdown || 'No inventory data available'}
 
+📈 MARGIN BY PRODUCT:
+${productMargins || 'No sales data available'}
+
 👥 TOP CUSTOMERS BY REVENUE:
 ${topCustomers || 'No customer data available'}
 
@@ -152,8 +168,8 @@ Based on the above ACTUAL data, generate a professional monthly business report
    - Key highlight of the month
 
 2. **💰 Financial Analysis**
-   - Comment on profit margin (is it healthy for retail?)
-   - Revenue vs Expense ratio analysis
+   - Comment on gross margin (is it healthy for retail?) and the best/worst margin products
+   - Gross profit vs cash flow (purchases still on the shelf are not a loss)
    - Cash flow observation
 
 3. **📦 Inventory Insights**
@@ -194,7 +210,10 @@ export const getChatResponse = async (
   try {
     // Context Construction
     const inventoryContext = inventory.map(i => `${i.name} (Qty: ${i.quantity}, Price: ₹${i.sellingPrice})`).join('; ');
-    const pendingBills = transactions.filter(t => t.status === 'Pending').map(t => `${t.partyName} owes ₹${t.totalAmount}`).join('; ');
+    const pendingBills = transactions
+      .filter(t => t.type === 'SALE' && isOutstanding(t))
+      .map(t => `${t.partyName} owes ₹${getBalanceDue(t)} (${t.status})`)
+      .join('; ');
 
     const systemInstruction = `
       You are Billventory AI, a helpful assistant for a business owner.
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { LineItem } from '../types';
+import { calculateInvoiceTotals, calculateLineTax } from './gst';
+
+const line = (changes: Partial<LineItem>): LineItem => ({
+  id: '1',
+  description: 'Widget',
+  quantity: 4,
+  price: 250,
+  gstRate: 18,
+  ...changes,
+});
+
+describe('calculateLineTax with a line discount', () => {
+  it('taxes the price after the discount', () => {
+    const taxed = calculateLineTax(line({ discount: 10 }), false, false);
+    expect(taxed.taxableValue).toBe(900);
+    expect(taxed.cgst).toBe(81);
+    expect(taxed.sgst).toBe(81);
+    expect(taxed.igst).toBe(0);
+    expect(taxed.lineTotal).toBe(1062);
+  });
+
+  it('takes the tax out of a discounted tax-inclusive price', () => {
+    const taxed = calculateLineTax(line({ quantity: 1, price: 1180, discount: 50 }), true, false);
+    expect(taxed.taxableValue).toBe(500);
+    expect(taxed.cgst).toBe(45);
+    expect(taxed.sgst).toBe(45);
+    expect(taxed.lineTotal).toBe(590);
+  });
+
+  it('charges IGST on the discounted value between states', () => {
+    const taxed = calculateLineTax(line({ discount: 25 }), false, true);
+    expect(taxed.taxableValue).toBe(750);
+    expect(taxed.igst).toBe(135);
+    expect(taxed.cgst).toBe(0);
+  });
+
+  it('leaves nothing taxable on a full discount', () => {
+    const taxed = calculateLineTax(line({ discount: 100 }), false, false);
+    expect(taxed.taxableValue).toBe(0);
+    expect(taxed.lineTotal).toBe(0);
+  });
+
+  it('rounds the discounted value to paise', () => {
+    const taxed = calculateLineTax(line({ quantity: 3, price: 33.33, discount: 7.5 }), false, false);
+    expect(taxed.taxableValue).toBe(92.49);
+    expect(taxed.cgst).toBe(8.32);
+    expect(taxed.sgst).toBe(8.33);
+  });
+
+  it('is the same as no discount when the discount is unset', () => {
+    expect(calculateLineTax(line({}), false, false).taxableValue).toBe(1000);
+  });
+});
+
+describe('calculateInvoiceTotals with discounted lines', () => {
+  it('adds up the taxable value after each line discount', () => {
+    const items = [
+      calculateLineTax(line({ discount: 10 }), false, false),
+      calculateLineTax(line({ id: '2', quantity: 1, price: 100, gstRate: 5 }), false, false),
+    ];
+    const totals = calculateInvoiceTotals(items);
+    expect(totals.taxableAmount).toBe(1000);
+    expect(totals.totalTax).toBe(167);
+    expect(totals.totalAmount).toBe(1167);
+  });
+});
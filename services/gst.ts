@@ -0,0 +1,113 @@
+import { BusinessSettings, LineItem } from '../types';
+
+// GST slabs offered in the rate dropdown
+export const GST_RATES = [0, 0.25, 3, 5, 12, 18, 28];
+
+// GST state codes, used for place of supply
+export const INDIAN_STATES: { code: string; name: string }[] = [
+  { code: '01', name: 'Jammu and Kashmir' },
+  { code: '02', name: 'Himachal Pradesh' },
+  { code: '03', name: 'Punjab' },
+  { code: '04', name: 'Chandigarh' },
+  { code: '05', name: 'Uttarakhand' },
+  { code: '06', name: 'Haryana' },
+  { code: '07', name: 'Delhi' },
+  { code: '08', name: 'Rajasthan' },
+  { code: '09', name: 'Uttar Pradesh' },
+  { code: '10', name: 'Bihar' },
+  { code: '11', name: 'Sikkim' },
+  { code: '12', name: 'Arunachal Pradesh' },
+  { code: '13', name: 'Nagaland' },
+  { code: '14', name: 'Manipur' },
+  { code: '15', name: 'Mizoram' },
+  { code: '16', name: 'Tripura' },
+  { code: '17', name: 'Meghalaya' },
+  { code: '18', name: 'Assam' },
+  { code: '19', name: 'West Bengal' },
+  { code: '20', name: 'Jharkhand' },
+  { code: '21', name: 'Odisha' },
+  { code: '22', name: 'Chhattisgarh' },
+  { code: '23', name: 'Madhya Pradesh' },
+  { code: '24', name: 'Gujarat' },
+  { code: '26', name: 'Dadra and Nagar Haveli and Daman and Diu' },
+  { code: '27', name: 'Maharashtra' },
+  { code: '29', name: 'Karnataka' },
+  { code: '30', name: 'Goa' },
+  { code: '31', name: 'Lakshadweep' },
+  { code: '32', name: 'Kerala' },
+  { code: '33', name: 'Tamil Nadu' },
+  { code: '34', name: 'Puducherry' },
+  { code: '35', name: 'Andaman and Nicobar Islands' },
+  { code: '36', name: 'Telangana' },
+  { code: '37', name: 'Andhra Pradesh' },
+  { code: '38', name: 'Ladakh' },
+  { code: '97', name: 'Other Territory' },
+];
+
+// Delhi, for a business whose profile has neither a state nor a GSTIN yet
+export const DEFAULT_STATE_CODE = '07';
+
+// State the business is registered in: the one in its profile, else the one its GSTIN starts with
+export const homeStateOf = (settings: BusinessSettings) =>
+  settings.profile?.state || settings.profile?.gstin?.slice(0, 2) || DEFAULT_STATE_CODE;
+
+export const getStateName = (code?: string) =>
+  INDIAN_STATES.find(s => s.code === code)?.name || '';
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// Supply to/from another state attracts IGST, same state splits into CGST + SGST
+export const isInterState = (placeOfSupply: string | undefined, homeState: string) =>
+  !!placeOfSupply && placeOfSupply !== homeState;
+
+export const calculateLineTax = (item: LineItem, taxInclusive: boolean, interState: boolean): LineItem => {
+  const rate = item.gstRate || 0;
+  const gross = (item.quantity || 0) * (item.price || 0) * (1 - (item.discount || 0) / 100);
+
+  const taxableValue = round2(taxInclusive ? gross / (1 + rate / 100) : gross);
+  const tax = round2(taxInclusive ? gross - taxableValue : taxableValue * rate / 100);
+
+  let cgst = 0, sgst = 0, igst = 0;
+  if (interState) {
+    igst = tax;
+  } else {
+    cgst = round2(tax / 2);
+    sgst = round2(tax - cgst);
+  }
+
+  return { ...item, taxableValue, cgst, sgst, igst, lineTotal: round2(taxableValue + tax) };
+};
+
+export interface InvoiceTaxTotals {
+  taxableAmount: number;
+  cgstAmount: number;
+  sgstAmount: number;
+  igstAmount: number;
+  totalTax: number;
+  totalAmount: number;
+}
+
+// Expects items already run through calculateLineTax
+export const calculateInvoiceTotals = (items: LineItem[]): InvoiceTaxTotals => {
+  const sum = (pick: (i: LineItem) => number | undefined) =>
+    round2(items.reduce((acc, i) => acc + (pick(i) || 0), 0));
+
+  const taxableAmount = sum(i => i.taxableValue);
+  const cgstAmount = sum(i => i.cgst);
+  const sgstAmount = sum(i => i.sgst);
+  const igstAmount = sum(i => i.igst);
+  const totalTax = round2(cgstAmount + sgstAmount + igstAmount);
+
+  return {
+    taxableAmount,
+    cgstAmount,
+    sgstAmount,
+    igstAmount,
+    totalTax,
+    totalAmount: round2(taxableAmount + totalTax),
+  };
+};
+
+// Per-unit cost net of GST (input tax is claimed back, so it isn't part of stock cost)
+export const getUnitCost = (item: LineItem) =>
+  item.taxableValue !== undefined && item.quantity ? item.taxableValue / item.quantity : item.price;
@@ -0,0 +1,414 @@
+import { readSheet } from 'read-excel-file/browser';
+import {
+  ImportData, ImportError, ImportSection, ImportedDocument, InvoiceStatus, LineItem, Location, Party, PartyType, PaymentMode, Product, TransactionType
+} from '../types';
+import { INDIAN_STATES, calculateInvoiceTotals, calculateLineTax, isInterState } from './gst';
+
+export interface ImportField {
+  key: string;
+  label: string;
+  required?: boolean;
+  aliases: string[]; // Other headings the column goes by, matched ignoring case and punctuation
+}
+
+// Columns each file may have; the labels double as the headings of the sample files
+export const IMPORT_FIELDS: Record<ImportSection, ImportField[]> = {
+  PARTIES: [
+    { key: 'name', label: 'Name', required: true, aliases: ['party', 'party name', 'customer', 'vendor', 'supplier', 'ledger'] },
+    { key: 'type', label: 'Type', aliases: ['party type', 'customer or vendor'] },
+    { key: 'gstin', label: 'GSTIN', aliases: ['gst', 'gst no', 'gst number', 'gstin uin'] },
+    { key: 'state', label: 'State', aliases: ['state code', 'place of supply'] },
+    { key: 'phone', label: 'Phone', aliases: ['mobile', 'phone number', 'contact'] },
+    { key: 'email', label: 'Email', aliases: ['email address', 'e mail'] },
+    { key: 'billingAddress', label: 'Billing Address', aliases: ['address'] },
+    { key: 'shippingAddress', label: 'Shipping Address', aliases: ['delivery address'] },
+    { key: 'paymentTermsDays', label: 'Payment Terms (days)', aliases: ['payment terms', 'credit days', 'terms'] },
+    { key: 'creditLimit', label: 'Credit Limit', aliases: [] },
+  ],
+  OPENING_STOCK: [
+    { key: 'sku', label: 'SKU', aliases: ['item code', 'product code', 'code'] },
+    { key: 'name', label: 'Product', aliases: ['name', 'product name', 'item', 'item name', 'description'] },
+    { key: 'quantity', label: 'Quantity', required: true, aliases: ['qty', 'opening quantity', 'opening stock', 'stock'] },
+    { key: 'unitCost', label: 'Unit Cost', aliases: ['cost', 'rate', 'purchase price', 'cost price'] },
+    { key: 'location', label: 'Location', aliases: ['godown', 'warehouse', 'store'] },
+    { key: 'hsnCode', label: 'HSN/SAC', aliases: ['hsn', 'sac', 'hsn code'] },
+    { key: 'gstRate', label: 'GST %', aliases: ['gst rate', 'tax rate', 'gst'] },
+    { key: 'unit', label: 'Unit', aliases: ['uom'] },
+    { key: 'sellingPrice', label: 'Selling Price', aliases: ['mrp', 'sale price'] },
+    { key: 'category', label: 'Category', aliases: ['group'] },
+  ],
+  TRANSACTIONS: [
+    { key: 'type', label: 'Type', required: true, aliases: ['voucher type', 'document type'] },
+    { key: 'number', label: 'Number', aliases: ['invoice number', 'invoice no', 'bill no', 'bill number', 'voucher no'] },
+    { key: 'date', label: 'Date', required: true, aliases: ['invoice date', 'bill date'] },
+    { key: 'dueDate', label: 'Due Date', aliases: ['due'] },
+    { key: 'party', label: 'Party', required: true, aliases: ['party name', 'customer', 'vendor', 'supplier', 'name'] },
+    { key: 'placeOfSupply', label: 'Place of Supply', aliases: ['state', 'pos'] },
+    { key: 'product', label: 'Product', required: true, aliases: ['sku', 'item', 'item name', 'product name', 'description'] },
+    { key: 'quantity', label: 'Quantity', required: true, aliases: ['qty'] },
+    { key: 'price', label: 'Price', aliases: ['rate', 'unit price'] },
+    { key: 'discount', label: 'Discount %', aliases: ['discount', 'disc', 'disc %'] },
+    { key: 'gstRate', label: 'GST %', aliases: ['gst rate', 'tax rate', 'gst'] },
+    { key: 'taxInclusive', label: 'Price Includes GST', aliases: ['tax inclusive', 'inclusive'] },
+    { key: 'location', label: 'Location', aliases: ['godown', 'warehouse'] },
+    { key: 'amountPaid', label: 'Amount Paid', aliases: ['paid', 'received'] },
+    { key: 'paymentMode', label: 'Payment Mode', aliases: ['mode'] },
+    { key: 'notes', label: 'Notes', aliases: ['narration', 'remarks'] },
+  ],
+};
+
+export const IMPORT_SECTIONS: Record<ImportSection, { name: string; description: string }> = {
+  PARTIES: { name: 'Parties', description: 'Customers and vendors, one per row.' },
+  OPENING_STOCK: { name: 'Opening Stock', description: 'What is on hand to start with, one product and location per row. Products not in the catalog are added.' },
+  TRANSACTIONS: { name: 'Transactions', description: 'Past bills, purchases, quotations and purchase orders, one line per row. Rows with the same type, number and party make one document.' },
+};
+
+// Column index per field key; fields left out aren't in the map
+export type ColumnMapping = Record<string, number>;
+
+export interface ImportSheet {
+  fileName: string;
+  rows: string[][]; // Header first
+  mapping: ColumnMapping;
+}
+
+const headingKey = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, '');
+
+// Pairs each field with the first column whose heading is its label or one of its aliases
+export const matchColumns = (section: ImportSection, headings: string[]): ColumnMapping => {
+  const keys = headings.map(headingKey);
+  const mapping: ColumnMapping = {};
+  const used = new Set<number>();
+  for (const field of IMPORT_FIELDS[section]) {
+    const names = [field.label, field.key, ...field.aliases].map(headingKey);
+    const index = keys.findIndex((key, i) => !used.has(i) && names.includes(key));
+    if (index >= 0) {
+      mapping[field.key] = index;
+      used.add(index);
+    }
+  }
+  return mapping;
+};
+
+// A file with just the headings, to fill in
+export const sampleCsv = (section: ImportSection) =>
+  IMPORT_FIELDS[section].map(f => f.label).join(',') + '\r\n';
+
+// Comma, semicolon or tab separated, whichever the heading row has most of.
+// Quoted values may contain separators, line breaks and doubled quotes.
+export const parseCsv = (text: string): string[][] => {
+  const content = text.replace(/^\uFEFF/, '');
+  const firstLine = content.split(/\r?\n/, 1)[0];
+  const delimiter = [',', ';', '\t'].reduce((best, d) => firstLine.split(d).length > firstLine.split(best).length ? d : best, ',');
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let value = '';
+  let quoted = false;
+  for (let i = 0; i < content.length; i++) {
+    const c = content[i];
+    if (quoted) {
+      if (c === '"' && content[i + 1] === '"') {
+        value += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        value += c;
+      }
+    } else if (c === '"') {
+      quoted = true;
+    } else if (c === delimiter) {
+      row.push(value);
+      value = '';
+    } else if (c === '\n' || c === '\r') {
+      if (c === '\r' && content[i + 1] === '\n') i++;
+      row.push(value);
+      rows.push(row);
+      row = [];
+      value = '';
+    } else {
+      value += c;
+    }
+  }
+  if (value || row.length > 0) {
+    row.push(value);
+    rows.push(row);
+  }
+  return rows;
+};
+
+const cellText = (cell: unknown): string => {
+  if (cell == null) return '';
+  if (cell instanceof Date) return cell.toISOString().split('T')[0];
+  return String(cell);
+};
+
+// The rows of a CSV file, or of the first sheet of an Excel workbook, as text
+export const readImportFile = async (file: File): Promise<string[][]> => {
+  if (/\.xlsx$/i.test(file.name)) {
+    const sheet = await readSheet(file);
+    return sheet.map(row => row.map(cellText));
+  }
+  if (/\.(csv|txt)$/i.test(file.name)) {
+    return parseCsv(await file.text());
+  }
+  throw new Error('Pick a .csv or .xlsx file');
+};
+
+// Amounts may carry thousands separators and a rupee sign; blank is undefined, junk NaN
+const parseNumber = (text: string): number | undefined => {
+  const cleaned = text.replace(/[₹,\s]/g, '').replace(/^Rs\.?/i, '');
+  return cleaned ? Number(cleaned) : undefined;
+};
+
+// ISO dates, or day first as written in India: 31/03/2025, 31-03-2025, 31.03.25
+const parseDate = (text: string): string | null => {
+  const value = text.trim();
+  if (/^\d{4}-\d{2}-\d{2}/.test(value)) return value.slice(0, 10);
+  const match = value.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})$/);
+  if (!match) return null;
+  const [, day, month, year] = match;
+  const iso = `${year.length === 2 ? `20${year}` : year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+  return Number.isNaN(new Date(iso).getTime()) ? null : iso;
+};
+
+// State code ("7" or "07") or state name; undefined when blank, null when not recognised
+const parseState = (text: string): string | null | undefined => {
+  const value = text.trim();
+  if (!value) return undefined;
+  if (/^\d{1,2}$/.test(value)) return value.padStart(2, '0');
+  return INDIAN_STATES.find(s => s.name.toLowerCase() === value.toLowerCase())?.code ?? null;
+};
+
+const PARTY_TYPES: Record<string, PartyType> = {
+  customer: 'CUSTOMER', debtor: 'CUSTOMER', vendor: 'VENDOR', supplier: 'VENDOR', creditor: 'VENDOR', both: 'BOTH',
+};
+
+const DOCUMENT_TYPES: Record<string, TransactionType> = {
+  sale: 'SALE', sales: 'SALE', bill: 'SALE', invoice: 'SALE', taxinvoice: 'SALE', salesinvoice: 'SALE',
+  purchase: 'PURCHASE', purchases: 'PURCHASE', purchaseinvoice: 'PURCHASE', purchasebill: 'PURCHASE',
+  quotation: 'QUOTATION', quote: 'QUOTATION', estimate: 'QUOTATION',
+  purchaseorder: 'PURCHASE_ORDER', po: 'PURCHASE_ORDER',
+};
+
+const PAYMENT_MODES: Record<string, PaymentMode> = {
+  cash: 'CASH', upi: 'UPI', cheque: 'CHEQUE', check: 'CHEQUE', bank: 'BANK', neft: 'BANK', rtgs: 'BANK', imps: 'BANK', banktransfer: 'BANK', card: 'CARD', other: 'OTHER',
+};
+
+const isYes = (text: string) => ['yes', 'y', 'true', '1', 'inclusive'].includes(text.trim().toLowerCase());
+
+const addDays = (date: string, days: number) => {
+  const d = new Date(date);
+  d.setDate(d.getDate() + days);
+  return d.toISOString().split('T')[0];
+};
+
+const nameKey = (name: string) => name.trim().replace(/\s+/g, ' ').toLowerCase();
+
+export interface ImportContext {
+  parties: Party[];
+  products: Product[];
+  locations: Location[];
+  defaultLocationId: string;
+  defaultPaymentTermsDays?: number;
+  homeState: string;
+  openingDate: string;
+}
+
+// Turns the mapped rows into what the server imports, with problems that can be
+// seen without the books (dates, numbers, names not found). New parties and
+// products get ids here so the other files can refer to them.
+export const buildImport = (sheets: Partial<Record<ImportSection, ImportSheet>>, context: ImportContext) => {
+  const errors: ImportError[] = [];
+  const data: ImportData = { parties: [], products: [], transactions: [] };
+  const stamp = Date.now();
+
+  // Data rows with their row number in the file; blank rows are skipped
+  const rowsOf = (section: ImportSection) => {
+    const sheet = sheets[section];
+    if (!sheet) return [];
+    const { mapping } = sheet;
+    return sheet.rows.slice(1)
+      .map((cells, i) => ({
+        row: i + 2,
+        get: (key: string) => (mapping[key] !== undefined ? cells[mapping[key]] ?? '' : '').trim(),
+        isBlank: cells.every(c => !c.trim()),
+      }))
+      .filter(r => !r.isBlank);
+  };
+
+  const partiesByName = new Map(context.parties.map(p => [nameKey(p.name), p]));
+  for (const { row, get } of rowsOf('PARTIES')) {
+    const fail = (message: string) => errors.push({ section: 'PARTIES', row, message });
+    const typeText = get('type');
+    const type = typeText ? PARTY_TYPES[headingKey(typeText)] : 'CUSTOMER';
+    const gstin = get('gstin').toUpperCase();
+    const state = parseState(get('state'));
+    const paymentTermsDays = parseNumber(get('paymentTermsDays'));
+    const creditLimit = parseNumber(get('creditLimit'));
+
+    if (!type) fail(`Type "${typeText}" is not Customer, Vendor or Both`);
+    if (state === null) fail(`State "${get('state')}" is not a GST state code or name`);
+    if (Number.isNaN(paymentTermsDays) || Number.isNaN(creditLimit)) fail('Payment terms and credit limit must be numbers');
+
+    const party: Party & { row: number } = {
+      row,
+      id: `${stamp}-party-${row}`,
+      name: get('name').replace(/\s+/g, ' '),
+      type: type || 'CUSTOMER',
+      gstin: gstin || undefined,
+      state: state || (gstin ? gstin.slice(0, 2) : undefined), // A GSTIN starts with the state code
+      phone: get('phone') || undefined,
+      email: get('email') || undefined,
+      billingAddress: get('billingAddress') || undefined,
+      shippingAddress: get('shippingAddress') || undefined,
+      paymentTermsDays: paymentTermsDays ?? 0,
+      creditLimit: creditLimit ?? 0,
+    };
+    data.parties.push(party);
+    if (party.name && !partiesByName.has(nameKey(party.name))) partiesByName.set(nameKey(party.name), party);
+  }
+
+  const productsBySku = new Map(context.products.map(p => [p.sku.toUpperCase(), p]));
+  const productsByName = new Map(context.products.map(p => [nameKey(p.name), p]));
+  const findProduct = (text: string) => productsBySku.get(text.toUpperCase()) || productsByName.get(nameKey(text));
+  const locationsByName = new Map(context.locations.map(l => [nameKey(l.name), l]));
+  const findLocation = (text: string) => text ? locationsByName.get(nameKey(text))?.id : context.defaultLocationId;
+
+  const openingLines: NonNullable<ImportData['openingStock']>['lines'] = [];
+  for (const { row, get } of rowsOf('OPENING_STOCK')) {
+    const fail = (message: string) => errors.push({ section: 'OPENING_STOCK', row, message });
+    const sku = get('sku').toUpperCase();
+    const name = get('name');
+    const quantity = parseNumber(get('quantity'));
+    const unitCost = parseNumber(get('unitCost'));
+    const gstRate = parseNumber(get('gstRate'));
+    const sellingPrice = parseNumber(get('sellingPrice'));
+    const locationId = findLocation(get('location'));
+
+    if (quantity === undefined || Number.isNaN(quantity)) fail('Quantity must be a number');
+    if ([unitCost, gstRate, sellingPrice].some(n => Number.isNaN(n))) fail('Unit cost, GST % and selling price must be numbers');
+    if (!locationId) fail(`No stock location named "${get('location')}"`);
+
+    let product = (sku ? productsBySku.get(sku) : undefined) || (name ? productsByName.get(nameKey(name)) : undefined);
+    if (!product && !name) {
+      fail(sku ? `No product with SKU ${sku}; give its name to add it to the catalog` : 'Give the SKU or name of the product');
+      continue;
+    }
+    if (!product) {
+      const created: Product & { row: number } = {
+        row,
+        id: `${stamp}-product-${row}`,
+        sku,
+        name: name.replace(/\s+/g, ' '),
+        hsnCode: get('hsnCode') || undefined,
+        gstRate: gstRate ?? 18,
+        unit: get('unit').toUpperCase() || 'NOS',
+        purchasePrice: unitCost ?? 0,
+        sellingPrice: sellingPrice ?? 0,
+        category: get('category') || undefined,
+      };
+      data.products.push(created);
+      if (sku) productsBySku.set(sku, created);
+      productsByName.set(nameKey(created.name), created);
+      product = created;
+    }
+    openingLines.push({
+      row,
+      productId: product.id,
+      locationId: locationId || '',
+      quantity: quantity ?? 0,
+      unitCost: unitCost ?? product.purchasePrice ?? 0,
+    });
+  }
+  if (openingLines.length > 0) {
+    data.openingStock = { date: context.openingDate, lines: openingLines };
+  }
+
+  // Rows of one document share its type, number and party (and date, when unnumbered)
+  const documents = new Map<string, ImportedDocument>();
+  for (const { row, get } of rowsOf('TRANSACTIONS')) {
+    const fail = (message: string) => errors.push({ section: 'TRANSACTIONS', row, message });
+    const typeText = get('type');
+    const type = DOCUMENT_TYPES[headingKey(typeText)];
+    const date = parseDate(get('date'));
+    const party = partiesByName.get(nameKey(get('party')));
+    const product = findProduct(get('product'));
+    const quantity = parseNumber(get('quantity'));
+    const price = parseNumber(get('price'));
+    const discount = parseNumber(get('discount'));
+    const gstRate = parseNumber(get('gstRate'));
+    const locationId = findLocation(get('location'));
+
+    if (!type) fail(typeText ? `Type "${typeText}" is not Sale, Purchase, Quotation or Purchase Order` : 'Type is required');
+    if (!date) fail(get('date') ? `Date "${get('date')}" is not a date; use DD/MM/YYYY or YYYY-MM-DD` : 'Date is required');
+    if (!party) fail(get('party') ? `No party named "${get('party')}"; add it in the parties file` : 'Party is required');
+    if (!product) fail(get('product') ? `No product "${get('product')}"; add it in the opening stock file` : 'Product is required');
+    if (quantity === undefined || Number.isNaN(quantity)) fail('Quantity must be a number');
+    if ([price, discount, gstRate].some(n => Number.isNaN(n))) fail('Price, discount and GST % must be numbers');
+    if (!locationId) fail(`No stock location named "${get('location')}"`);
+    if (!type || !date || !party || !product) continue;
+
+    const number = get('number');
+    const key = [type, number.toUpperCase(), party.id, number ? '' : date].join('|');
+    let document = documents.get(key);
+    if (!document) {
+      const dueDate = parseDate(get('dueDate'));
+      if (get('dueDate') && !dueDate) fail(`Due date "${get('dueDate')}" is not a date`);
+      const placeOfSupply = parseState(get('placeOfSupply'));
+      if (placeOfSupply === null) fail(`Place of supply "${get('placeOfSupply')}" is not a GST state code or name`);
+      const amountPaid = parseNumber(get('amountPaid'));
+      if (Number.isNaN(amountPaid)) fail('Amount paid must be a number');
+      const modeText = get('paymentMode');
+      const mode = modeText ? PAYMENT_MODES[headingKey(modeText)] : 'OTHER';
+      if (!mode) fail(`Payment mode "${modeText}" is not Cash, UPI, Cheque, Bank, Card or Other`);
+
+      document = {
+        row,
+        id: `${stamp}-doc-${row}`,
+        type,
+        invoiceNumber: number,
+        partyId: party.id,
+        partyName: party.name,
+        partyGstin: party.gstin,
+        placeOfSupply: placeOfSupply || party.state || context.homeState,
+        locationId,
+        date,
+        dueDate: dueDate || addDays(date, party.paymentTermsDays || context.defaultPaymentTermsDays || 0),
+        status: type === 'QUOTATION' || type === 'PURCHASE_ORDER' ? InvoiceStatus.OPEN : InvoiceStatus.PENDING,
+        taxInclusive: isYes(get('taxInclusive')),
+        notes: get('notes') || undefined,
+        items: [],
+        totalAmount: 0,
+        payment: amountPaid ? { amount: amountPaid, mode: mode || 'OTHER' } : undefined,
+      };
+      documents.set(key, document);
+    }
+
+    const buying = type === 'PURCHASE' || type === 'PURCHASE_ORDER';
+    const line: LineItem & { row: number } = {
+      row,
+      id: `${stamp}-line-${row}`,
+      productId: product.id,
+      description: product.name,
+      hsnCode: product.hsnCode,
+      quantity: quantity ?? 0,
+      price: price ?? (buying ? product.purchasePrice : product.sellingPrice),
+      discount: discount ?? 0,
+      gstRate: gstRate ?? product.gstRate ?? 0,
+      locationId,
+    };
+    document.items.push(line);
+  }
+
+  // Taxes and totals as the bill form works them out
+  for (const document of documents.values()) {
+    const interState = isInterState(document.placeOfSupply, context.homeState);
+    document.items = document.items.map(item => ({ ...item, ...calculateLineTax(item, !!document.taxInclusive, interState) }));
+    Object.assign(document, calculateInvoiceTotals(document.items));
+    data.transactions.push(document);
+  }
+
+  return { data, errors };
+};
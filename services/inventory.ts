@@ -0,0 +1,75 @@
+import { CostingMethod, InventoryItem, Invoice, InvoiceStatus, NegativeStockPolicy, Product } from '../types';
+import { getUnitCost } from './gst';
+
+export const COSTING_METHODS: { value: CostingMethod; label: string }[] = [
+  { value: 'WEIGHTED_AVERAGE', label: 'Weighted Average' },
+  { value: 'FIFO', label: 'FIFO (First In, First Out)' },
+];
+
+export const NEGATIVE_STOCK_POLICIES: { value: NegativeStockPolicy; label: string; description: string }[] = [
+  { value: 'BLOCK', label: 'Block', description: 'Bills that need more stock than is on hand cannot be saved.' },
+  { value: 'WARN', label: 'Warn', description: 'Ask for confirmation before saving a bill that takes stock below zero.' },
+  { value: 'ALLOW', label: 'Allow', description: 'Save without checking; stock can go negative.' },
+];
+
+// Used for products without their own reorder level
+export const DEFAULT_REORDER_LEVEL = 5;
+
+export const isLowStock = (item: InventoryItem) => item.quantity > 0 && item.quantity <= item.reorderLevel;
+
+export const getLocationQuantity = (item: InventoryItem, locationId: string) => item.byLocation[locationId] || 0;
+
+// Stock value; FIFO sums what is left in each purchase layer
+export const getStockValue = (item: InventoryItem) =>
+  item.layers
+    ? item.layers.reduce((sum, l) => sum + l.remaining * l.unitCost, 0)
+    : item.quantity * item.averageCost;
+
+export interface ReorderSuggestion {
+  productId: string;
+  name: string;
+  sku: string;
+  onHand: number;
+  reorderLevel: number;
+  quantity: number; // Suggested
+  unitPrice: number; // Last purchase price, net of GST, else the catalog purchase price
+  vendorId?: string; // Preferred vendor, else the last one bought from
+}
+
+// Products at or below their reorder level, with how much to buy and from whom
+export const buildReorderSuggestions = (inventory: InventoryItem[], products: Product[], transactions: Invoice[]) => {
+  const stockById = new Map(inventory.map(i => [i.id, i]));
+  const lastPurchase = new Map<string, { price: number; partyId?: string }>();
+
+  transactions
+    .filter(t => t.type === 'PURCHASE' && t.status !== InvoiceStatus.DRAFT)
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+    .forEach(t => t.items.forEach(item => {
+      if (item.productId) lastPurchase.set(item.productId, { price: getUnitCost(item), partyId: t.partyId });
+    }));
+
+  const suggestions: ReorderSuggestion[] = [];
+  for (const product of products) {
+    const onHand = stockById.get(product.id)?.quantity ?? 0;
+    const reorderLevel = product.reorderLevel ?? DEFAULT_REORDER_LEVEL;
+    if (onHand > reorderLevel) continue;
+
+    // Cover any oversold units, then buy the usual quantity or top up to twice the level
+    const quantity = product.reorderQuantity
+      ? product.reorderQuantity - Math.min(onHand, 0)
+      : reorderLevel * 2 - onHand;
+    const last = lastPurchase.get(product.id);
+
+    suggestions.push({
+      productId: product.id,
+      name: product.name,
+      sku: product.sku,
+      onHand,
+      reorderLevel,
+      quantity: Math.max(quantity, 1),
+      unitPrice: last?.price ?? product.purchasePrice,
+      vendorId: product.preferredVendorId || last?.partyId,
+    });
+  }
+  return suggestions.sort((a, b) => a.onHand - a.reorderLevel - (b.onHand - b.reorderLevel));
+};
@@ -1,13 +1,208 @@
-import { Invoice, InventoryItem } from '../types';
+import { Invoice, InventoryItem, BusinessSettings, GstReturnsResult, Location, Payment, Party, Product, StockMovement, StockShortage, StockTransfer, Stocktake, AuthSession, User, AuditEntry, AuditFilters, Business, ImportData, ImportError, ImportResult, InvoiceTemplateId } from '../types';
+import { DEFAULT_NUMBER_SERIES } from './documents';
+import { DEFAULT_REORDER_LEVEL } from './inventory';
 
 const API_URL = 'http://localhost:5000/api';
+const TOKEN_KEY = 'billventory.session';
+const BUSINESS_KEY = 'billventory.business';
+
+let signedOutListener: (() => void) | null = null;
+
+// Every call carries the session token and the business being worked in. A 401
+// means the session expired or was ended (password changed, user deactivated),
+// so the app goes back to the login screen.
+const apiFetch = async (url: string, init: RequestInit = {}): Promise<Response> => {
+  const token = localStorage.getItem(TOKEN_KEY);
+  const businessId = localStorage.getItem(BUSINESS_KEY);
+  const response = await fetch(url, {
+    ...init,
+    headers: {
+      ...init.headers,
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      ...(businessId ? { 'X-Business-Id': businessId } : {}),
+    },
+  });
+  if (response.status === 401 && token) {
+    localStorage.removeItem(TOKEN_KEY);
+    signedOutListener?.();
+  }
+  return response;
+};
+
+// The mail server refused a document; the failed attempt is logged on the returned transaction
+export class EmailNotSentError extends Error {
+  transaction: Invoice;
+
+  constructor(message: string, transaction: Invoice) {
+    super(message);
+    this.transaction = transaction;
+  }
+}
+
+// A sale needs more stock than is on hand; canOverride when the policy is WARN
+export class StockShortageError extends Error {
+  shortages: StockShortage[];
+  canOverride: boolean;
+
+  constructor(message: string, shortages: StockShortage[], canOverride: boolean) {
+    super(message);
+    this.shortages = shortages;
+    this.canOverride = canOverride;
+  }
+}
 
 export const MongoService = {
 
+  // Called when the server stops accepting the session
+  onSignedOut(listener: (() => void) | null) {
+    signedOutListener = listener;
+  },
+
+  // Whether the owner account still has to be created
+  async needsSetup(): Promise<boolean> {
+    const response = await fetch(`${API_URL}/auth/status`);
+    if (!response.ok) throw new Error('Failed to reach the server');
+    return (await response.json()).needsSetup;
+  },
+
+  // Signs in, or creates the owner account on first run, and keeps the session token
+  async signIn(credentials: { username: string; password: string; name?: string; businessName?: string }, setup = false): Promise<AuthSession> {
+    const response = await fetch(`${API_URL}/auth/${setup ? 'setup' : 'login'}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(credentials),
+    });
+
+    const data = await response.json();
+    if (!response.ok) throw new Error(data.message || 'Failed to sign in');
+
+    localStorage.setItem(TOKEN_KEY, data.token);
+    return { user: data.user, permissions: data.permissions };
+  },
+
+  // The signed-in user, or null when there is no live session
+  async getSession(): Promise<AuthSession | null> {
+    if (!localStorage.getItem(TOKEN_KEY)) return null;
+    try {
+      const response = await apiFetch(`${API_URL}/auth/me`);
+      if (!response.ok) return null;
+      return await response.json();
+    } catch (error) {
+      console.error('Error checking session:', error);
+      return null;
+    }
+  },
+
+  async signOut(): Promise<void> {
+    try {
+      await apiFetch(`${API_URL}/auth/logout`, { method: 'POST' });
+    } catch (error) {
+      console.error('Error signing out:', error);
+    } finally {
+      localStorage.removeItem(TOKEN_KEY);
+    }
+  },
+
+  // The business last worked in on this browser; every call after setBusiness goes to it
+  getBusinessId(): string | null {
+    return localStorage.getItem(BUSINESS_KEY);
+  },
+
+  setBusiness(id: string) {
+    localStorage.setItem(BUSINESS_KEY, id);
+  },
+
+  // GET the businesses the user may switch between
+  async getBusinesses(): Promise<Business[]> {
+    try {
+      const response = await apiFetch(`${API_URL}/businesses`);
+      if (!response.ok) throw new Error('Failed to fetch businesses');
+
+      return await response.json();
+    } catch (error) {
+      console.error('Error fetching businesses:', error);
+      return [];
+    }
+  },
+
+  // SAVE (add or rename) one business (owner only)
+  async saveBusiness(business: Business): Promise<Business> {
+    try {
+      const response = await apiFetch(`${API_URL}/businesses`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(business),
+      });
+
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.message || 'Failed to save business');
+
+      return data.business;
+    } catch (error) {
+      console.error('Error saving business:', error);
+      throw error;
+    }
+  },
+
+  // GET all users (owner only)
+  async getUsers(): Promise<User[]> {
+    try {
+      const response = await apiFetch(`${API_URL}/users`);
+      if (!response.ok) throw new Error('Failed to fetch users');
+
+      return await response.json();
+    } catch (error) {
+      console.error('Error fetching users:', error);
+      return [];
+    }
+  },
+
+  // SAVE one user; password is only sent when setting a new one
+  async saveUser(user: User): Promise<User> {
+    try {
+      const response = await apiFetch(`${API_URL}/users`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(user),
+      });
+
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.message || 'Failed to save user');
+
+      return data.user;
+    } catch (error) {
+      console.error('Error saving user:', error);
+      throw error;
+    }
+  },
+
+  // DELETE one user
+  async deleteUser(id: string): Promise<boolean> {
+    try {
+      const response = await apiFetch(`${API_URL}/users/${id}`, {
+        method: 'DELETE',
+      });
+
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.message || 'Failed to delete user');
+
+      return true;
+    } catch (error) {
+      console.error('Error deleting user:', error);
+      throw error;
+    }
+  },
+
   // GET all transactions
   async getTransactions(): Promise<Invoice[]> {
     try {
-      const response = await fetch(`${API_URL}/transactions`);
+      const response = await apiFetch(`${API_URL}/transactions`);
       if (!response.ok) throw new Error('Failed to fetch transactions');
 
       const data = await response.json();
@@ -19,9 +214,9 @@ export const MongoService = {
   },
 
   // SAVE one transaction
-  async saveTransaction(transaction: Invoice): Promise<Invoice> {
+  async saveTransaction(transaction: Invoice, allowNegativeStock = false): Promise<Invoice> {
     try {
-      const response = await fetch(`${API_URL}/transactions`, {
+      const response = await apiFetch(`${API_URL}/transactions${allowNegativeStock ? '?allowNegativeStock=true' : ''}`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -29,9 +224,12 @@ export const MongoService = {
         body: JSON.stringify(transaction),
       });
 
-      if (!response.ok) throw new Error('Failed to save transaction');
-
       const data = await response.json();
+      if (response.status === 409 && data.shortages) {
+        throw new StockShortageError(data.message, data.shortages, data.canOverride);
+      }
+      if (!response.ok) throw new Error(data.message || 'Failed to save transaction');
+
       return data.transaction || data;   // supports both formats
     } catch (error) {
       console.error('Error saving transaction:', error);
@@ -42,11 +240,12 @@ export const MongoService = {
   // DELETE one transaction
   async deleteTransaction(id: string): Promise<boolean> {
     try {
-      const response = await fetch(`${API_URL}/transactions/${id}`, {
+      const response = await apiFetch(`${API_URL}/transactions/${id}`, {
         method: 'DELETE',
       });
 
-      if (!response.ok) throw new Error('Failed to delete transaction');
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.message || 'Failed to delete transaction');
 
       return true;
     } catch (error) {
@@ -55,35 +254,488 @@ export const MongoService = {
     }
   },
 
-  // GET inventory
+  // GET the document rendered as a PDF by the server, in the given design or else the one set for its type
+  async downloadTransactionPdf(id: string, size: 'A4' | 'A5', templateId?: InvoiceTemplateId): Promise<Blob> {
+    try {
+      const params = new URLSearchParams({ size });
+      if (templateId) params.set('template', templateId);
+      const response = await apiFetch(`${API_URL}/transactions/${id}/pdf?${params}`);
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.message || 'Failed to create the PDF');
+      }
+      return await response.blob();
+    } catch (error) {
+      console.error('Error downloading PDF:', error);
+      throw error;
+    }
+  },
+
+  // Emails the document's PDF to the party; returns the document with the send logged
+  async emailTransaction(id: string, message: { to: string; subject: string; body: string; size: 'A4' | 'A5' }): Promise<Invoice> {
+    try {
+      const response = await apiFetch(`${API_URL}/transactions/${id}/email`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(message),
+      });
+
+      const data = await response.json();
+      if (response.status === 502 && data.transaction) throw new EmailNotSentError(data.message, data.transaction);
+      if (!response.ok) throw new Error(data.message || 'Failed to send the email');
+
+      return data.transaction;
+    } catch (error) {
+      console.error('Error emailing transaction:', error);
+      throw error;
+    }
+  },
+
+  // GET stock on hand as the server books it, with the open cost layers under FIFO
   async getInventory(): Promise<InventoryItem[]> {
     try {
-      const response = await fetch(`${API_URL}/inventory`);
+      const response = await apiFetch(`${API_URL}/inventory`);
       if (!response.ok) throw new Error('Failed to fetch inventory');
 
-      const data = await response.json();
-      return data.inventory || data;
+      const data: InventoryItem[] = await response.json();
+      return data.map(item => ({ ...item, reorderLevel: item.reorderLevel ?? DEFAULT_REORDER_LEVEL }));
     } catch (error) {
       console.error('Error fetching inventory:', error);
       return [];
     }
   },
 
-  // UPDATE inventory item
-  async updateInventoryItem(item: InventoryItem): Promise<InventoryItem> {
+  // GET the stock movement ledger for one product, oldest first
+  async getStockMovements(productId: string): Promise<StockMovement[]> {
     try {
-      const response = await fetch(`${API_URL}/inventory`, {
+      const response = await apiFetch(`${API_URL}/stock-movements?productId=${encodeURIComponent(productId)}`);
+      if (!response.ok) throw new Error('Failed to fetch stock movements');
+
+      return await response.json();
+    } catch (error) {
+      console.error('Error fetching stock movements:', error);
+      return [];
+    }
+  },
+
+  // GET product catalog
+  async getProducts(): Promise<Product[]> {
+    try {
+      const response = await apiFetch(`${API_URL}/products`);
+      if (!response.ok) throw new Error('Failed to fetch products');
+
+      return await response.json();
+    } catch (error) {
+      console.error('Error fetching products:', error);
+      return [];
+    }
+  },
+
+  // SAVE (create or update) a product; the server assigns a SKU if left blank
+  async saveProduct(product: Product): Promise<Product> {
+    try {
+      const response = await apiFetch(`${API_URL}/products`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(item),
+        body: JSON.stringify(product),
       });
 
-      if (!response.ok) throw new Error('Failed to update inventory');
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.message || 'Failed to save product');
+
+      return data.product;
+    } catch (error) {
+      console.error('Error saving product:', error);
+      throw error;
+    }
+  },
+
+  // DELETE a product that isn't on any transaction
+  async deleteProduct(id: string): Promise<boolean> {
+    try {
+      const response = await apiFetch(`${API_URL}/products/${id}`, {
+        method: 'DELETE',
+      });
 
       const data = await response.json();
-      return data.item || data;
+      if (!response.ok) throw new Error(data.message || 'Failed to delete product');
+
+      return true;
+    } catch (error) {
+      console.error('Error deleting product:', error);
+      throw error;
+    }
+  },
+
+  // GET all parties (customers and vendors)
+  async getParties(): Promise<Party[]> {
+    try {
+      const response = await apiFetch(`${API_URL}/parties`);
+      if (!response.ok) throw new Error('Failed to fetch parties');
+
+      return await response.json();
+    } catch (error) {
+      console.error('Error fetching parties:', error);
+      return [];
+    }
+  },
+
+  // SAVE (create or update) a party
+  async saveParty(party: Party): Promise<Party> {
+    try {
+      const response = await apiFetch(`${API_URL}/parties`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(party),
+      });
+
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.message || 'Failed to save party');
+
+      return data.party;
+    } catch (error) {
+      console.error('Error saving party:', error);
+      throw error;
+    }
+  },
+
+  // DELETE a party with no transactions
+  async deleteParty(id: string): Promise<boolean> {
+    try {
+      const response = await apiFetch(`${API_URL}/parties/${id}`, {
+        method: 'DELETE',
+      });
+
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.message || 'Failed to delete party');
+
+      return true;
+    } catch (error) {
+      console.error('Error deleting party:', error);
+      throw error;
+    }
+  },
+
+  // GET stock locations
+  async getLocations(): Promise<Location[]> {
+    try {
+      const response = await apiFetch(`${API_URL}/locations`);
+      if (!response.ok) throw new Error('Failed to fetch locations');
+
+      return await response.json();
+    } catch (error) {
+      console.error('Error fetching locations:', error);
+      return [];
+    }
+  },
+
+  // SAVE a location (create or update)
+  async saveLocation(location: Location): Promise<Location> {
+    try {
+      const response = await apiFetch(`${API_URL}/locations`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(location),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.message || 'Failed to save location');
+
+      return data.location;
+    } catch (error) {
+      console.error('Error saving location:', error);
+      throw error;
+    }
+  },
+
+  // DELETE a location nothing refers to
+  async deleteLocation(id: string): Promise<boolean> {
+    try {
+      const response = await apiFetch(`${API_URL}/locations/${id}`, {
+        method: 'DELETE',
+      });
+
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.message || 'Failed to delete location');
+
+      return true;
+    } catch (error) {
+      console.error('Error deleting location:', error);
+      throw error;
+    }
+  },
+
+  // GET stock transfers, newest first
+  async getTransfers(): Promise<StockTransfer[]> {
+    try {
+      const response = await apiFetch(`${API_URL}/transfers`);
+      if (!response.ok) throw new Error('Failed to fetch transfers');
+
+      return await response.json();
+    } catch (error) {
+      console.error('Error fetching transfers:', error);
+      return [];
+    }
+  },
+
+  // POST a new transfer; the server numbers it and moves the stock
+  async saveTransfer(transfer: StockTransfer): Promise<StockTransfer> {
+    try {
+      const response = await apiFetch(`${API_URL}/transfers`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(transfer),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.message || 'Failed to save transfer');
+
+      return data.transfer;
+    } catch (error) {
+      console.error('Error saving transfer:', error);
+      throw error;
+    }
+  },
+
+  // DELETE a transfer, moving its stock back
+  async deleteTransfer(id: string): Promise<boolean> {
+    try {
+      const response = await apiFetch(`${API_URL}/transfers/${id}`, {
+        method: 'DELETE',
+      });
+
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.message || 'Failed to delete transfer');
+
+      return true;
+    } catch (error) {
+      console.error('Error deleting transfer:', error);
+      throw error;
+    }
+  },
+
+  // GET stock counts, newest first
+  async getStocktakes(): Promise<Stocktake[]> {
+    try {
+      const response = await apiFetch(`${API_URL}/stocktakes`);
+      if (!response.ok) throw new Error('Failed to fetch stock counts');
+
+      return await response.json();
+    } catch (error) {
+      console.error('Error fetching stock counts:', error);
+      return [];
+    }
+  },
+
+  // SAVE a stock count: starts a new one, or saves counted quantities
+  async saveStocktake(stocktake: Partial<Stocktake> & { id: string }): Promise<Stocktake> {
+    try {
+      const response = await apiFetch(`${API_URL}/stocktakes`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(stocktake),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.message || 'Failed to save stock count');
+
+      return data.stocktake;
+    } catch (error) {
+      console.error('Error saving stock count:', error);
+      throw error;
+    }
+  },
+
+  // POST a stock count's differences as adjustments
+  async postStocktake(id: string): Promise<Stocktake> {
+    try {
+      const response = await apiFetch(`${API_URL}/stocktakes/${id}/post`, { method: 'POST' });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.message || 'Failed to post stock count');
+
+      return data.stocktake;
+    } catch (error) {
+      console.error('Error posting stock count:', error);
+      throw error;
+    }
+  },
+
+  // DELETE a stock count that hasn't been posted
+  async deleteStocktake(id: string): Promise<boolean> {
+    try {
+      const response = await apiFetch(`${API_URL}/stocktakes/${id}`, {
+        method: 'DELETE',
+      });
+
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.message || 'Failed to delete stock count');
+
+      return true;
+    } catch (error) {
+      console.error('Error deleting stock count:', error);
+      throw error;
+    }
+  },
+
+  // GET business settings; falls back to defaults when the server is unreachable
+  async getSettings(): Promise<BusinessSettings> {
+    try {
+      const response = await apiFetch(`${API_URL}/settings`);
+      if (!response.ok) throw new Error('Failed to fetch settings');
+
+      return await response.json();
+    } catch (error) {
+      console.error('Error fetching settings:', error);
+      return { costingMethod: 'WEIGHTED_AVERAGE', negativeStockPolicy: 'WARN', numberSeries: DEFAULT_NUMBER_SERIES };
+    }
+  },
+
+  // UPDATE business settings
+  async saveSettings(changes: Partial<BusinessSettings>): Promise<BusinessSettings> {
+    try {
+      const response = await apiFetch(`${API_URL}/settings`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(changes),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.message || 'Failed to save settings');
+
+      return data.settings;
+    } catch (error) {
+      console.error('Error saving settings:', error);
+      throw error;
+    }
+  },
+
+  // Sends a test message with the saved mail settings; returns who it went to
+  async sendTestEmail(to?: string): Promise<string> {
+    try {
+      const response = await apiFetch(`${API_URL}/settings/email/test`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ to }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.message || 'Failed to send the test email');
+
+      return data.sentTo;
+    } catch (error) {
+      console.error('Error sending test email:', error);
+      throw error;
+    }
+  },
+
+  // GET payments recorded against an invoice
+  async getPayments(invoiceId: string): Promise<Payment[]> {
+    try {
+      const response = await apiFetch(`${API_URL}/payments?invoiceId=${encodeURIComponent(invoiceId)}`);
+      if (!response.ok) throw new Error('Failed to fetch payments');
+
+      return await response.json();
+    } catch (error) {
+      console.error('Error fetching payments:', error);
+      return [];
+    }
+  },
+
+  // RECORD a payment; returns the invoice with its re-derived balance and status
+  async savePayment(payment: Payment): Promise<{ payment: Payment; transaction: Invoice }> {
+    try {
+      const response = await apiFetch(`${API_URL}/payments`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payment),
+      });
+
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.message || 'Failed to save payment');
+
+      return data;
+    } catch (error) {
+      console.error('Error saving payment:', error);
+      throw error;
+    }
+  },
+
+  // DELETE a payment; returns the updated invoice
+  async deletePayment(id: string): Promise<Invoice> {
+    try {
+      const response = await apiFetch(`${API_URL}/payments/${id}`, {
+        method: 'DELETE',
+      });
+
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.message || 'Failed to delete payment');
+
+      return data.transaction;
+    } catch (error) {
+      console.error('Error deleting payment:', error);
+      throw error;
+    }
+  },
+
+  // GET GSTR-1 / GSTR-3B for a month (YYYY-MM)
+  async getGstReturns(period: string): Promise<GstReturnsResult> {
+    try {
+      const response = await apiFetch(`${API_URL}/gst/returns?period=${encodeURIComponent(period)}`);
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.message || 'Failed to build GST returns');
+
+      return data;
+    } catch (error) {
+      console.error('Error building GST returns:', error);
+      throw error;
+    }
+  },
+
+  // CHECK an import without writing anything; returns every problem found
+  async checkImport(data: ImportData): Promise<ImportError[]> {
+    try {
+      const response = await apiFetch(`${API_URL}/import`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...data, dryRun: true }),
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.message || 'Failed to check the import');
+
+      return result.errors;
+    } catch (error) {
+      console.error('Error checking import:', error);
+      throw error;
+    }
+  },
+
+  // POST an import: all of it is saved, or none of it when a row has a problem
+  async importData(data: ImportData): Promise<ImportResult> {
+    try {
+      const response = await apiFetch(`${API_URL}/import`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data),
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.message || 'Failed to import');
+
+      return result;
+    } catch (error) {
+      console.error('Error importing:', error);
+      throw error;
+    }
+  },
+
+  // GET audit entries, newest first; blank filters are left out
+  async getAuditLog(filters: AuditFilters): Promise<AuditEntry[]> {
+    try {
+      const params = new URLSearchParams();
+      for (const [key, value] of Object.entries(filters)) {
+        if (value) params.set(key, value);
+      }
+      const response = await apiFetch(`${API_URL}/audit?${params}`);
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.message || 'Failed to fetch the audit trail');
+
+      return data;
     } catch (error) {
-      console.error('Error updating inventory:', error);
+      console.error('Error fetching audit trail:', error);
       throw error;
     }
   }
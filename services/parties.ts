@@ -0,0 +1,18 @@
+import { Party, PartyType, TransactionType } from '../types';
+import { partySide } from './documents';
+
+export const PARTY_TYPES: { value: PartyType; label: string }[] = [
+  { value: 'CUSTOMER', label: 'Customer' },
+  { value: 'VENDOR', label: 'Vendor' },
+  { value: 'BOTH', label: 'Customer & Vendor' },
+];
+
+// "  Rahul  Sharma " and "rahul sharma" are the same party
+export const normalizePartyName = (name: string) => name.trim().replace(/\s+/g, ' ').toLowerCase();
+
+export const findPartyByName = (parties: Party[], name: string) =>
+  parties.find(p => normalizePartyName(p.name) === normalizePartyName(name));
+
+// Customers appear on bills and quotations, vendors on purchase invoices and orders
+export const partyMatchesType = (party: Party, type: TransactionType) =>
+  party.type === 'BOTH' || party.type === (partySide(type) === 'SALE' ? 'CUSTOMER' : 'VENDOR');
@@ -0,0 +1,62 @@
+import { Invoice, InvoiceStatus, PaymentMode } from '../types';
+import { isNoteType } from './documents';
+
+export const PAYMENT_MODES: { value: PaymentMode; label: string }[] = [
+  { value: 'CASH', label: 'Cash' },
+  { value: 'UPI', label: 'UPI' },
+  { value: 'CHEQUE', label: 'Cheque' },
+  { value: 'BANK', label: 'Bank Transfer' },
+  { value: 'CARD', label: 'Card' },
+  { value: 'OTHER', label: 'Other' },
+];
+
+// Credit / debit notes settle part of the invoice they were raised against and owe nothing themselves
+export const getBalanceDue = (invoice: Invoice) =>
+  isNoteType(invoice.type)
+    ? 0
+    : Math.max(Math.round((invoice.totalAmount - (invoice.amountPaid || 0) - (invoice.amountCredited || 0)) * 100) / 100, 0);
+
+// Drafts aren't owed yet, everything else with a balance is
+export const isOutstanding = (invoice: Invoice) =>
+  invoice.status !== InvoiceStatus.DRAFT && getBalanceDue(invoice) > 0;
+
+export const AGING_BUCKETS = ['0-30', '31-60', '61-90', '90+'] as const;
+export type AgingBucket = typeof AGING_BUCKETS[number];
+
+export interface AgingRow {
+  partyName: string;
+  buckets: Record<AgingBucket, number>;
+  total: number;
+}
+
+const emptyBuckets = (): Record<AgingBucket, number> => ({ '0-30': 0, '31-60': 0, '61-90': 0, '90+': 0 });
+
+const bucketFor = (days: number): AgingBucket =>
+  days <= 30 ? '0-30' : days <= 60 ? '31-60' : days <= 90 ? '61-90' : '90+';
+
+// Outstanding balances by party, aged by days past the due date (or invoice date if none)
+export const buildAgingReport = (invoices: Invoice[], type: Invoice['type'], asOf = new Date()) => {
+  const rows: Record<string, AgingRow> = {};
+  const totals = emptyBuckets();
+
+  for (const inv of invoices) {
+    if (inv.type !== type || !isOutstanding(inv)) continue;
+
+    const from = new Date(inv.dueDate || inv.date);
+    const days = Math.max(Math.floor((asOf.getTime() - from.getTime()) / 86400000), 0);
+    const bucket = bucketFor(days);
+    const balance = getBalanceDue(inv);
+
+    const key = inv.partyId || inv.partyName;
+    if (!rows[key]) rows[key] = { partyName: inv.partyName, buckets: emptyBuckets(), total: 0 };
+    rows[key].buckets[bucket] += balance;
+    rows[key].total += balance;
+    totals[bucket] += balance;
+  }
+
+  return {
+    rows: Object.values(rows).sort((a, b) => b.total - a.total),
+    totals,
+    grandTotal: Object.values(totals).reduce((sum, v) => sum + v, 0),
+  };
+};
@@ -0,0 +1,23 @@
+import { Product } from '../types';
+
+export const UNITS = ['NOS', 'PCS', 'BOX', 'SET', 'PAIR', 'DOZ', 'KG', 'G', 'L', 'ML', 'M'];
+
+// Matches name, SKU or barcode
+export const searchProducts = (products: Product[], term: string, limit = 8) => {
+  const t = term.trim().toLowerCase();
+  if (!t) return products.slice(0, limit);
+  return products
+    .filter(p =>
+      p.name.toLowerCase().includes(t) ||
+      p.sku.toLowerCase().includes(t) ||
+      (p.barcode || '').toLowerCase() === t
+    )
+    .slice(0, limit);
+};
+
+// A scanned barcode or typed SKU should select the product outright
+export const findExactProduct = (products: Product[], code: string) => {
+  const c = code.trim().toLowerCase();
+  if (!c) return undefined;
+  return products.find(p => (p.barcode || '').toLowerCase() === c || p.sku.toLowerCase() === c);
+};
@@ -0,0 +1,80 @@
+import { InventoryItem, Invoice, LineItem } from '../types';
+
+export interface ProductMargin {
+  key: string;
+  name: string;
+  quantity: number;
+  revenue: number;
+  cogs: number;
+  grossProfit: number;
+  margin: number; // % of revenue
+}
+
+export interface ProfitSummary {
+  revenue: number; // Net of GST
+  cogs: number;
+  grossProfit: number;
+  grossMargin: number; // % of revenue
+  cashFlow: number; // Sales billed minus purchases billed, net of returns; the old "net profit"
+  byProduct: ProductMargin[];
+}
+
+// Sales revenue is taken net of GST, matching how stock is costed
+export const getLineRevenue = (item: LineItem) => item.taxableValue ?? item.quantity * item.price;
+
+// The server records cost of goods sold when the sale is posted; until then,
+// fall back to the item's current cost
+export const getLineCogs = (item: LineItem, fallbackUnitCost = 0) => item.cogs ?? item.quantity * fallbackUnitCost;
+
+const marginOf = (profit: number, revenue: number) => (revenue > 0 ? (profit / revenue) * 100 : 0);
+
+// Credit notes take their revenue and cost of goods back out; drafts haven't
+// happened yet and count for nothing
+export const buildProfitSummary = (transactions: Invoice[], inventory: InventoryItem[] = []): ProfitSummary => {
+  const stockByKey = new Map(inventory.map(i => [i.id, i]));
+  const products: Record<string, ProductMargin> = {};
+  let revenue = 0;
+  let cogs = 0;
+  let sales = 0;
+  let purchases = 0;
+
+  for (const t of transactions) {
+    if (t.status === 'Draft') continue;
+    if (t.type === 'PURCHASE' || t.type === 'DEBIT_NOTE') {
+      purchases += (t.type === 'PURCHASE' ? 1 : -1) * t.totalAmount;
+      continue;
+    }
+    if (t.type !== 'SALE' && t.type !== 'CREDIT_NOTE') continue;
+    const sign = t.type === 'SALE' ? 1 : -1;
+    sales += sign * t.totalAmount;
+
+    for (const item of t.items) {
+      const key = item.productId || item.description.trim().toLowerCase();
+      const lineRevenue = sign * getLineRevenue(item);
+      const stock = stockByKey.get(key);
+      const lineCogs = sign * getLineCogs(item, stock?.averageCost);
+
+      if (!products[key]) {
+        products[key] = { key, name: stock?.name || item.description, quantity: 0, revenue: 0, cogs: 0, grossProfit: 0, margin: 0 };
+      }
+      products[key].quantity += sign * item.quantity;
+      products[key].revenue += lineRevenue;
+      products[key].cogs += lineCogs;
+      revenue += lineRevenue;
+      cogs += lineCogs;
+    }
+  }
+
+  const byProduct = Object.values(products)
+    .map(p => ({ ...p, grossProfit: p.revenue - p.cogs, margin: marginOf(p.revenue - p.cogs, p.revenue) }))
+    .sort((a, b) => b.grossProfit - a.grossProfit);
+
+  return {
+    revenue,
+    cogs,
+    grossProfit: revenue - cogs,
+    grossMargin: marginOf(revenue - cogs, revenue),
+    cashFlow: sales - purchases,
+    byProduct,
+  };
+};
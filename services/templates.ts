@@ -0,0 +1,48 @@
+import { EmailTemplate, InvoiceTemplateId, InvoiceTemplateSettings } from '../types';
+
+export interface TemplateInfo {
+  name: string;
+  description: string;
+  accentColor: string; // Used when the business hasn't picked one
+}
+
+export const INVOICE_TEMPLATES: Record<InvoiceTemplateId, TemplateInfo> = {
+  CLASSIC: { name: 'Classic', description: 'Black and white with ruled sections.', accentColor: '#000000' },
+  MODERN: { name: 'Modern', description: 'Coloured header band and shaded item table.', accentColor: '#4f46e5' },
+  COMPACT_GST: { name: 'Compact GST', description: 'Boxed grid in small print with a tax breakup per GST rate; fits the most lines on a page.', accentColor: '#334155' },
+};
+
+// Matches the server defaults in server/models.js
+export const DEFAULT_INVOICE_TEMPLATE: InvoiceTemplateSettings = {
+  templates: {
+    SALE: 'CLASSIC',
+    PURCHASE: 'CLASSIC',
+    QUOTATION: 'CLASSIC',
+    PURCHASE_ORDER: 'CLASSIC',
+    CREDIT_NOTE: 'CLASSIC',
+    DEBIT_NOTE: 'CLASSIC',
+  },
+  showHsn: true,
+  showDiscount: true,
+  showSignature: true,
+  showTerms: true,
+};
+
+// Saved template settings over the defaults, for settings saved before templates existed
+export const resolveInvoiceTemplate = (saved?: Partial<InvoiceTemplateSettings>): InvoiceTemplateSettings => ({
+  ...DEFAULT_INVOICE_TEMPLATE,
+  ...saved,
+  templates: { ...DEFAULT_INVOICE_TEMPLATE.templates, ...saved?.templates },
+});
+
+export const accentColorFor = (template: InvoiceTemplateSettings, id: InvoiceTemplateId) =>
+  template.accentColor || INVOICE_TEMPLATES[id].accentColor;
+
+// Matches the server defaults in server/models.js
+export const DEFAULT_EMAIL_TEMPLATE: EmailTemplate = {
+  subject: '{document} {number} from {business}',
+  body: 'Dear {party},\n\nPlease find attached {document} {number} for {amount}, due on {dueDate}.\n\nRegards,\n{business}',
+};
+
+// Filled in by the server when the email goes out
+export const EMAIL_PLACEHOLDERS = ['{party}', '{document}', '{number}', '{amount}', '{balance}', '{date}', '{dueDate}', '{business}'];
@@ -2,45 +2,413 @@
 export enum InvoiceStatus {
   DRAFT = 'Draft',
   PENDING = 'Pending',
+  PARTIALLY_PAID = 'Partially Paid',
   PAID = 'Paid',
-  OVERDUE = 'Overdue'
+  OVERDUE = 'Overdue',
+  // Quotations and purchase orders
+  OPEN = 'Open',
+  ACCEPTED = 'Accepted',
+  PARTIALLY_CONVERTED = 'Partially Converted',
+  CONVERTED = 'Converted',
+  CANCELLED = 'Cancelled',
+  // Credit and debit notes
+  ISSUED = 'Issued'
 }
 
 // User Logic: 
 // PURCHASE = "Invoice" (Buying stock)
 // SALE = "Bill" (Selling to customer)
-export type TransactionType = 'PURCHASE' | 'SALE';
+// QUOTATION and PURCHASE_ORDER never touch stock; they convert into a SALE or PURCHASE
+// CREDIT_NOTE returns goods from a SALE, DEBIT_NOTE returns goods on a PURCHASE to the vendor
+export type TransactionType = 'PURCHASE' | 'SALE' | 'QUOTATION' | 'PURCHASE_ORDER' | 'CREDIT_NOTE' | 'DEBIT_NOTE';
 
 export interface LineItem {
   id: string;
+  productId?: string; // Catalog product; older lines are linked by the server migration
   description: string;
   quantity: number;
   price: number;
+  discount?: number; // Percentage off the price, before GST
+  hsnCode?: string; // HSN (goods) or SAC (services) code
+  gstRate?: number; // GST percentage, e.g. 18
+  // Tax breakup, filled in by calculateLineTax (services/gst.ts)
+  taxableValue?: number;
+  cgst?: number;
+  sgst?: number;
+  igst?: number;
+  lineTotal?: number;
+  // Set by the server when stock is posted
+  cogs?: number; // Cost of goods sold on sale lines; cost of the goods taken back on credit notes
+  costLayers?: { layerId: string | null; quantity: number; unitCost: number }[]; // FIFO layers created or consumed
+  sourceLineId?: string; // Quotation / purchase order line this was converted from, or invoice line being returned
+  convertedQuantity?: number; // On quotation / purchase order lines, maintained by the server
+  locationId?: string; // Stock location the goods come from or go to; defaults to the document's
 }
 
 export interface Invoice {
   id: string;
   type: TransactionType;
-  invoiceNumber: string; 
-  partyName: string; // Vendor Name (Purchase) or Customer Name (Sale)
+  invoiceNumber: string; // Allocated by the server for everything but purchase invoices
+  financialYear?: string; // e.g. "2025-26", set by the server
+  partyId?: string; // Party master record (older records are linked by the server migration)
+  partyName: string; // Vendor Name (Purchase) or Customer Name (Sale), as printed
+  locationId?: string; // Default stock location for the lines
   date: string;
   dueDate: string;
   status: InvoiceStatus;
   items: LineItem[];
-  totalAmount: number;
+  totalAmount: number; // Grand total including tax
   notes?: string;
+  // GST
+  placeOfSupply?: string; // GST state code of the party, decides CGST/SGST vs IGST
+  partyGstin?: string;
+  taxInclusive?: boolean; // true when line prices already include GST
+  taxableAmount?: number;
+  cgstAmount?: number;
+  sgstAmount?: number;
+  igstAmount?: number;
+  totalTax?: number;
+  amountPaid?: number; // Sum of recorded payments, maintained by the server
+  amountCredited?: number; // Sum of credit / debit notes against this invoice, maintained by the server
+  // Set on bills and invoices converted from a quotation or purchase order, and on
+  // credit / debit notes to the invoice they return goods from
+  sourceDocumentId?: string;
+  sourceDocumentNumber?: string;
+  emails?: EmailLogEntry[]; // Every time it was emailed, maintained by the server
 }
 
-export interface InventoryItem {
+export interface EmailLogEntry {
+  at: string;
+  to: string;
+  subject: string;
+  userId?: string;
+  userName?: string;
+  status: 'SENT' | 'FAILED';
+  error?: string; // What the mail server said
+}
+
+export type PartyType = 'CUSTOMER' | 'VENDOR' | 'BOTH';
+
+export interface Party {
   id: string;
   name: string;
+  type: PartyType;
+  gstin?: string;
+  billingAddress?: string;
+  shippingAddress?: string;
+  phone?: string;
+  email?: string;
+  state?: string; // GST state code
+  paymentTermsDays?: number;
+  creditLimit?: number; // 0 = no limit
+}
+
+export type PaymentMode = 'CASH' | 'UPI' | 'CHEQUE' | 'BANK' | 'CARD' | 'OTHER';
+
+export interface Payment {
+  id: string;
+  invoiceId: string;
+  date: string;
+  amount: number;
+  mode: PaymentMode;
+  reference?: string;
+  notes?: string;
+}
+
+export interface Product {
+  id: string;
+  sku: string;
+  name: string;
+  barcode?: string;
+  hsnCode?: string;
+  unit: string;
+  gstRate?: number;
+  purchasePrice: number; // Default price on purchase invoices
+  sellingPrice: number; // Default price on bills
+  category?: string;
+  // Replenishment
+  reorderLevel?: number; // Reorder when stock falls to this
+  reorderQuantity?: number; // Usual quantity to buy
+  preferredVendorId?: string;
+}
+
+export interface InventoryItem {
+  id: string; // Product id
+  sku?: string;
+  name: string;
   quantity: number;
-  averageCost: number;
+  averageCost: number; // Under FIFO, the per-unit cost of the remaining layers
   sellingPrice: number;
   lastUpdated: string;
+  layers?: CostLayer[]; // FIFO only, oldest first
+  reorderLevel: number; // From the product, or DEFAULT_REORDER_LEVEL
+  byLocation: Record<string, number>; // Quantity per location id; sums to quantity
+}
+
+// Where stock is kept, e.g. the shop and the godown
+export interface Location {
+  id: string;
+  name: string;
+  address?: string;
+  isDefault?: boolean; // Preselected on new documents; exactly one location has it
+}
+
+export interface TransferLine {
+  id: string;
+  productId: string;
+  description: string;
+  quantity: number;
+}
+
+// Moves stock between locations without changing its total or cost
+export interface StockTransfer {
+  id: string;
+  transferNumber: string; // Allocated by the server, e.g. "TR/2025-26/0001"
+  date: string;
+  fromLocationId: string;
+  toLocationId: string;
+  items: TransferLine[];
+  notes?: string;
+}
+
+export type CostingMethod = 'WEIGHTED_AVERAGE' | 'FIFO';
+
+export interface CostLayer {
+  sourceId: string;
+  date: string;
+  remaining: number;
+  unitCost: number;
+}
+
+export interface StocktakeLine {
+  productId: string;
+  name: string;
+  sku?: string;
+  locationId: string;
+  systemQuantity: number; // Book quantity when the count started
+  countedQuantity?: number | null; // Unset until counted; uncounted lines aren't adjusted
+  unitCost?: number; // Set when posted
+  adjustment?: number; // Set when posted: counted less system
+}
+
+// Physical stock count; posting books each difference as an ADJUSTMENT movement
+export interface Stocktake {
+  id: string;
+  stocktakeNumber: string; // Allocated by the server, e.g. "ST/2025-26/0001"
+  date: string;
+  locationId?: string; // Unset when every location is counted
+  category?: string; // Unset when every category is counted
+  status: 'Counting' | 'Posted';
+  lines: StocktakeLine[];
+  notes?: string;
+  postedAt?: string;
+}
+
+// Spreadsheet import: parties, opening stock and past documents, posted together
+export type ImportSection = 'PARTIES' | 'OPENING_STOCK' | 'TRANSACTIONS';
+
+// Row numbers are the row in the file, the header being row 1
+export interface ImportError {
+  section: ImportSection;
+  row?: number | null; // Unset for problems with the whole section
+  message: string;
+}
+
+export interface ImportedDocument extends Invoice {
+  row: number; // First row of the document
+  items: (LineItem & { row: number })[];
+  payment?: { amount: number; mode: PaymentMode }; // Received in full on the document date
+}
+
+export interface ImportData {
+  parties: (Party & { row: number })[];
+  products: (Product & { row: number })[]; // New catalog products named in the opening stock
+  openingStock?: {
+    date: string;
+    lines: { row: number; productId: string; locationId: string; quantity: number; unitCost: number }[];
+  };
+  transactions: ImportedDocument[];
+}
+
+// What an import created; opening stock is a posted stock count
+export interface ImportResult {
+  parties: Party[];
+  products: Product[];
+  stocktake: Stocktake | null;
+  transactions: Invoice[];
 }
 
-export type ViewState = 'DASHBOARD' | 'PURCHASES' | 'SALES' | 'INVENTORY' | 'CREATE_PURCHASE' | 'CREATE_SALE' | 'EDIT' | 'SETTINGS' | 'REPORTS';
+export type NegativeStockPolicy = 'BLOCK' | 'WARN' | 'ALLOW';
+
+// Document types numbered by the server; purchase invoices carry the vendor's number
+export type NumberedType = Exclude<TransactionType, 'PURCHASE'>;
+
+export interface NumberSeries {
+  prefix: string; // "{FY}" is replaced by the financial year, e.g. "INV/{FY}/"
+  padding: number; // Digits in the running number
+}
+
+// Who the business is, as printed on its bills
+export interface BusinessProfile {
+  legalName?: string;
+  address?: string;
+  gstin?: string; // Also used for the GST returns
+  state?: string; // GST state code the business is registered in
+  phone?: string;
+  email?: string;
+  logo?: string; // Image data URL
+  signature?: string; // Image data URL, printed above "Authorised Signatory"
+}
+
+// Where customers pay, printed on bills
+export interface BankDetails {
+  accountName?: string;
+  bankName?: string;
+  accountNumber?: string;
+  ifsc?: string;
+  branch?: string;
+  upiId?: string;
+}
+
+export type InvoiceTemplateId = 'CLASSIC' | 'MODERN' | 'COMPACT_GST';
+
+// How printed bills look; the designs are in components/PrintableBill.tsx
+export interface InvoiceTemplateSettings {
+  templates: Record<TransactionType, InvoiceTemplateId>; // Design used for each document type
+  showHsn: boolean;
+  showDiscount: boolean; // Only printed when a line has a discount
+  showSignature: boolean;
+  showTerms: boolean;
+  headerText?: string; // Line under the business name, e.g. a tagline
+  footerText?: string; // Replaces "Thank you for your business!"
+  accentColor?: string; // Hex colour; blank uses the design's own
+}
+
+// Outgoing mail server for emailing documents
+export interface SmtpSettings {
+  host?: string; // Blank turns email off
+  port?: number;
+  secure?: boolean; // TLS from the start, usually port 465; otherwise STARTTLS when offered
+  username?: string;
+  password?: string; // Only sent when changing it; the server never returns it
+  hasPassword?: boolean; // Set by the server
+  fromName?: string;
+  fromEmail?: string;
+  allowSelfSigned?: boolean; // For local and test servers
+}
+
+// Subject and message prefilled when emailing a document, with {placeholders}
+export interface EmailTemplate {
+  subject: string;
+  body: string;
+}
+
+export interface BusinessSettings {
+  costingMethod: CostingMethod;
+  negativeStockPolicy: NegativeStockPolicy; // What happens when a sale exceeds stock on hand
+  numberSeries: Record<NumberedType, NumberSeries>; // Running numbers reset every April
+  profile?: BusinessProfile;
+  bank?: BankDetails;
+  defaultPaymentTermsDays?: number; // For parties without their own terms
+  defaultNotes?: string; // Prefilled on new documents
+  terms?: string; // Printed at the foot of every bill
+  invoiceTemplate?: InvoiceTemplateSettings;
+  smtp?: SmtpSettings;
+  emailTemplate?: EmailTemplate;
+}
+
+export interface StockShortage {
+  productId: string;
+  name: string;
+  locationId: string;
+  locationName: string;
+  requested: number;
+  available: number;
+}
+
+export type StockMovementType = 'PURCHASE' | 'SALE' | 'RETURN' | 'ADJUSTMENT' | 'TRANSFER';
+
+// Append-only; corrections are posted as reversal rows, never edits
+export interface StockMovement {
+  id: string;
+  productId: string;
+  locationId?: string; // Unset on movements recorded before locations existed
+  date: string;
+  type: StockMovementType;
+  qtyIn: number;
+  qtyOut: number;
+  unitCost: number;
+  balance: number; // Running quantity after this movement, all locations
+  locationBalance?: number; // Running quantity at the movement's location
+  sourceType?: string;
+  sourceId?: string;
+  sourceNumber?: string;
+  isReversal?: boolean;
+  notes?: string;
+  createdAt?: string;
+}
+
+// A firm whose books are kept in this installation; all other records belong to one
+export interface Business {
+  id: string;
+  name: string;
+}
+
+export type UserRole = 'OWNER' | 'ACCOUNTANT' | 'CASHIER';
+
+// What a role may do beyond billing, payments and stock work; granted per role by the server
+export type Permission = 'DELETE_RECORDS' | 'EDIT_POSTED' | 'VIEW_COSTS' | 'MANAGE_SETTINGS';
+
+export interface User {
+  id: string;
+  name: string;
+  username: string;
+  role: UserRole;
+  businessIds?: string[]; // Businesses a non-owner may work in; owners work in all
+  active?: boolean; // Inactive users can't sign in
+  password?: string; // Only sent when setting one, never returned
+}
+
+export interface AuthSession {
+  user: User;
+  permissions: Permission[];
+}
+
+export type AuditAction = 'CREATE' | 'UPDATE' | 'DELETE';
+
+export type AuditEntityType = 'TRANSACTION' | 'PAYMENT' | 'PRODUCT' | 'PARTY' | 'LOCATION' | 'TRANSFER' | 'STOCKTAKE' | 'SETTINGS' | 'USER' | 'BUSINESS';
+
+// One changed field; paths look like "items[<line id>].price"
+export interface AuditChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface AuditEntry {
+  id: string;
+  at: string;
+  userId?: string;
+  userName?: string;
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId: string;
+  parentId?: string; // The document a payment belongs to
+  label?: string;
+  changes: AuditChange[];
+}
+
+export interface AuditFilters {
+  entityType?: AuditEntityType | '';
+  entityId?: string;
+  userId?: string;
+  action?: AuditAction | '';
+  search?: string;
+  from?: string;
+  to?: string;
+}
+
+export type ViewState = 'DASHBOARD' | 'PURCHASES' | 'SALES' | 'INVENTORY' | 'CREATE_PURCHASE' | 'CREATE_SALE' | 'EDIT' | 'SETTINGS' | 'REPORTS' | 'PARTIES' | 'PRODUCTS' | 'REORDER' | 'QUOTATIONS' | 'PURCHASE_ORDERS' | 'CREATE_QUOTATION' | 'CREATE_PURCHASE_ORDER' | 'CREDIT_NOTES' | 'DEBIT_NOTES' | 'CREATE_CREDIT_NOTE' | 'CREATE_DEBIT_NOTE' | 'TRANSFERS' | 'STOCKTAKE' | 'AUDIT' | 'IMPORT';
 
 export interface AIAnalysisResult {
   vendorName: string;
@@ -50,6 +418,28 @@ export interface AIAnalysisResult {
   items: { description: string; quantity: number; price: number }[];
 }
 
+export interface GstReturnIssue {
+  returnType: 'GSTR1' | 'GSTR3B';
+  invoiceId: string | null; // null for business-level problems
+  invoiceNumber: string;
+  partyName: string;
+  messages: string[];
+}
+
+export interface Gstr3bSummary {
+  outputTax: number;
+  inputTaxCredit: number;
+  netPayable: number;
+  payable: { iamt: number; camt: number; samt: number };
+}
+
+export interface GstReturnsResult {
+  period: string; // YYYY-MM
+  issues: GstReturnIssue[];
+  gstr1: Record<string, unknown>; // Offline tool JSON, exported as-is
+  gstr3b: Record<string, unknown> & { summary: Gstr3bSummary };
+}
+
 export interface ChatMessage {
   role: 'user' | 'model';
   content: string;